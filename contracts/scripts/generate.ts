@@ -0,0 +1,240 @@
+/**
+ * @file contracts/scripts/generate.ts
+ * @description Generates the typed bindings in contracts/src from the Foundry builds
+ *
+ * Reads the ABIs from `<project>/out/<Source>.sol/<Contract>.json` and deployed
+ * addresses from `<project>/broadcast/<Script>/<chainId>/run-latest.json`, and writes
+ * them as `as const` TypeScript so viem infers function, event and error types.
+ *
+ * Usage (after `forge build` in onchain/ and hooks/):
+ *   npm run contracts:generate   # rewrite contracts/src/abis and deployments.ts
+ *   npm run contracts:check      # exit 1 if they differ from the artifacts
+ *
+ * Why this exists:
+ * - The backend and frontend each kept hand-written ABIs, which drifted from the contracts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const REPO_ROOT = path.resolve(__dirname, '..', '..');
+const OUTPUT_DIR = path.join(REPO_ROOT, 'contracts', 'src');
+
+/**
+ * Contracts to generate bindings for
+ */
+const CONTRACTS = [
+  { name: 'Auction', project: 'onchain', source: 'Auction.sol', constName: 'AUCTION_ABI' },
+  { name: 'LeaderFeeHook', project: 'hooks', source: 'LeaderFeeHook.sol', constName: 'LEADER_FEE_HOOK_ABI' },
+  { name: 'Permit2Router', project: 'hooks', source: 'Permit2Router.sol', constName: 'PERMIT2_ROUTER_ABI' },
+];
+
+interface AbiParameter {
+  name?: string;
+  type: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
+}
+
+interface AbiItem {
+  type: string;
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: string;
+  anonymous?: boolean;
+}
+
+interface BroadcastTransaction {
+  transactionType: string;
+  contractName: string | null;
+  contractAddress: string | null;
+}
+
+// Artifact order differs between solc and forge versions; sorting keeps the output stable
+const TYPE_ORDER = ['constructor', 'fallback', 'receive', 'function', 'event', 'error'];
+
+// ============================================
+// ABI normalization
+// ============================================
+
+/**
+ * Keep only what viem uses, in a fixed key order (drops internalType)
+ */
+function normalizeParameter(param: AbiParameter): AbiParameter {
+  const normalized: AbiParameter = { name: param.name ?? '', type: param.type };
+  if (param.indexed !== undefined) {
+    normalized.indexed = param.indexed;
+  }
+  if (param.components) {
+    normalized.components = param.components.map(normalizeParameter);
+  }
+  return normalized;
+}
+
+function normalizeItem(item: AbiItem): AbiItem {
+  const normalized: AbiItem = { type: item.type };
+  if (item.name !== undefined) normalized.name = item.name;
+  if (item.inputs) normalized.inputs = item.inputs.map(normalizeParameter);
+  if (item.outputs) normalized.outputs = item.outputs.map(normalizeParameter);
+  if (item.stateMutability !== undefined) normalized.stateMutability = item.stateMutability;
+  if (item.anonymous !== undefined) normalized.anonymous = item.anonymous;
+  return normalized;
+}
+
+function compareItems(a: AbiItem, b: AbiItem): number {
+  const byType = TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type);
+  if (byType !== 0) return byType;
+  const aName = a.name ?? '';
+  const bName = b.name ?? '';
+  if (aName !== bName) return aName < bName ? -1 : 1;
+  // Overloads: order by their inputs
+  return JSON.stringify(a.inputs ?? []).localeCompare(JSON.stringify(b.inputs ?? []));
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+function isPrimitive(value: unknown): boolean {
+  return value === null || typeof value !== 'object';
+}
+
+/**
+ * TypeScript literal with single quotes and 2-space indentation
+ * (objects of plain values, like most ABI parameters, stay on one line)
+ */
+function toLiteral(value: unknown, indent = ''): string {
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map((entry) => `${inner}${toLiteral(entry, inner)}`).join(',\n')},\n${indent}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).map(([key, entry]) => {
+      const safeKey = /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+      return [safeKey, entry] as const;
+    });
+    if (entries.length === 0) return '{}';
+    if (entries.every(([, entry]) => isPrimitive(entry))) {
+      return `{ ${entries.map(([key, entry]) => `${key}: ${toLiteral(entry)}`).join(', ')} }`;
+    }
+    const lines = entries.map(([key, entry]) => `${inner}${key}: ${toLiteral(entry, inner)}`);
+    return `{\n${lines.join(',\n')},\n${indent}}`;
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  return String(value);
+}
+
+function header(sources: string[]): string {
+  return [
+    '// Generated by contracts/scripts/generate.ts — do not edit.',
+    `// Source: ${sources.join(', ')}`,
+    '',
+  ].join('\n');
+}
+
+function renderAbi(contract: (typeof CONTRACTS)[number]): string {
+  const artifactPath = path.join(contract.project, 'out', contract.source, `${contract.name}.json`);
+  const fullPath = path.join(REPO_ROOT, artifactPath);
+  if (!fs.existsSync(fullPath)) {
+    throw new Error(`Missing artifact ${artifactPath}. Run \`forge build\` in ${contract.project}/ first.`);
+  }
+
+  const artifact = JSON.parse(fs.readFileSync(fullPath, 'utf8')) as { abi: AbiItem[] };
+  const abi = artifact.abi.map(normalizeItem).sort(compareItems);
+
+  return `${header([artifactPath])}\nexport const ${contract.constName} = ${toLiteral(abi)} as const;\n`;
+}
+
+/**
+ * Latest deployed address of each bound contract, per chain
+ * Why: broadcasts are read in script-name order, so when two scripts deploy the
+ * same contract the result doesn't depend on directory listing order.
+ */
+function renderDeployments(): string {
+  const names = new Set(CONTRACTS.map((contract) => contract.name));
+  const deployments: Record<string, Record<string, string>> = {};
+  const sources: string[] = [];
+
+  for (const project of Array.from(new Set(CONTRACTS.map((contract) => contract.project))).sort()) {
+    const broadcastDir = path.join(REPO_ROOT, project, 'broadcast');
+    if (!fs.existsSync(broadcastDir)) continue;
+
+    for (const script of fs.readdirSync(broadcastDir).sort()) {
+      for (const chainId of fs.readdirSync(path.join(broadcastDir, script)).sort()) {
+        const runPath = path.join(project, 'broadcast', script, chainId, 'run-latest.json');
+        const fullPath = path.join(REPO_ROOT, runPath);
+        if (!fs.existsSync(fullPath)) continue;
+
+        const run = JSON.parse(fs.readFileSync(fullPath, 'utf8')) as { transactions: BroadcastTransaction[] };
+        for (const tx of run.transactions) {
+          const isDeploy = tx.transactionType === 'CREATE' || tx.transactionType === 'CREATE2';
+          if (isDeploy && tx.contractName && names.has(tx.contractName) && tx.contractAddress) {
+            deployments[chainId] = { ...deployments[chainId], [tx.contractName]: tx.contractAddress };
+            sources.push(runPath);
+          }
+        }
+      }
+    }
+  }
+
+  const sorted = Object.fromEntries(
+    Object.keys(deployments)
+      .sort((a, b) => Number(a) - Number(b))
+      .map((chainId) => [chainId, deployments[chainId]]),
+  );
+
+  return [
+    header(sources.length > 0 ? Array.from(new Set(sources)) : ['no broadcasts of the bound contracts yet']),
+    `export const DEPLOYMENTS: Record<number, Record<string, \`0x\${string}\`>> = ${toLiteral(sorted)};`,
+    '',
+  ].join('\n');
+}
+
+// ============================================
+// Main
+// ============================================
+
+function main() {
+  const check = process.argv.includes('--check');
+
+  const files: Record<string, string> = {};
+  for (const contract of CONTRACTS) {
+    files[path.join('abis', `${contract.name}.ts`)] = renderAbi(contract);
+  }
+  files['deployments.ts'] = renderDeployments();
+
+  const stale: string[] = [];
+  for (const [file, content] of Object.entries(files)) {
+    const target = path.join(OUTPUT_DIR, file);
+    const current = fs.existsSync(target) ? fs.readFileSync(target, 'utf8') : null;
+    if (current === content) continue;
+
+    if (check) {
+      stale.push(path.relative(REPO_ROOT, target));
+    } else {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+      console.log(`✏️  Wrote ${path.relative(REPO_ROOT, target)}`);
+    }
+  }
+
+  if (stale.length > 0) {
+    console.error('❌ Contract bindings are out of date with the Foundry artifacts:');
+    stale.forEach((file) => console.error(`   - ${file}`));
+    console.error('   Run `npm run contracts:generate` and commit the result.');
+    process.exit(1);
+  }
+
+  console.log(check ? '✅ Contract bindings match the artifacts' : '✅ Contract bindings up to date');
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
@@ -0,0 +1,457 @@
+// Generated by contracts/scripts/generate.ts — do not edit.
+// Source: onchain/out/Auction.sol/Auction.json
+
+export const AUCTION_ABI = [
+  {
+    type: 'constructor',
+    inputs: [],
+    stateMutability: 'nonpayable',
+  },
+  { type: 'receive', stateMutability: 'payable' },
+  {
+    type: 'function',
+    name: 'BID_INTENT_TYPEHASH',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'bytes32' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'ROUND_DURATION',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'bid',
+    inputs: [
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'bidWithIntent',
+    inputs: [
+      {
+        name: 'intent',
+        type: 'tuple',
+        components: [
+          { name: 'bidder', type: 'address' },
+          { name: 'amount', type: 'uint256' },
+          { name: 'forRound', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      { name: 'signature', type: 'bytes' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'cancelBidIntent',
+    inputs: [
+      { name: 'nonce', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'currentLeader',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'address' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'currentRound',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'currentRoundPricePaid',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'currentRoundStart',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'depositCollateral',
+    inputs: [],
+    outputs: [],
+    stateMutability: 'payable',
+  },
+  {
+    type: 'function',
+    name: 'eip712Domain',
+    inputs: [],
+    outputs: [
+      { name: 'fields', type: 'bytes1' },
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+      { name: 'salt', type: 'bytes32' },
+      { name: 'extensions', type: 'uint256[]' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'hook',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'address' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'nextRoundHighestBid',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'nextRoundHighestBidder',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'address' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'nextRoundSecondBid',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'owner',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'address' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'renounceOwnership',
+    inputs: [],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'rentPool',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'resolveRound',
+    inputs: [],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'setHook',
+    inputs: [
+      { name: '_hook', type: 'address' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'settleSealedBids',
+    inputs: [
+      { name: 'winner', type: 'address' },
+      { name: 'winningBid', type: 'uint256' },
+      { name: 'secondBid', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'settler',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'address' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'transferOwnership',
+    inputs: [
+      { name: 'newOwner', type: 'address' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'updateSettler',
+    inputs: [
+      { name: '_newSettler', type: 'address' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'usedIntentNonces',
+    inputs: [
+      { name: '', type: 'address' },
+      { name: '', type: 'uint256' },
+    ],
+    outputs: [
+      { name: '', type: 'bool' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'userCollateral',
+    inputs: [
+      { name: '', type: 'address' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'withdrawCollateral',
+    inputs: [
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'withdrawRent',
+    inputs: [
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'event',
+    name: 'BidIntentCancelled',
+    inputs: [
+      { name: 'bidder', type: 'address', indexed: true },
+      { name: 'nonce', type: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'BidIntentRelayed',
+    inputs: [
+      { name: 'bidder', type: 'address', indexed: true },
+      { name: 'nonce', type: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'BidPlaced',
+    inputs: [
+      { name: 'bidder', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256' },
+      { name: 'forRound', type: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'CollateralDeposited',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256' },
+      { name: 'totalCollateral', type: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'CollateralWithdrawn',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256' },
+      { name: 'totalCollateral', type: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'EIP712DomainChanged',
+    inputs: [],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'HookUpdated',
+    inputs: [
+      { name: 'oldHook', type: 'address', indexed: true },
+      { name: 'newHook', type: 'address', indexed: true },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'LeadershipExpired',
+    inputs: [
+      { name: 'previousLeader', type: 'address', indexed: true },
+      { name: 'round', type: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'OwnershipTransferred',
+    inputs: [
+      { name: 'previousOwner', type: 'address', indexed: true },
+      { name: 'newOwner', type: 'address', indexed: true },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'RentCollected',
+    inputs: [
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256' },
+      { name: 'totalRentPool', type: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'RentWithdrawn',
+    inputs: [
+      { name: 'owner', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'RoundResolved',
+    inputs: [
+      { name: 'round', type: 'uint256', indexed: true },
+      { name: 'winner', type: 'address', indexed: true },
+      { name: 'pricePaid', type: 'uint256' },
+      { name: 'winningBid', type: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'SealedBidsSettled',
+    inputs: [
+      { name: 'forRound', type: 'uint256', indexed: true },
+      { name: 'winner', type: 'address', indexed: true },
+      { name: 'winningBid', type: 'uint256' },
+      { name: 'secondBid', type: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'SettlerUpdated',
+    inputs: [
+      { name: 'oldSettler', type: 'address', indexed: true },
+      { name: 'newSettler', type: 'address', indexed: true },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'error',
+    name: 'ECDSAInvalidSignature',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'ECDSAInvalidSignatureLength',
+    inputs: [
+      { name: 'length', type: 'uint256' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'ECDSAInvalidSignatureS',
+    inputs: [
+      { name: 's', type: 'bytes32' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'InvalidShortString',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'OwnableInvalidOwner',
+    inputs: [
+      { name: 'owner', type: 'address' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'OwnableUnauthorizedAccount',
+    inputs: [
+      { name: 'account', type: 'address' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'StringTooLong',
+    inputs: [
+      { name: 'str', type: 'string' },
+    ],
+  },
+] as const;
@@ -0,0 +1,560 @@
+// Generated by contracts/scripts/generate.ts — do not edit.
+// Source: hooks/out/LeaderFeeHook.sol/LeaderFeeHook.json
+
+export const LEADER_FEE_HOOK_ABI = [
+  {
+    type: 'constructor',
+    inputs: [
+      { name: '_poolManager', type: 'address' },
+      { name: '_auction', type: 'address' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  { type: 'receive', stateMutability: 'payable' },
+  {
+    type: 'function',
+    name: 'DEFAULT_FEE',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint24' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'MAX_FEE',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint24' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'MIN_FEE',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint24' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'ROUND_DURATION',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'SWAP_DEADLINE_TAG',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'bytes4' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'afterAddLiquidity',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      {
+        name: 'key',
+        type: 'tuple',
+        components: [
+          { name: 'currency0', type: 'address' },
+          { name: 'currency1', type: 'address' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'tickSpacing', type: 'int24' },
+          { name: 'hooks', type: 'address' },
+        ],
+      },
+      {
+        name: 'params',
+        type: 'tuple',
+        components: [
+          { name: 'tickLower', type: 'int24' },
+          { name: 'tickUpper', type: 'int24' },
+          { name: 'liquidityDelta', type: 'int256' },
+          { name: 'salt', type: 'bytes32' },
+        ],
+      },
+      { name: 'delta', type: 'int256' },
+      { name: 'feesAccrued', type: 'int256' },
+      { name: 'hookData', type: 'bytes' },
+    ],
+    outputs: [
+      { name: '', type: 'bytes4' },
+      { name: '', type: 'int256' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'afterDonate',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      {
+        name: 'key',
+        type: 'tuple',
+        components: [
+          { name: 'currency0', type: 'address' },
+          { name: 'currency1', type: 'address' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'tickSpacing', type: 'int24' },
+          { name: 'hooks', type: 'address' },
+        ],
+      },
+      { name: 'amount0', type: 'uint256' },
+      { name: 'amount1', type: 'uint256' },
+      { name: 'hookData', type: 'bytes' },
+    ],
+    outputs: [
+      { name: '', type: 'bytes4' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'afterInitialize',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      {
+        name: 'key',
+        type: 'tuple',
+        components: [
+          { name: 'currency0', type: 'address' },
+          { name: 'currency1', type: 'address' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'tickSpacing', type: 'int24' },
+          { name: 'hooks', type: 'address' },
+        ],
+      },
+      { name: 'sqrtPriceX96', type: 'uint160' },
+      { name: 'tick', type: 'int24' },
+    ],
+    outputs: [
+      { name: '', type: 'bytes4' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'afterRemoveLiquidity',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      {
+        name: 'key',
+        type: 'tuple',
+        components: [
+          { name: 'currency0', type: 'address' },
+          { name: 'currency1', type: 'address' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'tickSpacing', type: 'int24' },
+          { name: 'hooks', type: 'address' },
+        ],
+      },
+      {
+        name: 'params',
+        type: 'tuple',
+        components: [
+          { name: 'tickLower', type: 'int24' },
+          { name: 'tickUpper', type: 'int24' },
+          { name: 'liquidityDelta', type: 'int256' },
+          { name: 'salt', type: 'bytes32' },
+        ],
+      },
+      { name: 'delta', type: 'int256' },
+      { name: 'feesAccrued', type: 'int256' },
+      { name: 'hookData', type: 'bytes' },
+    ],
+    outputs: [
+      { name: '', type: 'bytes4' },
+      { name: '', type: 'int256' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'afterSwap',
+    inputs: [
+      { name: '', type: 'address' },
+      {
+        name: 'key',
+        type: 'tuple',
+        components: [
+          { name: 'currency0', type: 'address' },
+          { name: 'currency1', type: 'address' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'tickSpacing', type: 'int24' },
+          { name: 'hooks', type: 'address' },
+        ],
+      },
+      {
+        name: 'params',
+        type: 'tuple',
+        components: [
+          { name: 'zeroForOne', type: 'bool' },
+          { name: 'amountSpecified', type: 'int256' },
+          { name: 'sqrtPriceLimitX96', type: 'uint160' },
+        ],
+      },
+      { name: 'delta', type: 'int256' },
+      { name: '', type: 'bytes' },
+    ],
+    outputs: [
+      { name: '', type: 'bytes4' },
+      { name: '', type: 'int128' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'auction',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'address' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'beforeAddLiquidity',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      {
+        name: 'key',
+        type: 'tuple',
+        components: [
+          { name: 'currency0', type: 'address' },
+          { name: 'currency1', type: 'address' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'tickSpacing', type: 'int24' },
+          { name: 'hooks', type: 'address' },
+        ],
+      },
+      {
+        name: 'params',
+        type: 'tuple',
+        components: [
+          { name: 'tickLower', type: 'int24' },
+          { name: 'tickUpper', type: 'int24' },
+          { name: 'liquidityDelta', type: 'int256' },
+          { name: 'salt', type: 'bytes32' },
+        ],
+      },
+      { name: 'hookData', type: 'bytes' },
+    ],
+    outputs: [
+      { name: '', type: 'bytes4' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'beforeDonate',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      {
+        name: 'key',
+        type: 'tuple',
+        components: [
+          { name: 'currency0', type: 'address' },
+          { name: 'currency1', type: 'address' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'tickSpacing', type: 'int24' },
+          { name: 'hooks', type: 'address' },
+        ],
+      },
+      { name: 'amount0', type: 'uint256' },
+      { name: 'amount1', type: 'uint256' },
+      { name: 'hookData', type: 'bytes' },
+    ],
+    outputs: [
+      { name: '', type: 'bytes4' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'beforeInitialize',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      {
+        name: 'key',
+        type: 'tuple',
+        components: [
+          { name: 'currency0', type: 'address' },
+          { name: 'currency1', type: 'address' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'tickSpacing', type: 'int24' },
+          { name: 'hooks', type: 'address' },
+        ],
+      },
+      { name: 'sqrtPriceX96', type: 'uint160' },
+    ],
+    outputs: [
+      { name: '', type: 'bytes4' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'beforeRemoveLiquidity',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      {
+        name: 'key',
+        type: 'tuple',
+        components: [
+          { name: 'currency0', type: 'address' },
+          { name: 'currency1', type: 'address' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'tickSpacing', type: 'int24' },
+          { name: 'hooks', type: 'address' },
+        ],
+      },
+      {
+        name: 'params',
+        type: 'tuple',
+        components: [
+          { name: 'tickLower', type: 'int24' },
+          { name: 'tickUpper', type: 'int24' },
+          { name: 'liquidityDelta', type: 'int256' },
+          { name: 'salt', type: 'bytes32' },
+        ],
+      },
+      { name: 'hookData', type: 'bytes' },
+    ],
+    outputs: [
+      { name: '', type: 'bytes4' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'beforeSwap',
+    inputs: [
+      { name: '', type: 'address' },
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'currency0', type: 'address' },
+          { name: 'currency1', type: 'address' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'tickSpacing', type: 'int24' },
+          { name: 'hooks', type: 'address' },
+        ],
+      },
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'zeroForOne', type: 'bool' },
+          { name: 'amountSpecified', type: 'int256' },
+          { name: 'sqrtPriceLimitX96', type: 'uint160' },
+        ],
+      },
+      { name: 'hookData', type: 'bytes' },
+    ],
+    outputs: [
+      { name: '', type: 'bytes4' },
+      { name: '', type: 'int256' },
+      { name: '', type: 'uint24' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'cachedLeader',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'address' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'cachedLeaderFee',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint24' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getCurrentFee',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint24' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getCurrentLeader',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'address' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getHookPermissions',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'beforeInitialize', type: 'bool' },
+          { name: 'afterInitialize', type: 'bool' },
+          { name: 'beforeAddLiquidity', type: 'bool' },
+          { name: 'afterAddLiquidity', type: 'bool' },
+          { name: 'beforeRemoveLiquidity', type: 'bool' },
+          { name: 'afterRemoveLiquidity', type: 'bool' },
+          { name: 'beforeSwap', type: 'bool' },
+          { name: 'afterSwap', type: 'bool' },
+          { name: 'beforeDonate', type: 'bool' },
+          { name: 'afterDonate', type: 'bool' },
+          { name: 'beforeSwapReturnDelta', type: 'bool' },
+          { name: 'afterSwapReturnDelta', type: 'bool' },
+          { name: 'afterAddLiquidityReturnDelta', type: 'bool' },
+          { name: 'afterRemoveLiquidityReturnDelta', type: 'bool' },
+        ],
+      },
+    ],
+    stateMutability: 'pure',
+  },
+  {
+    type: 'function',
+    name: 'getLeadershipTimeRemaining',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'leaderFees',
+    inputs: [
+      { name: '', type: 'address' },
+    ],
+    outputs: [
+      { name: '', type: 'uint24' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'leadershipStart',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'poolManager',
+    inputs: [],
+    outputs: [
+      { name: '', type: 'address' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'setFee',
+    inputs: [
+      { name: 'fee', type: 'uint24' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'unclaimedFees',
+    inputs: [
+      { name: '', type: 'address' },
+      { name: '', type: 'address' },
+    ],
+    outputs: [
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'updateLeader',
+    inputs: [
+      { name: 'newLeader', type: 'address' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'withdrawFees',
+    inputs: [
+      { name: 'token', type: 'address' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'event',
+    name: 'FeeAccumulated',
+    inputs: [
+      { name: 'leader', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256' },
+      { name: 'token', type: 'address' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'FeeUpdated',
+    inputs: [
+      { name: 'leader', type: 'address', indexed: true },
+      { name: 'fee', type: 'uint24' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'FeesWithdrawn',
+    inputs: [
+      { name: 'leader', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256' },
+      { name: 'token', type: 'address' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'LeaderUpdated',
+    inputs: [
+      { name: 'leader', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'error',
+    name: 'HookNotImplemented',
+    inputs: [],
+  },
+  {
+    type: 'error',
+    name: 'NotPoolManager',
+    inputs: [],
+  },
+] as const;
@@ -0,0 +1,4 @@
+// Generated by contracts/scripts/generate.ts — do not edit.
+// Source: no broadcasts of the bound contracts yet
+
+export const DEPLOYMENTS: Record<number, Record<string, `0x${string}`>> = {};
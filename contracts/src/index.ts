@@ -0,0 +1,23 @@
+/**
+ * @file contracts/src/index.ts
+ * @description Typed ABIs and deployed addresses shared by the backend and frontend
+ *
+ * The ABIs and deployments are generated from the Foundry builds
+ * (see contracts/scripts/generate.ts); only this file is hand-written.
+ */
+
+import { DEPLOYMENTS } from './deployments';
+
+export { AUCTION_ABI } from './abis/Auction';
+export { LEADER_FEE_HOOK_ABI } from './abis/LeaderFeeHook';
+export { PERMIT2_ROUTER_ABI } from './abis/Permit2Router';
+export { DEPLOYMENTS };
+
+export type ContractName = 'Auction' | 'LeaderFeeHook' | 'Permit2Router';
+
+/**
+ * Address a Foundry broadcast deployed a contract at, or undefined if there's none for the chain
+ */
+export function getDeployment(chainId: number, name: ContractName): `0x${string}` | undefined {
+  return DEPLOYMENTS[chainId]?.[name];
+}
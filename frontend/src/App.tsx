@@ -4,61 +4,101 @@
  */
 
 import '@rainbow-me/rainbowkit/styles.css';
+import type { ReactNode } from 'react';
 import { getDefaultConfig, RainbowKitProvider } from '@rainbow-me/rainbowkit';
-import { WagmiProvider } from 'wagmi';
-import { baseSepolia } from 'wagmi/chains';
+import { http, WagmiProvider } from 'wagmi';
 import { QueryClientProvider, QueryClient } from '@tanstack/react-query';
+import { PrivyProvider } from '@privy-io/react-auth';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
-import { WALLETCONNECT_PROJECT_ID } from './config/constants';
+import { PRIVY_APP_ID, RPC_URL, WALLETCONNECT_PROJECT_ID } from './config/constants';
+import { ACTIVE_CHAIN } from './config/chains';
 import { NavHeader } from './components/NavHeader';
+import { PrivyTokenProvider } from './components/PrivyAuth';
+import { TransactionTray } from './components/TransactionTray';
 import { AuctionPage } from './pages/AuctionPage';
 import { UniPage } from './pages/UniPage';
+import { AdminPage } from './pages/AdminPage';
 import './App.css';
 
 const config = getDefaultConfig({
   appName: 'Auction TEE',
   projectId: WALLETCONNECT_PROJECT_ID || 'demo',
-  chains: [baseSepolia],
+  chains: [ACTIVE_CHAIN],
+  transports: {
+    [ACTIVE_CHAIN.id]: http(RPC_URL ?? undefined),
+  },
   ssr: false,
 });
 
 const queryClient = new QueryClient();
 
+/**
+ * Privy session for authenticated TEE server requests
+ * Why: Wallets connect through RainbowKit; Privy only issues the access token
+ * (see components/PrivyAuth.tsx), so its embedded wallets are turned off.
+ */
+function AuthProvider({ children }: { children: ReactNode }) {
+  if (!PRIVY_APP_ID) {
+    return <>{children}</>;
+  }
+
+  return (
+    <PrivyProvider
+      appId={PRIVY_APP_ID}
+      config={{
+        loginMethods: ['wallet'],
+        appearance: { walletChainType: 'ethereum-only' },
+        embeddedWallets: { ethereum: { createOnLogin: 'off' } },
+        defaultChain: ACTIVE_CHAIN,
+        supportedChains: [ACTIVE_CHAIN],
+      }}
+    >
+      <PrivyTokenProvider />
+      {children}
+    </PrivyProvider>
+  );
+}
+
 function App() {
   return (
-    <WagmiProvider config={config}>
-      <QueryClientProvider client={queryClient}>
-        <RainbowKitProvider>
-          <BrowserRouter>
-            <div className="app">
-              <NavHeader />
+    <AuthProvider>
+      <WagmiProvider config={config}>
+        <QueryClientProvider client={queryClient}>
+          <RainbowKitProvider>
+            <BrowserRouter>
+              <div className="app">
+                <NavHeader />
+
+                <Routes>
+                  <Route path="/" element={<AuctionPage />} />
+                  <Route path="/uni" element={<UniPage />} />
+                  <Route path="/admin" element={<AdminPage />} />
+                </Routes>
 
-              <Routes>
-                <Route path="/" element={<AuctionPage />} />
-                <Route path="/uni" element={<UniPage />} />
-              </Routes>
+                <TransactionTray />
 
-              <footer className="app-footer">
-                <p>
-                  Built with{' '}
-                  <a href="https://vitejs.dev" target="_blank" rel="noopener noreferrer">
-                    Vite
-                  </a>
-                  ,{' '}
-                  <a href="https://react.dev" target="_blank" rel="noopener noreferrer">
-                    React
-                  </a>
-                  , and{' '}
-                  <a href="https://www.rainbowkit.com" target="_blank" rel="noopener noreferrer">
-                    RainbowKit
-                  </a>
-                </p>
-              </footer>
-            </div>
-          </BrowserRouter>
-        </RainbowKitProvider>
-      </QueryClientProvider>
-    </WagmiProvider>
+                <footer className="app-footer">
+                  <p>
+                    Built with{' '}
+                    <a href="https://vitejs.dev" target="_blank" rel="noopener noreferrer">
+                      Vite
+                    </a>
+                    ,{' '}
+                    <a href="https://react.dev" target="_blank" rel="noopener noreferrer">
+                      React
+                    </a>
+                    , and{' '}
+                    <a href="https://www.rainbowkit.com" target="_blank" rel="noopener noreferrer">
+                      RainbowKit
+                    </a>
+                  </p>
+                </footer>
+              </div>
+            </BrowserRouter>
+          </RainbowKitProvider>
+        </QueryClientProvider>
+      </WagmiProvider>
+    </AuthProvider>
   );
 }
 
@@ -0,0 +1,448 @@
+/**
+ * @file components/AdminPanel.tsx
+ * @description Owner-only Auction settings: settler, settler key rotation, hook and rent withdrawal
+ *
+ * The server simulates each action as the owner and returns the transaction;
+ * it is signed and sent from the owner's wallet here, then reported back so the
+ * audit log links it to what was prepared.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useAccount, useReadContract, useSendTransaction, useSignMessage } from 'wagmi';
+import { formatEther, isAddress, isAddressEqual, parseEther, zeroAddress } from 'viem';
+import {
+    ApiError,
+    cancelSettlerRotation,
+    getAdminAuditLog,
+    getAdminSessionMessage,
+    getAdminStatus,
+    getAuctionAddress,
+    prepareSetHook,
+    prepareUpdateSettler,
+    prepareWithdrawRent,
+    recordAdminTransaction,
+    rotateSettlerKey,
+    setAdminSession,
+} from '../services/api';
+import type { AdminAuditEntry, AdminSession, AdminStatus, PreparedAdminAction, SettlerKeySource } from '../services/api';
+import { getExplorerTxUrl } from '../config/chains';
+import { AUCTION_ABI } from '../config/contracts';
+import { useTransactionTracker } from '../services/useTransactions';
+
+const AUDIT_PAGE_SIZE = 20;
+
+// Refresh while a key rotation waits for SettlerUpdated or for the drain
+const ROTATION_POLL_MS = 5000;
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}…${value.slice(-4)}`;
+
+function describeParams(entry: AdminAuditEntry): string {
+    return Object.entries(entry.params)
+        .map(([key, value]) => (key === 'amount' ? `${formatEther(BigInt(value))} ETH` : `${key} ${shortAddress(value)}`))
+        .join(', ');
+}
+
+function describeKeySource(source: SettlerKeySource): string {
+    switch (source.type) {
+        case 'hd':
+            return `HD index ${source.index}`;
+        case 'privateKey':
+            return 'SETTLER_NEXT_PRIVATE_KEY';
+        default:
+            return `${source.type} signer`;
+    }
+}
+
+export function AdminPanel() {
+    const { address, isConnected } = useAccount();
+    const [auctionAddress, setAuctionAddress] = useState<`0x${string}` | null>(null);
+    const [session, setSession] = useState<AdminSession | null>(null);
+    const [status, setStatus] = useState<AdminStatus | null>(null);
+    const [audit, setAudit] = useState<AdminAuditEntry[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [isSigningIn, setIsSigningIn] = useState(false);
+    const [isPreparing, setIsPreparing] = useState(false);
+    const [newSettler, setNewSettler] = useState('');
+    const [newHook, setNewHook] = useState('');
+    const [rentAmount, setRentAmount] = useState('');
+    const [rotationSource, setRotationSource] = useState<'hd' | 'privateKey'>('hd');
+    const [rotationIndex, setRotationIndex] = useState('');
+    // Audit entry of the action whose transaction is in flight
+    const pendingActionId = useRef<number | null>(null);
+
+    useEffect(() => {
+        getAuctionAddress()
+            .then((response) => setAuctionAddress(response.address as `0x${string}` | null))
+            .catch((err) => console.error('Failed to fetch auction address:', err));
+    }, []);
+
+    const { data: owner } = useReadContract({
+        address: auctionAddress ?? undefined,
+        abi: AUCTION_ABI,
+        functionName: 'owner',
+        query: { enabled: !!auctionAddress },
+    });
+    const isOwner = !!address && !!owner && isAddressEqual(owner, address);
+
+    const { signMessageAsync } = useSignMessage();
+    const { sendTransaction, isPending } = useSendTransaction();
+
+    const refresh = async () => {
+        try {
+            const [nextStatus, nextAudit] = await Promise.all([
+                getAdminStatus(),
+                getAdminAuditLog({ limit: AUDIT_PAGE_SIZE }),
+            ]);
+            setStatus(nextStatus);
+            setAudit(nextAudit.entries);
+        } catch (err) {
+            handleError(err);
+        }
+    };
+
+    const tracker = useTransactionTracker(() => {
+        const id = pendingActionId.current;
+        const hash = tracker.transaction?.hash;
+        pendingActionId.current = null;
+        if (id !== null && hash) {
+            recordAdminTransaction(id, hash)
+                .catch((err) => console.error('Failed to record admin transaction:', err))
+                .finally(refresh);
+        }
+    });
+
+    const clearSession = () => {
+        setAdminSession(null);
+        setSession(null);
+        setStatus(null);
+        setAudit([]);
+    };
+
+    const handleError = (err: unknown) => {
+        if (err instanceof ApiError && err.status === 401) {
+            clearSession();
+            setError('Admin session expired. Sign in again.');
+            return;
+        }
+        setError(err instanceof ApiError && err.reason ? `${err.message} (${err.reason})` : err instanceof Error ? err.message : String(err));
+    };
+
+    // A session belongs to the wallet that signed it
+    useEffect(() => {
+        if (session && (!address || !isAddressEqual(session.address as `0x${string}`, address))) {
+            clearSession();
+        }
+    }, [address, session]);
+
+    useEffect(() => {
+        if (session) {
+            refresh();
+        }
+    }, [session]);
+
+    const rotationStatus = status?.rotation?.status;
+    useEffect(() => {
+        if (rotationStatus !== 'pending' && rotationStatus !== 'draining') return;
+        const timer = setInterval(refresh, ROTATION_POLL_MS);
+        return () => clearInterval(timer);
+    }, [rotationStatus]);
+
+    const handleSignIn = async () => {
+        if (!address) return;
+        setError(null);
+        setIsSigningIn(true);
+        try {
+            const { message, issuedAt, expiresAt } = await getAdminSessionMessage();
+            const signature = await signMessageAsync({ message });
+            const next = { address, issuedAt, expiresAt, signature };
+            setAdminSession(next);
+            setSession(next);
+        } catch (err) {
+            handleError(err);
+        } finally {
+            setIsSigningIn(false);
+        }
+    };
+
+    const submitAction = async (label: string, prepare: () => Promise<PreparedAdminAction>) => {
+        setError(null);
+        setIsPreparing(true);
+        try {
+            const prepared = await prepare();
+            pendingActionId.current = prepared.id;
+            sendTransaction({ to: prepared.transaction.to, data: prepared.transaction.data }, tracker.track(label));
+        } catch (err) {
+            handleError(err);
+        } finally {
+            setIsPreparing(false);
+            refresh();
+        }
+    };
+
+    const handleUpdateSettler = (e: React.FormEvent) => {
+        e.preventDefault();
+        submitAction(`Set settler to ${shortAddress(newSettler)}`, () => prepareUpdateSettler(newSettler));
+    };
+
+    const handleRotateSettler = (e: React.FormEvent) => {
+        e.preventDefault();
+        const target = rotationSource === 'privateKey'
+            ? { source: 'privateKey' as const }
+            : { index: rotationIndex === '' ? undefined : Number(rotationIndex) };
+        submitAction('Rotate settler key', async () => (await rotateSettlerKey(target)).action);
+    };
+
+    const handleCancelRotation = async () => {
+        setError(null);
+        try {
+            await cancelSettlerRotation();
+        } catch (err) {
+            handleError(err);
+        } finally {
+            refresh();
+        }
+    };
+
+    const handleSetHook = (e: React.FormEvent) => {
+        e.preventDefault();
+        submitAction(`Set hook to ${shortAddress(newHook)}`, () => prepareSetHook(newHook));
+    };
+
+    const handleWithdrawRent = (e: React.FormEvent) => {
+        e.preventDefault();
+        const amount = rentAmount ? parseEther(rentAmount) : undefined;
+        submitAction(
+            `Withdraw ${rentAmount || (status ? formatEther(BigInt(status.rentPool)) : 'all')} ETH rent`,
+            () => prepareWithdrawRent(amount),
+        );
+    };
+
+    const isBusy = isPreparing || isPending || tracker.isConfirming;
+    const isRentAmountValid = rentAmount === '' || /^\d*\.?\d+$/.test(rentAmount);
+    const isRotationIndexValid = rotationIndex === '' || /^\d+$/.test(rotationIndex);
+    const isRotating = rotationStatus === 'pending' || rotationStatus === 'draining';
+
+    return (
+        <div className="admin-panel">
+            <h2>🛡️ Auction Admin</h2>
+            <p className="subtitle">Owner-only settings, signed from the owner wallet</p>
+
+            {!isConnected ? (
+                <p className="connect-prompt">Connect the owner wallet to manage the Auction</p>
+            ) : !owner ? (
+                <p className="connect-prompt">Loading owner...</p>
+            ) : !isOwner ? (
+                <p className="connect-prompt">
+                    Only the Auction owner ({shortAddress(owner)}) can use this page.
+                </p>
+            ) : !session ? (
+                <>
+                    {error && <div className="error-message">{error}</div>}
+                    <p className="earnings-note">
+                        Sign a message with the owner wallet to open an admin session. It costs no gas.
+                    </p>
+                    <button type="button" className="max-button" onClick={handleSignIn} disabled={isSigningIn}>
+                        {isSigningIn ? 'Signing...' : 'Sign in as owner'}
+                    </button>
+                </>
+            ) : (
+                <>
+                    {(error || tracker.error) && <div className="error-message">{error ?? tracker.error}</div>}
+
+                    {status && (
+                        <div className="admin-status">
+                            <div className="admin-status-row">
+                                <span>Settler</span>
+                                <code>{status.settler}</code>
+                                {status.settlerIsTee ? (
+                                    <span className="admin-badge ok">TEE</span>
+                                ) : (
+                                    <span className="admin-badge warning">not this TEE</span>
+                                )}
+                            </div>
+                            <div className="admin-status-row">
+                                <span>TEE settler</span>
+                                <code>{status.teeSettler ?? 'not configured'}</code>
+                            </div>
+                            {status.rotation && (
+                                <div className="admin-status-row">
+                                    <span>Key rotation</span>
+                                    <code>{shortAddress(status.rotation.from)} → {shortAddress(status.rotation.to)}</code>
+                                    <span className={`admin-badge ${status.rotation.status === 'failed' ? 'warning' : 'ok'}`}>
+                                        {status.rotation.status}
+                                    </span>
+                                    {status.rotation.error && <div className="error-text">{status.rotation.error}</div>}
+                                </div>
+                            )}
+                            <div className="admin-status-row">
+                                <span>Hook</span>
+                                <code>{status.hook ?? 'none'}</code>
+                            </div>
+                            <div className="admin-status-row">
+                                <span>Rent pool</span>
+                                <strong>{formatEther(BigInt(status.rentPool))} ETH</strong>
+                            </div>
+                        </div>
+                    )}
+
+                    <form className="admin-form" onSubmit={handleUpdateSettler}>
+                        <div className="form-group">
+                            <label htmlFor="admin-settler">New settler</label>
+                            <input
+                                id="admin-settler"
+                                type="text"
+                                placeholder="0x..."
+                                value={newSettler}
+                                onChange={(e) => setNewSettler(e.target.value.trim())}
+                                className={newSettler && !isAddress(newSettler) ? 'invalid' : ''}
+                                disabled={isBusy}
+                            />
+                            {status?.teeSettler && !status.settlerIsTee && (
+                                <button
+                                    type="button"
+                                    className="preset-button"
+                                    onClick={() => setNewSettler(status.teeSettler!)}
+                                    disabled={isBusy}
+                                >
+                                    Use TEE settler
+                                </button>
+                            )}
+                        </div>
+                        <button type="submit" disabled={isBusy || !isAddress(newSettler)}>
+                            Update settler
+                        </button>
+                    </form>
+
+                    <form className="admin-form" onSubmit={handleRotateSettler}>
+                        <div className="form-group">
+                            <label htmlFor="admin-rotation-index">Rotate TEE settler key</label>
+                            <select
+                                value={rotationSource}
+                                onChange={(e) => setRotationSource(e.target.value as 'hd' | 'privateKey')}
+                                disabled={isBusy || isRotating}
+                            >
+                                <option value="hd">Next HD index of the TEE mnemonic</option>
+                                <option value="privateKey">SETTLER_NEXT_PRIVATE_KEY</option>
+                            </select>
+                            {rotationSource === 'hd' && (
+                                <input
+                                    id="admin-rotation-index"
+                                    type="text"
+                                    placeholder="HD index (empty for the one after the current key)"
+                                    value={rotationIndex}
+                                    onChange={(e) => setRotationIndex(e.target.value.trim())}
+                                    className={isRotationIndexValid ? '' : 'invalid'}
+                                    disabled={isBusy || isRotating}
+                                />
+                            )}
+                            <div className="hint">
+                                The TEE signs with the new key once SettlerUpdated is mined and its pending
+                                transactions from the old key are confirmed.
+                            </div>
+                        </div>
+                        <button type="submit" disabled={isBusy || isRotating || !isRotationIndexValid}>
+                            Rotate settler key
+                        </button>
+                        {rotationStatus === 'pending' && (
+                            <button type="button" className="preset-button" onClick={handleCancelRotation} disabled={isBusy}>
+                                Cancel rotation
+                            </button>
+                        )}
+                        {status?.rotation?.status === 'pending' && (
+                            <div className="hint">
+                                New key {status.rotation.to} ({describeKeySource(status.rotation.source)}) is proven;
+                                waiting for updateSettler() to be mined.
+                            </div>
+                        )}
+                    </form>
+
+                    <form className="admin-form" onSubmit={handleSetHook}>
+                        <div className="form-group">
+                            <label htmlFor="admin-hook">New hook</label>
+                            <input
+                                id="admin-hook"
+                                type="text"
+                                placeholder={`0x... (${zeroAddress.slice(0, 6)}… detaches the hook)`}
+                                value={newHook}
+                                onChange={(e) => setNewHook(e.target.value.trim())}
+                                className={newHook && !isAddress(newHook) ? 'invalid' : ''}
+                                disabled={isBusy}
+                            />
+                        </div>
+                        <button type="submit" disabled={isBusy || !isAddress(newHook)}>
+                            Set hook
+                        </button>
+                    </form>
+
+                    <form className="admin-form" onSubmit={handleWithdrawRent}>
+                        <div className="form-group">
+                            <label htmlFor="admin-rent">Withdraw rent (ETH)</label>
+                            <input
+                                id="admin-rent"
+                                type="text"
+                                placeholder="Leave empty to withdraw the whole rent pool"
+                                value={rentAmount}
+                                onChange={(e) => setRentAmount(e.target.value.trim())}
+                                className={isRentAmountValid ? '' : 'invalid'}
+                                disabled={isBusy}
+                            />
+                        </div>
+                        <button
+                            type="submit"
+                            disabled={isBusy || !isRentAmountValid || status?.rentPool === '0'}
+                        >
+                            Withdraw rent
+                        </button>
+                    </form>
+
+                    <h3>Audit log</h3>
+                    {audit.length === 0 ? (
+                        <p className="no-earnings">No admin actions yet.</p>
+                    ) : (
+                        <table className="positions-table">
+                            <thead>
+                                <tr>
+                                    <th>Time</th>
+                                    <th>Event</th>
+                                    <th>Action</th>
+                                    <th>By</th>
+                                    <th>Transaction</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {audit.map((entry) => {
+                                    const explorerUrl = entry.transactionHash ? getExplorerTxUrl(entry.transactionHash) : null;
+                                    return (
+                                        <tr key={entry.id}>
+                                            <td>{new Date(entry.createdAt).toLocaleString()}</td>
+                                            <td>{entry.event}</td>
+                                            <td>
+                                                {entry.action ?? '—'}
+                                                <div className="hint">{describeParams(entry)}</div>
+                                                {entry.error && <div className="error-text">{entry.error}</div>}
+                                            </td>
+                                            <td>{shortAddress(entry.actor)}</td>
+                                            <td>
+                                                {entry.transactionHash && (explorerUrl ? (
+                                                    <a href={explorerUrl} target="_blank" rel="noopener noreferrer">
+                                                        {entry.transactionHash.slice(0, 10)}…
+                                                    </a>
+                                                ) : (
+                                                    <code>{entry.transactionHash.slice(0, 10)}…</code>
+                                                ))}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+
+                    <p className="earnings-note">
+                        Session valid until {new Date(Number(session.expiresAt) * 1000).toLocaleTimeString()}.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
@@ -4,54 +4,58 @@
  */
 
 import { useState, useEffect } from 'react';
-import { useAccount, useWriteContract, useWaitForTransactionReceipt, useReadContract } from 'wagmi';
+import { useAccount, useWriteContract, useReadContract, useSignTypedData } from 'wagmi';
 import { parseEther, formatEther } from 'viem';
-import { getAuctionAddress } from '../services/api';
-
-const AUCTION_ABI = [
-    {
-        name: 'bid',
-        type: 'function',
-        stateMutability: 'nonpayable',
-        inputs: [{ name: 'amount', type: 'uint256' }],
-        outputs: [],
-    },
-    {
-        name: 'userCollateral',
-        type: 'function',
-        stateMutability: 'view',
-        inputs: [{ name: '', type: 'address' }],
-        outputs: [{ name: '', type: 'uint256' }],
-    },
-    {
-        name: 'nextRoundHighestBid',
-        type: 'function',
-        stateMutability: 'view',
-        inputs: [],
-        outputs: [{ name: '', type: 'uint256' }],
-    },
-    {
-        name: 'nextRoundHighestBidder',
-        type: 'function',
-        stateMutability: 'view',
-        inputs: [],
-        outputs: [{ name: '', type: 'address' }],
-    },
-    {
-        name: 'currentLeader',
-        type: 'function',
-        stateMutability: 'view',
-        inputs: [],
-        outputs: [{ name: '', type: 'address' }],
-    },
-    {
-        name: 'currentRound',
-        type: 'function',
-        stateMutability: 'view',
-        inputs: [],
-        outputs: [{ name: '', type: 'uint256' }],
-    },
-] as const;
+import {
+    ApiError,
+    cancelBidIntent,
+    getAuctionAddress,
+    getBidIntents,
+    getMyIntents,
+    getSealedBidInfo,
+    resolveRound,
+    submitBidIntent,
+    submitSealedBid,
+} from '../services/api';
+import type { BidIntentRecord, SealedBidInfo } from '../services/api';
+import { ACTIVE_CHAIN } from '../config/chains';
+import { AUCTION_ABI, BID_INTENT_TYPES } from '../config/contracts';
+import { useAuctionState } from '../services/useAuctionState';
+import { useBidRecommendation } from '../services/useBidRecommendation';
+import { useTransactionTracker } from '../services/useTransactions';
+
+/**
+ * How a bid is placed: an on-chain transaction, a signed intent relayed by the
+ * settler, or a bid encrypted to the TEE
+ */
+type BidMode = 'onchain' | 'intent' | 'sealed';
+
+/**
+ * Lifetime of a signed intent (seconds)
+ * The settler only relays intents valid for a couple of minutes after the round closes
+ */
+const INTENT_TTL_SECONDS = 600;
+
+/**
+ * Messages for the codes POST /resolveRound returns when the contract would revert
+ */
+const RESOLVE_ERROR_MESSAGES: Record<string, string> = {
+    ROUND_STILL_ACTIVE: 'The current round has not ended yet.',
+    RESOLUTION_IN_PROGRESS: 'The settler is already resolving this round.',
+    WINNER_INSUFFICIENT_COLLATERAL: 'The winning bidder no longer has enough collateral to pay.',
+    NOT_SETTLER: 'The server key is not the settler of this Auction contract.',
+    SETTLER_INSUFFICIENT_FUNDS: 'The settler is out of gas funds.',
+    SERVICE_NOT_READY: 'The TEE server is not fully configured.',
+    RPC_ERROR: 'The TEE server could not reach the chain.',
+};
+
+/**
+ * Random 128-bit intent nonce
+ */
+function randomNonce(): bigint {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    return BigInt(`0x${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`);
+}
 
 interface BidFormProps {
     className?: string;
@@ -62,6 +66,20 @@ export function BidForm({ className = '' }: BidFormProps) {
     const [bidAmount, setBidAmount] = useState('');
     const [auctionAddress, setAuctionAddress] = useState<`0x${string}` | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [mode, setMode] = useState<BidMode>('onchain');
+    const [sealedInfo, setSealedInfo] = useState<SealedBidInfo | null>(null);
+    const [myIntents, setMyIntents] = useState<BidIntentRecord[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submittedMessage, setSubmittedMessage] = useState<string | null>(null);
+    const [isResolving, setIsResolving] = useState(false);
+    const [resolveMessage, setResolveMessage] = useState<string | null>(null);
+    const { signTypedDataAsync } = useSignTypedData();
+    const { state: auctionState, refresh: refreshAuctionState } = useAuctionState();
+    const highestBid = auctionState?.nextRoundHighestBid;
+    const highestBidder = auctionState?.nextRoundHighestBidder;
+    const currentRound = auctionState?.currentRound;
+    const canResolve = auctionState?.canResolve ?? false;
+    const recommendation = useBidRecommendation();
 
     // Fetch auction contract address
     useEffect(() => {
@@ -78,6 +96,36 @@ export function BidForm({ className = '' }: BidFormProps) {
         fetchAuctionAddress();
     }, []);
 
+    // Fetch sealed bidding state (key, open round and number of sealed bids)
+    useEffect(() => {
+        async function fetchSealedInfo() {
+            try {
+                setSealedInfo(await getSealedBidInfo());
+            } catch (err) {
+                console.error('Failed to fetch sealed bid info:', err);
+            }
+        }
+        fetchSealedInfo();
+        const interval = setInterval(fetchSealedInfo, 10000);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Fetch the user's bid intents (fails quietly when not signed in to the server)
+    async function refreshMyIntents() {
+        try {
+            const result = await getMyIntents();
+            setMyIntents(result.intents);
+        } catch {
+            setMyIntents([]);
+        }
+    }
+
+    useEffect(() => {
+        if (address) {
+            refreshMyIntents();
+        }
+    }, [address]);
+
     // Read user's collateral balance
     const { data: collateralBalance, refetch: refetchCollateral } = useReadContract({
         address: auctionAddress ?? undefined,
@@ -87,49 +135,117 @@ export function BidForm({ className = '' }: BidFormProps) {
         query: { enabled: !!auctionAddress && !!address },
     });
 
-    // Read current highest bid
-    const { data: highestBid } = useReadContract({
-        address: auctionAddress ?? undefined,
-        abi: AUCTION_ABI,
-        functionName: 'nextRoundHighestBid',
-        query: { enabled: !!auctionAddress },
-    });
+    // Write contract hook for placing bid
+    const { writeContract, isPending } = useWriteContract();
 
-    // Read current highest bidder
-    const { data: highestBidder } = useReadContract({
-        address: auctionAddress ?? undefined,
-        abi: AUCTION_ABI,
-        functionName: 'nextRoundHighestBidder',
-        query: { enabled: !!auctionAddress },
+    // Follow the bid in the transaction tray; refetch collateral once it confirms
+    const tracker = useTransactionTracker(() => {
+        refetchCollateral();
+        setBidAmount('');
     });
+    const isConfirming = tracker.isConfirming;
 
-    // Read current round
-    const { data: currentRound } = useReadContract({
-        address: auctionAddress ?? undefined,
-        abi: AUCTION_ABI,
-        functionName: 'currentRound',
-        query: { enabled: !!auctionAddress },
+    // Revoking an intent's signature on-chain; the server only drops it from the order book
+    const revokeTracker = useTransactionTracker(() => {
+        refreshMyIntents();
     });
 
-    // Write contract hook for placing bid
-    const { writeContract, data: txHash, isPending } = useWriteContract();
+    async function handleSealedBid(bidWei: bigint) {
+        if (!address) {
+            return;
+        }
 
-    // Wait for transaction
-    const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
-        hash: txHash,
-    });
+        setIsSubmitting(true);
+        try {
+            const result = await submitSealedBid(address, bidWei);
+            setSubmittedMessage(`🔒 Sealed bid submitted for round ${result.forRound}`);
+            setBidAmount('');
+            setSealedInfo(await getSealedBidInfo());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to submit sealed bid');
+        } finally {
+            setIsSubmitting(false);
+        }
+    }
 
-    // Refetch collateral after successful bid
-    useEffect(() => {
-        if (isSuccess) {
-            refetchCollateral();
+    async function handleIntentBid(bidWei: bigint) {
+        if (!address) {
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const { domain, forRound } = await getBidIntents();
+            if (domain.chainId !== ACTIVE_CHAIN.id) {
+                throw new Error(`Server expects intents for chain ${domain.chainId}, this app is on ${ACTIVE_CHAIN.id}`);
+            }
+
+            const intent = {
+                bidder: address,
+                amount: bidWei,
+                forRound: BigInt(forRound),
+                nonce: randomNonce(),
+                deadline: BigInt(Math.floor(Date.now() / 1000) + INTENT_TTL_SECONDS),
+            };
+            const signature = await signTypedDataAsync({
+                domain,
+                types: BID_INTENT_TYPES,
+                primaryType: 'BidIntent',
+                message: intent,
+            });
+
+            await submitBidIntent(intent, signature);
+            setSubmittedMessage(`✍️ Bid intent signed for round ${forRound}. The settler relays it when the round closes.`);
             setBidAmount('');
+            await refreshMyIntents();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to submit bid intent');
+        } finally {
+            setIsSubmitting(false);
+        }
+    }
+
+    async function handleResolveRound() {
+        setIsResolving(true);
+        setResolveMessage(null);
+        try {
+            const result = await resolveRound();
+            setResolveMessage(`⏳ ${result.message} (${result.status})`);
+            refreshAuctionState();
+        } catch (err) {
+            const code = err instanceof ApiError ? err.code : null;
+            const message = err instanceof Error ? err.message : 'Failed to resolve round';
+            setResolveMessage(`❌ ${(code && RESOLVE_ERROR_MESSAGES[code]) ?? message}`);
+        } finally {
+            setIsResolving(false);
+        }
+    }
+
+    async function handleCancelIntent(nonce: string) {
+        setError(null);
+        try {
+            await cancelBidIntent(nonce);
+            await refreshMyIntents();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to cancel bid intent');
+            return;
         }
-    }, [isSuccess, refetchCollateral]);
+
+        // The signed intent stays valid until its deadline unless its nonce is used on-chain
+        if (auctionAddress) {
+            writeContract({
+                address: auctionAddress,
+                abi: AUCTION_ABI,
+                functionName: 'cancelBidIntent',
+                args: [BigInt(nonce)],
+            }, revokeTracker.track(`Revoke bid intent #${nonce}`));
+        }
+    }
 
     function handleBid(e: React.FormEvent) {
         e.preventDefault();
         setError(null);
+        setSubmittedMessage(null);
 
         if (!bidAmount || parseFloat(bidAmount) <= 0) {
             setError('Please enter a valid bid amount');
@@ -138,8 +254,8 @@ export function BidForm({ className = '' }: BidFormProps) {
 
         const bidWei = parseEther(bidAmount);
 
-        // Check if bid is higher than current highest
-        if (highestBid && bidWei <= highestBid) {
+        // Check if bid is higher than current highest (a lower sealed bid still raises the price)
+        if (mode !== 'sealed' && highestBid && bidWei <= highestBid) {
             setError(`Bid must be higher than current highest bid (${formatEther(highestBid)} ETH)`);
             return;
         }
@@ -150,6 +266,16 @@ export function BidForm({ className = '' }: BidFormProps) {
             return;
         }
 
+        if (mode === 'sealed') {
+            void handleSealedBid(bidWei);
+            return;
+        }
+
+        if (mode === 'intent') {
+            void handleIntentBid(bidWei);
+            return;
+        }
+
         if (!auctionAddress) {
             setError('Auction contract address not available');
             return;
@@ -160,7 +286,7 @@ export function BidForm({ className = '' }: BidFormProps) {
             abi: AUCTION_ABI,
             functionName: 'bid',
             args: [bidWei],
-        });
+        }, tracker.track(`Bid ${bidAmount} ETH`));
     }
 
     if (!isConnected) {
@@ -206,9 +332,41 @@ export function BidForm({ className = '' }: BidFormProps) {
                         Highest Bidder: <code>{highestBidder}</code>
                     </p>
                 )}
+                {sealedInfo?.enabled && (
+                    <p>Sealed Bids (Next Round): <strong>{sealedInfo.sealedBidCount}</strong></p>
+                )}
+                {canResolve && (
+                    <p>
+                        Round ended.{' '}
+                        <button type="button" onClick={handleResolveRound} disabled={isResolving}>
+                            {isResolving ? 'Resolving...' : 'Resolve Round'}
+                        </button>
+                    </p>
+                )}
+                {resolveMessage && <p>{resolveMessage}</p>}
             </div>
 
             <form onSubmit={handleBid}>
+                <div className="form-group">
+                    <label htmlFor="bid-mode">Bid Type</label>
+                    <select
+                        id="bid-mode"
+                        value={mode}
+                        onChange={(e) => setMode(e.target.value as BidMode)}
+                        disabled={isPending || isConfirming || isSubmitting}
+                    >
+                        <option value="onchain">On-chain bid (transaction)</option>
+                        <option value="intent">Signed intent (no transaction)</option>
+                        {sealedInfo?.enabled && (
+                            <option value="sealed" disabled={!sealedInfo.open}>Sealed bid (encrypted)</option>
+                        )}
+                    </select>
+                    <span className="hint">
+                        {mode === 'intent' && 'Sign a bid with your wallet; the settler submits it if it wins or sets the price.'}
+                        {mode === 'sealed' && 'Encrypted to the TEE and revealed only when the round closes. Your latest sealed bid counts.'}
+                    </span>
+                </div>
+
                 <div className="form-group">
                     <label htmlFor="bid-amount">Bid Amount (ETH)</label>
                     <input
@@ -219,35 +377,66 @@ export function BidForm({ className = '' }: BidFormProps) {
                         value={bidAmount}
                         onChange={(e) => setBidAmount(e.target.value)}
                         placeholder="0.0"
-                        disabled={isPending || isConfirming}
+                        disabled={isPending || isConfirming || isSubmitting}
                     />
-                    {highestBid !== undefined && (
+                    {mode !== 'sealed' && highestBid !== undefined && (
                         <span className="hint">
                             Must be greater than {parseFloat(formatEther(highestBid)).toFixed(4)} ETH
                         </span>
                     )}
+                    {recommendation && recommendation.sampleRounds > 0 && (
+                        <span className="hint bid-estimate">
+                            Est. round value at {recommendation.feePercent}% fee:{' '}
+                            <strong>{parseFloat(recommendation.expectedRevenue.eth).toFixed(4)} ETH</strong>{' '}
+                            (80%: {parseFloat(recommendation.bands.p10.eth).toFixed(4)}–{parseFloat(recommendation.bands.p90.eth).toFixed(4)}).
+                            Suggested max bid: <strong>{parseFloat(recommendation.recommendedMaxBid.eth).toFixed(4)} ETH</strong>
+                            {' '}({recommendation.confidence} confidence, {recommendation.sampleRounds} rounds)
+                        </span>
+                    )}
                 </div>
 
-                {error && <div className="error-message">{error}</div>}
+                {(error || (mode === 'onchain' && tracker.error) || revokeTracker.error) && (
+                    <div className="error-message">{error ?? (mode === 'onchain' ? tracker.error : null) ?? revokeTracker.error}</div>
+                )}
 
-                {isSuccess && txHash && (
+                {submittedMessage && (
                     <div className="success-message">
-                        <p>✅ Bid placed successfully!</p>
-                        <p>Transaction: <code>{txHash}</code></p>
-                        <a
-                            href={`https://sepolia.basescan.org/tx/${txHash}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                        >
-                            View on Basescan
-                        </a>
+                        <p>{submittedMessage}</p>
                     </div>
                 )}
 
-                <button type="submit" disabled={isPending || isConfirming || !bidAmount}>
-                    {isPending ? 'Confirming...' : isConfirming ? 'Processing...' : 'Place Bid'}
+                <button type="submit" disabled={isPending || isConfirming || isSubmitting || !bidAmount}>
+                    {isSubmitting
+                        ? mode === 'sealed' ? 'Encrypting...' : 'Signing...'
+                        : isPending
+                            ? 'Confirming...'
+                            : isConfirming
+                                ? 'Processing...'
+                                : mode === 'sealed' ? 'Place Sealed Bid' : mode === 'intent' ? 'Sign Bid Intent' : 'Place Bid'}
                 </button>
             </form>
+
+            {myIntents.length > 0 && (
+                <div className="bid-intents">
+                    <h3>Your Bid Intents</h3>
+                    <p className="hint">
+                        Cancelling removes an intent from the order book and asks your wallet to revoke
+                        its signature on-chain; until that transaction is mined the signature stays valid.
+                    </p>
+                    <ul>
+                        {myIntents.slice(0, 5).map((intent) => (
+                            <li key={intent.nonce}>
+                                Round {intent.forRound}: {parseFloat(formatEther(BigInt(intent.amount))).toFixed(4)} ETH — {intent.status}
+                                {intent.status === 'open' && (
+                                    <button type="button" onClick={() => handleCancelIntent(intent.nonce)}>
+                                        Cancel
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
         </div>
     );
 }
@@ -4,35 +4,76 @@
  */
 
 import { ConnectButton } from '@rainbow-me/rainbowkit';
-import { useAccount } from 'wagmi';
+import { useAccount, useSwitchChain } from 'wagmi';
 import { useEffect, useState } from 'react';
-import { getSettlerAddress, getAuctionAddress } from '../services/api';
+import { getSettlerAddress, getAuctionAddress, getServerChain, getAttestation } from '../services/api';
+import { ACTIVE_CHAIN } from '../config/chains';
+import { ALLOW_MOCK_ATTESTATION, ATTESTATION_AUDIENCE, EXPECTED_MEASUREMENT, PRIVY_APP_ID } from '../config/constants';
+import { PrivySignIn } from './PrivyAuth';
+import {
+  AttestationVerification,
+  createAttestationChallenge,
+  verifySettlerAttestation,
+} from '../services/attestation';
 
 interface ConnectionStatusProps {
   className?: string;
 }
 
 export function ConnectionStatus({ className = '' }: ConnectionStatusProps) {
-  const { address, isConnected } = useAccount();
+  const { address, isConnected, chainId: walletChainId } = useAccount();
+  const { switchChain, isPending: isSwitching } = useSwitchChain();
   const [settlerAddress, setSettlerAddress] = useState<string | null>(null);
   const [auctionAddress, setAuctionAddress] = useState<string | null>(null);
+  const [serverChain, setServerChain] = useState<Awaited<ReturnType<typeof getServerChain>> | null>(null);
+  const [attestation, setAttestation] = useState<AttestationVerification | null>(null);
+  const [attestationError, setAttestationError] = useState<string | null>(null);
 
   useEffect(() => {
     async function fetchAddresses() {
       try {
-        const [settler, auction] = await Promise.all([
+        const [settler, auction, chain] = await Promise.all([
           getSettlerAddress(),
           getAuctionAddress(),
+          getServerChain(),
         ]);
         setSettlerAddress(settler.publicKey);
         setAuctionAddress(auction.address);
+        setServerChain(chain);
+        await verifySettler(settler.publicKey);
       } catch (err) {
         console.error('Failed to fetch addresses:', err);
       }
     }
+
+    // Don't trust the settler address until the TEE attests to it
+    async function verifySettler(settler: string) {
+      try {
+        const challenge = createAttestationChallenge();
+        const document = await getAttestation(challenge);
+        const result = await verifySettlerAttestation(document, {
+          challenge,
+          audience: ATTESTATION_AUDIENCE,
+          expectedMeasurement: EXPECTED_MEASUREMENT,
+          expectedSettler: settler,
+          allowMock: ALLOW_MOCK_ATTESTATION,
+        });
+        setAttestation(result);
+        if (!result.verified) {
+          console.warn('Settler attestation failed:', result.errors);
+        }
+      } catch (err) {
+        setAttestationError(err instanceof Error ? err.message : 'Attestation unavailable');
+      }
+    }
+
     fetchAddresses();
   }, []);
 
+  // The wallet, this frontend build and the TEE server must all be on the same chain
+  const walletMismatch = isConnected && walletChainId !== undefined && walletChainId !== ACTIVE_CHAIN.id;
+  const serverMismatch = serverChain !== null && serverChain.chainId !== ACTIVE_CHAIN.id;
+
   return (
     <div className={`connection-status ${className}`}>
       <h2>Wallet Connection</h2>
@@ -44,14 +85,56 @@ export function ConnectionStatus({ className = '' }: ConnectionStatusProps) {
       {isConnected && address && (
         <div className="wallet-info">
           <p>Connected: <code>{address}</code></p>
+          {PRIVY_APP_ID && <PrivySignIn />}
+        </div>
+      )}
+
+      {walletMismatch && (
+        <div className="error-message">
+          <p>Your wallet is on chain {walletChainId}, but this app uses {ACTIVE_CHAIN.name} ({ACTIVE_CHAIN.id}).</p>
+          <button onClick={() => switchChain({ chainId: ACTIVE_CHAIN.id })} disabled={isSwitching}>
+            {isSwitching ? 'Switching...' : `Switch to ${ACTIVE_CHAIN.name}`}
+          </button>
+        </div>
+      )}
+
+      {serverMismatch && (
+        <div className="error-message">
+          The TEE server is configured for {serverChain.name} ({serverChain.chainId}), but this app uses{' '}
+          {ACTIVE_CHAIN.name} ({ACTIVE_CHAIN.id}). Check VITE_CHAIN_ID and the server's CHAIN_ID.
+        </div>
+      )}
+
+      {serverChain?.mismatch && (
+        <div className="error-message">
+          The TEE server's RPC is on chain {serverChain.rpcChainId}, not {serverChain.name} ({serverChain.chainId}).
+          Event tracking and round resolution are disabled.
         </div>
       )}
 
       <div className="server-info">
         <h3>TEE Server Info</h3>
+        <p>
+          Chain: <code>{serverChain ? `${serverChain.name} (${serverChain.chainId})` : 'Loading...'}</code>
+        </p>
         <p>
           Settler (TEE): <code>{settlerAddress || 'Loading...'}</code>
         </p>
+        <p>
+          Attestation:{' '}
+          {attestation?.verified && (
+            <span title={attestation.warnings.join('\n') || undefined}>
+              ✅ Verified{attestation.mock ? ' (mock)' : ''}
+              {attestation.measurement && <> - <code>{attestation.measurement.slice(0, 19)}…</code></>}
+            </span>
+          )}
+          {attestation && !attestation.verified && (
+            <span className="error-text" title={attestation.errors.join('\n')}>
+              ⚠️ Not verified: {attestation.errors[0]}
+            </span>
+          )}
+          {!attestation && (attestationError ? <span className="error-text">⚠️ {attestationError}</span> : 'Checking...')}
+        </p>
         <p>
           Auction Contract: <code>{auctionAddress || 'Not configured'}</code>
         </p>
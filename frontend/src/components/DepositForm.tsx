@@ -4,9 +4,10 @@
  */
 
 import { useState, useEffect } from 'react';
-import { useAccount, useBalance, useSendTransaction, useWaitForTransactionReceipt } from 'wagmi';
+import { useAccount, useBalance, useSendTransaction } from 'wagmi';
 import { parseEther } from 'viem';
 import { getAuctionAddress } from '../services/api';
+import { useTransactionTracker } from '../services/useTransactions';
 
 interface DepositFormProps {
   className?: string;
@@ -39,20 +40,14 @@ export function DepositForm({ className = '' }: DepositFormProps) {
   }, []);
 
   // Send transaction hook
-  const { sendTransaction, data: txHash, isPending } = useSendTransaction();
+  const { sendTransaction, isPending } = useSendTransaction();
 
-  // Wait for transaction
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
-    hash: txHash,
+  // Follow the deposit in the transaction tray; refetch balance once it confirms
+  const tracker = useTransactionTracker(() => {
+    refetchBalance();
+    setAmount('');
   });
-
-  // Refetch balance after successful deposit
-  useEffect(() => {
-    if (isSuccess) {
-      refetchBalance();
-      setAmount('');
-    }
-  }, [isSuccess, refetchBalance]);
+  const isConfirming = tracker.isConfirming;
 
   function handleDeposit(e: React.FormEvent) {
     e.preventDefault();
@@ -76,7 +71,7 @@ export function DepositForm({ className = '' }: DepositFormProps) {
     sendTransaction({
       to: auctionAddress,
       value: parseEther(amount),
-    });
+    }, tracker.track(`Deposit ${amount} ETH`));
   }
 
   if (!isConnected) {
@@ -132,21 +127,7 @@ export function DepositForm({ className = '' }: DepositFormProps) {
           />
         </div>
 
-        {error && <div className="error-message">{error}</div>}
-
-        {isSuccess && txHash && (
-          <div className="success-message">
-            <p>✅ Deposit successful!</p>
-            <p>Transaction: <code>{txHash}</code></p>
-            <a
-              href={`https://sepolia.basescan.org/tx/${txHash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-            >
-              View on Basescan
-            </a>
-          </div>
-        )}
+        {(error || tracker.error) && <div className="error-message">{error ?? tracker.error}</div>}
 
         <button type="submit" disabled={isPending || isConfirming || !amount || !auctionAddress}>
           {isPending ? 'Confirming...' : isConfirming ? 'Processing...' : 'Deposit'}
@@ -21,6 +21,12 @@ export function NavHeader() {
                 >
                     🦄 Uni V4 Hook
                 </NavLink>
+                <NavLink
+                    to="/admin"
+                    className={({ isActive }) => `nav-link ${isActive ? 'active' : ''}`}
+                >
+                    🛡️ Admin
+                </NavLink>
             </div>
         </nav>
     );
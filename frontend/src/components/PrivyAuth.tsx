@@ -0,0 +1,91 @@
+/**
+ * @file components/PrivyAuth.tsx
+ * @description Privy session for the connected wallet, used by the TEE server's authenticated routes
+ *
+ * The wallet is connected through RainbowKit, so Privy's own login modal is skipped:
+ * the connected wallet signs Privy's SIWE message instead. The resulting access token
+ * is what services/api.ts sends as the Bearer token.
+ */
+
+import { useEffect, useState } from 'react';
+import { useLoginWithSiwe, usePrivy } from '@privy-io/react-auth';
+import { useAccount, useSignMessage } from 'wagmi';
+import { setAuthTokenProvider } from '../services/api';
+import { ACTIVE_CHAIN } from '../config/chains';
+
+/**
+ * Registers Privy's getAccessToken with the API client (render once, inside PrivyProvider)
+ */
+export function PrivyTokenProvider() {
+    const { getAccessToken } = usePrivy();
+
+    useEffect(() => {
+        setAuthTokenProvider(getAccessToken);
+        return () => setAuthTokenProvider(null);
+    }, [getAccessToken]);
+
+    return null;
+}
+
+/**
+ * Sign in to the TEE server with the connected wallet
+ * Why: The server acts as the Privy session's wallet, so a session for another
+ * wallet than the connected one is shown and replaced on the next sign-in.
+ */
+export function PrivySignIn() {
+    const { ready, authenticated, user, logout } = usePrivy();
+    const { generateSiweMessage, loginWithSiwe } = useLoginWithSiwe();
+    const { address } = useAccount();
+    const { signMessageAsync } = useSignMessage();
+    const [isSigningIn, setIsSigningIn] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!ready || !address) {
+        return null;
+    }
+
+    const sessionAddress = authenticated ? user?.wallet?.address ?? null : null;
+    const isCurrentWallet = sessionAddress !== null && sessionAddress.toLowerCase() === address.toLowerCase();
+
+    const handleSignIn = async () => {
+        setError(null);
+        setIsSigningIn(true);
+        try {
+            if (authenticated) {
+                await logout();
+            }
+            const message = await generateSiweMessage({ address, chainId: `eip155:${ACTIVE_CHAIN.id}` });
+            const signature = await signMessageAsync({ message });
+            await loginWithSiwe({ message, signature });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Sign-in failed');
+        } finally {
+            setIsSigningIn(false);
+        }
+    };
+
+    return (
+        <div className="privy-auth">
+            {isCurrentWallet ? (
+                <p>
+                    Signed in to the TEE server{' '}
+                    <button type="button" onClick={() => logout()}>
+                        Sign out
+                    </button>
+                </p>
+            ) : (
+                <>
+                    {sessionAddress && (
+                        <p className="error-text">
+                            Signed in as <code>{sessionAddress}</code>, not the connected wallet.
+                        </p>
+                    )}
+                    <button type="button" onClick={handleSignIn} disabled={isSigningIn}>
+                        {isSigningIn ? 'Signing in...' : 'Sign in to TEE server'}
+                    </button>
+                </>
+            )}
+            {error && <p className="error-text">{error}</p>}
+        </div>
+    );
+}
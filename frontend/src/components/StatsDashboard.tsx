@@ -5,23 +5,30 @@
 
 import { useEffect, useState } from 'react';
 import { getDeposits, getWithdrawals, getBids, getRoundsResolved } from '../services/api';
+import { useAuctionFeed } from '../services/useAuctionFeed';
 
 interface Stats {
-  deposits: { totalDeposits: string; totalDepositsEth: string } | null;
-  withdrawals: { totalWithdrawals: string; totalWithdrawalsEth: string } | null;
-  bids: { totalBids: string; totalBidsEth: string } | null;
-  rounds: { roundsResolved: number } | null;
+  deposits: Awaited<ReturnType<typeof getDeposits>> | null;
+  withdrawals: Awaited<ReturnType<typeof getWithdrawals>> | null;
+  bids: Awaited<ReturnType<typeof getBids>> | null;
+  rounds: Awaited<ReturnType<typeof getRoundsResolved>> | null;
+}
+
+/**
+ * Render the unconfirmed part of a stat, if any
+ */
+function PendingValue({ value, unit }: { value: number; unit: string }) {
+  if (!value) {
+    return null;
+  }
+  return <div className="stat-pending">+{value.toFixed(unit === 'ETH' ? 4 : 0)} {unit} pending</div>;
 }
 
 interface StatsDashboardProps {
   className?: string;
-  refreshInterval?: number;
 }
 
-export function StatsDashboard({
-  className = '',
-  refreshInterval = 5000
-}: StatsDashboardProps) {
+export function StatsDashboard({ className = '' }: StatsDashboardProps) {
   const [stats, setStats] = useState<Stats>({
     deposits: null,
     withdrawals: null,
@@ -52,11 +59,19 @@ export function StatsDashboard({
     }
   }
 
+  // Live updates: the server pushes a stats snapshot whenever totals change
+  const { connected, stats: liveStats } = useAuctionFeed({ onReset: fetchStats });
+
   useEffect(() => {
     fetchStats();
-    const interval = setInterval(fetchStats, refreshInterval);
-    return () => clearInterval(interval);
-  }, [refreshInterval]);
+  }, []);
+
+  useEffect(() => {
+    if (liveStats) {
+      setStats(liveStats);
+      setError(null);
+    }
+  }, [liveStats]);
 
   if (loading && !stats.deposits) {
     return (
@@ -80,7 +95,12 @@ export function StatsDashboard({
   return (
     <div className={`stats-dashboard ${className}`}>
       <h2>Auction Statistics</h2>
-      <p className="subtitle">Activity since TEE server started</p>
+      <p className="subtitle">
+        All-time activity on the Auction contract
+        <span className={`feed-status ${connected ? 'live' : ''}`}>
+          {connected ? '● Live' : '○ Reconnecting...'}
+        </span>
+      </p>
 
       <div className="stats-grid">
         <div className="stat-card">
@@ -89,6 +109,7 @@ export function StatsDashboard({
             {stats.deposits ? (
               <>
                 <div className="stat-eth">{parseFloat(stats.deposits.totalDepositsEth).toFixed(4)} ETH</div>
+                <PendingValue value={parseFloat(stats.deposits.pendingDepositsEth)} unit="ETH" />
               </>
             ) : (
               <div>Loading...</div>
@@ -102,6 +123,7 @@ export function StatsDashboard({
             {stats.withdrawals ? (
               <>
                 <div className="stat-eth">{parseFloat(stats.withdrawals.totalWithdrawalsEth).toFixed(4)} ETH</div>
+                <PendingValue value={parseFloat(stats.withdrawals.pendingWithdrawalsEth)} unit="ETH" />
               </>
             ) : (
               <div>Loading...</div>
@@ -115,6 +137,7 @@ export function StatsDashboard({
             {stats.bids ? (
               <>
                 <div className="stat-eth">{parseFloat(stats.bids.totalBidsEth).toFixed(4)} ETH</div>
+                <PendingValue value={parseFloat(stats.bids.pendingBidsEth)} unit="ETH" />
               </>
             ) : (
               <div>Loading...</div>
@@ -126,7 +149,10 @@ export function StatsDashboard({
           <h3>Rounds Resolved</h3>
           <div className="stat-value">
             {stats.rounds !== null ? (
-              <div className="stat-eth">{stats.rounds.roundsResolved} rounds</div>
+              <>
+                <div className="stat-eth">{stats.rounds.roundsResolved} rounds</div>
+                <PendingValue value={stats.rounds.pendingRoundsResolved} unit="rounds" />
+              </>
             ) : (
               <div>Loading...</div>
             )}
@@ -0,0 +1,101 @@
+/**
+ * @file components/TransactionTray.tsx
+ * @description Floating list of the transactions submitted from any page
+ */
+
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { ACTIVE_CHAIN, getExplorerTxUrl } from '../config/chains';
+import {
+    clearFinishedTransactions,
+    dismissTransaction,
+    resumePendingTransactions,
+} from '../services/transactions';
+import type { TransactionStatus } from '../services/transactions';
+import { useTransactions } from '../services/useTransactions';
+
+const STATUS_ICONS: Record<TransactionStatus, string> = {
+    pending: '⏳',
+    confirmed: '✅',
+    failed: '❌',
+};
+
+export function TransactionTray() {
+    const publicClient = usePublicClient();
+    const transactions = useTransactions();
+    const [isOpen, setIsOpen] = useState(false);
+
+    // Pick up transactions that were still pending when the page was closed
+    useEffect(() => {
+        if (publicClient) {
+            resumePendingTransactions(publicClient);
+        }
+    }, [publicClient]);
+
+    const pendingCount = transactions.filter((tx) => tx.status === 'pending').length;
+
+    // Open on each new submission
+    const latestId = transactions[0]?.id;
+    useEffect(() => {
+        if (latestId) {
+            setIsOpen(true);
+        }
+    }, [latestId]);
+
+    if (transactions.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="transaction-tray">
+            <button className="transaction-tray-toggle" onClick={() => setIsOpen(!isOpen)}>
+                {pendingCount > 0 ? `⏳ ${pendingCount} pending` : 'Transactions'} {isOpen ? '▾' : '▴'}
+            </button>
+
+            {isOpen && (
+                <div className="transaction-tray-list">
+                    {transactions.map((tx) => {
+                        const explorerUrl = tx.hash ? getExplorerTxUrl(tx.hash) : null;
+                        return (
+                            <div key={tx.id} className={`transaction-item ${tx.status}`}>
+                                <div className="transaction-item-header">
+                                    <span>
+                                        {STATUS_ICONS[tx.status]} {tx.label}
+                                    </span>
+                                    {tx.status !== 'pending' && (
+                                        <button
+                                            className="transaction-dismiss"
+                                            onClick={() => dismissTransaction(tx.id)}
+                                            title="Dismiss"
+                                        >
+                                            ×
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="transaction-item-meta">
+                                    {new Date(tx.submittedAt).toLocaleTimeString()}
+                                    {explorerUrl && (
+                                        <>
+                                            {' • '}
+                                            <a href={explorerUrl} target="_blank" rel="noopener noreferrer">
+                                                View on {ACTIVE_CHAIN.blockExplorers?.default.name}
+                                            </a>
+                                        </>
+                                    )}
+                                    {!explorerUrl && tx.hash && <code>{tx.hash.slice(0, 10)}…</code>}
+                                </div>
+                                {tx.error && <div className="transaction-item-error">{tx.error}</div>}
+                            </div>
+                        );
+                    })}
+
+                    {transactions.length > pendingCount && (
+                        <button className="transaction-clear" onClick={clearFinishedTransactions}>
+                            Clear finished
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -4,40 +4,12 @@
  */
 
 import { useState, useEffect } from 'react';
-import { useAccount, useWriteContract, useWaitForTransactionReceipt, useReadContract } from 'wagmi';
+import { useAccount, useWriteContract, useReadContract } from 'wagmi';
 import { parseEther, formatEther } from 'viem';
+import { AUCTION_ABI } from '../config/contracts';
 import { getAuctionAddress } from '../services/api';
-
-const AUCTION_ABI = [
-  {
-    name: 'withdrawCollateral',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [{ name: 'amount', type: 'uint256' }],
-    outputs: [],
-  },
-  {
-    name: 'userCollateral',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: '', type: 'address' }],
-    outputs: [{ name: '', type: 'uint256' }],
-  },
-  {
-    name: 'nextRoundHighestBidder',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ name: '', type: 'address' }],
-  },
-  {
-    name: 'nextRoundHighestBid',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ name: '', type: 'uint256' }],
-  },
-] as const;
+import { useAuctionState } from '../services/useAuctionState';
+import { useTransactionTracker } from '../services/useTransactions';
 
 interface WithdrawFormProps {
   className?: string;
@@ -73,21 +45,10 @@ export function WithdrawForm({ className = '' }: WithdrawFormProps) {
     query: { enabled: !!auctionAddress && !!address },
   });
 
-  // Check if user is highest bidder
-  const { data: highestBidder } = useReadContract({
-    address: auctionAddress ?? undefined,
-    abi: AUCTION_ABI,
-    functionName: 'nextRoundHighestBidder',
-    query: { enabled: !!auctionAddress },
-  });
-
-  // Get highest bid amount (locked if user is highest bidder)
-  const { data: highestBid } = useReadContract({
-    address: auctionAddress ?? undefined,
-    abi: AUCTION_ABI,
-    functionName: 'nextRoundHighestBid',
-    query: { enabled: !!auctionAddress },
-  });
+  // Highest bid and bidder (the bid is locked if the user is the highest bidder)
+  const { state: auctionState } = useAuctionState();
+  const highestBidder = auctionState?.nextRoundHighestBidder;
+  const highestBid = auctionState?.nextRoundHighestBid;
 
   // Calculate withdrawable amount
   const isHighestBidder = highestBidder?.toLowerCase() === address?.toLowerCase();
@@ -95,20 +56,14 @@ export function WithdrawForm({ className = '' }: WithdrawFormProps) {
   const withdrawableAmount = collateralBalance ? collateralBalance - lockedAmount : 0n;
 
   // Write contract hook
-  const { writeContract, data: txHash, isPending } = useWriteContract();
+  const { writeContract, isPending } = useWriteContract();
 
-  // Wait for transaction
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
-    hash: txHash,
+  // Follow the withdrawal in the transaction tray; refetch collateral once it confirms
+  const tracker = useTransactionTracker(() => {
+    refetchCollateral();
+    setAmount('');
   });
-
-  // Refetch collateral after successful withdrawal
-  useEffect(() => {
-    if (isSuccess) {
-      refetchCollateral();
-      setAmount('');
-    }
-  }, [isSuccess, refetchCollateral]);
+  const isConfirming = tracker.isConfirming;
 
   function handleWithdraw(e: React.FormEvent) {
     e.preventDefault();
@@ -136,7 +91,7 @@ export function WithdrawForm({ className = '' }: WithdrawFormProps) {
       abi: AUCTION_ABI,
       functionName: 'withdrawCollateral',
       args: [withdrawWei],
-    });
+    }, tracker.track(`Withdraw ${amount} ETH`));
   }
 
   if (!isConnected) {
@@ -206,21 +161,7 @@ export function WithdrawForm({ className = '' }: WithdrawFormProps) {
           />
         </div>
 
-        {error && <div className="error-message">{error}</div>}
-
-        {isSuccess && txHash && (
-          <div className="success-message">
-            <p>✅ Withdrawal successful!</p>
-            <p>Transaction: <code>{txHash}</code></p>
-            <a
-              href={`https://sepolia.basescan.org/tx/${txHash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-            >
-              View on Basescan
-            </a>
-          </div>
-        )}
+        {(error || tracker.error) && <div className="error-message">{error ?? tracker.error}</div>}
 
         <button type="submit" disabled={isPending || isConfirming || !amount || withdrawableAmount === 0n}>
           {isPending ? 'Confirming...' : isConfirming ? 'Processing...' : 'Withdraw'}
@@ -3,25 +3,75 @@
  * @description Add liquidity form for ETH/USDC pool
  */
 
-import { useState, useEffect } from 'react';
-import { useAccount, useBalance, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { parseEther, parseUnits, formatEther, formatUnits } from 'viem';
+import { useState } from 'react';
+import { useAccount, useBalance, useReadContract, useWriteContract } from 'wagmi';
+import { parseUnits, formatEther, formatUnits } from 'viem';
 import {
     POOL_MODIFY_LIQUIDITY_TEST_ADDRESS,
     POOL_MODIFY_LIQUIDITY_TEST_ABI,
-    LEADER_FEE_HOOK_ADDRESS,
+    PERMIT2_ROUTER_ADDRESS,
+    PERMIT2_ROUTER_ABI,
     USDC_ADDRESS,
-    NATIVE_ETH,
-    POOL_CONFIG,
+    POOL_KEY,
+    POOL_ID,
+    STATE_VIEW_ADDRESS,
+    STATE_VIEW_ABI,
     ERC20_ABI,
 } from '../../config/contracts';
+import {
+    LIQUIDITY_ROUTER_ADDRESS,
+    MAX_USABLE_TICK,
+    MIN_USABLE_TICK,
+    amountsForLiquidity,
+    liquidityForAmounts,
+    nextPositionIndex,
+    positionSalt,
+    priceRangeToTicks,
+    rememberPosition,
+    tickToPrice,
+} from '../../services/positions';
+import type { PositionKey } from '../../services/positions';
+import { notifyPositionsChanged } from '../../services/usePositions';
+import { USE_PERMIT2 } from '../../services/permit2';
+import { quoteErrorMessage } from '../../services/swapQuote';
+import { useTokenApproval } from '../../services/useTokenApproval';
+import { useTransactionTracker } from '../../services/useTransactions';
+
+/**
+ * How long a signed USDC permit for an add stays valid
+ */
+const PERMIT_DEADLINE_SECONDS = 30 * 60;
+
+/**
+ * Parse a typed amount, treating empty or invalid input as zero
+ */
+function parseAmount(value: string, decimals: number): bigint {
+    try {
+        return value ? parseUnits(value, decimals) : 0n;
+    } catch {
+        return 0n;
+    }
+}
 
 export function AddLiquidityForm() {
     const { address, isConnected } = useAccount();
     const [ethAmount, setEthAmount] = useState('');
     const [usdcAmount, setUsdcAmount] = useState('');
-    const [needsApproval, setNeedsApproval] = useState(false);
-    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+    const [fullRange, setFullRange] = useState(true);
+    const [minPrice, setMinPrice] = useState('');
+    const [maxPrice, setMaxPrice] = useState('');
+    const [pendingPosition, setPendingPosition] = useState<PositionKey | null>(null);
+    const [isSigning, setIsSigning] = useState(false);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+
+    // Current pool price, to size liquidity from the entered amounts
+    const { data: slot0 } = useReadContract({
+        address: STATE_VIEW_ADDRESS,
+        abi: STATE_VIEW_ABI,
+        functionName: 'getSlot0',
+        args: [POOL_ID],
+    });
+    const sqrtPriceX96 = slot0?.[0];
 
     // ETH Balance
     const { data: ethBalance } = useBalance({
@@ -36,81 +86,88 @@ export function AddLiquidityForm() {
         args: address ? [address] : undefined,
     });
 
-    // USDC Allowance for PoolModifyLiquidityTest
-    const { data: usdcAllowance, refetch: refetchAllowance } = useReadContract({
-        address: USDC_ADDRESS,
-        abi: ERC20_ABI,
-        functionName: 'allowance',
-        args: address ? [address, POOL_MODIFY_LIQUIDITY_TEST_ADDRESS] : undefined,
-    });
-
     // Write contracts
-    const { writeContract, data: txHash, isPending, error, reset } = useWriteContract();
-    const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash: txHash });
-
-    // Check if approval is needed
-    useEffect(() => {
-        if (usdcAmount && usdcAllowance !== undefined) {
-            const requiredAmount = parseUnits(usdcAmount || '0', 6);
-            setNeedsApproval(usdcAllowance < requiredAmount);
-        } else {
-            setNeedsApproval(false);
-        }
-    }, [usdcAmount, usdcAllowance]);
-
-    // Handle success
-    useEffect(() => {
-        if (isSuccess) {
-            setSuccessMessage('Liquidity added successfully!');
-            setEthAmount('');
-            setUsdcAmount('');
-            refetchAllowance();
-            reset();
-            setTimeout(() => setSuccessMessage(null), 5000);
-        }
-    }, [isSuccess, refetchAllowance, reset]);
+    const { writeContract, isPending } = useWriteContract();
 
-    const handleApprove = () => {
-        if (!address) return;
+    // Range: full range, or the typed prices widened to the tick spacing
+    const range = fullRange
+        ? { tickLower: MIN_USABLE_TICK, tickUpper: MAX_USABLE_TICK }
+        : priceRangeToTicks(parseFloat(minPrice), parseFloat(maxPrice));
 
-        writeContract({
-            address: USDC_ADDRESS,
-            abi: ERC20_ABI,
-            functionName: 'approve',
-            args: [POOL_MODIFY_LIQUIDITY_TEST_ADDRESS, parseUnits('1000000', 6)], // Approve 1M USDC
-        });
-    };
+    const amount0 = parseAmount(ethAmount, 18);
+    const amount1 = parseAmount(usdcAmount, 6);
+    const liquidity = range && sqrtPriceX96
+        ? liquidityForAmounts(sqrtPriceX96, range.tickLower, range.tickUpper, amount0, amount1)
+        : 0n;
+    // What the pool will actually take for that liquidity
+    const deposit = range && sqrtPriceX96 && liquidity > 0n
+        ? amountsForLiquidity(sqrtPriceX96, range.tickLower, range.tickUpper, liquidity)
+        : null;
 
-    const handleAddLiquidity = () => {
-        if (!address || !ethAmount || !usdcAmount) return;
+    // USDC approval (Permit2, or PoolModifyLiquidityTest without Permit2Router)
+    const approval = useTokenApproval(USDC_ADDRESS, amount1, POOL_MODIFY_LIQUIDITY_TEST_ADDRESS);
+    const needsApproval = approval.needsApproval;
 
-        // Pool key
-        const poolKey = {
-            currency0: NATIVE_ETH,
-            currency1: USDC_ADDRESS,
-            fee: POOL_CONFIG.fee,
-            tickSpacing: POOL_CONFIG.tickSpacing,
-            hooks: LEADER_FEE_HOOK_ADDRESS,
-        };
+    // Follow the add in the transaction tray; list the new position once it confirms
+    const tracker = useTransactionTracker(() => {
+        setEthAmount('');
+        setUsdcAmount('');
+        if (address && pendingPosition) {
+            rememberPosition(address, pendingPosition);
+            setPendingPosition(null);
+            notifyPositionsChanged();
+        }
+        approval.refetchAllowance();
+    });
+    const isConfirming = tracker.isConfirming;
+
+    const handleAddLiquidity = async () => {
+        if (!address || !range || liquidity === 0n) return;
 
-        // Liquidity params
-        // Full range: tickLower = -887220, tickUpper = 887220 (for tickSpacing 60)
-        const params = {
-            tickLower: -887220,
-            tickUpper: 887220,
-            liquidityDelta: parseEther(ethAmount), // Simplified: use ETH amount as liquidity
-            salt: '0x0000000000000000000000000000000000000000000000000000000000000000' as `0x${string}`,
+        // Each add opens a new position under the user's salt prefix (see services/positions.ts)
+        const position = {
+            tickLower: range.tickLower,
+            tickUpper: range.tickUpper,
+            salt: positionSalt(address, nextPositionIndex(address)),
         };
+        setPendingPosition({ router: LIQUIDITY_ROUTER_ADDRESS, ...position });
+        const label = `Add ${ethAmount || '0'} ETH + ${usdcAmount || '0'} USDC liquidity`;
+        setSubmitError(null);
 
-        writeContract({
-            address: POOL_MODIFY_LIQUIDITY_TEST_ADDRESS,
-            abi: POOL_MODIFY_LIQUIDITY_TEST_ABI,
-            functionName: 'modifyLiquidity',
-            args: [poolKey, params, '0x'],
-            value: parseEther(ethAmount),
-        });
+        if (!USE_PERMIT2) {
+            writeContract({
+                address: POOL_MODIFY_LIQUIDITY_TEST_ADDRESS,
+                abi: POOL_MODIFY_LIQUIDITY_TEST_ABI,
+                functionName: 'modifyLiquidity',
+                args: [POOL_KEY, { ...position, liquidityDelta: liquidity }, '0x'],
+                // The router refunds whatever ETH the position doesn't need
+                value: amount0,
+            }, tracker.track(label));
+            return;
+        }
+
+        // The pool takes at most the typed USDC amount, so that's what the permit allows
+        setIsSigning(true);
+        try {
+            const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS);
+            const permits = amount1 > 0n ? [await approval.signPermit(amount1, deadline)] : [];
+            writeContract({
+                address: PERMIT2_ROUTER_ADDRESS,
+                abi: PERMIT2_ROUTER_ABI,
+                functionName: 'modifyLiquidity',
+                args: [POOL_KEY, { ...position, liquidityDelta: liquidity }, permits, '0x'],
+                value: amount0,
+            }, tracker.track(label));
+        } catch (err) {
+            setSubmitError(quoteErrorMessage(err));
+            setPendingPosition(null);
+        } finally {
+            setIsSigning(false);
+        }
     };
 
+    const isBusy = isPending || isConfirming || isSigning || approval.isApproving;
+
     const formatBalance = (balance: bigint | undefined, decimals: number) => {
         if (!balance) return '0';
         return parseFloat(decimals === 18 ? formatEther(balance) : formatUnits(balance, decimals)).toFixed(4);
@@ -125,15 +182,9 @@ export function AddLiquidityForm() {
                 <p className="connect-prompt">Connect wallet to add liquidity</p>
             ) : (
                 <>
-                    {error && (
+                    {(tracker.error || approval.approvalError || submitError) && (
                         <div className="error-message">
-                            Error: {error.message}
-                        </div>
-                    )}
-
-                    {successMessage && (
-                        <div className="success-message">
-                            {successMessage}
+                            Error: {tracker.error ?? approval.approvalError ?? submitError}
                         </div>
                     )}
 
@@ -151,7 +202,7 @@ export function AddLiquidityForm() {
                                 placeholder="0.0"
                                 value={ethAmount}
                                 onChange={(e) => setEthAmount(e.target.value)}
-                                disabled={isPending || isConfirming}
+                                disabled={isBusy}
                             />
                         </div>
 
@@ -170,27 +221,75 @@ export function AddLiquidityForm() {
                                 placeholder="0.0"
                                 value={usdcAmount}
                                 onChange={(e) => setUsdcAmount(e.target.value)}
-                                disabled={isPending || isConfirming}
+                                disabled={isBusy}
                             />
                         </div>
                     </div>
 
+                    {/* Price Range */}
+                    <div className="range-selector">
+                        <label className="range-toggle">
+                            <input
+                                type="checkbox"
+                                checked={fullRange}
+                                onChange={(e) => setFullRange(e.target.checked)}
+                                disabled={isBusy}
+                            />
+                            Full range
+                        </label>
+                        {!fullRange && (
+                            <div className="range-inputs">
+                                <input
+                                    type="number"
+                                    placeholder="Min USDC per ETH"
+                                    value={minPrice}
+                                    onChange={(e) => setMinPrice(e.target.value)}
+                                    disabled={isBusy}
+                                />
+                                <span>–</span>
+                                <input
+                                    type="number"
+                                    placeholder="Max USDC per ETH"
+                                    value={maxPrice}
+                                    onChange={(e) => setMaxPrice(e.target.value)}
+                                    disabled={isBusy}
+                                />
+                            </div>
+                        )}
+                        {!fullRange && range && (
+                            <p className="hint">
+                                Ticks {range.tickLower} to {range.tickUpper}: {tickToPrice(range.tickLower).toFixed(2)}–{tickToPrice(range.tickUpper).toFixed(2)} USDC per ETH
+                            </p>
+                        )}
+                        {!fullRange && !range && (minPrice || maxPrice) && (
+                            <p className="hint">Enter a min price below the max price</p>
+                        )}
+                        {sqrtPriceX96 === undefined && (
+                            <p className="hint">Pool price unavailable (is VITE_STATE_VIEW_ADDRESS set?)</p>
+                        )}
+                        {deposit && (
+                            <p className="hint">
+                                Deposits ≈ {parseFloat(formatEther(deposit.amount0)).toFixed(6)} ETH + {parseFloat(formatUnits(deposit.amount1, 6)).toFixed(2)} USDC
+                            </p>
+                        )}
+                    </div>
+
                     {/* Action Buttons */}
                     {needsApproval ? (
                         <button
                             className="liquidity-button approve"
-                            onClick={handleApprove}
-                            disabled={isPending || isConfirming}
+                            onClick={approval.approve}
+                            disabled={isBusy}
                         >
-                            {isPending ? 'Confirm in Wallet...' : isConfirming ? 'Approving...' : 'Approve USDC'}
+                            {approval.isApproving ? 'Approving...' : USE_PERMIT2 ? 'Approve USDC for Permit2' : 'Approve USDC'}
                         </button>
                     ) : (
                         <button
                             className="liquidity-button"
                             onClick={handleAddLiquidity}
-                            disabled={isPending || isConfirming || !ethAmount || !usdcAmount}
+                            disabled={isBusy || liquidity === 0n}
                         >
-                            {isPending ? 'Confirm in Wallet...' : isConfirming ? 'Adding Liquidity...' : 'Add Liquidity'}
+                            {isSigning ? 'Sign Permit in Wallet...' : isPending ? 'Confirm in Wallet...' : isConfirming ? 'Adding Liquidity...' : 'Add Liquidity'}
                         </button>
                     )}
                 </>
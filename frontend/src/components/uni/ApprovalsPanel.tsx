@@ -0,0 +1,193 @@
+/**
+ * @file components/uni/ApprovalsPanel.tsx
+ * @description Lists the USDC spenders the user has approved and revokes them
+ *
+ * Covers plain ERC20 allowances (the v4 test routers and Permit2) and Permit2
+ * allowance-transfer approvals for the same routers. Permit2Router itself is
+ * paid with one-time signed permits, so it never holds a standing allowance.
+ */
+
+import { useState } from 'react';
+import { useAccount, useReadContracts, useWriteContract } from 'wagmi';
+import { formatUnits, maxUint160, maxUint256, zeroAddress } from 'viem';
+import type { Address } from 'viem';
+import {
+    ERC20_ABI,
+    PERMIT2_ABI,
+    PERMIT2_ADDRESS,
+    PERMIT2_ROUTER_ADDRESS,
+    POOL_MODIFY_LIQUIDITY_TEST_ADDRESS,
+    POOL_SWAP_TEST_ADDRESS,
+    USDC_ADDRESS,
+} from '../../config/contracts';
+import { useTransactionTracker } from '../../services/useTransactions';
+
+/**
+ * Spenders the Uniswap page has ever asked approvals for
+ */
+const SPENDERS: { name: string; address: Address }[] = [
+    { name: 'PoolSwapTest', address: POOL_SWAP_TEST_ADDRESS },
+    { name: 'PoolModifyLiquidityTest', address: POOL_MODIFY_LIQUIDITY_TEST_ADDRESS },
+    { name: 'Permit2', address: PERMIT2_ADDRESS },
+    { name: 'Permit2Router', address: PERMIT2_ROUTER_ADDRESS },
+].filter((spender) => spender.address !== zeroAddress);
+
+/**
+ * Spenders that can hold a Permit2 allowance (Permit2 can't approve itself)
+ */
+const PERMIT2_SPENDERS = SPENDERS.filter((spender) => spender.address !== PERMIT2_ADDRESS);
+
+interface ApprovalRow {
+    kind: 'erc20' | 'permit2';
+    spender: { name: string; address: Address };
+    amount: bigint;
+    /** Unix seconds, Permit2 allowances only */
+    expiration?: number;
+}
+
+export function ApprovalsPanel() {
+    const { address, isConnected } = useAccount();
+    const [revokingKey, setRevokingKey] = useState<string | null>(null);
+
+    const { data: erc20Allowances, refetch: refetchErc20, isLoading: isLoadingErc20 } = useReadContracts({
+        contracts: SPENDERS.map((spender) => ({
+            address: USDC_ADDRESS,
+            abi: ERC20_ABI,
+            functionName: 'allowance' as const,
+            args: [address ?? zeroAddress, spender.address] as const,
+        })),
+        query: { enabled: !!address },
+    });
+
+    const { data: permit2Allowances, refetch: refetchPermit2, isLoading: isLoadingPermit2 } = useReadContracts({
+        contracts: PERMIT2_SPENDERS.map((spender) => ({
+            address: PERMIT2_ADDRESS,
+            abi: PERMIT2_ABI,
+            functionName: 'allowance' as const,
+            args: [address ?? zeroAddress, USDC_ADDRESS, spender.address] as const,
+        })),
+        query: { enabled: !!address },
+    });
+
+    const { writeContract, isPending } = useWriteContract();
+    const tracker = useTransactionTracker(() => {
+        setRevokingKey(null);
+        refetchErc20();
+        refetchPermit2();
+    });
+    const isConfirming = tracker.isConfirming;
+
+    // Only approvals that still let someone spend USDC
+    const now = Math.floor(Date.now() / 1000);
+    const rows: ApprovalRow[] = [];
+    SPENDERS.forEach((spender, i) => {
+        const amount = erc20Allowances?.[i]?.result;
+        if (typeof amount === 'bigint' && amount > 0n) {
+            rows.push({ kind: 'erc20', spender, amount });
+        }
+    });
+    PERMIT2_SPENDERS.forEach((spender, i) => {
+        const allowance = permit2Allowances?.[i]?.result;
+        if (allowance && allowance[0] > 0n && allowance[1] > now) {
+            rows.push({ kind: 'permit2', spender, amount: allowance[0], expiration: allowance[1] });
+        }
+    });
+
+    const rowKey = (row: ApprovalRow) => `${row.kind}:${row.spender.address}`;
+
+    const handleRevoke = (row: ApprovalRow) => {
+        setRevokingKey(rowKey(row));
+        const label = `Revoke ${row.spender.name} ${row.kind === 'erc20' ? 'USDC approval' : 'Permit2 allowance'}`;
+        if (row.kind === 'erc20') {
+            writeContract({
+                address: USDC_ADDRESS,
+                abi: ERC20_ABI,
+                functionName: 'approve',
+                args: [row.spender.address, 0n],
+            }, tracker.track(label));
+        } else {
+            writeContract({
+                address: PERMIT2_ADDRESS,
+                abi: PERMIT2_ABI,
+                functionName: 'lockdown',
+                args: [[{ token: USDC_ADDRESS, spender: row.spender.address }]],
+            }, tracker.track(label));
+        }
+    };
+
+    const formatAmount = (row: ApprovalRow) => {
+        const max = row.kind === 'erc20' ? maxUint256 : maxUint160;
+        if (row.amount === max) return 'Unlimited';
+        return `${parseFloat(formatUnits(row.amount, 6)).toFixed(2)} USDC`;
+    };
+
+    return (
+        <div className="approvals-panel">
+            <h2>🔐 Approvals</h2>
+            <p className="subtitle">Contracts allowed to spend your USDC</p>
+
+            {!isConnected ? (
+                <p className="connect-prompt">Connect wallet to see your approvals</p>
+            ) : (
+                <>
+                    {tracker.error && (
+                        <div className="error-message">
+                            Error: {tracker.error}
+                        </div>
+                    )}
+
+                    {rows.length === 0 ? (
+                        <p className="no-earnings">
+                            {isLoadingErc20 || isLoadingPermit2 ? 'Loading approvals...' : 'No active USDC approvals.'}
+                        </p>
+                    ) : (
+                        <table className="positions-table">
+                            <thead>
+                                <tr>
+                                    <th>Spender</th>
+                                    <th>Via</th>
+                                    <th>Allowance</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map((row) => (
+                                    <tr key={rowKey(row)}>
+                                        <td>
+                                            {row.spender.name}
+                                            <div className="hint">{row.spender.address}</div>
+                                        </td>
+                                        <td>{row.kind === 'erc20' ? 'ERC20 approve' : 'Permit2'}</td>
+                                        <td>
+                                            {formatAmount(row)}
+                                            {row.expiration !== undefined && (
+                                                <div className="hint">
+                                                    Expires {new Date(row.expiration * 1000).toLocaleString()}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td>
+                                            <button
+                                                className="preset-button"
+                                                onClick={() => handleRevoke(row)}
+                                                disabled={isPending || isConfirming}
+                                            >
+                                                {revokingKey === rowKey(row) && (isPending || isConfirming) ? '...' : 'Revoke'}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+
+                    <p className="earnings-note">
+                        Swaps and adds through Permit2Router only need the Permit2 approval; each one
+                        is paid with a signed permit for its exact amount that expires with the trade.
+                        Revoking Permit2 means approving it again before the next USDC trade.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
@@ -4,9 +4,18 @@
  */
 
 import { useEffect, useState } from 'react';
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useAccount, useReadContract, useWriteContract } from 'wagmi';
 import { formatEther, formatUnits } from 'viem';
 import { LEADER_FEE_HOOK_ADDRESS, LEADER_FEE_HOOK_ABI, TOKENS, USDC_ADDRESS, NATIVE_ETH } from '../../config/contracts';
+import { getHookLeaderStats } from '../../services/api';
+import type { HookLeaderStats } from '../../services/api';
+import { useAuctionFeed } from '../../services/useAuctionFeed';
+import { useTransactionTracker } from '../../services/useTransactions';
+
+/**
+ * Number of won rounds listed in the ROI table
+ */
+const ROUNDS_SHOWN = 10;
 
 interface TokenBalance {
     address: string;
@@ -19,7 +28,7 @@ export function EarningsPanel() {
     const { address, isConnected } = useAccount();
     const [tokenBalances, setTokenBalances] = useState<TokenBalance[]>([]);
     const [withdrawingToken, setWithdrawingToken] = useState<string | null>(null);
-    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+    const [stats, setStats] = useState<HookLeaderStats | null>(null);
 
     // Read balances for each tracked token
     const { data: ethBalance, refetch: refetchEth } = useReadContract({
@@ -36,13 +45,47 @@ export function EarningsPanel() {
         args: address ? [address, USDC_ADDRESS] : undefined,
     });
 
+    // Lifetime earnings and per-round ROI, indexed by the TEE server
+    async function refreshStats() {
+        if (!address) {
+            setStats(null);
+            return;
+        }
+        try {
+            setStats(await getHookLeaderStats(address));
+        } catch (err) {
+            console.error('Failed to fetch leader stats:', err);
+        }
+    }
+
+    useEffect(() => {
+        refreshStats();
+    }, [address]);
+
+    // Refresh when this leader's fees move or one of their rounds resolves
+    useAuctionFeed({
+        onEvent: (event) => {
+            const account = address?.toLowerCase();
+            if (
+                event.status === 'confirmed' &&
+                account &&
+                (event.args.leader === account || event.args.winner === account)
+            ) {
+                refreshStats();
+            }
+        },
+    });
+
     // Write contract for withdrawals
-    const { writeContract, data: txHash, isPending, error, reset } = useWriteContract();
+    const { writeContract, isPending } = useWriteContract();
 
-    // Wait for transaction
-    const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
-        hash: txHash,
+    // Follow the withdrawal in the transaction tray; reload balances once it confirms
+    const tracker = useTransactionTracker(() => {
+        setWithdrawingToken(null);
+        refetchEth();
+        refetchUsdc();
     });
+    const isConfirming = tracker.isConfirming;
 
     // Update token balances
     useEffect(() => {
@@ -69,18 +112,6 @@ export function EarningsPanel() {
         setTokenBalances(balances);
     }, [ethBalance, usdcBalance]);
 
-    // Handle success
-    useEffect(() => {
-        if (isSuccess) {
-            setSuccessMessage('Withdrawal successful!');
-            setWithdrawingToken(null);
-            refetchEth();
-            refetchUsdc();
-            reset();
-            setTimeout(() => setSuccessMessage(null), 5000);
-        }
-    }, [isSuccess, refetchEth, refetchUsdc, reset]);
-
     const handleWithdraw = (tokenAddress: string) => {
         if (!isConnected) return;
 
@@ -90,7 +121,7 @@ export function EarningsPanel() {
             abi: LEADER_FEE_HOOK_ABI,
             functionName: 'withdrawFees',
             args: [tokenAddress as `0x${string}`],
-        });
+        }, tracker.track(`Withdraw ${tokenFor(tokenAddress)?.symbol ?? 'token'} fees`));
     };
 
     const formatBalance = (balance: bigint, decimals: number) => {
@@ -102,6 +133,11 @@ export function EarningsPanel() {
 
     const hasAnyBalance = tokenBalances.some(t => t.balance > 0n);
 
+    const tokenFor = (tokenAddress: string) =>
+        Object.values(TOKENS).find((token) => token.address.toLowerCase() === tokenAddress.toLowerCase());
+
+    const formatRoi = (roi: number | null) => (roi === null ? '—' : `${roi >= 0 ? '+' : ''}${(roi * 100).toFixed(1)}%`);
+
     return (
         <div className="earnings-panel">
             <h2>💎 Your Earnings</h2>
@@ -111,15 +147,9 @@ export function EarningsPanel() {
                 <p className="connect-prompt">Connect wallet to view your earnings</p>
             ) : (
                 <>
-                    {error && (
+                    {tracker.error && (
                         <div className="error-message">
-                            Error: {error.message}
-                        </div>
-                    )}
-
-                    {successMessage && (
-                        <div className="success-message">
-                            {successMessage}
+                            Error: {tracker.error}
                         </div>
                     )}
 
@@ -153,6 +183,53 @@ export function EarningsPanel() {
                     {!hasAnyBalance && (
                         <p className="no-earnings">No accumulated fees yet. Win an auction to start earning!</p>
                     )}
+
+                    {stats && stats.summary.roundsWon > 0 && (
+                        <div className="earnings-history">
+                            <h3>Lifetime</h3>
+                            <div className="earnings-summary">
+                                {stats.earnings.map((entry) => {
+                                    const token = tokenFor(entry.token);
+                                    return (
+                                        <p key={entry.token}>
+                                            Earned:{' '}
+                                            <strong>
+                                                {token
+                                                    ? `${formatBalance(BigInt(entry.accumulated), token.decimals)} ${token.symbol}`
+                                                    : `${entry.accumulated} (${entry.token})`}
+                                            </strong>
+                                        </p>
+                                    );
+                                })}
+                                <p>Rent paid: <strong>{parseFloat(stats.summary.rentPaidEth).toFixed(6)} ETH</strong> over {stats.summary.roundsWon} rounds</p>
+                                <p>ROI (ETH fees vs rent): <strong>{formatRoi(stats.summary.roi)}</strong></p>
+                            </div>
+
+                            <table className="earnings-rounds">
+                                <thead>
+                                    <tr>
+                                        <th>Round</th>
+                                        <th>Rent</th>
+                                        <th>ETH fees</th>
+                                        <th>ROI</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {stats.roundsWon.slice(0, ROUNDS_SHOWN).map((round) => (
+                                        <tr key={round.round}>
+                                            <td>#{round.round}</td>
+                                            <td>{parseFloat(round.pricePaidEth).toFixed(6)}</td>
+                                            <td>{parseFloat(formatEther(BigInt(round.ethFees))).toFixed(6)}</td>
+                                            <td className={round.roi !== null && round.roi < 0 ? 'roi-negative' : 'roi-positive'}>
+                                                {formatRoi(round.roi)}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="earnings-note">ROI counts native ETH fees only; other tokens are listed above.</p>
+                        </div>
+                    )}
                 </>
             )}
         </div>
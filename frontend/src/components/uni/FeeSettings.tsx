@@ -4,13 +4,15 @@
  */
 
 import { useState, useEffect } from 'react';
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useAccount, useReadContract, useWriteContract } from 'wagmi';
 import { LEADER_FEE_HOOK_ADDRESS, LEADER_FEE_HOOK_ABI } from '../../config/contracts';
+import { useBidRecommendation } from '../../services/useBidRecommendation';
+import { useTransactionTracker } from '../../services/useTransactions';
 
 export function FeeSettings() {
     const { address, isConnected } = useAccount();
     const [feeInput, setFeeInput] = useState<number>(3000); // 0.3% default
-    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+    const recommendation = useBidRecommendation(feeInput);
 
     // Read user's current configured fee
     const { data: userFee, refetch: refetchFee } = useReadContract({
@@ -34,12 +36,11 @@ export function FeeSettings() {
     });
 
     // Write contract
-    const { writeContract, data: txHash, isPending, error } = useWriteContract();
+    const { writeContract, isPending } = useWriteContract();
 
-    // Wait for transaction
-    const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
-        hash: txHash,
-    });
+    // Follow the update in the transaction tray; reload the fee once it confirms
+    const tracker = useTransactionTracker(() => refetchFee());
+    const isConfirming = tracker.isConfirming;
 
     // Update local state when user fee loads
     useEffect(() => {
@@ -48,15 +49,6 @@ export function FeeSettings() {
         }
     }, [userFee]);
 
-    // Handle success
-    useEffect(() => {
-        if (isSuccess) {
-            setSuccessMessage('Fee updated successfully!');
-            refetchFee();
-            setTimeout(() => setSuccessMessage(null), 5000);
-        }
-    }, [isSuccess, refetchFee]);
-
     const handleSetFee = () => {
         if (!isConnected) return;
 
@@ -65,7 +57,7 @@ export function FeeSettings() {
             abi: LEADER_FEE_HOOK_ABI,
             functionName: 'setFee',
             args: [feeInput],
-        });
+        }, tracker.track(`Set fee to ${feeToPercent(feeInput)}%`));
     };
 
     const feeToPercent = (fee: number) => (fee / 10000).toFixed(4);
@@ -110,6 +102,22 @@ export function FeeSettings() {
                         </div>
                     </div>
 
+                    {recommendation && recommendation.sampleRounds > 0 && (
+                        <div className="bid-estimate">
+                            <p>
+                                Est. revenue per round at {feeToPercent(feeInput)}%:{' '}
+                                <strong>{parseFloat(recommendation.expectedRevenue.eth).toFixed(4)} ETH</strong>
+                            </p>
+                            <p>
+                                80% range: {parseFloat(recommendation.bands.p10.eth).toFixed(4)}–{parseFloat(recommendation.bands.p90.eth).toFixed(4)} ETH
+                                · Suggested max bid: <strong>{parseFloat(recommendation.recommendedMaxBid.eth).toFixed(4)} ETH</strong>
+                            </p>
+                            <p className="estimate-note">
+                                From {recommendation.sampleRounds} past rounds ({recommendation.confidence} confidence); assumes volume doesn't change with the fee.
+                            </p>
+                        </div>
+                    )}
+
                     <div className="fee-presets">
                         {presets.map((preset) => (
                             <button
@@ -123,15 +131,9 @@ export function FeeSettings() {
                         ))}
                     </div>
 
-                    {error && (
+                    {tracker.error && (
                         <div className="error-message">
-                            Error: {error.message}
-                        </div>
-                    )}
-
-                    {successMessage && (
-                        <div className="success-message">
-                            {successMessage}
+                            Error: {tracker.error}
                         </div>
                     )}
 
@@ -6,67 +6,58 @@
 import { useEffect, useState } from 'react';
 import { useReadContract } from 'wagmi';
 import { LEADER_FEE_HOOK_ADDRESS, LEADER_FEE_HOOK_ABI } from '../../config/contracts';
+import { useAuctionFeed } from '../../services/useAuctionFeed';
+import { useAuctionState } from '../../services/useAuctionState';
 
 export function LeaderDisplay() {
     const [timeRemaining, setTimeRemaining] = useState<number>(0);
 
-    // Read current leader
-    const { data: currentLeader, refetch: refetchLeader } = useReadContract({
-        address: LEADER_FEE_HOOK_ADDRESS,
-        abi: LEADER_FEE_HOOK_ABI,
-        functionName: 'getCurrentLeader',
-    });
+    // Leader and round timing come from the server's auction state snapshot
+    const { state: auctionState } = useAuctionState();
+    const currentLeader = auctionState?.currentLeader;
 
     // Read current fee
-    const { data: currentFee } = useReadContract({
+    const { data: currentFee, refetch: refetchFee } = useReadContract({
         address: LEADER_FEE_HOOK_ADDRESS,
         abi: LEADER_FEE_HOOK_ABI,
         functionName: 'getCurrentFee',
     });
 
-    // Read time remaining
-    const { data: timeRemainingData, refetch: refetchTime } = useReadContract({
-        address: LEADER_FEE_HOOK_ADDRESS,
-        abi: LEADER_FEE_HOOK_ABI,
-        functionName: 'getLeadershipTimeRemaining',
-    });
-
     // Update local countdown
     useEffect(() => {
-        if (timeRemainingData !== undefined) {
-            setTimeRemaining(Number(timeRemainingData));
+        if (auctionState) {
+            setTimeRemaining(auctionState.secondsRemaining);
         }
-    }, [timeRemainingData]);
+    }, [auctionState]);
 
-    // Countdown timer
-    useEffect(() => {
-        const interval = setInterval(() => {
-            setTimeRemaining((prev) => {
-                if (prev <= 0) {
-                    refetchLeader();
-                    refetchTime();
-                    return 0;
-                }
-                return prev - 1;
-            });
-        }, 1000);
+    // Live feed: re-read the fee when a round resolves, count down from server ticks
+    const { tick } = useAuctionFeed({
+        onEvent: (event) => {
+            if (event.eventName === 'RoundResolved' && event.status !== 'removed') {
+                refetchFee();
+            }
+        },
+    });
 
-        return () => clearInterval(interval);
-    }, [refetchLeader, refetchTime]);
+    useEffect(() => {
+        if (tick) {
+            setTimeRemaining(tick.secondsRemaining);
+        }
+    }, [tick]);
 
-    // Auto-refresh every 10 seconds
+    // Local countdown between ticks (e.g. while the feed reconnects)
     useEffect(() => {
         const interval = setInterval(() => {
-            refetchLeader();
-            refetchTime();
-        }, 10000);
+            setTimeRemaining((prev) => (prev > 0 ? prev - 1 : 0));
+        }, 1000);
 
         return () => clearInterval(interval);
-    }, [refetchLeader, refetchTime]);
+    }, []);
 
     const hasActiveLeader = currentLeader && currentLeader !== '0x0000000000000000000000000000000000000000';
     const feePercentage = currentFee ? (Number(currentFee) / 10000).toFixed(4) : '0.30';
-    const progressPercent = timeRemaining > 0 ? ((60 - timeRemaining) / 60) * 100 : 100;
+    const roundDuration = tick?.roundDuration ?? auctionState?.roundDuration ?? 60;
+    const progressPercent = timeRemaining > 0 ? ((roundDuration - timeRemaining) / roundDuration) * 100 : 100;
 
     const formatAddress = (addr: string) => {
         return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
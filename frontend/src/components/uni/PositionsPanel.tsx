@@ -0,0 +1,181 @@
+/**
+ * @file components/uni/PositionsPanel.tsx
+ * @description Lists the user's liquidity positions and removes them fully or partially
+ */
+
+import { useState } from 'react';
+import { useAccount, useReadContract, useWriteContract } from 'wagmi';
+import { formatEther, formatUnits, isAddressEqual } from 'viem';
+import {
+    POOL_KEY,
+    POOL_MODIFY_LIQUIDITY_TEST_ADDRESS,
+    POOL_MODIFY_LIQUIDITY_TEST_ABI,
+    PERMIT2_ROUTER_ADDRESS,
+    PERMIT2_ROUTER_ABI,
+    LEADER_FEE_HOOK_ADDRESS,
+    LEADER_FEE_HOOK_ABI,
+} from '../../config/contracts';
+import { MAX_USABLE_TICK, MIN_USABLE_TICK, tickToPrice } from '../../services/positions';
+import type { Position } from '../../services/positions';
+import { notifyPositionsChanged, usePositions } from '../../services/usePositions';
+import { useBidRecommendation } from '../../services/useBidRecommendation';
+import { useTransactionTracker } from '../../services/useTransactions';
+
+/**
+ * Share of a position's liquidity removed by each button, in percent
+ */
+const REMOVE_PERCENTAGES = [25, 50, 100];
+
+export function PositionsPanel() {
+    const { isConnected } = useAccount();
+    const { positions, error: loadError, isLoading, refresh } = usePositions();
+    const [removingSalt, setRemovingSalt] = useState<string | null>(null);
+
+    // Fee swappers pay right now, for the per-round estimate
+    const { data: leaderFee } = useReadContract({
+        address: LEADER_FEE_HOOK_ADDRESS,
+        abi: LEADER_FEE_HOOK_ABI,
+        functionName: 'getCurrentFee',
+    });
+    const recommendation = useBidRecommendation(leaderFee !== undefined ? Number(leaderFee) : undefined);
+
+    const { writeContract, isPending } = useWriteContract();
+    const tracker = useTransactionTracker(() => {
+        setRemovingSalt(null);
+        notifyPositionsChanged();
+    });
+    const isConfirming = tracker.isConfirming;
+
+    const handleRemove = (position: Position, percentage: number) => {
+        setRemovingSalt(position.salt);
+        const label = `Remove ${percentage}% of ${formatPrice(position.tickLower)}–${formatPrice(position.tickUpper)} position`;
+        const params = {
+            tickLower: position.tickLower,
+            tickUpper: position.tickUpper,
+            // Negative delta removes; the tokens and accrued fees go to the sender
+            liquidityDelta: -((position.liquidity * BigInt(percentage)) / 100n),
+            salt: position.salt,
+        };
+
+        // A position can only be modified through the router that owns it
+        if (isAddressEqual(position.router, PERMIT2_ROUTER_ADDRESS)) {
+            writeContract({
+                address: PERMIT2_ROUTER_ADDRESS,
+                abi: PERMIT2_ROUTER_ABI,
+                functionName: 'modifyLiquidity',
+                // Removals only pay out, so no permits
+                args: [POOL_KEY, params, [], '0x'],
+            }, tracker.track(label));
+        } else {
+            writeContract({
+                address: POOL_MODIFY_LIQUIDITY_TEST_ADDRESS,
+                abi: POOL_MODIFY_LIQUIDITY_TEST_ABI,
+                functionName: 'modifyLiquidity',
+                args: [POOL_KEY, params, '0x'],
+            }, tracker.track(label));
+        }
+    };
+
+    const formatPrice = (tick: number) => {
+        if (tick <= MIN_USABLE_TICK) return '0';
+        if (tick >= MAX_USABLE_TICK) return '∞';
+        return tickToPrice(tick).toFixed(2);
+    };
+
+    // Expected ETH fees per round: this position's share of what the pool's
+    // ETH-side volume paid at the current fee, from the indexed history
+    const estimatePerRound = (position: Position) => {
+        if (!recommendation || recommendation.sampleRounds === 0 || position.share === 0) return null;
+        const revenue = parseFloat(recommendation.expectedRevenue.eth);
+        return (revenue * position.share).toFixed(6);
+    };
+
+    return (
+        <div className="positions-panel">
+            <h2>📊 Your Positions</h2>
+            <p className="subtitle">Liquidity you've added to the ETH/USDC pool</p>
+
+            {!isConnected ? (
+                <p className="connect-prompt">Connect wallet to see your positions</p>
+            ) : (
+                <>
+                    {(tracker.error || loadError) && (
+                        <div className="error-message">
+                            Error: {tracker.error ?? loadError}
+                        </div>
+                    )}
+
+                    {positions.length === 0 ? (
+                        <p className="no-earnings">
+                            {isLoading ? 'Scanning for positions...' : 'No open positions yet.'}
+                        </p>
+                    ) : (
+                        <table className="positions-table">
+                            <thead>
+                                <tr>
+                                    <th>Range (USDC/ETH)</th>
+                                    <th>Holdings</th>
+                                    <th>Pool share</th>
+                                    <th>Unclaimed fees</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {positions.map((position) => {
+                                    const estimate = estimatePerRound(position);
+                                    const isRemoving = removingSalt === position.salt && (isPending || isConfirming);
+                                    return (
+                                        <tr key={`${position.router}:${position.salt}:${position.tickLower}:${position.tickUpper}`}>
+                                            <td>
+                                                {formatPrice(position.tickLower)} – {formatPrice(position.tickUpper)}
+                                                <span className={position.inRange ? 'range-status in-range' : 'range-status'}>
+                                                    {position.inRange ? 'In range' : 'Out of range'}
+                                                </span>
+                                            </td>
+                                            <td>
+                                                {parseFloat(formatEther(position.amount0)).toFixed(6)} ETH
+                                                <br />
+                                                {parseFloat(formatUnits(position.amount1, 6)).toFixed(2)} USDC
+                                            </td>
+                                            <td>
+                                                {(position.share * 100).toFixed(2)}%
+                                                {estimate && <div className="hint">≈ {estimate} ETH/round</div>}
+                                            </td>
+                                            <td>
+                                                {parseFloat(formatEther(position.feesOwed0)).toFixed(6)} ETH
+                                                <br />
+                                                {parseFloat(formatUnits(position.feesOwed1, 6)).toFixed(2)} USDC
+                                            </td>
+                                            <td className="position-actions">
+                                                {REMOVE_PERCENTAGES.map((percentage) => (
+                                                    <button
+                                                        key={percentage}
+                                                        className="preset-button"
+                                                        onClick={() => handleRemove(position, percentage)}
+                                                        disabled={isPending || isConfirming}
+                                                    >
+                                                        {isRemoving ? '...' : `${percentage}%`}
+                                                    </button>
+                                                ))}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+
+                    <p className="earnings-note">
+                        Pool share counts only in-range liquidity; the per-round estimate uses past ETH-side
+                        swap volume at the current {leaderFee !== undefined ? (Number(leaderFee) / 10000).toFixed(4) : '—'}% fee.
+                        Removing liquidity also collects its unclaimed fees.
+                    </p>
+
+                    <button className="preset-button" onClick={refresh} disabled={isLoading}>
+                        {isLoading ? 'Refreshing...' : 'Refresh'}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
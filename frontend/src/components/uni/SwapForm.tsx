@@ -3,25 +3,65 @@
  * @description Swap form for ETH ↔ USDC with dynamic leader fees
  */
 
-import { useState, useEffect } from 'react';
-import { useAccount, useBalance, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useState } from 'react';
+import { useAccount, useBalance, useReadContract, useWriteContract } from 'wagmi';
 import { parseEther, parseUnits, formatEther, formatUnits } from 'viem';
 import {
     POOL_SWAP_TEST_ADDRESS,
     POOL_SWAP_TEST_ABI,
-    LEADER_FEE_HOOK_ADDRESS,
+    PERMIT2_ROUTER_ADDRESS,
+    PERMIT2_ROUTER_ABI,
     USDC_ADDRESS,
-    NATIVE_ETH,
-    POOL_CONFIG,
     ERC20_ABI,
+    TOKENS,
 } from '../../config/contracts';
+import { USE_PERMIT2 } from '../../services/permit2';
+import { quoteErrorMessage, routerSwapArgs, sqrtPriceToPrice, swapArgs } from '../../services/swapQuote';
+import { useSwapQuote } from '../../services/useSwapQuote';
+import { useTokenApproval } from '../../services/useTokenApproval';
+import { useTransactionTracker } from '../../services/useTransactions';
+
+/**
+ * Slippage presets in basis points, and the defaults for new swaps
+ */
+const SLIPPAGE_PRESETS = [10, 50, 100];
+const DEFAULT_SLIPPAGE_BPS = 50;
+const DEFAULT_DEADLINE_MINUTES = 10;
+
+/**
+ * Price impact above which the quote is highlighted as a warning
+ */
+const HIGH_PRICE_IMPACT = 0.05;
+
+/**
+ * Parse a typed amount, or null if it's empty, invalid or zero
+ */
+function parseAmount(value: string, isEth: boolean): bigint | null {
+    try {
+        const amount = isEth ? parseEther(value) : parseUnits(value, 6);
+        return amount > 0n ? amount : null;
+    } catch {
+        return null;
+    }
+}
 
 export function SwapForm() {
     const { address, isConnected } = useAccount();
     const [inputAmount, setInputAmount] = useState('');
     const [isEthToUsdc, setIsEthToUsdc] = useState(true);
-    const [needsApproval, setNeedsApproval] = useState(false);
-    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+    const [slippageBps, setSlippageBps] = useState(DEFAULT_SLIPPAGE_BPS);
+    const [deadlineMinutes, setDeadlineMinutes] = useState(DEFAULT_DEADLINE_MINUTES);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+    // Steps between clicking Swap and the wallet's transaction prompt
+    const [preparing, setPreparing] = useState<'quoting' | 'signing' | null>(null);
+
+    const amountIn = parseAmount(inputAmount, isEthToUsdc);
+    const { quote, error: quoteError, isLoading: isQuoting, requote } = useSwapQuote({
+        zeroForOne: isEthToUsdc, // ETH (token0) -> USDC (token1)
+        amountIn,
+        slippageBps,
+        deadlineMinutes,
+    });
 
     // ETH Balance
     const { data: ethBalance } = useBalance({
@@ -36,89 +76,55 @@ export function SwapForm() {
         args: address ? [address] : undefined,
     });
 
-    // USDC Allowance for PoolSwapTest
-    const { data: usdcAllowance, refetch: refetchAllowance } = useReadContract({
-        address: USDC_ADDRESS,
-        abi: ERC20_ABI,
-        functionName: 'allowance',
-        args: address ? [address, POOL_SWAP_TEST_ADDRESS] : undefined,
-    });
+    // USDC approval (Permit2, or PoolSwapTest without Permit2Router)
+    const approval = useTokenApproval(USDC_ADDRESS, isEthToUsdc ? null : amountIn, POOL_SWAP_TEST_ADDRESS);
+    const needsApproval = approval.needsApproval;
 
     // Write contracts
-    const { writeContract, data: txHash, isPending, error, reset } = useWriteContract();
-    const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash: txHash });
-
-    // Check if approval is needed
-    useEffect(() => {
-        if (!isEthToUsdc && inputAmount && usdcAllowance !== undefined) {
-            const requiredAmount = parseUnits(inputAmount || '0', 6);
-            setNeedsApproval(usdcAllowance < requiredAmount);
-        } else {
-            setNeedsApproval(false);
-        }
-    }, [isEthToUsdc, inputAmount, usdcAllowance]);
-
-    // Handle success
-    useEffect(() => {
-        if (isSuccess) {
-            setSuccessMessage('Swap successful!');
-            setInputAmount('');
-            refetchAllowance();
-            reset();
-            setTimeout(() => setSuccessMessage(null), 5000);
-        }
-    }, [isSuccess, refetchAllowance, reset]);
+    const { writeContract, isPending } = useWriteContract();
+    const tracker = useTransactionTracker(() => {
+        setInputAmount('');
+        approval.refetchAllowance();
+    });
+    const isConfirming = tracker.isConfirming;
 
-    const handleApprove = () => {
-        if (!address) return;
+    const handleSwap = async () => {
+        if (!address || !amountIn) return;
 
-        writeContract({
-            address: USDC_ADDRESS,
-            abi: ERC20_ABI,
-            functionName: 'approve',
-            args: [POOL_SWAP_TEST_ADDRESS, parseUnits('1000000', 6)], // Approve 1M USDC
-        });
-    };
+        // Re-quote so the price limit and deadline reflect the pool as it is now
+        setSubmitError(null);
+        setPreparing('quoting');
+        try {
+            const fresh = await requote();
+            const value = fresh.zeroForOne ? amountIn : 0n;
+            const label = `Swap ${inputAmount} ${fresh.zeroForOne ? 'ETH → USDC' : 'USDC → ETH'}`;
+
+            if (!USE_PERMIT2) {
+                writeContract({
+                    address: POOL_SWAP_TEST_ADDRESS,
+                    abi: POOL_SWAP_TEST_ABI,
+                    functionName: 'swap',
+                    args: swapArgs(fresh.zeroForOne, amountIn, fresh.sqrtPriceLimitX96, fresh.hookData),
+                    value,
+                }, tracker.track(label));
+                return;
+            }
 
-    const handleSwap = () => {
-        if (!address || !inputAmount) return;
-
-        const zeroForOne = isEthToUsdc; // ETH (token0) -> USDC (token1)
-        const amountIn = isEthToUsdc
-            ? parseEther(inputAmount)
-            : parseUnits(inputAmount, 6);
-
-        // Pool key
-        const poolKey = {
-            currency0: NATIVE_ETH,
-            currency1: USDC_ADDRESS,
-            fee: POOL_CONFIG.fee,
-            tickSpacing: POOL_CONFIG.tickSpacing,
-            hooks: LEADER_FEE_HOOK_ADDRESS,
-        };
-
-        // Swap params - negative amountSpecified means exact input
-        const swapParams = {
-            zeroForOne,
-            amountSpecified: -BigInt(amountIn), // Negative = exact input
-            sqrtPriceLimitX96: zeroForOne
-                ? BigInt('4295128739') // Min price (swap all the way)
-                : BigInt('1461446703485210103287273052203988822378723970342'), // Max price
-        };
-
-        // Test settings
-        const testSettings = {
-            takeClaims: false,
-            settleUsingBurn: false,
-        };
-
-        writeContract({
-            address: POOL_SWAP_TEST_ADDRESS,
-            abi: POOL_SWAP_TEST_ABI,
-            functionName: 'swap',
-            args: [poolKey, swapParams, testSettings, '0x'],
-            value: isEthToUsdc ? amountIn : 0n,
-        });
+            // USDC input is paid with a permit for exactly this amount, valid until the swap deadline
+            setPreparing('signing');
+            const permits = fresh.zeroForOne ? [] : [await approval.signPermit(amountIn, fresh.deadline)];
+            writeContract({
+                address: PERMIT2_ROUTER_ADDRESS,
+                abi: PERMIT2_ROUTER_ABI,
+                functionName: 'swap',
+                args: routerSwapArgs(fresh.zeroForOne, amountIn, fresh.sqrtPriceLimitX96, permits, fresh.hookData),
+                value,
+            }, tracker.track(label));
+        } catch (err) {
+            setSubmitError(quoteErrorMessage(err));
+        } finally {
+            setPreparing(null);
+        }
     };
 
     const formatBalance = (balance: bigint | undefined, decimals: number) => {
@@ -130,6 +136,15 @@ export function SwapForm() {
     const outputToken = isEthToUsdc ? 'USDC' : 'ETH';
     const inputBalance = isEthToUsdc ? ethBalance?.value : usdcBalance;
     const inputDecimals = isEthToUsdc ? 18 : 6;
+    const outputDecimals = isEthToUsdc ? 6 : 18;
+    const isBusy = isPending || isConfirming || preparing !== null || approval.isApproving;
+
+    // USDC per ETH, whichever way the swap goes
+    const toPrice = (sqrtPriceX96: bigint) => sqrtPriceToPrice(sqrtPriceX96, TOKENS.ETH.decimals, TOKENS.USDC.decimals);
+    const formatFee = (fee: number) => `${(fee / 10000).toFixed(4)}%`;
+    const outputDisplay = quote
+        ? formatUnits(quote.amountOut, outputDecimals)
+        : amountIn && isQuoting ? '…' : '~';
 
     return (
         <div className="swap-form">
@@ -140,15 +155,21 @@ export function SwapForm() {
                 <p className="connect-prompt">Connect wallet to swap</p>
             ) : (
                 <>
-                    {error && (
+                    {tracker.error && (
                         <div className="error-message">
-                            Error: {error.message}
+                            Error: {tracker.error}
                         </div>
                     )}
 
-                    {successMessage && (
-                        <div className="success-message">
-                            {successMessage}
+                    {approval.approvalError && (
+                        <div className="error-message">
+                            Error: {approval.approvalError}
+                        </div>
+                    )}
+
+                    {submitError && (
+                        <div className="error-message">
+                            Error: {submitError}
                         </div>
                     )}
 
@@ -167,7 +188,7 @@ export function SwapForm() {
                                     placeholder="0.0"
                                     value={inputAmount}
                                     onChange={(e) => setInputAmount(e.target.value)}
-                                    disabled={isPending || isConfirming}
+                                    disabled={isBusy}
                                 />
                                 <span className="token-badge">{inputToken}</span>
                             </div>
@@ -177,7 +198,7 @@ export function SwapForm() {
                         <button
                             className="swap-direction-button"
                             onClick={() => setIsEthToUsdc(!isEthToUsdc)}
-                            disabled={isPending || isConfirming}
+                            disabled={isBusy}
                         >
                             ↕️
                         </button>
@@ -191,7 +212,7 @@ export function SwapForm() {
                                 <input
                                     type="text"
                                     placeholder="0.0"
-                                    value="~"
+                                    value={outputDisplay}
                                     disabled
                                 />
                                 <span className="token-badge">{outputToken}</span>
@@ -199,22 +220,92 @@ export function SwapForm() {
                         </div>
                     </div>
 
+                    {/* Slippage and deadline */}
+                    <div className="swap-settings">
+                        <div className="swap-setting-row">
+                            <span>Slippage</span>
+                            <div className="slippage-presets">
+                                {SLIPPAGE_PRESETS.map((bps) => (
+                                    <button
+                                        key={bps}
+                                        className={`preset-button ${slippageBps === bps ? 'active' : ''}`}
+                                        onClick={() => setSlippageBps(bps)}
+                                        disabled={isBusy}
+                                    >
+                                        {bps / 100}%
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="swap-setting-row">
+                            <span>Deadline</span>
+                            <span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={deadlineMinutes}
+                                    onChange={(e) => setDeadlineMinutes(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                                    disabled={isBusy}
+                                />{' '}
+                                min
+                            </span>
+                        </div>
+                    </div>
+
+                    {/* Quote */}
+                    {quote && (
+                        <div className="swap-quote">
+                            <div className="swap-quote-row">
+                                <span>Price</span>
+                                <span>1 ETH = {toPrice(quote.sqrtPriceX96).toFixed(2)} USDC</span>
+                            </div>
+                            <div className={`swap-quote-row ${quote.priceImpact > HIGH_PRICE_IMPACT ? 'high-impact' : ''}`}>
+                                <span>Price impact</span>
+                                <span>{(quote.priceImpact * 100).toFixed(2)}%</span>
+                            </div>
+                            <div className="swap-quote-row">
+                                <span>Leader fee</span>
+                                <span>{formatFee(quote.leaderFee)}</span>
+                            </div>
+                            <div className="swap-quote-row">
+                                <span>Price limit</span>
+                                <span>1 ETH = {toPrice(quote.sqrtPriceLimitX96).toFixed(2)} USDC</span>
+                            </div>
+                            <p className="swap-quote-note">
+                                {quote.partialFill
+                                    ? `Only ${formatUnits(quote.amountIn, inputDecimals)} ${inputToken} can be filled at current liquidity. `
+                                    : ''}
+                                The swap stops at the price limit; any unfilled {inputToken} stays in your wallet.
+                            </p>
+                        </div>
+                    )}
+
+                    {!quote && quoteError && (
+                        <p className="swap-quote-note">
+                            {needsApproval ? 'Approve USDC to see a quote.' : `No quote: ${quoteError}`}
+                        </p>
+                    )}
+
                     {/* Action Buttons */}
                     {needsApproval ? (
                         <button
                             className="swap-button approve"
-                            onClick={handleApprove}
-                            disabled={isPending || isConfirming}
+                            onClick={approval.approve}
+                            disabled={isBusy}
                         >
-                            {isPending ? 'Confirm in Wallet...' : isConfirming ? 'Approving...' : 'Approve USDC'}
+                            {approval.isApproving ? 'Approving...' : USE_PERMIT2 ? 'Approve USDC for Permit2' : 'Approve USDC'}
                         </button>
                     ) : (
                         <button
                             className="swap-button"
                             onClick={handleSwap}
-                            disabled={isPending || isConfirming || !inputAmount}
+                            disabled={isBusy || !quote}
                         >
-                            {isPending ? 'Confirm in Wallet...' : isConfirming ? 'Swapping...' : 'Swap'}
+                            {preparing === 'quoting'
+                                ? 'Quoting...'
+                                : preparing === 'signing'
+                                ? 'Sign Permit in Wallet...'
+                                : isPending ? 'Confirm in Wallet...' : isConfirming ? 'Swapping...' : 'Swap'}
                         </button>
                     )}
                 </>
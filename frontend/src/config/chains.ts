@@ -0,0 +1,113 @@
+/**
+ * @file config/chains.ts
+ * @description Registry of supported chains and their contract addresses
+ */
+
+import type { Chain } from 'wagmi/chains';
+import { anvil, baseSepolia } from 'wagmi/chains';
+import { CHAIN_ID } from './constants';
+
+type Address = `0x${string}`;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as const;
+
+/**
+ * Contract addresses the frontend talks to directly
+ * (the Auction address comes from the TEE server)
+ */
+export interface ChainContracts {
+    poolManager: Address;
+    poolSwapTest: Address;
+    poolModifyLiquidityTest: Address;
+    permit2: Address;
+    stateView: Address;
+    permit2Router: Address;
+    leaderFeeHook: Address;
+    usdc: Address;
+}
+
+export interface ChainConfig {
+    chain: Chain;
+    contracts: ChainContracts;
+}
+
+// ============================================
+// Registry
+// ============================================
+export const CHAIN_REGISTRY: Record<number, ChainConfig> = {
+    [baseSepolia.id]: {
+        chain: baseSepolia,
+        contracts: {
+            poolManager: '0x05E73354cFDd6745C338b50BcFDfA3Aa6fA03408',
+            poolSwapTest: '0x8b5bcc363dde2614281ad875bad385e0a785d3b9',
+            poolModifyLiquidityTest: '0x37429cd17cb1454c34e7f50b09725202fd533039',
+            permit2: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
+            stateView: '0x571291b572ed32ce6751a2cb2486ebee8defb9b4',
+            // Deploy with hooks/script/DeployPermit2Router.s.sol; until then the test routers are used
+            permit2Router: ZERO_ADDRESS,
+            // Replace with your deployed hook address after running deployment script
+            leaderFeeHook: ZERO_ADDRESS,
+            usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+        },
+    },
+    // Local Anvil node for end-to-end tests. Addresses depend on your deploy
+    // script, so set them through the VITE_*_ADDRESS overrides below.
+    [anvil.id]: {
+        chain: anvil,
+        contracts: {
+            poolManager: ZERO_ADDRESS,
+            poolSwapTest: ZERO_ADDRESS,
+            poolModifyLiquidityTest: ZERO_ADDRESS,
+            permit2: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
+            stateView: ZERO_ADDRESS,
+            permit2Router: ZERO_ADDRESS,
+            leaderFeeHook: ZERO_ADDRESS,
+            usdc: ZERO_ADDRESS,
+        },
+    },
+};
+
+/**
+ * Per-deployment overrides for the registry addresses
+ */
+const CONTRACT_OVERRIDES: Partial<ChainContracts> = {
+    poolManager: import.meta.env.VITE_POOL_MANAGER_ADDRESS,
+    poolSwapTest: import.meta.env.VITE_POOL_SWAP_TEST_ADDRESS,
+    poolModifyLiquidityTest: import.meta.env.VITE_POOL_MODIFY_LIQUIDITY_TEST_ADDRESS,
+    permit2: import.meta.env.VITE_PERMIT2_ADDRESS,
+    stateView: import.meta.env.VITE_STATE_VIEW_ADDRESS,
+    permit2Router: import.meta.env.VITE_PERMIT2_ROUTER_ADDRESS,
+    leaderFeeHook: import.meta.env.VITE_LEADER_FEE_HOOK_ADDRESS,
+    usdc: import.meta.env.VITE_USDC_ADDRESS,
+};
+
+function resolveChainConfig(chainId: number): ChainConfig {
+    const config = CHAIN_REGISTRY[chainId];
+    if (!config) {
+        const supported = Object.keys(CHAIN_REGISTRY).join(', ');
+        throw new Error(`Unsupported VITE_CHAIN_ID ${chainId}. Supported chains: ${supported}`);
+    }
+
+    const contracts = { ...config.contracts };
+    for (const [key, value] of Object.entries(CONTRACT_OVERRIDES)) {
+        if (value) {
+            contracts[key as keyof ChainContracts] = value;
+        }
+    }
+
+    return { chain: config.chain, contracts };
+}
+
+/**
+ * The chain this build is configured for (VITE_CHAIN_ID)
+ */
+export const ACTIVE_CHAIN_CONFIG = resolveChainConfig(CHAIN_ID);
+export const ACTIVE_CHAIN = ACTIVE_CHAIN_CONFIG.chain;
+
+/**
+ * Block explorer link for a transaction, or null on chains without an explorer (Anvil)
+ */
+export function getExplorerTxUrl(hash: string): string | null {
+    const explorer = ACTIVE_CHAIN.blockExplorers?.default.url;
+    return explorer ? `${explorer}/tx/${hash}` : null;
+}
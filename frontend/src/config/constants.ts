@@ -14,6 +14,12 @@ export const TEE_SERVER_URL = import.meta.env.VITE_TEE_SERVER_URL || 'http://loc
  */
 export const WALLETCONNECT_PROJECT_ID = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID || '';
 
+/**
+ * Privy App ID (same app as the server's PRIVY_APP_ID)
+ * Needed to sign in for authenticated requests (bid intents, sealed bids, admin)
+ */
+export const PRIVY_APP_ID = import.meta.env.VITE_PRIVY_APP_ID || '';
+
 /**
  * Blockchain RPC URL
  */
@@ -21,19 +27,48 @@ export const RPC_URL = import.meta.env.VITE_RPC_URL || null;
 
 /**
  * Chain ID (defaults to Base Sepolia)
+ * Must be registered in config/chains.ts; use 31337 for a local Anvil node
  */
 export const CHAIN_ID = import.meta.env.VITE_CHAIN_ID
   ? parseInt(import.meta.env.VITE_CHAIN_ID)
   : 84532; // Base Sepolia testnet
 
+/**
+ * Container image digest the settler's attestation must report (e.g. sha256:...)
+ * Leave unset to accept any image, which only proves the key is held in some TEE
+ */
+export const EXPECTED_MEASUREMENT = import.meta.env.VITE_EXPECTED_MEASUREMENT || null;
+
+/**
+ * Audience the attestation token must be issued for (matches the server's ATTESTATION_AUDIENCE)
+ */
+export const ATTESTATION_AUDIENCE = import.meta.env.VITE_ATTESTATION_AUDIENCE || 'auction-tee-settler';
+
+/**
+ * Accept unsigned attestations from the server's mock provider (local testing only)
+ */
+export const ALLOW_MOCK_ATTESTATION = import.meta.env.VITE_ALLOW_MOCK_ATTESTATION === 'true';
+
+/**
+ * First block to scan for liquidity positions (e.g. the pool's creation block)
+ * Leave unset to scan only recent blocks; positions added from this browser are always listed
+ */
+export const POSITIONS_FROM_BLOCK = import.meta.env.VITE_POSITIONS_FROM_BLOCK
+  ? BigInt(import.meta.env.VITE_POSITIONS_FROM_BLOCK)
+  : null;
+
 if (!WALLETCONNECT_PROJECT_ID) {
   console.warn('⚠️  VITE_WALLETCONNECT_PROJECT_ID is not set. Wallet connection may not work.');
 }
 
+if (!PRIVY_APP_ID) {
+  console.warn('⚠️  VITE_PRIVY_APP_ID is not set. Authenticated requests to the TEE server will fail.');
+}
+
 if (!TEE_SERVER_URL || TEE_SERVER_URL === 'http://localhost:8000') {
   console.warn('⚠️  VITE_TEE_SERVER_URL is using default localhost.');
 }
 
 if (!RPC_URL) {
-  console.error('❌ VITE_RPC_URL is not set. Blockchain operations will not work.');
+  console.warn('⚠️  VITE_RPC_URL is not set. Falling back to the chain\'s public RPC.');
 }
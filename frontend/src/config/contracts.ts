@@ -1,26 +1,38 @@
 /**
  * @file config/contracts.ts
- * @description Contract configuration for Base Sepolia
+ * @description Contract configuration for the active chain (see config/chains.ts)
  */
 
+import { encodeAbiParameters, keccak256 } from 'viem';
+import { ACTIVE_CHAIN_CONFIG } from './chains';
+
+// Generated from the Foundry builds (see contracts/scripts/generate.ts)
+export { AUCTION_ABI, LEADER_FEE_HOOK_ABI, PERMIT2_ROUTER_ABI } from '@contracts';
+
+const { contracts } = ACTIVE_CHAIN_CONFIG;
+
 // ============================================
-// Uniswap V4 Core Contracts (Base Sepolia)
+// Uniswap V4 Core Contracts
 // ============================================
-export const POOL_MANAGER_ADDRESS = '0x05E73354cFDd6745C338b50BcFDfA3Aa6fA03408' as const;
-export const POOL_SWAP_TEST_ADDRESS = '0x8b5bcc363dde2614281ad875bad385e0a785d3b9' as const;
-export const POOL_MODIFY_LIQUIDITY_TEST_ADDRESS = '0x37429cd17cb1454c34e7f50b09725202fd533039' as const;
-export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3' as const;
+export const POOL_MANAGER_ADDRESS = contracts.poolManager;
+export const POOL_SWAP_TEST_ADDRESS = contracts.poolSwapTest;
+export const POOL_MODIFY_LIQUIDITY_TEST_ADDRESS = contracts.poolModifyLiquidityTest;
+export const PERMIT2_ADDRESS = contracts.permit2;
+// Read-only lens over PoolManager state, used for swap quotes
+export const STATE_VIEW_ADDRESS = contracts.stateView;
+// Swap/liquidity router paid with Permit2 signatures (hooks/src/Permit2Router.sol)
+export const PERMIT2_ROUTER_ADDRESS = contracts.permit2Router;
 
 // ============================================
 // LeaderFeeHook Contract
 // ============================================
-// Replace with your deployed hook address after running deployment script
-export const LEADER_FEE_HOOK_ADDRESS = '0x0000000000000000000000000000000000000000' as const;
+// Set VITE_LEADER_FEE_HOOK_ADDRESS (or the registry entry) after running deployment script
+export const LEADER_FEE_HOOK_ADDRESS = contracts.leaderFeeHook;
 
 // ============================================
-// Token Addresses (Base Sepolia)
+// Token Addresses
 // ============================================
-export const USDC_ADDRESS = '0x036CbD53842c5426634e7929541eC2318f3dCF7e' as const;
+export const USDC_ADDRESS = contracts.usdc;
 export const NATIVE_ETH = '0x0000000000000000000000000000000000000000' as const;
 
 // Token metadata for UI
@@ -43,7 +55,7 @@ export const TOKENS = {
 // Pool Configuration
 // ============================================
 // Note: In V4, ETH is represented as address(0) but sorted as Currency
-// USDC (0x036...) > ETH (0x000...) so token0 = ETH, token1 = USDC
+// Any token address > ETH (0x000...) so token0 = ETH, token1 = USDC
 export const POOL_CONFIG = {
     token0: NATIVE_ETH,      // ETH (lower address)
     token1: USDC_ADDRESS,    // USDC (higher address)
@@ -54,151 +66,28 @@ export const POOL_CONFIG = {
     initialSqrtPriceX96: '3543191142285914205922034323214',
 } as const;
 
-// ============================================
-// LeaderFeeHook ABI
-// ============================================
-export const LEADER_FEE_HOOK_ABI = [
-    // Events
-    {
-        type: 'event',
-        name: 'LeaderUpdated',
-        inputs: [
-            { name: 'leader', type: 'address', indexed: true },
-            { name: 'timestamp', type: 'uint256', indexed: false }
-        ]
-    },
-    {
-        type: 'event',
-        name: 'FeeUpdated',
-        inputs: [
-            { name: 'leader', type: 'address', indexed: true },
-            { name: 'fee', type: 'uint24', indexed: false }
-        ]
-    },
-    {
-        type: 'event',
-        name: 'FeeAccumulated',
-        inputs: [
-            { name: 'leader', type: 'address', indexed: true },
-            { name: 'amount', type: 'uint256', indexed: false },
-            { name: 'token', type: 'address', indexed: false }
-        ]
-    },
-    {
-        type: 'event',
-        name: 'FeesWithdrawn',
-        inputs: [
-            { name: 'leader', type: 'address', indexed: true },
-            { name: 'amount', type: 'uint256', indexed: false },
-            { name: 'token', type: 'address', indexed: false }
-        ]
-    },
+// PoolKey of the ETH/USDC pool, as passed to PoolSwapTest and PoolModifyLiquidityTest
+export const POOL_KEY = {
+    currency0: POOL_CONFIG.token0,
+    currency1: POOL_CONFIG.token1,
+    fee: POOL_CONFIG.fee,
+    tickSpacing: POOL_CONFIG.tickSpacing,
+    hooks: LEADER_FEE_HOOK_ADDRESS,
+} as const;
 
-    // View Functions
-    {
-        type: 'function',
-        name: 'DEFAULT_FEE',
-        inputs: [],
-        outputs: [{ type: 'uint24' }],
-        stateMutability: 'view'
-    },
-    {
-        type: 'function',
-        name: 'MIN_FEE',
-        inputs: [],
-        outputs: [{ type: 'uint24' }],
-        stateMutability: 'view'
-    },
-    {
-        type: 'function',
-        name: 'MAX_FEE',
-        inputs: [],
-        outputs: [{ type: 'uint24' }],
-        stateMutability: 'view'
-    },
-    {
-        type: 'function',
-        name: 'ROUND_DURATION',
-        inputs: [],
-        outputs: [{ type: 'uint256' }],
-        stateMutability: 'view'
-    },
-    {
-        type: 'function',
-        name: 'cachedLeader',
-        inputs: [],
-        outputs: [{ type: 'address' }],
-        stateMutability: 'view'
-    },
-    {
-        type: 'function',
-        name: 'leadershipStart',
-        inputs: [],
-        outputs: [{ type: 'uint256' }],
-        stateMutability: 'view'
-    },
-    {
-        type: 'function',
-        name: 'cachedLeaderFee',
-        inputs: [],
-        outputs: [{ type: 'uint24' }],
-        stateMutability: 'view'
-    },
-    {
-        type: 'function',
-        name: 'leaderFees',
-        inputs: [{ name: 'account', type: 'address' }],
-        outputs: [{ type: 'uint24' }],
-        stateMutability: 'view'
-    },
-    {
-        type: 'function',
-        name: 'unclaimedFees',
-        inputs: [
-            { name: 'leader', type: 'address' },
-            { name: 'token', type: 'address' }
+// PoolId of the ETH/USDC pool (keccak256 of the ABI-encoded PoolKey), as StateView takes it
+export const POOL_ID = keccak256(
+    encodeAbiParameters(
+        [
+            { type: 'address' },
+            { type: 'address' },
+            { type: 'uint24' },
+            { type: 'int24' },
+            { type: 'address' },
         ],
-        outputs: [{ type: 'uint256' }],
-        stateMutability: 'view'
-    },
-    {
-        type: 'function',
-        name: 'getCurrentLeader',
-        inputs: [],
-        outputs: [{ type: 'address' }],
-        stateMutability: 'view'
-    },
-    {
-        type: 'function',
-        name: 'getCurrentFee',
-        inputs: [],
-        outputs: [{ type: 'uint24' }],
-        stateMutability: 'view'
-    },
-    {
-        type: 'function',
-        name: 'getLeadershipTimeRemaining',
-        inputs: [],
-        outputs: [{ type: 'uint256' }],
-        stateMutability: 'view'
-    },
-
-    // Write Functions
-    {
-        type: 'function',
-        name: 'setFee',
-        inputs: [{ name: 'fee', type: 'uint24' }],
-        outputs: [],
-        stateMutability: 'nonpayable'
-    },
-    {
-        type: 'function',
-        name: 'withdrawFees',
-        inputs: [{ name: 'token', type: 'address' }],
-        outputs: [],
-        stateMutability: 'nonpayable'
-    }
-] as const;
+        [POOL_KEY.currency0, POOL_KEY.currency1, POOL_KEY.fee, POOL_KEY.tickSpacing, POOL_KEY.hooks],
+    ),
+);
 
 // ============================================
 // PoolSwapTest ABI (Uniswap V4)
@@ -326,6 +215,167 @@ export const ERC20_ABI = [
     }
 ] as const;
 
+// ============================================
+// Permit2 ABI (AllowanceTransfer views and revocation)
+// ============================================
+export const PERMIT2_ABI = [
+    {
+        type: 'function',
+        name: 'allowance',
+        inputs: [
+            { name: 'owner', type: 'address' },
+            { name: 'token', type: 'address' },
+            { name: 'spender', type: 'address' }
+        ],
+        outputs: [
+            { name: 'amount', type: 'uint160' },
+            { name: 'expiration', type: 'uint48' },
+            { name: 'nonce', type: 'uint48' }
+        ],
+        stateMutability: 'view'
+    },
+    {
+        type: 'function',
+        name: 'lockdown',
+        inputs: [
+            {
+                name: 'approvals',
+                type: 'tuple[]',
+                components: [
+                    { name: 'token', type: 'address' },
+                    { name: 'spender', type: 'address' }
+                ]
+            }
+        ],
+        outputs: [],
+        stateMutability: 'nonpayable'
+    }
+] as const;
+
+// Permit2 SignatureTransfer typed data (the domain has no version)
+export const PERMIT_TRANSFER_FROM_TYPES = {
+    PermitTransferFrom: [
+        { name: 'permitted', type: 'TokenPermissions' },
+        { name: 'spender', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+    TokenPermissions: [
+        { name: 'token', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+    ],
+} as const;
+
+// ============================================
+// StateView ABI (Uniswap V4 periphery)
+// ============================================
+export const STATE_VIEW_ABI = [
+    {
+        type: 'function',
+        name: 'getSlot0',
+        inputs: [{ name: 'poolId', type: 'bytes32' }],
+        outputs: [
+            { name: 'sqrtPriceX96', type: 'uint160' },
+            { name: 'tick', type: 'int24' },
+            { name: 'protocolFee', type: 'uint24' },
+            { name: 'lpFee', type: 'uint24' }
+        ],
+        stateMutability: 'view'
+    },
+    {
+        type: 'function',
+        name: 'getLiquidity',
+        inputs: [{ name: 'poolId', type: 'bytes32' }],
+        outputs: [{ name: 'liquidity', type: 'uint128' }],
+        stateMutability: 'view'
+    },
+    {
+        type: 'function',
+        name: 'getPositionInfo',
+        inputs: [
+            { name: 'poolId', type: 'bytes32' },
+            { name: 'owner', type: 'address' },
+            { name: 'tickLower', type: 'int24' },
+            { name: 'tickUpper', type: 'int24' },
+            { name: 'salt', type: 'bytes32' }
+        ],
+        outputs: [
+            { name: 'liquidity', type: 'uint128' },
+            { name: 'feeGrowthInside0LastX128', type: 'uint256' },
+            { name: 'feeGrowthInside1LastX128', type: 'uint256' }
+        ],
+        stateMutability: 'view'
+    },
+    {
+        type: 'function',
+        name: 'getFeeGrowthInside',
+        inputs: [
+            { name: 'poolId', type: 'bytes32' },
+            { name: 'tickLower', type: 'int24' },
+            { name: 'tickUpper', type: 'int24' }
+        ],
+        outputs: [
+            { name: 'feeGrowthInside0X128', type: 'uint256' },
+            { name: 'feeGrowthInside1X128', type: 'uint256' }
+        ],
+        stateMutability: 'view'
+    }
+] as const;
+
+// ============================================
+// PoolManager events (Uniswap V4)
+// ============================================
+export const POOL_MANAGER_ABI = [
+    {
+        type: 'event',
+        name: 'ModifyLiquidity',
+        inputs: [
+            { name: 'id', type: 'bytes32', indexed: true },
+            { name: 'sender', type: 'address', indexed: true },
+            { name: 'tickLower', type: 'int24', indexed: false },
+            { name: 'tickUpper', type: 'int24', indexed: false },
+            { name: 'liquidityDelta', type: 'int256', indexed: false },
+            { name: 'salt', type: 'bytes32', indexed: false }
+        ]
+    }
+] as const;
+
+// ============================================
+// Custom errors (for decoding failed transactions)
+// ============================================
+// Our own contracts revert with strings, which viem decodes without an ABI;
+// these are the custom errors of the v4 and Permit2 contracts a trade touches
+export const REVERT_ERRORS_ABI = [
+    {
+        type: 'error',
+        name: 'WrappedError',
+        inputs: [
+            { name: 'target', type: 'address' },
+            { name: 'selector', type: 'bytes4' },
+            { name: 'reason', type: 'bytes' },
+            { name: 'details', type: 'bytes' }
+        ]
+    },
+    {
+        type: 'error',
+        name: 'PriceLimitAlreadyExceeded',
+        inputs: [
+            { name: 'sqrtPriceCurrentX96', type: 'uint160' },
+            { name: 'sqrtPriceLimitX96', type: 'uint160' }
+        ]
+    },
+    { type: 'error', name: 'PriceLimitOutOfBounds', inputs: [{ name: 'sqrtPriceLimitX96', type: 'uint160' }] },
+    { type: 'error', name: 'PoolNotInitialized', inputs: [] },
+    { type: 'error', name: 'CurrencyNotSettled', inputs: [] },
+    { type: 'error', name: 'SwapAmountCannotBeZero', inputs: [] },
+    { type: 'error', name: 'SignatureExpired', inputs: [{ name: 'signatureDeadline', type: 'uint256' }] },
+    { type: 'error', name: 'InvalidNonce', inputs: [] },
+    { type: 'error', name: 'InvalidSigner', inputs: [] },
+    { type: 'error', name: 'InvalidAmount', inputs: [{ name: 'maxAmount', type: 'uint256' }] },
+    { type: 'error', name: 'InsufficientAllowance', inputs: [{ name: 'amount', type: 'uint256' }] },
+    { type: 'error', name: 'AllowanceExpired', inputs: [{ name: 'deadline', type: 'uint256' }] }
+] as const;
+
 // ============================================
 // Tracked tokens for earnings display
 // ============================================
@@ -333,3 +383,17 @@ export const TRACKED_TOKENS = [
     TOKENS.ETH,
     TOKENS.USDC,
 ] as const;
+
+// ============================================
+// Auction EIP-712 Bid Intents
+// ============================================
+// Must match Auction.BID_INTENT_TYPEHASH; the domain comes from GET /bids/intents
+export const BID_INTENT_TYPES = {
+    BidIntent: [
+        { name: 'bidder', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+        { name: 'forRound', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+} as const;
@@ -0,0 +1,36 @@
+/**
+ * @file pages/AdminPage.tsx
+ * @description Auction owner page: settler, hook, rent pool and audit log
+ */
+
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { AdminPanel } from '../components/AdminPanel';
+import { PrivySignIn } from '../components/PrivyAuth';
+import { PRIVY_APP_ID } from '../config/constants';
+
+export function AdminPage() {
+    return (
+        <>
+            <header className="app-header">
+                <h1>Auction Admin</h1>
+                <p className="subtitle">
+                    Owner operations, simulated by the TEE server and signed in your wallet
+                </p>
+            </header>
+
+            <main className="app-main">
+                <section className="connection-section">
+                    <div className="uni-connection">
+                        <h2>Wallet Connection</h2>
+                        <ConnectButton />
+                        {PRIVY_APP_ID && <PrivySignIn />}
+                    </div>
+                </section>
+
+                <section className="admin-section">
+                    <AdminPanel />
+                </section>
+            </main>
+        </>
+    );
+}
@@ -9,6 +9,8 @@ import { FeeSettings } from '../components/uni/FeeSettings';
 import { EarningsPanel } from '../components/uni/EarningsPanel';
 import { SwapForm } from '../components/uni/SwapForm';
 import { AddLiquidityForm } from '../components/uni/AddLiquidityForm';
+import { PositionsPanel } from '../components/uni/PositionsPanel';
+import { ApprovalsPanel } from '../components/uni/ApprovalsPanel';
 
 export function UniPage() {
     return (
@@ -42,6 +44,14 @@ export function UniPage() {
                     </section>
                 </div>
 
+                <section className="positions-section">
+                    <PositionsPanel />
+                </section>
+
+                <section className="approvals-section">
+                    <ApprovalsPanel />
+                </section>
+
                 <section className="fee-section">
                     <FeeSettings />
                 </section>
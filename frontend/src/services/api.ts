@@ -5,6 +5,42 @@
 
 import { TEE_SERVER_URL } from '../config/constants';
 
+/**
+ * Supplies the Privy access token for authenticated requests
+ * Why: The API client has no access to React context, so the component that owns
+ * the Privy session registers its getAccessToken() here once at startup.
+ */
+type AuthTokenProvider = () => Promise<string | null>;
+
+let authTokenProvider: AuthTokenProvider | null = null;
+
+/**
+ * Register the function used to fetch the Privy access token
+ * Called by components/PrivyAuth.tsx (PrivyTokenProvider), rendered once in App.
+ */
+export function setAuthTokenProvider(provider: AuthTokenProvider | null): void {
+  authTokenProvider = provider;
+}
+
+/**
+ * Error response from the TEE server
+ * Why: Settler write failures carry a typed code (e.g. ROUND_STILL_ACTIVE) decoded
+ * from the contract's revert, so the UI can show a specific message.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string | null;
+  readonly reason: string | null;
+
+  constructor(message: string, status: number, code: string | null = null, reason: string | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.reason = reason;
+  }
+}
+
 /**
  * Make an API request
  */
@@ -39,20 +75,128 @@ async function apiRequest(
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+    throw new ApiError(
+      error.error || `HTTP ${response.status}: ${response.statusText}`,
+      response.status,
+      error.code ?? null,
+      error.reason ?? null
+    );
   }
 
   return response;
 }
 
 /**
- * Get TEE public address (settler address)
+ * Make an API request with the Privy token in the Authorization header
  */
-export async function getSettlerAddress(): Promise<{ publicKey: string }> {
+async function authenticatedRequest(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<Response> {
+  const token = authTokenProvider ? await authTokenProvider() : null;
+
+  if (!token) {
+    throw new Error('Not authenticated: sign in to the TEE server first');
+  }
+
+  return apiRequest(endpoint, {
+    ...options,
+    headers: {
+      ...(options.headers as Record<string, string> | undefined),
+      Authorization: `Bearer ${token}`,
+    },
+  });
+}
+
+/**
+ * Where the TEE's settler key comes from
+ */
+export type SettlerKeySource =
+  | { type: 'hd'; index: number }
+  | { type: 'privateKey' }
+  | { type: 'keystore' }
+  | { type: 'remote' };
+
+/**
+ * A settler key rotation (see POST /admin/settler/rotate)
+ */
+export interface SettlerRotation {
+  status: 'pending' | 'draining' | 'completed' | 'failed' | 'cancelled';
+  from: `0x${string}`;
+  to: `0x${string}`;
+  source: SettlerKeySource;
+  proof: { message: string; newSettlerSignature: `0x${string}`; currentSettlerSignature: `0x${string}` };
+  preparedActionId: number;
+  undrainedTransactions: number;
+  requestedAt: string;
+  updatedAt: string;
+  error: string | null;
+}
+
+/**
+ * Get TEE public address (settler address), its key source and the latest rotation
+ */
+export async function getSettlerAddress(): Promise<{
+  publicKey: string;
+  keySource: SettlerKeySource | null;
+  rotation: SettlerRotation | null;
+}> {
   const response = await apiRequest('/settler');
   return response.json();
 }
 
+/**
+ * Attestation document returned by GET /attestation
+ */
+export interface SettlerAttestation {
+  provider: string;
+  format: 'jwt';
+  settler: `0x${string}`;
+  /** 'hd:<index>' (derived in the enclave), 'privateKey' or 'keystore' (imported) */
+  keySource: string;
+  challenge: string;
+  statement: string;
+  reportData: string;
+  document: string;
+  settlerSignature: `0x${string}`;
+  issuedAt: string;
+}
+
+/**
+ * Get a TEE attestation for the settler address
+ * Verify it with verifySettlerAttestation() before trusting the settler
+ */
+export async function getAttestation(challenge: string): Promise<SettlerAttestation> {
+  const response = await apiRequest(`/attestation?challenge=${encodeURIComponent(challenge)}`);
+  return response.json();
+}
+
+/**
+ * Auction round state returned by GET /auction/state (amounts in wei)
+ */
+export interface AuctionStateResponse {
+  blockNumber: string;
+  blockTimestamp: number;
+  roundDuration: number;
+  currentRound: string;
+  currentRoundStart: number;
+  roundEnd: number;
+  secondsRemaining: number;
+  canResolve: boolean;
+  currentLeader: `0x${string}`;
+  nextRoundHighestBid: string;
+  nextRoundHighestBidEth: string;
+  nextRoundHighestBidder: `0x${string}`;
+}
+
+/**
+ * Get the auction's round state, read by the server in one multicall
+ */
+export async function getAuctionState(): Promise<AuctionStateResponse> {
+  const response = await apiRequest('/auction/state');
+  return response.json();
+}
+
 /**
  * Get Auction contract address
  */
@@ -62,43 +206,246 @@ export async function getAuctionAddress(): Promise<{ address: string | null }> {
 }
 
 /**
- * Get total deposits since TEE server started
+ * Get the chain the TEE server is configured for
+ * rpcChainId is null until the server has checked its RPC at startup
+ */
+export async function getServerChain(): Promise<{
+  chainId: number;
+  name: string;
+  rpcChainId: number | null;
+  mismatch: boolean;
+  blockExplorer: string | null;
+}> {
+  const response = await apiRequest('/chain');
+  return response.json();
+}
+
+/**
+ * Get total deposits
  */
 export async function getDeposits(): Promise<{
   totalDeposits: string;
   totalDepositsEth: string;
+  pendingDeposits: string;
+  pendingDepositsEth: string;
 }> {
   const response = await apiRequest('/deposits');
   return response.json();
 }
 
 /**
- * Get total withdrawals since TEE server started
+ * Get total withdrawals
  */
 export async function getWithdrawals(): Promise<{
   totalWithdrawals: string;
   totalWithdrawalsEth: string;
+  pendingWithdrawals: string;
+  pendingWithdrawalsEth: string;
 }> {
   const response = await apiRequest('/withdrawals');
   return response.json();
 }
 
 /**
- * Get total bids since TEE server started
+ * Get total bids
  */
 export async function getBids(): Promise<{
   totalBids: string;
   totalBidsEth: string;
+  pendingBids: string;
+  pendingBidsEth: string;
 }> {
   const response = await apiRequest('/bids');
   return response.json();
 }
 
+/**
+ * Sealed bidding state returned by GET /bids/sealed
+ */
+export interface SealedBidInfo {
+  enabled: boolean;
+  /** Uncompressed P-256 key of the TEE (0x04...) */
+  publicKey: `0x${string}` | null;
+  /** Round sealed bids are currently accepted for */
+  forRound: string | null;
+  sealedBidCount: number;
+  open: boolean;
+}
+
+/**
+ * Encrypted bid accepted by POST /bids/sealed
+ */
+export interface SealedBidEnvelope {
+  version: 1;
+  ephemeralPublicKey: `0x${string}`;
+  iv: `0x${string}`;
+  ciphertext: `0x${string}`;
+}
+
+/**
+ * Get the sealed-bid encryption key and the round bids are accepted for
+ */
+export async function getSealedBidInfo(): Promise<SealedBidInfo> {
+  const response = await apiRequest('/bids/sealed');
+  return response.json();
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): `0x${string}` =>
+  `0x${Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+
+const fromHex = (hex: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(hex.slice(2).match(/.{2}/g) ?? [], (byte) => parseInt(byte, 16));
+
+/**
+ * Encrypt a bid to the TEE's sealed-bid key
+ * Why: ECDH with a fresh ephemeral key, HKDF-SHA256 and AES-256-GCM, matching
+ * decryptSealedBid() on the server. Only the TEE can read the bid; the random
+ * salt keeps equal bids from producing comparable ciphertexts.
+ */
+export async function encryptSealedBid(
+  teePublicKey: `0x${string}`,
+  bid: { bidder: string; amount: bigint; forRound: string }
+): Promise<SealedBidEnvelope> {
+  const subtle = crypto.subtle;
+  const ephemeral = await subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const teeKey = await subtle.importKey('raw', fromHex(teePublicKey), { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+
+  const sharedSecret = await subtle.deriveBits({ name: 'ECDH', public: teeKey }, ephemeral.privateKey, 256);
+  const hkdfKey = await subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  const aesKey = await subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode('auction-sealed-bid-v1') },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt']
+  );
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = JSON.stringify({
+    bidder: bid.bidder,
+    amount: bid.amount.toString(),
+    forRound: bid.forRound,
+    salt: toHex(crypto.getRandomValues(new Uint8Array(16))),
+  });
+  const ciphertext = await subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, new TextEncoder().encode(plaintext));
+
+  return {
+    version: 1,
+    ephemeralPublicKey: toHex(await subtle.exportKey('raw', ephemeral.publicKey)),
+    iv: toHex(iv),
+    ciphertext: toHex(ciphertext),
+  };
+}
+
+/**
+ * Encrypt and submit a sealed bid for the next round (requires auth)
+ * A later sealed bid for the same round replaces the earlier one.
+ */
+export async function submitSealedBid(bidder: string, amount: bigint): Promise<{
+  success: boolean;
+  forRound: string;
+  status: 'sealed';
+  submittedAt: string;
+}> {
+  const info = await getSealedBidInfo();
+  if (!info.enabled || !info.publicKey || !info.forRound) {
+    throw new Error('Sealed bids are not available on this server');
+  }
+
+  const envelope = await encryptSealedBid(info.publicKey, { bidder, amount, forRound: info.forRound });
+  const response = await authenticatedRequest('/bids/sealed', {
+    method: 'POST',
+    body: JSON.stringify({ envelope }),
+  });
+  return response.json();
+}
+
+/**
+ * A bid intent in the server's order book (amounts in wei)
+ */
+export interface BidIntentRecord {
+  bidder: `0x${string}`;
+  amount: string;
+  forRound: string;
+  nonce: string;
+  deadline: number;
+  status: 'open' | 'cancelled' | 'replaced' | 'relayed' | 'outbid' | 'expired' | 'invalid';
+  submittedAt: string;
+  transactionId: string | null;
+}
+
+/**
+ * EIP-712 domain of the Auction contract, as reported by the server
+ */
+export interface BidIntentDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: `0x${string}`;
+}
+
+/**
+ * Get the open bid intents for the next round and the domain to sign with
+ */
+export async function getBidIntents(): Promise<{
+  forRound: string;
+  domain: BidIntentDomain;
+  intents: BidIntentRecord[];
+}> {
+  const response = await apiRequest('/bids/intents');
+  return response.json();
+}
+
+/**
+ * Submit a signed bid intent (requires auth)
+ * The settler relays it on-chain when the round closes if it wins or sets the price.
+ */
+export async function submitBidIntent(
+  intent: { bidder: string; amount: bigint; forRound: bigint; nonce: bigint; deadline: bigint },
+  signature: `0x${string}`
+): Promise<{ success: boolean; intent: BidIntentRecord }> {
+  const response = await authenticatedRequest('/bids/intents', {
+    method: 'POST',
+    body: JSON.stringify({
+      intent: {
+        bidder: intent.bidder,
+        amount: intent.amount.toString(),
+        forRound: intent.forRound.toString(),
+        nonce: intent.nonce.toString(),
+        deadline: intent.deadline.toString(),
+      },
+      signature,
+    }),
+  });
+  return response.json();
+}
+
+/**
+ * Cancel an open bid intent (requires auth)
+ */
+export async function cancelBidIntent(nonce: string): Promise<{ success: boolean; intent: BidIntentRecord }> {
+  const response = await authenticatedRequest(`/bids/intents/${nonce}`, { method: 'DELETE' });
+  return response.json();
+}
+
+/**
+ * Get the authenticated user's recent bid intents (requires auth)
+ */
+export async function getMyIntents(): Promise<{
+  address: string;
+  forRound: string;
+  intents: BidIntentRecord[];
+}> {
+  const response = await authenticatedRequest('/me/intents');
+  return response.json();
+}
+
 /**
  * Get rounds resolved count
  */
 export async function getRoundsResolved(): Promise<{
   roundsResolved: number;
+  pendingRoundsResolved: number;
 }> {
   const response = await apiRequest('/rounds');
   return response.json();
@@ -111,3 +458,443 @@ export async function canResolveRound(): Promise<{ canResolve: boolean }> {
   const response = await apiRequest('/canResolve');
   return response.json();
 }
+
+/**
+ * Ask the settler to resolve the current round
+ * Throws ApiError with a code such as ROUND_STILL_ACTIVE or NOT_SETTLER when the
+ * resolution would revert
+ */
+export async function resolveRound(): Promise<{
+  success: boolean;
+  message: string;
+  id: string;
+  status: string;
+  statusUrl: string;
+}> {
+  const response = await apiRequest('/resolveRound', { method: 'POST' });
+  return response.json();
+}
+
+/**
+ * Collateral breakdown for the authenticated user
+ */
+export interface MyCollateral {
+  collateral: string;
+  collateralEth: string;
+  locked: string;
+  lockedEth: string;
+  withdrawable: string;
+  withdrawableEth: string;
+}
+
+/**
+ * A bid placed by the authenticated user
+ */
+export interface MyBid {
+  amount: string;
+  amountEth: string;
+  forRound: string;
+  blockNumber: string;
+  transactionHash: string;
+}
+
+/**
+ * A round won by the authenticated user
+ */
+export interface MyRoundWon {
+  round: string;
+  pricePaid: string;
+  pricePaidEth: string;
+  winningBid: string;
+  winningBidEth: string;
+  blockNumber: string;
+  transactionHash: string;
+}
+
+/**
+ * Get the authenticated user's account summary
+ */
+export async function getMe(): Promise<{
+  id: string;
+  address: string;
+  email: string | null;
+  collateral: MyCollateral;
+  bidsPlaced: number;
+  roundsWon: number;
+}> {
+  const response = await authenticatedRequest('/me');
+  return response.json();
+}
+
+/**
+ * Get the authenticated user's collateral
+ */
+export async function getMyCollateral(): Promise<MyCollateral & { address: string }> {
+  const response = await authenticatedRequest('/me/collateral');
+  return response.json();
+}
+
+/**
+ * Get the authenticated user's bid history
+ */
+export async function getMyBids(): Promise<{ address: string; bids: MyBid[] }> {
+  const response = await authenticatedRequest('/me/bids');
+  return response.json();
+}
+
+/**
+ * Get the rounds the authenticated user has won
+ */
+export async function getMyRoundsWon(): Promise<{
+  address: string;
+  rounds: MyRoundWon[];
+  totalPaid: string;
+}> {
+  const response = await authenticatedRequest('/me/rounds-won');
+  return response.json();
+}
+
+/**
+ * Get the authenticated user's unclaimed LeaderFeeHook fees
+ */
+export async function getMyFees(): Promise<{
+  address: string;
+  hook: string | null;
+  fees: { token: string; amount: string }[];
+}> {
+  const response = await authenticatedRequest('/me/fees');
+  return response.json();
+}
+
+/**
+ * A resolved auction round
+ */
+export interface RoundRecord {
+  round: string;
+  winner: string;
+  pricePaid: string;
+  pricePaidEth: string;
+  winningBid: string;
+  winningBidEth: string;
+  timestamp: string | null;
+  blockNumber: string;
+  transactionHash: string;
+}
+
+/**
+ * A leaderboard entry
+ */
+export interface LeaderboardEntry {
+  rank: number;
+  address: string;
+  roundsWon: number;
+  totalPaid: string;
+  totalPaidEth: string;
+  averageDiscount: number;
+  lastWonRound: string;
+}
+
+/**
+ * Build a query string, skipping undefined values
+ */
+function toQueryString(params: Record<string, string | number | undefined>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      search.set(key, String(value));
+    }
+  }
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Get a page of resolved rounds, newest first
+ * Pass the returned nextCursor to fetch the following page.
+ */
+export async function getRoundHistory(params: {
+  limit?: number;
+  cursor?: string;
+  winner?: string;
+  from?: string | number;
+  to?: string | number;
+} = {}): Promise<{ rounds: RoundRecord[]; nextCursor: string | null }> {
+  const response = await apiRequest(`/rounds/history${toQueryString(params)}`);
+  return response.json();
+}
+
+/**
+ * Get the winner leaderboard
+ */
+export async function getLeaderboard(params: {
+  sort?: 'roundsWon' | 'totalPaid' | 'averageDiscount';
+  limit?: number;
+  from?: string | number;
+  to?: string | number;
+} = {}): Promise<{ sortBy: string; leaderboard: LeaderboardEntry[] }> {
+  const response = await apiRequest(`/leaderboard${toQueryString(params)}`);
+  return response.json();
+}
+
+/**
+ * A round won by a leader, with the hook fees it earned
+ * roi compares native ETH fees with the rent paid (null when no rent was paid)
+ */
+export interface HookLeaderRound {
+  round: string;
+  pricePaid: string;
+  pricePaidEth: string;
+  fees: { token: string; amount: string }[];
+  ethFees: string;
+  roi: number | null;
+  timestamp: string | null;
+  transactionHash: string;
+}
+
+/**
+ * A leader's fee settings and hook earnings versus rent paid
+ */
+export interface HookLeaderStats {
+  address: string;
+  currentFee: number | null;
+  feeHistory: { fee: number; feePercent: number; blockNumber: string; timestamp: string | null; transactionHash: string }[];
+  roundsWon: HookLeaderRound[];
+  earnings: { token: string; accumulated: string; withdrawn: string }[];
+  summary: {
+    roundsWon: number;
+    rentPaid: string;
+    rentPaidEth: string;
+    ethFees: string;
+    ethFeesEth: string;
+    netEth: string;
+    roi: number | null;
+  };
+}
+
+/**
+ * Get LeaderFeeHook fees per round, leader and token
+ */
+export async function getHookFees(params: {
+  limit?: number;
+  leader?: string;
+  token?: string;
+  fromRound?: string | number;
+  toRound?: string | number;
+} = {}): Promise<{
+  fees: { round: string | null; leader: string; token: string; amount: string; swaps: number }[];
+  totals: { leader: string; token: string; accumulated: string; withdrawn: string; unclaimed: string }[];
+}> {
+  const response = await apiRequest(`/hook/fees${toQueryString(params)}`);
+  return response.json();
+}
+
+/**
+ * Get a leader's fee history, rounds won and earnings versus rent paid
+ */
+export async function getHookLeaderStats(address: string): Promise<HookLeaderStats> {
+  const response = await apiRequest(`/hook/leaders/${address}`);
+  return response.json();
+}
+
+/**
+ * An amount in wei with its ETH rendering
+ */
+export interface WeiAmount {
+  wei: string;
+  eth: string;
+}
+
+/**
+ * Expected round revenue at a fee and the recommended maximum bid
+ */
+export interface BidRecommendation {
+  fee: number;
+  feePercent: number;
+  sampleRounds: number;
+  confidence: 'none' | 'low' | 'medium' | 'high';
+  expectedRevenue: WeiAmount;
+  recommendedMaxBid: WeiAmount;
+  bands: { p10: WeiAmount; p25: WeiAmount; p50: WeiAmount; p75: WeiAmount; p90: WeiAmount };
+  historicalPrice: { median: WeiAmount; p90: WeiAmount };
+  assumptions: string[];
+}
+
+/**
+ * Get the bid recommendation for a fee (hundredths of a bip, default 3000 = 0.3%)
+ */
+export async function getBidRecommendation(params: { fee?: number; rounds?: number } = {}): Promise<BidRecommendation> {
+  const response = await apiRequest(`/recommendation/bid${toQueryString(params)}`);
+  return response.json();
+}
+
+/**
+ * Owner signature over the GET /admin/session message
+ * Why: Admin routes need proof that the owner wallet is present, on top of the
+ * Privy token. One signature is reused until the server's session TTL runs out.
+ */
+export interface AdminSession {
+  address: string;
+  issuedAt: string;
+  expiresAt: string;
+  signature: `0x${string}`;
+}
+
+let adminSession: AdminSession | null = null;
+
+export function setAdminSession(session: AdminSession | null): void {
+  adminSession = session;
+}
+
+/**
+ * Make an authenticated request with the admin session headers
+ */
+async function adminRequest(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<Response> {
+  if (!adminSession) {
+    throw new Error('Admin session required');
+  }
+
+  return authenticatedRequest(endpoint, {
+    ...options,
+    headers: {
+      ...(options.headers as Record<string, string> | undefined),
+      'X-Admin-Signature': adminSession.signature,
+      'X-Admin-Issued-At': adminSession.issuedAt,
+    },
+  });
+}
+
+/**
+ * Get the message to sign for an admin session (requires auth)
+ */
+export async function getAdminSessionMessage(): Promise<{ message: string; issuedAt: string; expiresAt: string }> {
+  const response = await authenticatedRequest('/admin/session');
+  return response.json();
+}
+
+/**
+ * Owner-controlled state of the Auction
+ */
+export interface AdminStatus {
+  auction: string;
+  owner: string;
+  settler: string;
+  teeSettler: string | null;
+  settlerIsTee: boolean;
+  hook: string | null;
+  rentPool: string;
+  contractBalance: string;
+  rotation: SettlerRotation | null;
+}
+
+/**
+ * Get the Auction's owner, settler, hook and rent pool (requires owner session)
+ */
+export async function getAdminStatus(): Promise<AdminStatus> {
+  const response = await adminRequest('/admin/status');
+  return response.json();
+}
+
+/**
+ * An owner transaction simulated by the server, ready to sign
+ */
+export interface PreparedAdminAction {
+  /** Audit entry id to report the transaction under */
+  id: number;
+  action: 'updateSettler' | 'setHook' | 'withdrawRent';
+  params: Record<string, string>;
+  transaction: { to: `0x${string}`; data: `0x${string}`; from: `0x${string}`; value: string; chainId: number };
+}
+
+/**
+ * Prepare Auction.updateSettler() (requires owner session)
+ */
+export async function prepareUpdateSettler(settler: string): Promise<PreparedAdminAction> {
+  const response = await adminRequest('/admin/settler', {
+    method: 'POST',
+    body: JSON.stringify({ settler }),
+  });
+  return response.json();
+}
+
+/**
+ * Move the TEE to a new settler key and prepare updateSettler() for it (requires owner session)
+ * Omit the index for the HD index after the current key.
+ */
+export async function rotateSettlerKey(
+  target: { index?: number } | { source: 'privateKey' } = {}
+): Promise<{ rotation: SettlerRotation; action: PreparedAdminAction }> {
+  const response = await adminRequest('/admin/settler/rotate', {
+    method: 'POST',
+    body: JSON.stringify(target),
+  });
+  return response.json();
+}
+
+/**
+ * Cancel a settler key rotation whose transaction wasn't sent (requires owner session)
+ */
+export async function cancelSettlerRotation(): Promise<{ rotation: SettlerRotation }> {
+  const response = await adminRequest('/admin/settler/rotate', { method: 'DELETE' });
+  return response.json();
+}
+
+/**
+ * Prepare Auction.setHook() (requires owner session)
+ */
+export async function prepareSetHook(hook: string): Promise<PreparedAdminAction> {
+  const response = await adminRequest('/admin/hook', {
+    method: 'POST',
+    body: JSON.stringify({ hook }),
+  });
+  return response.json();
+}
+
+/**
+ * Prepare Auction.withdrawRent() for an amount in wei, or the whole rent pool (requires owner session)
+ */
+export async function prepareWithdrawRent(amount?: bigint): Promise<PreparedAdminAction> {
+  const response = await adminRequest('/admin/rent/withdraw', {
+    method: 'POST',
+    body: JSON.stringify(amount === undefined ? {} : { amount: amount.toString() }),
+  });
+  return response.json();
+}
+
+/**
+ * An admin audit log entry
+ */
+export interface AdminAuditEntry {
+  id: number;
+  event: 'prepared' | 'rejected' | 'submitted';
+  action: PreparedAdminAction['action'] | null;
+  actor: string;
+  params: Record<string, string>;
+  data: string | null;
+  preparedId: number | null;
+  transactionHash: string | null;
+  transactionStatus: 'success' | 'reverted' | null;
+  error: string | null;
+  createdAt: number;
+}
+
+/**
+ * Record the mined transaction of a prepared action (requires owner session)
+ */
+export async function recordAdminTransaction(id: number, hash: string): Promise<{ success: boolean; entry: AdminAuditEntry }> {
+  const response = await adminRequest(`/admin/actions/${id}/transaction`, {
+    method: 'POST',
+    body: JSON.stringify({ hash }),
+  });
+  return response.json();
+}
+
+/**
+ * Get the admin audit log, newest first (requires owner session)
+ */
+export async function getAdminAuditLog(params: { limit?: number; before?: number } = {}): Promise<{ entries: AdminAuditEntry[] }> {
+  const response = await adminRequest(`/admin/audit${toQueryString(params)}`);
+  return response.json();
+}
@@ -0,0 +1,223 @@
+/**
+ * @file services/attestation.ts
+ * @description Client-side verification of the TEE settler attestation
+ *
+ * The server's word that its settler key lives in a TEE is worth nothing on its
+ * own. This module checks the attestation returned by GET /attestation locally:
+ * the settler signed our challenge, the TEE platform signed a token whose nonce
+ * commits to that same statement (including where the key came from), and the
+ * token reports the expected image.
+ */
+
+import { verifyMessage } from 'viem';
+import type { SettlerAttestation } from './api';
+
+/**
+ * Issuer of Google Confidential Space tokens (the platform EigenCloud TEEs run on)
+ */
+const CONFIDENTIAL_SPACE_ISSUER = 'https://confidentialcomputing.googleapis.com';
+
+export interface VerifyAttestationOptions {
+  /** Challenge sent with the request; must be fresh and random */
+  challenge: string;
+  /** Audience the token must be issued for */
+  audience: string;
+  /** Image digest the token must report; null skips the check */
+  expectedMeasurement: string | null;
+  /** Settler address to expect, e.g. from GET /settler */
+  expectedSettler?: string;
+  /** Accept unsigned mock documents (local testing only) */
+  allowMock?: boolean;
+  /** Signing keys to use instead of fetching them from the issuer */
+  jwks?: JsonWebKey[];
+}
+
+export interface AttestationVerification {
+  verified: boolean;
+  mock: boolean;
+  settler: string;
+  measurement: string | null;
+  hardware: string | null;
+  errors: string[];
+  warnings: string[];
+}
+
+interface AttestationClaims {
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  eat_nonce?: string | string[];
+  hwmodel?: string;
+  swname?: string;
+  dbgstat?: string;
+  submods?: { container?: { image_digest?: string } };
+}
+
+/**
+ * Same statement the server builds in AttestationService
+ */
+export function buildAttestationStatement(settler: string, keySource: string, challenge: string): string {
+  return `Auction TEE settler ${settler.toLowerCase()} key ${keySource} challenge ${challenge}`;
+}
+
+/**
+ * Random challenge for GET /attestation
+ */
+export function createAttestationChallenge(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+function decodeJwtPart<T>(value: string): T {
+  return JSON.parse(new TextDecoder().decode(base64UrlToBytes(value)));
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Fetch the issuer's signing keys through its OpenID configuration
+ */
+async function fetchIssuerKeys(issuer: string): Promise<JsonWebKey[]> {
+  const configuration = await (await fetch(`${issuer}/.well-known/openid-configuration`)).json();
+  const jwks = await (await fetch(configuration.jwks_uri)).json();
+  return jwks.keys;
+}
+
+/**
+ * Check an RS256 JWT signature with WebCrypto
+ */
+async function verifyJwtSignature(token: string, kid: string | undefined, keys: JsonWebKey[]): Promise<boolean> {
+  const [header, payload, signature] = token.split('.');
+  const jwk = keys.find((key) => (key as JsonWebKey & { kid?: string }).kid === kid);
+  if (!jwk) {
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+  return crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    base64UrlToBytes(signature),
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+}
+
+/**
+ * Verify a settler attestation
+ *
+ * Usage:
+ *   const challenge = createAttestationChallenge();
+ *   const attestation = await getAttestation(challenge);
+ *   const result = await verifySettlerAttestation(attestation, { challenge, audience, expectedMeasurement });
+ *   if (!result.verified) console.warn(result.errors);
+ */
+export async function verifySettlerAttestation(
+  attestation: SettlerAttestation,
+  options: VerifyAttestationOptions
+): Promise<AttestationVerification> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // 1. The server answered our challenge for the settler we expect
+  if (attestation.challenge !== options.challenge) {
+    errors.push('Attestation was not produced for this challenge');
+  }
+  if (options.expectedSettler && attestation.settler.toLowerCase() !== options.expectedSettler.toLowerCase()) {
+    errors.push(`Attested settler ${attestation.settler} does not match ${options.expectedSettler}`);
+  }
+
+  // An imported key was outside the enclave before it started, so someone else may hold a copy
+  if (!/^hd:\d+$/.test(attestation.keySource)) {
+    warnings.push(`Settler key was imported (${attestation.keySource}), not derived inside the TEE`);
+  }
+
+  // 2. The settler key signed the statement (rebuilt locally, never taken from the server)
+  const statement = buildAttestationStatement(attestation.settler, attestation.keySource, options.challenge);
+  const signedBySettler = await verifyMessage({
+    address: attestation.settler,
+    message: statement,
+    signature: attestation.settlerSignature,
+  }).catch(() => false);
+  if (!signedBySettler) {
+    errors.push('Settler signature is invalid');
+  }
+
+  // 3. The platform token commits to the same statement
+  const parts = attestation.document.split('.');
+  if (parts.length !== 3) {
+    errors.push('Malformed attestation document');
+    return { verified: false, mock: false, settler: attestation.settler, measurement: null, hardware: null, errors, warnings };
+  }
+
+  const header = decodeJwtPart<{ alg?: string; kid?: string }>(parts[0]);
+  const claims = decodeJwtPart<AttestationClaims>(parts[1]);
+  const reportData = await sha256Hex(statement);
+  const nonces = Array.isArray(claims.eat_nonce) ? claims.eat_nonce : [claims.eat_nonce];
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (!nonces.includes(reportData)) {
+    errors.push('Attestation nonce does not commit to the settler address, key source and challenge');
+  }
+  if (!audiences.includes(options.audience)) {
+    errors.push(`Attestation audience is not ${options.audience}`);
+  }
+  if (!claims.exp || claims.exp * 1000 < Date.now()) {
+    errors.push('Attestation has expired');
+  }
+
+  // 4. The token was signed by the TEE platform and describes a production enclave
+  const mock = header.alg === 'none';
+  if (mock) {
+    if (options.allowMock) {
+      warnings.push('Mock attestation accepted: the settler is NOT proven to run in a TEE');
+    } else {
+      errors.push('Mock attestation documents are not trusted');
+    }
+  } else if (claims.iss !== CONFIDENTIAL_SPACE_ISSUER || header.alg !== 'RS256') {
+    errors.push(`Unsupported attestation issuer: ${claims.iss}`);
+  } else {
+    try {
+      const keys = options.jwks ?? (await fetchIssuerKeys(CONFIDENTIAL_SPACE_ISSUER));
+      if (!(await verifyJwtSignature(attestation.document, header.kid, keys))) {
+        errors.push('Attestation signature is invalid');
+      }
+    } catch (error) {
+      errors.push(`Could not check attestation signature: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (claims.swname !== 'CONFIDENTIAL_SPACE' || !claims.hwmodel?.startsWith('GCP_')) {
+      errors.push('Attestation does not come from Confidential Space hardware');
+    }
+    if (claims.dbgstat !== 'disabled-since-boot') {
+      errors.push('TEE debug mode is enabled');
+    }
+  }
+
+  // 5. The enclave runs the image we expect
+  const measurement = claims.submods?.container?.image_digest ?? null;
+  if (options.expectedMeasurement) {
+    if (measurement !== options.expectedMeasurement) {
+      errors.push(`Measurement ${measurement} does not match ${options.expectedMeasurement}`);
+    }
+  } else {
+    warnings.push('No expected measurement configured: any image running in a TEE is accepted');
+  }
+
+  return {
+    verified: errors.length === 0,
+    mock,
+    settler: attestation.settler,
+    measurement,
+    hardware: claims.hwmodel ?? null,
+    errors,
+    warnings,
+  };
+}
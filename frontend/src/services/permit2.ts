@@ -0,0 +1,61 @@
+/**
+ * @file services/permit2.ts
+ * @description Permit2 signature-transfer permits for Permit2Router
+ *
+ * Each permit lets Permit2Router pull at most `amount` of one token, once (random
+ * unordered nonce), until `deadline`. Nothing is left approved to the router itself.
+ *
+ * Why this exists:
+ * - The v4 test routers pull tokens with transferFrom, which needed a standing
+ *   approval per router; Permit2 needs one approval in total and a signature per trade
+ */
+
+import { zeroAddress } from 'viem';
+import type { Address, Hex } from 'viem';
+import { CHAIN_ID } from '../config/constants';
+import { PERMIT2_ADDRESS, PERMIT2_ROUTER_ADDRESS, PERMIT_TRANSFER_FROM_TYPES } from '../config/contracts';
+
+/**
+ * Whether swaps and liquidity go through Permit2Router (VITE_PERMIT2_ROUTER_ADDRESS is set)
+ */
+export const USE_PERMIT2 = PERMIT2_ROUTER_ADDRESS !== zeroAddress;
+
+/**
+ * A signed permit as Permit2Router.Permit takes it
+ * (a type alias, not an interface: viem only widens contract args that are plain records)
+ */
+export type SignedPermit = {
+  permit: {
+    permitted: { token: Address; amount: bigint };
+    nonce: bigint;
+    deadline: bigint;
+  };
+  signature: Hex;
+};
+
+/**
+ * Random unordered nonce
+ * Why: Permit2 tracks signature-transfer nonces in a bitmap, so any unused value works
+ * and nothing has to be read from chain first.
+ */
+export function randomPermitNonce(): bigint {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return BigInt(`0x${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`);
+}
+
+/**
+ * EIP-712 payload for a PermitTransferFrom to Permit2Router
+ */
+export function permitTypedData(token: Address, amount: bigint, deadline: bigint, nonce: bigint) {
+  return {
+    domain: { name: 'Permit2', chainId: CHAIN_ID, verifyingContract: PERMIT2_ADDRESS },
+    types: PERMIT_TRANSFER_FROM_TYPES,
+    primaryType: 'PermitTransferFrom' as const,
+    message: {
+      permitted: { token, amount },
+      spender: PERMIT2_ROUTER_ADDRESS,
+      nonce,
+      deadline,
+    },
+  };
+}
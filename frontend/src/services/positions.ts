@@ -0,0 +1,392 @@
+/**
+ * @file services/positions.ts
+ * @description Concentrated-liquidity positions in the ETH/USDC pool: tick math, salts and discovery
+ *
+ * Liquidity goes through a router (Permit2Router, or PoolModifyLiquidityTest without
+ * it), so PoolManager records the router as the owner of every position. Positions
+ * are told apart by salt instead: the user's address in the top 20 bytes and a
+ * per-user index in the low 12. Discovery scans the pool's ModifyLiquidity logs for
+ * salts with the user's prefix; live liquidity and fees come from StateView.
+ *
+ * Why this exists:
+ * - Liquidity could only be added full-range, and users couldn't see or remove it afterwards
+ *
+ * @notice Permit2Router only lets the salt's owner modify a position;
+ * PoolModifyLiquidityTest doesn't check, so there the salt identifies a user's
+ * positions but doesn't protect them from others
+ */
+
+import { zeroAddress } from 'viem';
+import type { Address, Hex, PublicClient } from 'viem';
+import { CHAIN_ID, POSITIONS_FROM_BLOCK } from '../config/constants';
+import {
+  POOL_CONFIG,
+  POOL_ID,
+  POOL_MANAGER_ABI,
+  POOL_MANAGER_ADDRESS,
+  POOL_MODIFY_LIQUIDITY_TEST_ADDRESS,
+  PERMIT2_ROUTER_ADDRESS,
+  STATE_VIEW_ABI,
+  STATE_VIEW_ADDRESS,
+  TOKENS,
+} from '../config/contracts';
+import { USE_PERMIT2 } from './permit2';
+
+/**
+ * TickMath bounds, and the widest range usable at the pool's tick spacing
+ */
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_USABLE_TICK = Math.ceil(MIN_TICK / POOL_CONFIG.tickSpacing) * POOL_CONFIG.tickSpacing;
+export const MAX_USABLE_TICK = Math.floor(MAX_TICK / POOL_CONFIG.tickSpacing) * POOL_CONFIG.tickSpacing;
+
+const Q96 = 2n ** 96n;
+const Q128 = 2n ** 128n;
+const UINT256_MASK = 2n ** 256n - 1n;
+
+/**
+ * Liquidity is shaved by this much (basis points) so float tick math never asks for
+ * more than the entered amounts
+ */
+const LIQUIDITY_BUFFER_BPS = 10n;
+
+/**
+ * Blocks scanned on first load when VITE_POSITIONS_FROM_BLOCK isn't set
+ */
+const DEFAULT_SCAN_BLOCKS = 50_000n;
+
+/**
+ * eth_getLogs block range per request (public RPCs cap it)
+ */
+const LOG_CHUNK_BLOCKS = 2000n;
+
+/**
+ * Router new positions are added through
+ */
+export const LIQUIDITY_ROUTER_ADDRESS = USE_PERMIT2 ? PERMIT2_ROUTER_ADDRESS : POOL_MODIFY_LIQUIDITY_TEST_ADDRESS;
+
+/**
+ * Routers whose positions are listed (earlier positions may still sit with the test router)
+ */
+const POSITION_ROUTERS: Address[] = USE_PERMIT2
+  ? [PERMIT2_ROUTER_ADDRESS, POOL_MODIFY_LIQUIDITY_TEST_ADDRESS]
+  : [POOL_MODIFY_LIQUIDITY_TEST_ADDRESS];
+
+/**
+ * A position in PoolManager
+ */
+export interface PositionKey {
+  /** Router that owns the position, and through which it's modified */
+  router: Address;
+  tickLower: number;
+  tickUpper: number;
+  salt: Hex;
+}
+
+export interface Position extends PositionKey {
+  liquidity: bigint;
+  /** Token amounts the liquidity is worth at the current price */
+  amount0: bigint;
+  amount1: bigint;
+  inRange: boolean;
+  /** Share of the pool's active liquidity (0 when out of range) */
+  share: number;
+  /** Fees accrued since the position was last modified */
+  feesOwed0: bigint;
+  feesOwed1: bigint;
+}
+
+export interface PoolState {
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+}
+
+// ============================================
+// Tick math
+// ============================================
+
+const DECIMALS_SHIFT = TOKENS.ETH.decimals - TOKENS.USDC.decimals;
+
+/**
+ * Tick for a price in USDC per ETH (not aligned to the tick spacing)
+ */
+export function priceToTick(price: number): number {
+  return Math.floor(Math.log(price / 10 ** DECIMALS_SHIFT) / Math.log(1.0001));
+}
+
+/**
+ * Price in USDC per ETH at a tick
+ */
+export function tickToPrice(tick: number): number {
+  return 1.0001 ** tick * 10 ** DECIMALS_SHIFT;
+}
+
+/**
+ * Round a tick to the pool's tick spacing, within the usable range
+ */
+export function alignTick(tick: number, roundUp: boolean): number {
+  const spacing = POOL_CONFIG.tickSpacing;
+  const aligned = (roundUp ? Math.ceil(tick / spacing) : Math.floor(tick / spacing)) * spacing;
+  return Math.min(MAX_USABLE_TICK, Math.max(MIN_USABLE_TICK, aligned));
+}
+
+/**
+ * Ticks for a price range, widened outwards to the tick spacing
+ * @returns null if the prices aren't a valid range
+ */
+export function priceRangeToTicks(minPrice: number, maxPrice: number): { tickLower: number; tickUpper: number } | null {
+  if (!(minPrice > 0) || !(maxPrice > minPrice) || !Number.isFinite(maxPrice)) {
+    return null;
+  }
+  const tickLower = alignTick(priceToTick(minPrice), false);
+  const tickUpper = alignTick(priceToTick(maxPrice), true);
+  if (tickLower >= tickUpper) {
+    return tickLower + POOL_CONFIG.tickSpacing <= MAX_USABLE_TICK
+      ? { tickLower, tickUpper: tickLower + POOL_CONFIG.tickSpacing }
+      : { tickLower: tickUpper - POOL_CONFIG.tickSpacing, tickUpper };
+  }
+  return { tickLower, tickUpper };
+}
+
+/**
+ * sqrtPriceX96 at a tick
+ * Why: Float precision (~1e-15) is plenty for previews; the pool does the exact math.
+ */
+export function sqrtPriceAtTick(tick: number): bigint {
+  return BigInt(Math.floor(Math.sqrt(1.0001 ** tick) * Number(Q96)));
+}
+
+/**
+ * Most liquidity the given token amounts can provide in a range
+ */
+export function liquidityForAmounts(sqrtPriceX96: bigint, tickLower: number, tickUpper: number, amount0: bigint, amount1: bigint): bigint {
+  const sqrtLower = sqrtPriceAtTick(tickLower);
+  const sqrtUpper = sqrtPriceAtTick(tickUpper);
+  const fromAmount0 = (from: bigint) => (amount0 * ((from * sqrtUpper) / Q96)) / (sqrtUpper - from);
+  const fromAmount1 = (to: bigint) => (amount1 * Q96) / (to - sqrtLower);
+
+  let liquidity: bigint;
+  if (sqrtPriceX96 <= sqrtLower) {
+    liquidity = fromAmount0(sqrtLower);
+  } else if (sqrtPriceX96 >= sqrtUpper) {
+    liquidity = fromAmount1(sqrtUpper);
+  } else {
+    const liquidity0 = fromAmount0(sqrtPriceX96);
+    const liquidity1 = fromAmount1(sqrtPriceX96);
+    liquidity = liquidity0 < liquidity1 ? liquidity0 : liquidity1;
+  }
+  return (liquidity * (10000n - LIQUIDITY_BUFFER_BPS)) / 10000n;
+}
+
+/**
+ * Token amounts a position's liquidity is worth at a price
+ */
+export function amountsForLiquidity(sqrtPriceX96: bigint, tickLower: number, tickUpper: number, liquidity: bigint) {
+  const sqrtLower = sqrtPriceAtTick(tickLower);
+  const sqrtUpper = sqrtPriceAtTick(tickUpper);
+  const sqrtPrice = sqrtPriceX96 < sqrtLower ? sqrtLower : sqrtPriceX96 > sqrtUpper ? sqrtUpper : sqrtPriceX96;
+
+  return {
+    amount0: (((liquidity * Q96) / sqrtPrice) * (sqrtUpper - sqrtPrice)) / sqrtUpper,
+    amount1: (liquidity * (sqrtPrice - sqrtLower)) / Q96,
+  };
+}
+
+// ============================================
+// Salts
+// ============================================
+
+/**
+ * Salt for a user's nth position
+ */
+export function positionSalt(owner: Address, index: number): Hex {
+  return `0x${owner.slice(2).toLowerCase()}${index.toString(16).padStart(24, '0')}`;
+}
+
+function isOwnSalt(salt: Hex, owner: Address): boolean {
+  return salt.slice(2, 42).toLowerCase() === owner.slice(2).toLowerCase();
+}
+
+function saltIndex(salt: Hex): number {
+  return parseInt(salt.slice(42), 16);
+}
+
+function sameKey(a: PositionKey, b: PositionKey): boolean {
+  return (
+    a.router.toLowerCase() === b.router.toLowerCase() &&
+    a.tickLower === b.tickLower &&
+    a.tickUpper === b.tickUpper &&
+    a.salt.toLowerCase() === b.salt.toLowerCase()
+  );
+}
+
+// ============================================
+// Discovery cache (localStorage)
+// ============================================
+// Why: Scanning logs is slow; only blocks after the last scan are read again.
+
+interface PositionCache {
+  scannedTo: string | null;
+  keys: PositionKey[];
+}
+
+function cacheKey(owner: Address): string {
+  return `positions:${CHAIN_ID}:${owner.toLowerCase()}`;
+}
+
+function readCache(owner: Address): PositionCache {
+  try {
+    const raw = localStorage.getItem(cacheKey(owner));
+    if (raw) {
+      const cache = JSON.parse(raw) as PositionCache;
+      // Entries cached before Permit2Router have no router: they're all the test router's
+      cache.keys = cache.keys.map((key) => ({ ...key, router: key.router ?? POOL_MODIFY_LIQUIDITY_TEST_ADDRESS }));
+      return cache;
+    }
+  } catch (error) {
+    console.error('Failed to read position cache:', error);
+  }
+  return { scannedTo: null, keys: [] };
+}
+
+function writeCache(owner: Address, cache: PositionCache) {
+  try {
+    localStorage.setItem(cacheKey(owner), JSON.stringify(cache));
+  } catch (error) {
+    console.error('Failed to write position cache:', error);
+  }
+}
+
+function addKey(cache: PositionCache, key: PositionKey) {
+  if (!cache.keys.some((known) => sameKey(known, key))) {
+    cache.keys.push(key);
+  }
+}
+
+/**
+ * Record a position added from this browser, so it's listed before the log scan reaches it
+ */
+export function rememberPosition(owner: Address, key: PositionKey) {
+  const cache = readCache(owner);
+  addKey(cache, key);
+  writeCache(owner, cache);
+}
+
+/**
+ * Salt index for the user's next position
+ */
+export function nextPositionIndex(owner: Address): number {
+  return readCache(owner).keys.reduce((next, key) => Math.max(next, saltIndex(key.salt) + 1), 0);
+}
+
+/**
+ * Find the user's position keys in ModifyLiquidity logs since the last scan
+ */
+async function scanPositionKeys(client: PublicClient, owner: Address): Promise<PositionKey[]> {
+  const cache = readCache(owner);
+  const latest = await client.getBlockNumber();
+
+  let fromBlock =
+    cache.scannedTo !== null
+      ? BigInt(cache.scannedTo) + 1n
+      : POSITIONS_FROM_BLOCK ?? (latest > DEFAULT_SCAN_BLOCKS ? latest - DEFAULT_SCAN_BLOCKS : 0n);
+
+  while (fromBlock <= latest) {
+    const toBlock = fromBlock + LOG_CHUNK_BLOCKS - 1n < latest ? fromBlock + LOG_CHUNK_BLOCKS - 1n : latest;
+    const logs = await client.getLogs({
+      address: POOL_MANAGER_ADDRESS,
+      event: POOL_MANAGER_ABI[0],
+      args: { id: POOL_ID, sender: POSITION_ROUTERS },
+      fromBlock,
+      toBlock,
+    });
+
+    for (const log of logs) {
+      const { sender, tickLower, tickUpper, salt } = log.args;
+      if (sender && tickLower !== undefined && tickUpper !== undefined && salt && isOwnSalt(salt, owner)) {
+        addKey(cache, { router: sender, tickLower, tickUpper, salt });
+      }
+    }
+
+    // Saved per chunk so an interrupted scan resumes where it stopped
+    cache.scannedTo = toBlock.toString();
+    writeCache(owner, cache);
+    fromBlock = toBlock + 1n;
+  }
+
+  return cache.keys;
+}
+
+// ============================================
+// Live state
+// ============================================
+
+/**
+ * Fees accrued inside a range since the position's last checkpoint
+ * Why: Fee growth counters wrap around, as in PoolManager, so subtract modulo 2^256.
+ */
+function feesOwed(growthInside: bigint, growthInsideLast: bigint, liquidity: bigint): bigint {
+  return (((growthInside - growthInsideLast) & UINT256_MASK) * liquidity) / Q128;
+}
+
+/**
+ * Read the pool's price and active liquidity
+ */
+export async function getPoolState(client: PublicClient): Promise<PoolState> {
+  if (STATE_VIEW_ADDRESS === zeroAddress) {
+    throw new Error('StateView address not configured (VITE_STATE_VIEW_ADDRESS)');
+  }
+  const [[sqrtPriceX96, tick], liquidity] = await Promise.all([
+    client.readContract({ address: STATE_VIEW_ADDRESS, abi: STATE_VIEW_ABI, functionName: 'getSlot0', args: [POOL_ID] }),
+    client.readContract({ address: STATE_VIEW_ADDRESS, abi: STATE_VIEW_ABI, functionName: 'getLiquidity', args: [POOL_ID] }),
+  ]);
+  return { sqrtPriceX96, tick, liquidity };
+}
+
+/**
+ * Load the user's open positions with their value, pool share and accrued fees
+ */
+export async function loadPositions(client: PublicClient, owner: Address): Promise<{ pool: PoolState; positions: Position[] }> {
+  const [keys, pool] = await Promise.all([scanPositionKeys(client, owner), getPoolState(client)]);
+
+  const positions = await Promise.all(
+    keys.map(async (key): Promise<Position> => {
+      const [[liquidity, growthLast0, growthLast1], [growthInside0, growthInside1]] = await Promise.all([
+        client.readContract({
+          address: STATE_VIEW_ADDRESS,
+          abi: STATE_VIEW_ABI,
+          functionName: 'getPositionInfo',
+          args: [POOL_ID, key.router, key.tickLower, key.tickUpper, key.salt],
+        }),
+        client.readContract({
+          address: STATE_VIEW_ADDRESS,
+          abi: STATE_VIEW_ABI,
+          functionName: 'getFeeGrowthInside',
+          args: [POOL_ID, key.tickLower, key.tickUpper],
+        }),
+      ]);
+
+      // Same rule as the pool: a position is active when tickLower <= tick < tickUpper
+      const inRange = key.tickLower <= pool.tick && pool.tick < key.tickUpper;
+      const share = inRange && pool.liquidity > 0n ? Number((liquidity * 1_000_000n) / pool.liquidity) / 1_000_000 : 0;
+
+      return {
+        ...key,
+        liquidity,
+        ...amountsForLiquidity(pool.sqrtPriceX96, key.tickLower, key.tickUpper, liquidity),
+        inRange,
+        share,
+        feesOwed0: feesOwed(growthInside0, growthLast0, liquidity),
+        feesOwed1: feesOwed(growthInside1, growthLast1, liquidity),
+      };
+    }),
+  );
+
+  return {
+    pool,
+    positions: positions
+      .filter((position) => position.liquidity > 0n)
+      .sort((a, b) => saltIndex(a.salt) - saltIndex(b.salt)),
+  };
+}
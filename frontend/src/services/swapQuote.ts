@@ -0,0 +1,253 @@
+/**
+ * @file services/swapQuote.ts
+ * @description Quotes ETH/USDC swaps and turns a slippage tolerance into a sqrtPriceLimitX96
+ *
+ * The quote simulates the swap (Permit2Router.quoteSwap, or PoolSwapTest.swap from
+ * the user's account without it), so the output includes the hook and every tick
+ * the swap crosses. The spot price comes from StateView, read at the same block.
+ *
+ * Why this exists:
+ * - Swaps were sent with the absolute min/max price limit, i.e. unlimited slippage
+ * - Users saw neither the expected output nor the leader's fee before signing
+ */
+
+import { BaseError, concat, encodeAbiParameters, toFunctionSelector, zeroAddress } from 'viem';
+import type { Address, Hex, PublicClient } from 'viem';
+import {
+  LEADER_FEE_HOOK_ABI,
+  LEADER_FEE_HOOK_ADDRESS,
+  PERMIT2_ROUTER_ABI,
+  PERMIT2_ROUTER_ADDRESS,
+  POOL_ID,
+  POOL_KEY,
+  POOL_SWAP_TEST_ABI,
+  POOL_SWAP_TEST_ADDRESS,
+  STATE_VIEW_ABI,
+  STATE_VIEW_ADDRESS,
+} from '../config/contracts';
+import { USE_PERMIT2 } from './permit2';
+import type { SignedPermit } from './permit2';
+
+/**
+ * PoolManager's price bounds (TickMath.MIN_SQRT_PRICE / MAX_SQRT_PRICE)
+ * @notice Limits must be strictly inside these, or the swap reverts
+ */
+export const MIN_SQRT_PRICE = 4295128739n;
+export const MAX_SQRT_PRICE = 1461446703485210103287273052203988822378723970342n;
+
+/**
+ * LeaderFeeHook.SWAP_DEADLINE_TAG: deadline hookData starts with it
+ */
+const SWAP_DEADLINE_TAG = toFunctionSelector('swapDeadline(uint256)');
+
+const Q96 = 2n ** 96n;
+const Q192 = 2n ** 192n;
+const FEE_DENOMINATOR = 1_000_000n;
+const RATIO_SCALE = 1_000_000_000n;
+
+export interface SwapQuoteRequest {
+  /** Account the swap is simulated from (through PoolSwapTest it needs the balance and allowance) */
+  account: Address;
+  /** true for ETH -> USDC */
+  zeroForOne: boolean;
+  /** Exact input amount in the input token's smallest unit */
+  amountIn: bigint;
+  /** Tolerated price movement beyond the quote, in basis points */
+  slippageBps: number;
+  /** Unix time after which the hook rejects the swap */
+  deadline: bigint;
+}
+
+export interface SwapQuote {
+  zeroForOne: boolean;
+  /** Input the pool would take (less than requested if liquidity runs out) */
+  amountIn: bigint;
+  amountOut: bigint;
+  partialFill: boolean;
+  /** Spot price before the swap */
+  sqrtPriceX96: bigint;
+  /** Estimated price after the swap */
+  sqrtPriceAfterX96: bigint;
+  /** Price the swap stops at, from the slippage tolerance */
+  sqrtPriceLimitX96: bigint;
+  /** Execution price shortfall vs. spot, excluding the pool fee (0.01 = 1%) */
+  priceImpact: number;
+  /** Pool LP fee and the hook's current leader fee (hundredths of a basis point) */
+  lpFee: number;
+  leaderFee: number;
+  deadline: bigint;
+  hookData: Hex;
+  blockNumber: bigint;
+}
+
+/**
+ * hookData carrying the swap deadline; LeaderFeeHook.beforeSwap reverts once it has passed
+ * @notice Same as abi.encodeWithSelector(SWAP_DEADLINE_TAG, deadline); untagged hookData is ignored
+ */
+export function deadlineHookData(deadline: bigint): Hex {
+  return concat([SWAP_DEADLINE_TAG, encodeAbiParameters([{ type: 'uint256' }], [deadline])]);
+}
+
+/**
+ * Arguments for PoolSwapTest.swap (exact input)
+ */
+export function swapArgs(zeroForOne: boolean, amountIn: bigint, sqrtPriceLimitX96: bigint, hookData: Hex) {
+  return [
+    POOL_KEY,
+    { zeroForOne, amountSpecified: -amountIn, sqrtPriceLimitX96 },
+    { takeClaims: false, settleUsingBurn: false },
+    hookData,
+  ] as const;
+}
+
+/**
+ * Arguments for Permit2Router.swap (exact input)
+ * @param permits - Permit for the input token; empty when paying in ETH
+ */
+export function routerSwapArgs(
+  zeroForOne: boolean,
+  amountIn: bigint,
+  sqrtPriceLimitX96: bigint,
+  permits: readonly SignedPermit[],
+  hookData: Hex,
+) {
+  return [POOL_KEY, { zeroForOne, amountSpecified: -amountIn, sqrtPriceLimitX96 }, permits, hookData] as const;
+}
+
+function ratio(numerator: bigint, denominator: bigint): number {
+  return Number((numerator * RATIO_SCALE) / denominator) / Number(RATIO_SCALE);
+}
+
+/**
+ * Price limit that allows the price to move `slippageBps` past where the quote ends
+ * Why: The pool stops filling at the limit instead of reverting, so the user never
+ * trades at a worse marginal price; any unfilled input stays with them.
+ */
+export function priceLimitFor(sqrtPriceAfterX96: bigint, zeroForOne: boolean, slippageBps: number): bigint {
+  const tolerance = slippageBps / 10000;
+  // Price is the square of the sqrt price
+  const factor = Math.sqrt(zeroForOne ? 1 - tolerance : 1 + tolerance);
+  const limit = (sqrtPriceAfterX96 * BigInt(Math.round(factor * Number(RATIO_SCALE)))) / RATIO_SCALE;
+  if (zeroForOne) {
+    return limit > MIN_SQRT_PRICE ? limit : MIN_SQRT_PRICE + 1n;
+  }
+  return limit < MAX_SQRT_PRICE ? limit : MAX_SQRT_PRICE - 1n;
+}
+
+/**
+ * Token1 per token0 in whole units (e.g. USDC per ETH)
+ */
+export function sqrtPriceToPrice(sqrtPriceX96: bigint, decimals0: number, decimals1: number): number {
+  const sqrtPrice = Number(sqrtPriceX96) / Number(Q96);
+  return sqrtPrice * sqrtPrice * 10 ** (decimals0 - decimals1);
+}
+
+/**
+ * Readable message for a failed quote (revert reason when there is one)
+ */
+export function quoteErrorMessage(error: unknown): string {
+  if (error instanceof BaseError) {
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Quote an exact-input swap and derive its price limit
+ *
+ * @throws Error if StateView isn't configured, the simulation reverts, or the pool has no liquidity
+ */
+export async function quoteSwap(client: PublicClient, request: SwapQuoteRequest): Promise<SwapQuote> {
+  if (STATE_VIEW_ADDRESS === zeroAddress) {
+    throw new Error('StateView address not configured (VITE_STATE_VIEW_ADDRESS)');
+  }
+
+  const { zeroForOne } = request;
+  const hookData = deadlineHookData(request.deadline);
+  const blockNumber = await client.getBlockNumber();
+
+  // Without a limit, so the quote shows what the full input would get
+  const noLimit = zeroForOne ? MIN_SQRT_PRICE + 1n : MAX_SQRT_PRICE - 1n;
+  const simulateSwap = async () => {
+    if (USE_PERMIT2) {
+      // Reverts inside the PoolManager, so it needs neither balance nor approval
+      const { result } = await client.simulateContract({
+        address: PERMIT2_ROUTER_ADDRESS,
+        abi: PERMIT2_ROUTER_ABI,
+        functionName: 'quoteSwap',
+        args: [POOL_KEY, { zeroForOne, amountSpecified: -request.amountIn, sqrtPriceLimitX96: noLimit }, hookData],
+        account: request.account,
+        blockNumber,
+      });
+      return result;
+    }
+    const { result } = await client.simulateContract({
+      address: POOL_SWAP_TEST_ADDRESS,
+      abi: POOL_SWAP_TEST_ABI,
+      functionName: 'swap',
+      args: swapArgs(zeroForOne, request.amountIn, noLimit, hookData),
+      account: request.account,
+      value: zeroForOne ? request.amountIn : 0n,
+      blockNumber,
+    });
+    return result;
+  };
+
+  const [slot0, leaderFee, delta] = await Promise.all([
+    client.readContract({
+      address: STATE_VIEW_ADDRESS,
+      abi: STATE_VIEW_ABI,
+      functionName: 'getSlot0',
+      args: [POOL_ID],
+      blockNumber,
+    }),
+    client.readContract({
+      address: LEADER_FEE_HOOK_ADDRESS,
+      abi: LEADER_FEE_HOOK_ABI,
+      functionName: 'getCurrentFee',
+      blockNumber,
+    }),
+    simulateSwap(),
+  ]);
+
+  const [sqrtPriceX96, , , lpFee] = slot0;
+  if (sqrtPriceX96 === 0n) {
+    throw new Error('Pool is not initialized');
+  }
+
+  // BalanceDelta packs amount0 in the upper and amount1 in the lower 128 bits
+  const amount0 = delta >> 128n;
+  const amount1 = BigInt.asIntN(128, delta);
+  const amountOut = zeroForOne ? amount1 : amount0;
+  const amountIn = -(zeroForOne ? amount0 : amount1);
+  if (amountOut <= 0n || amountIn <= 0n) {
+    throw new Error('Not enough liquidity for this swap');
+  }
+
+  // Within one liquidity range the average price is the geometric mean of the start
+  // and end prices, so the end price follows from the simulated amounts. It's an
+  // estimate when the swap crosses ticks, which the slippage tolerance absorbs.
+  const amountInAfterFee = (amountIn * (FEE_DENOMINATOR - BigInt(lpFee))) / FEE_DENOMINATOR;
+  const sqrtPriceAfterX96 = zeroForOne
+    ? (amountOut * Q192) / (amountInAfterFee * sqrtPriceX96)
+    : (amountInAfterFee * Q192) / (amountOut * sqrtPriceX96);
+  const priceImpact = zeroForOne
+    ? 1 - ratio(sqrtPriceAfterX96, sqrtPriceX96)
+    : 1 - ratio(sqrtPriceX96, sqrtPriceAfterX96);
+
+  return {
+    zeroForOne,
+    amountIn,
+    amountOut,
+    partialFill: amountIn < request.amountIn,
+    sqrtPriceX96,
+    sqrtPriceAfterX96,
+    sqrtPriceLimitX96: priceLimitFor(sqrtPriceAfterX96, zeroForOne, request.slippageBps),
+    priceImpact: Math.max(0, priceImpact),
+    lpFee,
+    leaderFee,
+    deadline: request.deadline,
+    hookData,
+    blockNumber,
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * @file services/transactions.ts
+ * @description Tracks the transactions submitted from any page, for the transaction tray
+ *
+ * Forms hand each wallet submission to trackTransaction (see useTransactionTracker);
+ * the list is kept in localStorage so the tray survives reloads, and pending entries
+ * are watched again when the tray mounts.
+ *
+ * Why this exists:
+ * - Every form used to wait for its own receipt and flash its own success message,
+ *   which was lost on navigation and never explained a revert
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  isHex,
+} from 'viem';
+import type { Abi, Hex, PublicClient, TransactionReceipt } from 'viem';
+import { CHAIN_ID } from '../config/constants';
+import { REVERT_ERRORS_ABI } from '../config/contracts';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface TrackedTransaction {
+  /** Transaction hash, or a local id for submissions that never reached the chain */
+  id: string;
+  hash: Hex | null;
+  /** What the user did, e.g. "Swap 0.1 ETH → USDC" */
+  label: string;
+  status: TransactionStatus;
+  /** Decoded revert reason or submission error, when failed */
+  error: string | null;
+  /** Unix milliseconds */
+  submittedAt: number;
+}
+
+const STORAGE_KEY = `transactions:${CHAIN_ID}`;
+const MAX_TRANSACTIONS = 20;
+
+let transactions: TrackedTransaction[] = readStored();
+const listeners = new Set<(transactions: TrackedTransaction[]) => void>();
+// Hashes with a receipt wait in flight, so a resume doesn't watch them twice
+const watching = new Set<Hex>();
+
+function readStored(): TrackedTransaction[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      return JSON.parse(raw) as TrackedTransaction[];
+    }
+  } catch (error) {
+    console.error('Failed to read transactions:', error);
+  }
+  return [];
+}
+
+function setTransactions(next: TrackedTransaction[]) {
+  transactions = next.slice(0, MAX_TRANSACTIONS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  } catch (error) {
+    console.error('Failed to write transactions:', error);
+  }
+  listeners.forEach((listener) => listener(transactions));
+}
+
+function updateTransaction(id: string, patch: Partial<TrackedTransaction>) {
+  setTransactions(transactions.map((tx) => (tx.id === id ? { ...tx, ...patch } : tx)));
+}
+
+/**
+ * Current list, newest first
+ */
+export function getTransactions(): TrackedTransaction[] {
+  return transactions;
+}
+
+/**
+ * @returns Unsubscribe function
+ */
+export function subscribeTransactions(listener: (transactions: TrackedTransaction[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function dismissTransaction(id: string) {
+  setTransactions(transactions.filter((tx) => tx.id !== id));
+}
+
+export function clearFinishedTransactions() {
+  setTransactions(transactions.filter((tx) => tx.status === 'pending'));
+}
+
+// ============================================
+// Error decoding
+// ============================================
+
+/**
+ * Whether the user declined the request in their wallet (not worth a tray entry)
+ */
+export function isUserRejection(error: unknown): boolean {
+  return error instanceof BaseError && error.walk((e) => e instanceof UserRejectedRequestError) !== null;
+}
+
+/**
+ * Readable form of revert data: Error(string) reasons, panics and the known custom errors
+ */
+export function decodeRevertData(data: Hex): string {
+  try {
+    // Widened to Abi so the built-in Error(string) and Panic(uint256) names type-check
+    const { errorName, args = [] } = decodeErrorResult({ abi: REVERT_ERRORS_ABI as Abi, data });
+    if (errorName === 'Error') {
+      return String(args[0]);
+    }
+    if (errorName === 'WrappedError') {
+      // v4 wraps hook and token reverts; the inner reason is the useful part
+      const [target, , reason] = args as readonly [Hex, Hex, Hex, Hex];
+      return `${decodeRevertData(reason)} (in ${target})`;
+    }
+    return `${errorName}(${args.map(String).join(', ')})`;
+  } catch {
+    return data === '0x' ? 'Reverted without a reason' : `Unknown error ${data.slice(0, 10)}`;
+  }
+}
+
+/**
+ * Raw revert data anywhere in a viem error's cause chain
+ */
+function findRevertData(error: BaseError): Hex | null {
+  const withData = error.walk((e) => {
+    const data = (e as { data?: unknown }).data;
+    return isHex(data) || (typeof data === 'object' && data !== null && isHex((data as { data?: unknown }).data));
+  }) as { data?: Hex | { data?: Hex } } | null;
+
+  const data = withData?.data;
+  if (!data) return null;
+  return typeof data === 'string' ? data : data.data ?? null;
+}
+
+/**
+ * Best message for a failed submission or call: the decoded revert if there is one
+ */
+export function transactionErrorMessage(error: unknown): string {
+  if (!(error instanceof BaseError)) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError) {
+    if (reverted.reason) return reverted.reason;
+    if (reverted.raw) return decodeRevertData(reverted.raw);
+  }
+
+  const data = findRevertData(error);
+  return data ? decodeRevertData(data) : error.shortMessage;
+}
+
+/**
+ * Why a mined transaction reverted
+ * Why: receipts carry no reason, so the transaction is replayed as a call on the
+ * state after its block. That's usually, but not always, the state it ran on.
+ */
+async function explainRevert(client: PublicClient, receipt: TransactionReceipt): Promise<string> {
+  try {
+    const tx = await client.getTransaction({ hash: receipt.transactionHash });
+    await client.call({
+      account: tx.from,
+      to: tx.to,
+      data: tx.input,
+      value: tx.value,
+      blockNumber: receipt.blockNumber,
+    });
+    return 'Reverted on-chain (the replay succeeded, so the state changed within its block)';
+  } catch (error) {
+    return transactionErrorMessage(error);
+  }
+}
+
+// ============================================
+// Tracking
+// ============================================
+
+function watchTransaction(client: PublicClient, id: string, hash: Hex) {
+  if (watching.has(hash)) return;
+  watching.add(hash);
+
+  client
+    .waitForTransactionReceipt({ hash })
+    .then(async (receipt) => {
+      if (receipt.status === 'success') {
+        updateTransaction(id, { status: 'confirmed' });
+      } else {
+        updateTransaction(id, { status: 'failed', error: await explainRevert(client, receipt) });
+      }
+    })
+    .catch((error) => {
+      // Still unknown (e.g. the wait timed out); it stays pending and is retried on the next resume
+      console.error(`Failed to get receipt for ${hash}:`, error);
+    })
+    .finally(() => watching.delete(hash));
+}
+
+/**
+ * Add a just-submitted transaction and follow it to its receipt
+ */
+export function trackTransaction(client: PublicClient, hash: Hex, label: string) {
+  if (!transactions.some((tx) => tx.id === hash)) {
+    setTransactions([
+      { id: hash, hash, label, status: 'pending', error: null, submittedAt: Date.now() },
+      ...transactions,
+    ]);
+  }
+  watchTransaction(client, hash, hash);
+}
+
+/**
+ * Record a submission the wallet or node refused (e.g. gas estimation reverted)
+ *
+ * @returns The entry's id
+ */
+export function recordFailedSubmission(label: string, error: unknown): string {
+  const id = `failed-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  setTransactions([
+    { id, hash: null, label, status: 'failed', error: transactionErrorMessage(error), submittedAt: Date.now() },
+    ...transactions,
+  ]);
+  return id;
+}
+
+/**
+ * Watch every pending transaction again (after a reload)
+ */
+export function resumePendingTransactions(client: PublicClient) {
+  transactions
+    .filter((tx) => tx.status === 'pending' && tx.hash)
+    .forEach((tx) => watchTransaction(client, tx.id, tx.hash as Hex));
+}
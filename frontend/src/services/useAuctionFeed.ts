@@ -0,0 +1,211 @@
+/**
+ * @file services/useAuctionFeed.ts
+ * @description React hook for the TEE server's live auction feed (Server-Sent Events)
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { TEE_SERVER_URL } from '../config/constants';
+import type { getBids, getDeposits, getRoundsResolved, getWithdrawals } from './api';
+
+/**
+ * A decoded Auction (or LeaderFeeHook) event pushed by the server
+ */
+export interface FeedAuctionEvent {
+  status: 'pending' | 'confirmed' | 'removed';
+  eventName:
+    | 'CollateralDeposited'
+    | 'CollateralWithdrawn'
+    | 'BidPlaced'
+    | 'RoundResolved'
+    | 'SealedBidsSettled'
+    | 'LeadershipExpired'
+    | 'RentCollected'
+    | 'HookUpdated'
+    | 'LeaderUpdated'
+    | 'FeeUpdated'
+    | 'FeeAccumulated'
+    | 'FeesWithdrawn';
+  blockNumber: string;
+  logIndex: number;
+  blockHash: string;
+  transactionHash: string;
+  timestamp: number | null;
+  args: Record<string, string>;
+}
+
+/**
+ * Totals snapshot, same shapes as the REST stats endpoints
+ */
+export interface FeedStats {
+  deposits: Awaited<ReturnType<typeof getDeposits>>;
+  withdrawals: Awaited<ReturnType<typeof getWithdrawals>>;
+  bids: Awaited<ReturnType<typeof getBids>>;
+  rounds: Awaited<ReturnType<typeof getRoundsResolved>>;
+}
+
+/**
+ * Round timer tick, sent once per second
+ */
+export interface FeedTick {
+  roundStart: number;
+  roundEnd: number;
+  roundDuration: number;
+  secondsRemaining: number;
+  resolving: boolean;
+  nextScheduledResolution: string | null;
+}
+
+type FeedMessage =
+  | { type: 'auction-event'; data: FeedAuctionEvent }
+  | { type: 'stats'; data: FeedStats }
+  | { type: 'tick'; data: FeedTick }
+  | { type: 'reset'; data: { reason: string } }
+  | { type: 'connection'; data: { connected: boolean } };
+
+const FEED_EVENT_TYPES = ['auction-event', 'stats', 'tick', 'reset'] as const;
+
+// ============================================
+// Shared connection
+// ============================================
+// Why: Several components use the feed at once; they share one EventSource
+// instead of each opening its own connection to the TEE server.
+
+const listeners = new Set<(message: FeedMessage) => void>();
+let source: EventSource | null = null;
+let lastEventId: string | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectAttempts = 0;
+let isConnected = false;
+let latestStats: FeedStats | null = null;
+let latestTick: FeedTick | null = null;
+
+function dispatch(message: FeedMessage) {
+  listeners.forEach((listener) => listener(message));
+}
+
+function setConnected(connected: boolean) {
+  if (isConnected !== connected) {
+    isConnected = connected;
+    dispatch({ type: 'connection', data: { connected } });
+  }
+}
+
+/**
+ * Open the EventSource
+ * Why: The browser reconnects on its own (sending Last-Event-ID) after network
+ * blips. If the connection is closed for good, e.g. the server restarted and
+ * returned an error, we reconnect manually with backoff and pass the last id
+ * as a query parameter, since EventSource can't set headers.
+ */
+function connect() {
+  const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : '';
+  const eventSource = new EventSource(`${TEE_SERVER_URL}/events/stream${query}`);
+  source = eventSource;
+
+  eventSource.onopen = () => {
+    reconnectAttempts = 0;
+    setConnected(true);
+  };
+
+  eventSource.onerror = () => {
+    setConnected(false);
+
+    if (eventSource.readyState === EventSource.CLOSED && listeners.size > 0 && !reconnectTimer) {
+      const delay = Math.min(1000 * 2 ** reconnectAttempts, 30000);
+      reconnectAttempts += 1;
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        if (listeners.size > 0) {
+          connect();
+        }
+      }, delay);
+    }
+  };
+
+  for (const type of FEED_EVENT_TYPES) {
+    eventSource.addEventListener(type, (event: MessageEvent) => {
+      if (event.lastEventId) {
+        lastEventId = event.lastEventId;
+      }
+
+      const data = JSON.parse(event.data);
+      if (type === 'stats') latestStats = data;
+      if (type === 'tick') latestTick = data;
+
+      dispatch({ type, data } as FeedMessage);
+    });
+  }
+}
+
+function subscribe(listener: (message: FeedMessage) => void) {
+  listeners.add(listener);
+  if (!source) {
+    connect();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      source?.close();
+      source = null;
+      isConnected = false;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+    }
+  };
+}
+
+// ============================================
+// Hook
+// ============================================
+
+interface UseAuctionFeedOptions {
+  /** Called for every auction event (pending, confirmed or removed) */
+  onEvent?: (event: FeedAuctionEvent) => void;
+  /** Called when the server can't replay missed events; reload state over REST */
+  onReset?: () => void;
+}
+
+/**
+ * Subscribe to the live auction feed
+ *
+ * Usage:
+ *   const { connected, stats, tick } = useAuctionFeed({
+ *     onEvent: (event) => { if (event.eventName === 'RoundResolved') refetch(); },
+ *   });
+ */
+export function useAuctionFeed(options: UseAuctionFeedOptions = {}) {
+  const [connected, setConnectedState] = useState(isConnected);
+  const [stats, setStats] = useState<FeedStats | null>(latestStats);
+  const [tick, setTick] = useState<FeedTick | null>(latestTick);
+
+  // Keep the latest callbacks without resubscribing on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    return subscribe((message) => {
+      switch (message.type) {
+        case 'connection':
+          setConnectedState(message.data.connected);
+          break;
+        case 'stats':
+          setStats(message.data);
+          break;
+        case 'tick':
+          setTick(message.data);
+          break;
+        case 'auction-event':
+          optionsRef.current.onEvent?.(message.data);
+          break;
+        case 'reset':
+          optionsRef.current.onReset?.();
+          break;
+      }
+    });
+  }, []);
+
+  return { connected, stats, tick };
+}
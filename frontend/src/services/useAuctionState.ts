@@ -0,0 +1,94 @@
+/**
+ * @file services/useAuctionState.ts
+ * @description React hook for the auction's round state (GET /auction/state)
+ */
+
+import { useEffect, useState } from 'react';
+import { getAuctionState } from './api';
+import type { AuctionStateResponse } from './api';
+import { useAuctionFeed } from './useAuctionFeed';
+
+/**
+ * Round state with amounts and round numbers as bigints, like contract reads return them
+ */
+export interface AuctionState extends Omit<AuctionStateResponse, 'currentRound' | 'nextRoundHighestBid'> {
+  currentRound: bigint;
+  nextRoundHighestBid: bigint;
+}
+
+/**
+ * Fallback refresh interval when no feed events arrive
+ */
+const POLL_INTERVAL_MS = 10000;
+
+// ============================================
+// Shared state
+// ============================================
+// Why: BidForm, WithdrawForm and LeaderDisplay all show the same state; they share
+// one poll and one request per refresh instead of each reading the contract.
+
+const listeners = new Set<(state: AuctionState) => void>();
+let latestState: AuctionState | null = null;
+let pendingRefresh: Promise<void> | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+function refreshAuctionState(): Promise<void> {
+  if (!pendingRefresh) {
+    pendingRefresh = getAuctionState()
+      .then((response) => {
+        latestState = {
+          ...response,
+          currentRound: BigInt(response.currentRound),
+          nextRoundHighestBid: BigInt(response.nextRoundHighestBid),
+        };
+        listeners.forEach((listener) => listener(latestState!));
+      })
+      .catch((error) => console.error('Failed to fetch auction state:', error))
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+
+  return pendingRefresh;
+}
+
+function subscribe(listener: (state: AuctionState) => void) {
+  listeners.add(listener);
+  if (!pollTimer) {
+    pollTimer = setInterval(refreshAuctionState, POLL_INTERVAL_MS);
+    refreshAuctionState();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+}
+
+/**
+ * Subscribe to the auction's round state
+ * Refreshes when a bid lands or a round resolves, and every few seconds otherwise.
+ *
+ * Usage:
+ *   const { state, refresh } = useAuctionState();
+ *   state?.nextRoundHighestBid
+ */
+export function useAuctionState() {
+  const [state, setState] = useState<AuctionState | null>(latestState);
+
+  useEffect(() => subscribe(setState), []);
+
+  useAuctionFeed({
+    onEvent: (event) => {
+      if (event.eventName === 'BidPlaced' || event.eventName === 'SealedBidsSettled' || event.eventName === 'RoundResolved') {
+        refreshAuctionState();
+      }
+    },
+    onReset: refreshAuctionState,
+  });
+
+  return { state, refresh: refreshAuctionState };
+}
@@ -0,0 +1,55 @@
+/**
+ * @file services/useBidRecommendation.ts
+ * @description React hook for GET /recommendation/bid
+ */
+
+import { useEffect, useState } from 'react';
+import { getBidRecommendation } from './api';
+import type { BidRecommendation } from './api';
+import { useAuctionFeed } from './useAuctionFeed';
+
+/**
+ * Delay before re-fetching while the fee is being changed (e.g. a slider drag)
+ */
+const FEE_DEBOUNCE_MS = 400;
+
+/**
+ * Get the revenue estimate and recommended maximum bid for a fee
+ * Re-fetched when the fee changes and whenever a round resolves.
+ *
+ * Usage:
+ *   const recommendation = useBidRecommendation(feeInput);
+ *   recommendation?.recommendedMaxBid.eth
+ */
+export function useBidRecommendation(fee?: number) {
+  const [recommendation, setRecommendation] = useState<BidRecommendation | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useAuctionFeed({
+    onEvent: (event) => {
+      if (event.eventName === 'RoundResolved' && event.status === 'confirmed') {
+        setVersion((value) => value + 1);
+      }
+    },
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      getBidRecommendation({ fee })
+        .then((result) => {
+          if (!cancelled) {
+            setRecommendation(result);
+          }
+        })
+        .catch((error) => console.error('Failed to fetch bid recommendation:', error));
+    }, FEE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [fee, version]);
+
+  return recommendation;
+}
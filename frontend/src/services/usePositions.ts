@@ -0,0 +1,78 @@
+/**
+ * @file services/usePositions.ts
+ * @description React hook for the connected user's liquidity positions
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import { loadPositions } from './positions';
+import type { PoolState, Position } from './positions';
+
+// Why: AddLiquidityForm and PositionsPanel are separate components; adding or
+// removing liquidity in one has to refresh the list in the other.
+const listeners = new Set<() => void>();
+
+/**
+ * Tell every mounted usePositions() to reload (after a liquidity change confirms)
+ */
+export function notifyPositionsChanged() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Usage:
+ *   const { positions, pool, error, refresh } = usePositions();
+ */
+export function usePositions() {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [pool, setPool] = useState<PoolState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  const refresh = useCallback(() => setVersion((value) => value + 1), []);
+
+  useEffect(() => {
+    listeners.add(refresh);
+    return () => {
+      listeners.delete(refresh);
+    };
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!publicClient || !address) {
+      setPositions([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    loadPositions(publicClient, address)
+      .then((result) => {
+        if (!cancelled) {
+          setPositions(result.positions);
+          setPool(result.pool);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to load positions:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, address, version]);
+
+  return { positions, pool, error, isLoading, refresh };
+}
@@ -0,0 +1,95 @@
+/**
+ * @file services/useSwapQuote.ts
+ * @description React hook that keeps a swap quote fresh while the user edits the form
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import { quoteErrorMessage, quoteSwap } from './swapQuote';
+import type { SwapQuote } from './swapQuote';
+
+/**
+ * Delay before quoting while the amount is being typed
+ */
+const INPUT_DEBOUNCE_MS = 400;
+
+/**
+ * Re-quote interval, so the shown output tracks other swaps and leader changes
+ */
+const QUOTE_REFRESH_MS = 15000;
+
+export interface SwapQuoteParams {
+  zeroForOne: boolean;
+  /** Exact input, or null when the amount is empty or invalid */
+  amountIn: bigint | null;
+  slippageBps: number;
+  deadlineMinutes: number;
+}
+
+/**
+ * Quote the swap described by the form
+ * `requote()` fetches a fresh quote (with a fresh deadline) for submitting.
+ *
+ * Usage:
+ *   const { quote, error, requote } = useSwapQuote({ zeroForOne, amountIn, slippageBps, deadlineMinutes });
+ */
+export function useSwapQuote(params: SwapQuoteParams) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const [quote, setQuote] = useState<SwapQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { zeroForOne, amountIn, slippageBps, deadlineMinutes } = params;
+
+  const requote = useCallback(async () => {
+    if (!publicClient || !address || !amountIn) {
+      throw new Error('Nothing to quote');
+    }
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + deadlineMinutes * 60);
+    return quoteSwap(publicClient, { account: address, zeroForOne, amountIn, slippageBps, deadline });
+  }, [publicClient, address, zeroForOne, amountIn, slippageBps, deadlineMinutes]);
+
+  useEffect(() => {
+    setQuote(null);
+    setError(null);
+    if (!publicClient || !address || !amountIn) {
+      return;
+    }
+
+    let cancelled = false;
+    const update = () => {
+      setIsLoading(true);
+      requote()
+        .then((result) => {
+          if (!cancelled) {
+            setQuote(result);
+            setError(null);
+          }
+        })
+        .catch((err) => {
+          if (!cancelled) {
+            setQuote(null);
+            setError(quoteErrorMessage(err));
+          }
+        })
+        .finally(() => {
+          if (!cancelled) {
+            setIsLoading(false);
+          }
+        });
+    };
+
+    const timer = setTimeout(update, INPUT_DEBOUNCE_MS);
+    const interval = setInterval(update, QUOTE_REFRESH_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      clearInterval(interval);
+      setIsLoading(false);
+    };
+  }, [requote]);
+
+  return { quote, error, isLoading, requote };
+}
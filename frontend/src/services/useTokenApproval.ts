@@ -0,0 +1,76 @@
+/**
+ * @file services/useTokenApproval.ts
+ * @description Shared token approval flow for the Uniswap forms
+ *
+ * With Permit2Router configured, the token is approved to Permit2 once and each
+ * trade is paid with a signed permit for its exact amount. Otherwise the test
+ * router is approved for exactly the amount of the trade at hand.
+ */
+
+import { maxUint256 } from 'viem';
+import type { Address } from 'viem';
+import { useAccount, useReadContract, useSignTypedData, useWriteContract } from 'wagmi';
+import { ERC20_ABI, PERMIT2_ADDRESS, TOKENS } from '../config/contracts';
+import { USE_PERMIT2, permitTypedData, randomPermitNonce } from './permit2';
+import type { SignedPermit } from './permit2';
+import { useTransactionTracker } from './useTransactions';
+
+/**
+ * Usage:
+ *   const approval = useTokenApproval(USDC_ADDRESS, amountIn, POOL_SWAP_TEST_ADDRESS);
+ *   if (approval.needsApproval) approval.approve();
+ *   const permit = await approval.signPermit(amountIn, deadline);
+ *
+ * @param token - ERC20 being spent
+ * @param amount - Amount the next trade spends, or null if none
+ * @param legacySpender - Test router to approve when Permit2Router isn't configured
+ */
+export function useTokenApproval(token: Address, amount: bigint | null, legacySpender: Address) {
+  const { address } = useAccount();
+  const spender = USE_PERMIT2 ? PERMIT2_ADDRESS : legacySpender;
+
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
+    address: token,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: address ? [address, spender] : undefined,
+  });
+
+  const { writeContract, isPending } = useWriteContract();
+  const tracker = useTransactionTracker(() => refetchAllowance());
+  const { signTypedDataAsync } = useSignTypedData();
+
+  const symbol = Object.values(TOKENS).find((t) => t.address.toLowerCase() === token.toLowerCase())?.symbol ?? 'token';
+  const needsApproval = amount !== null && amount > 0n && allowance !== undefined && allowance < amount;
+
+  const approve = () => {
+    if (!amount) return;
+
+    writeContract({
+      address: token,
+      abi: ERC20_ABI,
+      functionName: 'approve',
+      // Permit2 is the one standing approval; every pull through it is capped by a permit
+      args: [spender, USE_PERMIT2 ? maxUint256 : amount],
+    }, tracker.track(USE_PERMIT2 ? `Approve ${symbol} for Permit2` : `Approve ${symbol}`));
+  };
+
+  /**
+   * Sign a one-time permit for Permit2Router to pull up to `permitAmount` before `deadline`
+   */
+  const signPermit = async (permitAmount: bigint, deadline: bigint): Promise<SignedPermit> => {
+    const typedData = permitTypedData(token, permitAmount, deadline, randomPermitNonce());
+    const signature = await signTypedDataAsync(typedData);
+    const { permitted, nonce } = typedData.message;
+    return { permit: { permitted, nonce, deadline }, signature };
+  };
+
+  return {
+    needsApproval,
+    approve,
+    isApproving: isPending || tracker.isConfirming,
+    approvalError: tracker.error,
+    signPermit,
+    refetchAllowance,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * @file services/useTransactions.ts
+ * @description React hooks over the transaction store (services/transactions.ts)
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { Hex } from 'viem';
+import { usePublicClient } from 'wagmi';
+import {
+  getTransactions,
+  isUserRejection,
+  recordFailedSubmission,
+  subscribeTransactions,
+  trackTransaction,
+} from './transactions';
+import type { TrackedTransaction } from './transactions';
+
+/**
+ * Usage:
+ *   const transactions = useTransactions();
+ */
+export function useTransactions(): TrackedTransaction[] {
+  const [transactions, setTransactions] = useState(getTransactions);
+
+  useEffect(() => subscribeTransactions(setTransactions), []);
+
+  return transactions;
+}
+
+/**
+ * Follow the transactions one form submits
+ *
+ * Usage:
+ *   const tracker = useTransactionTracker(() => refetchBalance());
+ *   writeContract({ ... }, tracker.track('Withdraw 1 ETH'));
+ *   tracker.isConfirming; tracker.error;
+ *
+ * @param onConfirmed - Called once when the latest tracked transaction confirms
+ */
+export function useTransactionTracker(onConfirmed?: () => void) {
+  const publicClient = usePublicClient();
+  const transactions = useTransactions();
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [rejection, setRejection] = useState<string | null>(null);
+
+  const onConfirmedRef = useRef(onConfirmed);
+  const handledId = useRef<string | null>(null);
+  useEffect(() => {
+    onConfirmedRef.current = onConfirmed;
+  });
+
+  const current = currentId ? transactions.find((tx) => tx.id === currentId) : undefined;
+
+  useEffect(() => {
+    if (current?.status === 'confirmed' && handledId.current !== current.id) {
+      handledId.current = current.id;
+      onConfirmedRef.current?.();
+    }
+  }, [current?.status, current?.id]);
+
+  /**
+   * Mutation callbacks for writeContract / sendTransaction
+   */
+  const track = (label: string) => {
+    setCurrentId(null);
+    setRejection(null);
+    return {
+      onSuccess: (hash: Hex) => {
+        setCurrentId(hash);
+        if (publicClient) {
+          trackTransaction(publicClient, hash, label);
+        }
+      },
+      onError: (error: Error) => {
+        if (isUserRejection(error)) {
+          setRejection('Transaction rejected in wallet');
+          return;
+        }
+        setCurrentId(recordFailedSubmission(label, error));
+      },
+    };
+  };
+
+  const reset = () => {
+    setCurrentId(null);
+    setRejection(null);
+  };
+
+  return {
+    track,
+    transaction: current,
+    isConfirming: current?.status === 'pending',
+    isConfirmed: current?.status === 'confirmed',
+    error: rejection ?? (current?.status === 'failed' ? current.error : null),
+    reset,
+  };
+}
@@ -5,6 +5,18 @@ interface ImportMetaEnv {
   readonly VITE_PRIVY_APP_ID: string
   readonly VITE_RPC_URL: string
   readonly VITE_CHAIN_ID?: string
+  readonly VITE_POOL_MANAGER_ADDRESS?: `0x${string}`
+  readonly VITE_POOL_SWAP_TEST_ADDRESS?: `0x${string}`
+  readonly VITE_POOL_MODIFY_LIQUIDITY_TEST_ADDRESS?: `0x${string}`
+  readonly VITE_PERMIT2_ADDRESS?: `0x${string}`
+  readonly VITE_STATE_VIEW_ADDRESS?: `0x${string}`
+  readonly VITE_PERMIT2_ROUTER_ADDRESS?: `0x${string}`
+  readonly VITE_LEADER_FEE_HOOK_ADDRESS?: `0x${string}`
+  readonly VITE_USDC_ADDRESS?: `0x${string}`
+  readonly VITE_POSITIONS_FROM_BLOCK?: string
+  readonly VITE_EXPECTED_MEASUREMENT?: string
+  readonly VITE_ATTESTATION_AUDIENCE?: string
+  readonly VITE_ALLOW_MOCK_ATTESTATION?: string
 }
 
 interface ImportMeta {
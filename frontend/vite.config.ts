@@ -1,12 +1,23 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Generated ABIs and addresses shared with the backend (../contracts)
+const contractsDir = fileURLToPath(new URL('../contracts/src', import.meta.url))
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: {
+      '@contracts': contractsDir,
+    },
+  },
   server: {
     port: 3000,
     host: true,
+    fs: {
+      allow: ['.', contractsDir],
+    },
   },
 })
-
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Script, console} from "forge-std/Script.sol";
+import {Permit2Router} from "../src/Permit2Router.sol";
+import {IPoolManager} from "@uniswap/v4-core/src/interfaces/IPoolManager.sol";
+import {ISignatureTransfer} from "permit2/src/interfaces/ISignatureTransfer.sol";
+
+/**
+ * @title DeployPermit2Router
+ * @notice Deploys the Permit2 swap/liquidity router used by the frontend
+ *
+ * Usage:
+ *   forge script script/DeployPermit2Router.s.sol:DeployPermit2Router --rpc-url $RPC_URL --broadcast --verify
+ *
+ * Required environment variables:
+ *   - PRIVATE_KEY: Deployer private key
+ */
+contract DeployPermit2Router is Script {
+    // Base Sepolia Uniswap V4 addresses
+    address constant POOL_MANAGER = 0x05E73354cFDd6745C338b50BcFDfA3Aa6fA03408;
+
+    // Canonical Permit2 (same address on every chain)
+    address constant PERMIT2 = 0x000000000022D473030F116dDEE9F6B43aC78BA3;
+
+    function run() external {
+        uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
+
+        vm.startBroadcast(deployerPrivateKey);
+        Permit2Router router = new Permit2Router(
+            IPoolManager(POOL_MANAGER),
+            ISignatureTransfer(PERMIT2)
+        );
+        vm.stopBroadcast();
+
+        console.log("Permit2Router deployed at:", address(router));
+        console.log("");
+        console.log("Set in the frontend environment:");
+        console.log("  VITE_PERMIT2_ROUTER_ADDRESS =", address(router));
+    }
+}
@@ -7,9 +7,15 @@ pragma solidity ^0.8.26;
  * @dev Uniswap V4 requires hook addresses to have specific bits set based on enabled callbacks
  */
 library HookMiner {
+    /// @notice The low 14 address bits, one per hook callback (Hooks.ALL_HOOK_MASK)
+    uint160 internal constant FLAG_MASK = uint160((1 << 14) - 1);
+
+    /// @notice Salts tried before giving up (each matches with probability 2^-14)
+    uint256 internal constant MAX_LOOP = 200000;
+
     /// @notice Find a salt that produces a hook address with the required flags
     /// @param deployer The address that will deploy the hook
-    /// @param flags The required hook flags (bits that must be set in the address)
+    /// @param flags The hook flags; the address must have exactly these bits set
     /// @param creationCode The creation code of the hook contract
     /// @param constructorArgs The encoded constructor arguments
     /// @return hookAddress The address of the hook
@@ -24,12 +30,12 @@ library HookMiner {
         bytes32 initCodeHash = keccak256(initCode);
 
         // Try different salts until we find one that produces an address with correct flags
-        for (uint256 i = 0; i < 100000; i++) {
+        for (uint256 i = 0; i < MAX_LOOP; i++) {
             salt = bytes32(i);
             hookAddress = computeAddress(deployer, salt, initCodeHash);
 
-            // Check if the address has the required flag bits set
-            if (uint160(hookAddress) & flags == flags) {
+            // BaseHook rejects addresses with flags for callbacks it doesn't implement
+            if (uint160(hookAddress) & FLAG_MASK == flags) {
                 return (hookAddress, salt);
             }
         }
@@ -39,6 +39,8 @@ contract LeaderFeeHook is BaseHook {
     uint24 public constant MIN_FEE = 1; // 0.00001%
     uint24 public constant MAX_FEE = 50000; // 5%
     uint256 public constant ROUND_DURATION = 60; // 60 seconds
+    /// @notice Prefix of deadline hookData: abi.encodeWithSelector(SWAP_DEADLINE_TAG, deadline)
+    bytes4 public constant SWAP_DEADLINE_TAG = bytes4(keccak256("swapDeadline(uint256)"));
 
     // ============ Immutables ============
     IAuction public immutable auction;
@@ -164,13 +166,25 @@ contract LeaderFeeHook is BaseHook {
     /**
      * @dev Called before each swap - returns the fee to apply
      * @notice Uses cached leader (no external call) for gas efficiency
+     * @notice hookData may carry a deadline, encoded as
+     *         abi.encodeWithSelector(SWAP_DEADLINE_TAG, deadline); the swap reverts after it.
+     *         Routers must use this encoding; any other hookData is ignored here.
      */
     function beforeSwap(
         address,
         PoolKey calldata,
         IPoolManager.SwapParams calldata,
-        bytes calldata
+        bytes calldata hookData
     ) external view override returns (bytes4, BeforeSwapDelta, uint24) {
+        // PoolSwapTest has no deadline parameter, so the frontend passes one here.
+        // The tag keeps hookData meant for other purposes from being read as a deadline.
+        if (hookData.length == 36 && bytes4(hookData[:4]) == SWAP_DEADLINE_TAG) {
+            require(
+                block.timestamp <= abi.decode(hookData[4:], (uint256)),
+                "Swap deadline expired"
+            );
+        }
+
         uint24 fee = DEFAULT_FEE;
 
         if (_isLeaderActive() && cachedLeaderFee > 0) {
@@ -0,0 +1,243 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {IPoolManager} from "@uniswap/v4-core/src/interfaces/IPoolManager.sol";
+import {IUnlockCallback} from "@uniswap/v4-core/src/interfaces/callback/IUnlockCallback.sol";
+import {PoolKey} from "@uniswap/v4-core/src/types/PoolKey.sol";
+import {BalanceDelta} from "@uniswap/v4-core/src/types/BalanceDelta.sol";
+import {Currency} from "@uniswap/v4-core/src/types/Currency.sol";
+import {ISignatureTransfer} from "permit2/src/interfaces/ISignatureTransfer.sol";
+
+/**
+ * @title Permit2Router
+ * @dev Swap and liquidity router that pulls ERC20 input through Permit2 signature transfers
+ * @notice Replaces PoolSwapTest/PoolModifyLiquidityTest in the frontend, which pull tokens
+ *         with transferFrom and so need a standing ERC20 approval per router
+ *
+ * Flow:
+ * 1. User approves Permit2 once per token
+ * 2. Per action, user signs a PermitTransferFrom for this router: exact amount,
+ *    deadline and a one-time nonce
+ * 3. Router unlocks the PoolManager, performs the action and settles what it owes:
+ *    native ETH from msg.value, ERC20 via permit2.permitTransferFrom straight to the PoolManager
+ * 4. Output tokens go to the user, and unused ETH is refunded
+ */
+contract Permit2Router is IUnlockCallback {
+    // ============ Types ============
+    enum Action {
+        SWAP,
+        MODIFY_LIQUIDITY,
+        QUOTE
+    }
+
+    /// @notice A signed PermitTransferFrom for one token
+    struct Permit {
+        ISignatureTransfer.PermitTransferFrom permit;
+        bytes signature;
+    }
+
+    struct CallbackData {
+        Action action;
+        address sender;
+        PoolKey key;
+        bytes params;
+        Permit[] permits;
+        bytes hookData;
+    }
+
+    /// @notice Carries a quote's result out of the reverted unlock
+    error QuoteResult(BalanceDelta delta);
+
+    // ============ Immutables ============
+    IPoolManager public immutable poolManager;
+    ISignatureTransfer public immutable permit2;
+
+    // ============ Constructor ============
+    constructor(IPoolManager _poolManager, ISignatureTransfer _permit2) {
+        poolManager = _poolManager;
+        permit2 = _permit2;
+    }
+
+    // ============ Actions ============
+
+    /**
+     * @dev Swap, paying ERC20 input with a signed permit
+     * @param permits Permits for the ERC20s the swap may take (empty when paying in ETH)
+     */
+    function swap(
+        PoolKey calldata key,
+        IPoolManager.SwapParams calldata params,
+        Permit[] calldata permits,
+        bytes calldata hookData
+    ) external payable returns (BalanceDelta delta) {
+        delta = _unlock(Action.SWAP, key, abi.encode(params), permits, hookData);
+        _refundEth();
+    }
+
+    /**
+     * @dev Add (positive liquidityDelta) or remove (negative) liquidity
+     * @notice Positions are owned by this router, so the salt's top 20 bytes must be the
+     *         caller: only they can change the positions under their salts
+     * @param permits Permits for the ERC20s an add may take (empty for removals)
+     */
+    function modifyLiquidity(
+        PoolKey calldata key,
+        IPoolManager.ModifyLiquidityParams calldata params,
+        Permit[] calldata permits,
+        bytes calldata hookData
+    ) external payable returns (BalanceDelta delta) {
+        require(
+            address(bytes20(params.salt)) == msg.sender,
+            "Salt does not belong to sender"
+        );
+
+        delta = _unlock(Action.MODIFY_LIQUIDITY, key, abi.encode(params), permits, hookData);
+        _refundEth();
+    }
+
+    /**
+     * @dev Simulate a swap without paying for it (call with eth_call)
+     * @return delta The swap's BalanceDelta, negative amounts being owed by the swapper
+     */
+    function quoteSwap(
+        PoolKey calldata key,
+        IPoolManager.SwapParams calldata params,
+        bytes calldata hookData
+    ) external returns (BalanceDelta delta) {
+        try this.unlockForQuote(key, params, hookData) {
+            revert("Quote did not revert");
+        } catch (bytes memory reason) {
+            if (reason.length != 36 || bytes4(reason) != QuoteResult.selector) {
+                // Bubble up the pool's or hook's own revert
+                assembly {
+                    revert(add(reason, 32), mload(reason))
+                }
+            }
+            assembly {
+                delta := mload(add(reason, 36))
+            }
+        }
+    }
+
+    /**
+     * @dev Entry point for quoteSwap; always reverts with QuoteResult or the swap's error
+     */
+    function unlockForQuote(
+        PoolKey calldata key,
+        IPoolManager.SwapParams calldata params,
+        bytes calldata hookData
+    ) external {
+        require(msg.sender == address(this), "Only quoteSwap");
+        _unlock(Action.QUOTE, key, abi.encode(params), new Permit[](0), hookData);
+    }
+
+    // ============ PoolManager Callback ============
+
+    function unlockCallback(
+        bytes calldata rawData
+    ) external override returns (bytes memory) {
+        require(msg.sender == address(poolManager), "Only pool manager");
+
+        CallbackData memory data = abi.decode(rawData, (CallbackData));
+
+        BalanceDelta delta;
+        if (data.action == Action.MODIFY_LIQUIDITY) {
+            // callerDelta already includes the fees the position accrued
+            (delta, ) = poolManager.modifyLiquidity(
+                data.key,
+                abi.decode(data.params, (IPoolManager.ModifyLiquidityParams)),
+                data.hookData
+            );
+        } else {
+            delta = poolManager.swap(
+                data.key,
+                abi.decode(data.params, (IPoolManager.SwapParams)),
+                data.hookData
+            );
+            if (data.action == Action.QUOTE) {
+                revert QuoteResult(delta);
+            }
+        }
+
+        _settle(data.key.currency0, delta.amount0(), data);
+        _settle(data.key.currency1, delta.amount1(), data);
+
+        return abi.encode(delta);
+    }
+
+    // ============ Internal Helpers ============
+
+    function _unlock(
+        Action action,
+        PoolKey calldata key,
+        bytes memory params,
+        Permit[] memory permits,
+        bytes calldata hookData
+    ) internal returns (BalanceDelta) {
+        bytes memory result = poolManager.unlock(
+            abi.encode(CallbackData(action, msg.sender, key, params, permits, hookData))
+        );
+        return abi.decode(result, (BalanceDelta));
+    }
+
+    /**
+     * @dev Pay what the sender owes in a currency, or send them what they're owed
+     */
+    function _settle(
+        Currency currency,
+        int128 amount,
+        CallbackData memory data
+    ) internal {
+        if (amount > 0) {
+            poolManager.take(currency, data.sender, uint128(amount));
+            return;
+        }
+        if (amount == 0) {
+            return;
+        }
+
+        uint256 owed = uint128(-amount);
+        if (currency.isAddressZero()) {
+            poolManager.settle{value: owed}();
+            return;
+        }
+
+        // Permit2 moves the tokens straight from the sender to the PoolManager;
+        // it reverts if `owed` exceeds the signed amount or the permit has expired
+        Permit memory permit = _permitFor(Currency.unwrap(currency), data.permits);
+        poolManager.sync(currency);
+        permit2.permitTransferFrom(
+            permit.permit,
+            ISignatureTransfer.SignatureTransferDetails({
+                to: address(poolManager),
+                requestedAmount: owed
+            }),
+            data.sender,
+            permit.signature
+        );
+        poolManager.settle();
+    }
+
+    function _permitFor(
+        address token,
+        Permit[] memory permits
+    ) internal pure returns (Permit memory) {
+        for (uint256 i = 0; i < permits.length; i++) {
+            if (permits[i].permit.permitted.token == token) {
+                return permits[i];
+            }
+        }
+        revert("No permit for token");
+    }
+
+    /**
+     * @dev Return ETH sent beyond what the action used
+     */
+    function _refundEth() internal {
+        uint256 balance = address(this).balance;
+        if (balance > 0) {
+            (bool success, ) = payable(msg.sender).call{value: balance}("");
+            require(success, "ETH refund failed");
+        }
+    }
+}
@@ -6,6 +6,10 @@ import {LeaderFeeHook} from "../src/LeaderFeeHook.sol";
 import {IAuction} from "../src/interfaces/IAuction.sol";
 import {IPoolManager} from "@uniswap/v4-core/src/interfaces/IPoolManager.sol";
 import {Hooks} from "@uniswap/v4-core/src/libraries/Hooks.sol";
+import {IHooks} from "@uniswap/v4-core/src/interfaces/IHooks.sol";
+import {PoolKey} from "@uniswap/v4-core/src/types/PoolKey.sol";
+import {Currency} from "@uniswap/v4-core/src/types/Currency.sol";
+import {HookMiner} from "../script/HookMiner.sol";
 
 /**
  * @title LeaderFeeHookTest
@@ -24,9 +28,45 @@ contract LeaderFeeHookTest is Test {
         auction = address(0x100);
         poolManager = address(0x200);
 
-        // Note: Actual deployment requires proper hook address mining
-        // This is a simplified test setup
-        // hook = new LeaderFeeHook(IPoolManager(poolManager), IAuction(auction));
+        // BaseHook checks the address's flag bits, so deploy at a mined CREATE2 address
+        uint160 flags = uint160(Hooks.BEFORE_SWAP_FLAG | Hooks.AFTER_SWAP_FLAG);
+        (address hookAddress, bytes32 salt) = HookMiner.find(
+            address(this),
+            flags,
+            type(LeaderFeeHook).creationCode,
+            abi.encode(IPoolManager(poolManager), IAuction(auction))
+        );
+        hook = new LeaderFeeHook{salt: salt}(
+            IPoolManager(poolManager),
+            IAuction(auction)
+        );
+        require(address(hook) == hookAddress, "Hook address mismatch");
+    }
+
+    function _key() internal view returns (PoolKey memory) {
+        return
+            PoolKey({
+                currency0: Currency.wrap(address(0)),
+                currency1: Currency.wrap(address(0x400)),
+                fee: 3000,
+                tickSpacing: 60,
+                hooks: IHooks(address(hook))
+            });
+    }
+
+    function _params() internal pure returns (IPoolManager.SwapParams memory) {
+        return
+            IPoolManager.SwapParams({
+                zeroForOne: true,
+                amountSpecified: -1 ether,
+                sqrtPriceLimitX96: 4295128740
+            });
+    }
+
+    function _deadlineHookData(
+        uint256 deadline
+    ) internal view returns (bytes memory) {
+        return abi.encodeWithSelector(hook.SWAP_DEADLINE_TAG(), deadline);
     }
 
     function test_SetFee_Success() public {
@@ -78,4 +118,32 @@ contract LeaderFeeHookTest is Test {
         // vm.expectRevert("No fees to withdraw");
         // hook.withdrawFees(address(0));
     }
+
+    function test_BeforeSwap_DeadlineExpired() public {
+        // hookData carries the swap deadline; swaps after it revert
+        bytes memory hookData = _deadlineHookData(block.timestamp);
+        vm.warp(block.timestamp + 61);
+
+        vm.prank(poolManager);
+        vm.expectRevert("Swap deadline expired");
+        hook.beforeSwap(address(this), _key(), _params(), hookData);
+    }
+
+    function test_BeforeSwap_BeforeDeadline() public {
+        bytes memory hookData = _deadlineHookData(block.timestamp + 60);
+
+        vm.prank(poolManager);
+        (, , uint24 fee) = hook.beforeSwap(address(this), _key(), _params(), hookData);
+        assertEq(fee, hook.DEFAULT_FEE());
+    }
+
+    function test_BeforeSwap_IgnoresUntaggedHookData() public {
+        // A router's own 32-byte hookData must not be read as an expired deadline
+        bytes memory hookData = abi.encode(uint256(0));
+        vm.warp(block.timestamp + 61);
+
+        vm.prank(poolManager);
+        (, , uint24 fee) = hook.beforeSwap(address(this), _key(), _params(), hookData);
+        assertEq(fee, hook.DEFAULT_FEE());
+    }
 }
@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Test} from "forge-std/Test.sol";
+import {Permit2Router} from "../src/Permit2Router.sol";
+import {IPoolManager} from "@uniswap/v4-core/src/interfaces/IPoolManager.sol";
+import {IHooks} from "@uniswap/v4-core/src/interfaces/IHooks.sol";
+import {PoolKey} from "@uniswap/v4-core/src/types/PoolKey.sol";
+import {Currency} from "@uniswap/v4-core/src/types/Currency.sol";
+import {ISignatureTransfer} from "permit2/src/interfaces/ISignatureTransfer.sol";
+
+/**
+ * @title Permit2RouterTest
+ * @dev Access checks that run before the router touches the PoolManager
+ */
+contract Permit2RouterTest is Test {
+    Permit2Router public router;
+    address public poolManager = address(0x200);
+    address public permit2 = address(0x300);
+
+    address public user = address(0x1);
+    address public other = address(0x2);
+
+    function setUp() public {
+        router = new Permit2Router(
+            IPoolManager(poolManager),
+            ISignatureTransfer(permit2)
+        );
+    }
+
+    function _key() internal pure returns (PoolKey memory) {
+        return
+            PoolKey({
+                currency0: Currency.wrap(address(0)),
+                currency1: Currency.wrap(address(0x400)),
+                fee: 3000,
+                tickSpacing: 60,
+                hooks: IHooks(address(0))
+            });
+    }
+
+    function _params(
+        address owner
+    ) internal pure returns (IPoolManager.ModifyLiquidityParams memory) {
+        return
+            IPoolManager.ModifyLiquidityParams({
+                tickLower: -60,
+                tickUpper: 60,
+                liquidityDelta: -1,
+                salt: bytes32(bytes20(owner))
+            });
+    }
+
+    function test_ModifyLiquidity_RejectsOthersSalt() public {
+        Permit2Router.Permit[] memory permits;
+
+        vm.prank(other);
+        vm.expectRevert("Salt does not belong to sender");
+        router.modifyLiquidity(_key(), _params(user), permits, "");
+    }
+
+    function test_UnlockCallback_OnlyPoolManager() public {
+        vm.prank(user);
+        vm.expectRevert("Only pool manager");
+        router.unlockCallback("");
+    }
+
+    function test_UnlockForQuote_OnlySelf() public {
+        IPoolManager.SwapParams memory params = IPoolManager.SwapParams({
+            zeroForOne: true,
+            amountSpecified: -1,
+            sqrtPriceLimitX96: 4295128740
+        });
+
+        vm.prank(user);
+        vm.expectRevert("Only quoteSwap");
+        router.unlockForQuote(_key(), params, "");
+    }
+}
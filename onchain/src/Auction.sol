@@ -2,6 +2,8 @@
 pragma solidity ^0.8.19;
 
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 
 /**
  * @title ILeaderFeeHook
@@ -17,7 +19,18 @@ interface ILeaderFeeHook {
  * @notice Highest bidder wins 60 seconds of leadership. Winner pays second-highest bid.
  *         Bidding for Round N+1 is open while Round N is active.
  */
-contract Auction is Ownable {
+contract Auction is Ownable, EIP712 {
+    // ============ Types ============
+
+    /// @notice Off-chain bid signed by the bidder and relayed by the settler
+    struct BidIntent {
+        address bidder;
+        uint256 amount;
+        uint256 forRound;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
     // ============ Events ============
     event SettlerUpdated(
         address indexed oldSettler,
@@ -48,9 +61,21 @@ contract Auction is Ownable {
     );
     event RentWithdrawn(address indexed owner, uint256 amount);
     event HookUpdated(address indexed oldHook, address indexed newHook);
+    event BidIntentRelayed(address indexed bidder, uint256 nonce);
+    event BidIntentCancelled(address indexed bidder, uint256 nonce);
+    event SealedBidsSettled(
+        uint256 indexed forRound,
+        address indexed winner,
+        uint256 winningBid,
+        uint256 secondBid
+    );
 
     // ============ Constants ============
     uint256 public constant ROUND_DURATION = 60; // 60 seconds per round
+    bytes32 public constant BID_INTENT_TYPEHASH =
+        keccak256(
+            "BidIntent(address bidder,uint256 amount,uint256 forRound,uint256 nonce,uint256 deadline)"
+        );
 
     // ============ State Variables ============
 
@@ -88,6 +113,9 @@ contract Auction is Ownable {
     /// @notice The Uniswap V4 hook to notify on leader changes
     ILeaderFeeHook public hook;
 
+    /// @notice Bid intent nonces already relayed, per bidder
+    mapping(address => mapping(uint256 => bool)) public usedIntentNonces;
+
     // ============ Modifiers ============
 
     modifier onlySettler() {
@@ -101,7 +129,7 @@ contract Auction is Ownable {
 
     // ============ Constructor ============
 
-    constructor() Ownable(msg.sender) {
+    constructor() Ownable(msg.sender) EIP712("Auction", "1") {
         currentRound = 0;
         currentRoundStart = block.timestamp;
         settler = msg.sender;
@@ -130,6 +158,21 @@ contract Auction is Ownable {
         emit HookUpdated(oldHook, _hook);
     }
 
+    /**
+     * @dev Withdraw accumulated rent to the owner
+     * @param amount Amount to withdraw (at most rentPool)
+     */
+    function withdrawRent(uint256 amount) external onlyOwner {
+        require(amount > 0, "Amount must be greater than zero");
+        require(amount <= rentPool, "Insufficient rent pool");
+
+        rentPool -= amount;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "ETH transfer failed");
+
+        emit RentWithdrawn(msg.sender, amount);
+    }
+
     // ============ Collateral Functions ============
 
     /**
@@ -183,13 +226,95 @@ contract Auction is Ownable {
      * @notice Uses second-price auction: winner pays second-highest bid
      */
     function bid(uint256 amount) external {
+        _placeBid(msg.sender, amount);
+    }
+
+    /**
+     * @dev Place a bid on behalf of a bidder from their signed EIP-712 intent
+     * @param intent The signed bid intent
+     * @param signature The bidder's signature over the intent
+     * @notice Only the settler (TEE) relays intents, so users can bid without sending
+     *         a transaction. Each nonce can be used once and only for the round signed for.
+     *         An intent that ties the highest bid keeps the earlier leader but sets the
+     *         price they pay, as the tied runner-up of a second-price auction.
+     */
+    function bidWithIntent(
+        BidIntent calldata intent,
+        bytes calldata signature
+    ) external onlySettler {
+        require(block.timestamp <= intent.deadline, "Bid intent expired");
+        require(
+            intent.forRound == currentRound + 1,
+            "Bid intent is for another round"
+        );
+        require(
+            !usedIntentNonces[intent.bidder][intent.nonce],
+            "Bid intent nonce already used"
+        );
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    BID_INTENT_TYPEHASH,
+                    intent.bidder,
+                    intent.amount,
+                    intent.forRound,
+                    intent.nonce,
+                    intent.deadline
+                )
+            )
+        );
+        require(
+            ECDSA.recover(digest, signature) == intent.bidder,
+            "Invalid bid intent signature"
+        );
+
+        usedIntentNonces[intent.bidder][intent.nonce] = true;
+
+        if (
+            intent.amount == nextRoundHighestBid &&
+            intent.bidder != nextRoundHighestBidder
+        ) {
+            require(
+                userCollateral[intent.bidder] >= intent.amount,
+                "Insufficient collateral for bid"
+            );
+            nextRoundSecondBid = intent.amount;
+        } else {
+            _placeBid(intent.bidder, intent.amount);
+        }
+
+        emit BidIntentRelayed(intent.bidder, intent.nonce);
+    }
+
+    /**
+     * @dev Invalidate one of the caller's bid intent nonces
+     * @param nonce Nonce of the signed intent to revoke
+     * @notice A signed intent stays valid until its deadline wherever it has been
+     *         posted; this is the only way to revoke it before then.
+     */
+    function cancelBidIntent(uint256 nonce) external {
+        require(
+            !usedIntentNonces[msg.sender][nonce],
+            "Bid intent nonce already used"
+        );
+
+        usedIntentNonces[msg.sender][nonce] = true;
+
+        emit BidIntentCancelled(msg.sender, nonce);
+    }
+
+    /**
+     * @dev Shared bid logic for direct and relayed bids
+     */
+    function _placeBid(address bidder, uint256 amount) internal {
         require(amount > 0, "Bid amount must be greater than zero");
         require(
             amount > nextRoundHighestBid,
             "Bid must be higher than current highest bid"
         );
         require(
-            userCollateral[msg.sender] >= amount,
+            userCollateral[bidder] >= amount,
             "Insufficient collateral for bid"
         );
 
@@ -197,10 +322,52 @@ contract Auction is Ownable {
         nextRoundSecondBid = nextRoundHighestBid;
 
         // Set new highest bidder
-        nextRoundHighestBidder = msg.sender;
+        nextRoundHighestBidder = bidder;
         nextRoundHighestBid = amount;
 
-        emit BidPlaced(msg.sender, amount, currentRound + 1);
+        emit BidPlaced(bidder, amount, currentRound + 1);
+    }
+
+    /**
+     * @dev Record the outcome of sealed bidding for the next round
+     * @param winner Highest sealed bidder
+     * @param winningBid Highest sealed bid
+     * @param secondBid Second-highest sealed bid (0 if there was only one)
+     * @notice Only the settler (TEE) can call this once sealed bidding closes. The sealed
+     *         outcome is merged with public bids so the second-price rule covers both.
+     */
+    function settleSealedBids(
+        address winner,
+        uint256 winningBid,
+        uint256 secondBid
+    ) external onlySettler {
+        require(winner != address(0), "Winner cannot be zero address");
+        require(winningBid > 0, "Bid amount must be greater than zero");
+        require(secondBid <= winningBid, "Second bid exceeds winning bid");
+        require(
+            userCollateral[winner] >= winningBid,
+            "Insufficient collateral for bid"
+        );
+
+        if (winningBid > nextRoundHighestBid) {
+            // A public bid from the same bidder doesn't set their own price
+            uint256 runnerUp = winner == nextRoundHighestBidder
+                ? nextRoundSecondBid
+                : nextRoundHighestBid;
+            nextRoundSecondBid = secondBid > runnerUp ? secondBid : runnerUp;
+            nextRoundHighestBidder = winner;
+            nextRoundHighestBid = winningBid;
+        } else if (winner != nextRoundHighestBidder) {
+            // The public leader keeps the round but pays at least the sealed bid
+            if (winningBid > nextRoundSecondBid) {
+                nextRoundSecondBid = winningBid;
+            }
+        } else if (secondBid > nextRoundSecondBid) {
+            // The leader's own lower sealed bid doesn't set their price; the sealed runner-up does
+            nextRoundSecondBid = secondBid;
+        }
+
+        emit SealedBidsSettled(currentRound + 1, winner, winningBid, secondBid);
     }
 
     /**
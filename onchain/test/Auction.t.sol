@@ -21,6 +21,12 @@ contract AuctionTest is Test {
 
     // Events
     event BidPlaced(address indexed bidder, uint256 amount, uint256 forRound);
+    event SealedBidsSettled(
+        uint256 indexed forRound,
+        address indexed winner,
+        uint256 winningBid,
+        uint256 secondBid
+    );
     event RoundResolved(
         uint256 indexed round,
         address indexed winner,
@@ -48,6 +54,9 @@ contract AuctionTest is Test {
         vm.deal(bidder3, INITIAL_BALANCE);
     }
 
+    /// @dev The test contract is the owner and receives withdrawn rent
+    receive() external payable {}
+
     // ============ Constructor Tests ============
 
     function test_Constructor_InitializesState() public view {
@@ -220,6 +229,300 @@ contract AuctionTest is Test {
         assertEq(auction.currentRound(), 1);
     }
 
+    // ============ Bid Intent Tests ============
+
+    function _signIntent(
+        uint256 privateKey,
+        Auction.BidIntent memory intent
+    ) internal view returns (bytes memory) {
+        bytes32 domainSeparator = keccak256(
+            abi.encode(
+                keccak256(
+                    "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+                ),
+                keccak256("Auction"),
+                keccak256("1"),
+                block.chainid,
+                address(auction)
+            )
+        );
+        bytes32 structHash = keccak256(
+            abi.encode(
+                auction.BID_INTENT_TYPEHASH(),
+                intent.bidder,
+                intent.amount,
+                intent.forRound,
+                intent.nonce,
+                intent.deadline
+            )
+        );
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(
+            privateKey,
+            keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash))
+        );
+        return abi.encodePacked(r, s, v);
+    }
+
+    function _fundedIntent(
+        uint256 amount
+    ) internal returns (uint256 privateKey, Auction.BidIntent memory intent) {
+        address signer;
+        (signer, privateKey) = makeAddrAndKey("intentBidder");
+        vm.deal(signer, INITIAL_BALANCE);
+        vm.prank(signer);
+        auction.depositCollateral{value: 10 ether}();
+
+        intent = Auction.BidIntent({
+            bidder: signer,
+            amount: amount,
+            forRound: auction.currentRound() + 1,
+            nonce: 1,
+            deadline: block.timestamp + 60
+        });
+    }
+
+    function test_BidWithIntent_PlacesBidForSigner() public {
+        (uint256 privateKey, Auction.BidIntent memory intent) = _fundedIntent(2 ether);
+        bytes memory signature = _signIntent(privateKey, intent);
+
+        vm.prank(settler);
+        auction.bidWithIntent(intent, signature);
+
+        assertEq(auction.nextRoundHighestBidder(), intent.bidder);
+        assertEq(auction.nextRoundHighestBid(), 2 ether);
+        assertTrue(auction.usedIntentNonces(intent.bidder, 1));
+    }
+
+    function test_BidWithIntent_RevertIfReplayed() public {
+        (uint256 privateKey, Auction.BidIntent memory intent) = _fundedIntent(2 ether);
+        bytes memory signature = _signIntent(privateKey, intent);
+
+        vm.prank(settler);
+        auction.bidWithIntent(intent, signature);
+
+        vm.prank(settler);
+        vm.expectRevert("Bid intent nonce already used");
+        auction.bidWithIntent(intent, signature);
+    }
+
+    function test_BidWithIntent_RevertIfTampered() public {
+        (uint256 privateKey, Auction.BidIntent memory intent) = _fundedIntent(2 ether);
+        bytes memory signature = _signIntent(privateKey, intent);
+        intent.amount = 5 ether;
+
+        vm.prank(settler);
+        vm.expectRevert("Invalid bid intent signature");
+        auction.bidWithIntent(intent, signature);
+    }
+
+    function test_BidWithIntent_RevertIfExpired() public {
+        (uint256 privateKey, Auction.BidIntent memory intent) = _fundedIntent(2 ether);
+        bytes memory signature = _signIntent(privateKey, intent);
+
+        vm.warp(intent.deadline + 1);
+        vm.prank(settler);
+        vm.expectRevert("Bid intent expired");
+        auction.bidWithIntent(intent, signature);
+    }
+
+    function test_BidWithIntent_TieSetsLeaderPrice() public {
+        vm.prank(bidder1);
+        auction.depositCollateral{value: 10 ether}();
+        vm.prank(bidder1);
+        auction.bid(2 ether);
+
+        (uint256 privateKey, Auction.BidIntent memory intent) = _fundedIntent(2 ether);
+        bytes memory signature = _signIntent(privateKey, intent);
+
+        vm.prank(settler);
+        auction.bidWithIntent(intent, signature);
+
+        // The earlier bid keeps the lead and pays the tied amount
+        assertEq(auction.nextRoundHighestBidder(), bidder1);
+        assertEq(auction.nextRoundHighestBid(), 2 ether);
+        assertEq(auction.nextRoundSecondBid(), 2 ether);
+        assertTrue(auction.usedIntentNonces(intent.bidder, 1));
+    }
+
+    function test_CancelBidIntent_RevokesSignedIntent() public {
+        (uint256 privateKey, Auction.BidIntent memory intent) = _fundedIntent(2 ether);
+        bytes memory signature = _signIntent(privateKey, intent);
+
+        vm.prank(intent.bidder);
+        auction.cancelBidIntent(intent.nonce);
+        assertTrue(auction.usedIntentNonces(intent.bidder, intent.nonce));
+
+        vm.prank(settler);
+        vm.expectRevert("Bid intent nonce already used");
+        auction.bidWithIntent(intent, signature);
+    }
+
+    function test_CancelBidIntent_RevertIfAlreadyUsed() public {
+        (uint256 privateKey, Auction.BidIntent memory intent) = _fundedIntent(2 ether);
+        bytes memory signature = _signIntent(privateKey, intent);
+
+        vm.prank(settler);
+        auction.bidWithIntent(intent, signature);
+
+        vm.prank(intent.bidder);
+        vm.expectRevert("Bid intent nonce already used");
+        auction.cancelBidIntent(intent.nonce);
+    }
+
+    function test_BidWithIntent_OnlySettler() public {
+        (uint256 privateKey, Auction.BidIntent memory intent) = _fundedIntent(2 ether);
+        bytes memory signature = _signIntent(privateKey, intent);
+
+        vm.prank(bidder1);
+        vm.expectRevert("Only settler can call this function");
+        auction.bidWithIntent(intent, signature);
+    }
+
+    // ============ Sealed Bid Tests ============
+
+    function test_SettleSealedBids_WinnerPaysSecondSealedBid() public {
+        vm.prank(bidder1);
+        auction.depositCollateral{value: 10 ether}();
+
+        vm.prank(settler);
+        auction.settleSealedBids(bidder1, 3 ether, 2 ether);
+
+        assertEq(auction.nextRoundHighestBidder(), bidder1);
+        assertEq(auction.nextRoundHighestBid(), 3 ether);
+        assertEq(auction.nextRoundSecondBid(), 2 ether);
+
+        vm.warp(block.timestamp + 61);
+        vm.prank(settler);
+        auction.resolveRound();
+
+        assertEq(auction.currentLeader(), bidder1);
+        assertEq(auction.currentRoundPricePaid(), 2 ether);
+    }
+
+    function test_SettleSealedBids_MergesWithPublicBids() public {
+        vm.prank(bidder1);
+        auction.depositCollateral{value: 10 ether}();
+        vm.prank(bidder2);
+        auction.depositCollateral{value: 10 ether}();
+
+        // Public bid lands between the two sealed bids
+        vm.prank(bidder2);
+        auction.bid(2.5 ether);
+
+        vm.prank(settler);
+        auction.settleSealedBids(bidder1, 3 ether, 1 ether);
+
+        assertEq(auction.nextRoundHighestBidder(), bidder1);
+        assertEq(auction.nextRoundSecondBid(), 2.5 ether);
+    }
+
+    function test_SettleSealedBids_LowerThanPublicRaisesPrice() public {
+        vm.prank(bidder1);
+        auction.depositCollateral{value: 10 ether}();
+        vm.prank(bidder2);
+        auction.depositCollateral{value: 10 ether}();
+
+        vm.prank(bidder2);
+        auction.bid(5 ether);
+
+        vm.prank(settler);
+        auction.settleSealedBids(bidder1, 3 ether, 0);
+
+        assertEq(auction.nextRoundHighestBidder(), bidder2);
+        assertEq(auction.nextRoundSecondBid(), 3 ether);
+    }
+
+    function test_SettleSealedBids_LeaderLowerSealedBidKeepsSecondPrice() public {
+        vm.prank(bidder1);
+        auction.depositCollateral{value: 10 ether}();
+        vm.prank(bidder2);
+        auction.depositCollateral{value: 10 ether}();
+
+        vm.prank(bidder2);
+        auction.bid(2 ether);
+        vm.prank(bidder1);
+        auction.bid(5 ether);
+
+        // Leader seals a lower bid; the second price is unchanged
+        vm.prank(settler);
+        auction.settleSealedBids(bidder1, 3 ether, 0);
+
+        assertEq(auction.nextRoundHighestBidder(), bidder1);
+        assertEq(auction.nextRoundHighestBid(), 5 ether);
+        assertEq(auction.nextRoundSecondBid(), 2 ether);
+    }
+
+    function test_SettleSealedBids_EmitsSealedBidsSettled() public {
+        vm.prank(bidder1);
+        auction.depositCollateral{value: 10 ether}();
+
+        vm.expectEmit(true, true, false, true);
+        emit SealedBidsSettled(1, bidder1, 3 ether, 2 ether);
+
+        vm.prank(settler);
+        auction.settleSealedBids(bidder1, 3 ether, 2 ether);
+    }
+
+    function test_SettleSealedBids_OnlySettler() public {
+        vm.prank(bidder1);
+        auction.depositCollateral{value: 10 ether}();
+
+        vm.prank(bidder1);
+        vm.expectRevert("Only settler can call this function");
+        auction.settleSealedBids(bidder1, 1 ether, 0);
+    }
+
+    function test_SettleSealedBids_RevertIfInsufficientCollateral() public {
+        vm.prank(bidder1);
+        auction.depositCollateral{value: 1 ether}();
+
+        vm.prank(settler);
+        vm.expectRevert("Insufficient collateral for bid");
+        auction.settleSealedBids(bidder1, 2 ether, 0);
+    }
+
+    // ============ Rent Tests ============
+
+    function _collectRent(uint256 price) internal {
+        vm.prank(bidder1);
+        auction.depositCollateral{value: 10 ether}();
+        vm.prank(bidder1);
+        auction.bid(price);
+        vm.prank(bidder2);
+        auction.depositCollateral{value: 10 ether}();
+        vm.prank(bidder2);
+        auction.bid(price + 1 ether);
+
+        vm.warp(block.timestamp + 61);
+        vm.prank(settler);
+        auction.resolveRound();
+    }
+
+    function test_WithdrawRent_PaysOwner() public {
+        _collectRent(2 ether);
+        uint256 balanceBefore = owner.balance;
+
+        auction.withdrawRent(1.5 ether);
+
+        assertEq(auction.rentPool(), 0.5 ether);
+        assertEq(owner.balance, balanceBefore + 1.5 ether);
+    }
+
+    function test_WithdrawRent_RevertIfAboveRentPool() public {
+        _collectRent(2 ether);
+
+        vm.expectRevert("Insufficient rent pool");
+        auction.withdrawRent(2 ether + 1);
+    }
+
+    function test_WithdrawRent_OnlyOwner() public {
+        _collectRent(2 ether);
+
+        vm.prank(bidder1);
+        vm.expectRevert(abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", bidder1));
+        auction.withdrawRent(1 ether);
+    }
+
     // ============ Continuous Bidding Tests ============
 
     function test_ContinuousBidding_BidForNextRoundWhileCurrentActive() public {
@@ -0,0 +1,64 @@
+/**
+ * @file chains.ts
+ * @description Registry of chains the TEE server can be deployed against
+ *
+ * Why this exists:
+ * - The chain used to be hard-coded to Base Sepolia in several services
+ * - One CHAIN_ID setting now picks the chain, its default RPC and known contract addresses
+ * - Adding a chain is a single entry here instead of edits across the codebase
+ */
+
+import { Chain } from 'viem';
+import { anvil, baseSepolia } from 'viem/chains';
+
+/**
+ * Per-chain deployment settings
+ * @notice RPC_URL, AUCTION_CONTRACT_ADDRESS and HOOK_FEE_TOKENS still override these defaults
+ */
+export interface ChainConfig {
+  chain: Chain;
+  /** RPC endpoint used when RPC_URL is not set */
+  defaultRpcUrl: string;
+  /** Known Auction deployment, used when AUCTION_CONTRACT_ADDRESS is not set */
+  auctionAddress: `0x${string}` | null;
+  /** Pool currencies reported by GET /me/fees */
+  hookFeeTokens: `0x${string}`[];
+}
+
+/**
+ * Supported chains keyed by chain id
+ */
+export const CHAIN_REGISTRY: Record<number, ChainConfig> = {
+  [baseSepolia.id]: {
+    chain: baseSepolia,
+    defaultRpcUrl: 'https://base-sepolia-rpc.publicnode.com',
+    auctionAddress: null,
+    hookFeeTokens: [
+      '0x0000000000000000000000000000000000000000', // ETH
+      '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // USDC
+    ],
+  },
+  // Local Anvil node for end-to-end tests; contract addresses come from your deploy script
+  [anvil.id]: {
+    chain: anvil,
+    defaultRpcUrl: 'http://127.0.0.1:8545',
+    auctionAddress: null,
+    hookFeeTokens: ['0x0000000000000000000000000000000000000000'],
+  },
+};
+
+/**
+ * Look up a chain in the registry
+ *
+ * @throws Error if the chain id is not registered
+ */
+export function getChainConfig(chainId: number): ChainConfig {
+  const config = CHAIN_REGISTRY[chainId];
+  if (!config) {
+    const supported = Object.values(CHAIN_REGISTRY)
+      .map(({ chain }) => `${chain.id} (${chain.name})`)
+      .join(', ');
+    throw new Error(`Unsupported CHAIN_ID ${chainId}. Supported chains: ${supported}`);
+  }
+  return config;
+}
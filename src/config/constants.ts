@@ -3,24 +3,344 @@
  * @description Configuration constants and environment variable definitions
  */
 
+import { getChainConfig } from './chains';
+
 /**
  * Server port configuration
  */
 export const SERVER_PORT = process.env.APP_PORT || 8000;
 
+/**
+ * Chain the TEE server is deployed against (defaults to Base Sepolia)
+ * @notice Must be registered in config/chains.ts
+ */
+export const CHAIN_ID = Number(process.env.CHAIN_ID || 84532);
+
+/**
+ * Registry entry for CHAIN_ID
+ */
+export const CHAIN_CONFIG = getChainConfig(CHAIN_ID);
+
 /**
  * Blockchain RPC URL
+ * @notice Falls back to the chain's default RPC from the registry
  */
-export const RPC_URL = process.env.RPC_URL || process.env.SEPOLIA_RPC_URL || null;
+export const RPC_URL = process.env.RPC_URL || process.env.SEPOLIA_RPC_URL || CHAIN_CONFIG.defaultRpcUrl;
+
+/**
+ * RPC endpoints in order of preference (comma separated)
+ * @notice Defaults to RPC_URL alone. With several endpoints, requests fail over to
+ *         the healthiest one when an endpoint is rate-limited or down.
+ */
+export const RPC_URLS = process.env.RPC_URLS
+  ? process.env.RPC_URLS.split(',')
+      .map((url) => url.trim())
+      .filter(Boolean)
+  : [RPC_URL];
+
+/**
+ * Per-request timeout (ms) for each RPC endpoint
+ */
+export const RPC_TIMEOUT_MS = Number(process.env.RPC_TIMEOUT_MS || 10000);
+
+/**
+ * Retries for a request that fails with a rate limit, 5xx, timeout or network error
+ */
+export const RPC_MAX_RETRIES = Number(process.env.RPC_MAX_RETRIES || 3);
+
+/**
+ * Initial delay (ms) between RPC retries, doubled on each attempt up to RPC_RETRY_MAX_MS
+ */
+export const RPC_RETRY_BASE_MS = Number(process.env.RPC_RETRY_BASE_MS || 250);
+export const RPC_RETRY_MAX_MS = Number(process.env.RPC_RETRY_MAX_MS || 5000);
+
+/**
+ * Upper bound (ms) for how long a failing endpoint is skipped before it is tried again
+ */
+export const RPC_MAX_COOLDOWN_MS = Number(process.env.RPC_MAX_COOLDOWN_MS || 60000);
 
 /**
  * Auction contract address
  * @notice Set this to the deployed Auction contract address
  */
-export const AUCTION_CONTRACT_ADDRESS = (process.env.AUCTION_CONTRACT_ADDRESS as `0x${string}`) || null;
+export const AUCTION_CONTRACT_ADDRESS =
+  (process.env.AUCTION_CONTRACT_ADDRESS as `0x${string}`) || CHAIN_CONFIG.auctionAddress;
 
 /**
  * TEE mnemonic phrase
  * @notice Keep secret, never commit to version control
  */
 export const MNEMONIC = process.env.MNEMONIC || null;
+
+/**
+ * Where the settler key is held
+ * - 'mnemonic': derived from MNEMONIC (default)
+ * - 'privateKey': SETTLER_PRIVATE_KEY
+ * - 'keystore': encrypted JSON keystore (SETTLER_KEYSTORE_PATH), unlocked at startup
+ * - 'remote': HTTP JSON-RPC signer at REMOTE_SIGNER_URL (npm run signer:mock runs a local one)
+ */
+export const SIGNER_BACKEND = process.env.SIGNER_BACKEND || 'mnemonic';
+
+/**
+ * Raw settler private key for SIGNER_BACKEND=privateKey
+ * @notice Keep secret, never commit to version control
+ */
+export const SETTLER_PRIVATE_KEY = (process.env.SETTLER_PRIVATE_KEY || null) as `0x${string}` | null;
+
+/**
+ * Web3 Secret Storage (v3) keystore file for SIGNER_BACKEND=keystore
+ */
+export const SETTLER_KEYSTORE_PATH = process.env.SETTLER_KEYSTORE_PATH || null;
+
+/**
+ * Keystore password
+ * @notice Keep secret; prefer SETTLER_KEYSTORE_PASSWORD_FILE where secrets are mounted as files
+ */
+export const SETTLER_KEYSTORE_PASSWORD = process.env.SETTLER_KEYSTORE_PASSWORD || null;
+
+/**
+ * File containing the keystore password (takes precedence over SETTLER_KEYSTORE_PASSWORD)
+ */
+export const SETTLER_KEYSTORE_PASSWORD_FILE = process.env.SETTLER_KEYSTORE_PASSWORD_FILE || null;
+
+/**
+ * JSON-RPC endpoint of the remote signer for SIGNER_BACKEND=remote
+ * @notice Web3Signer's eth1 API: eth_accounts, eth_sign, eth_signTransaction and eth_signTypedData
+ */
+export const REMOTE_SIGNER_URL = process.env.REMOTE_SIGNER_URL || null;
+
+/**
+ * Bearer token sent to the remote signer (optional)
+ */
+export const REMOTE_SIGNER_TOKEN = process.env.REMOTE_SIGNER_TOKEN || null;
+
+/**
+ * Remote signer account to use (default: the first one it reports)
+ */
+export const REMOTE_SIGNER_ADDRESS = (process.env.REMOTE_SIGNER_ADDRESS || null) as `0x${string}` | null;
+
+/**
+ * Timeout (ms) for each remote signer request
+ */
+export const REMOTE_SIGNER_TIMEOUT_MS = Number(process.env.REMOTE_SIGNER_TIMEOUT_MS || 10000);
+
+/**
+ * Seed (32-byte hex) of the sealed-bid encryption key when MNEMONIC is not set
+ * @notice Keep secret and stable: bids sealed to the previous key can't be decrypted
+ *         after it changes
+ */
+export const SEALED_BID_KEY = (process.env.SEALED_BID_KEY || null) as `0x${string}` | null;
+
+/**
+ * Port of the local mock remote signer (npm run signer:mock)
+ */
+export const MOCK_SIGNER_PORT = Number(process.env.MOCK_SIGNER_PORT || 8600);
+
+/**
+ * Key the mock remote signer signs with (default: MNEMONIC at HD index 0)
+ */
+export const MOCK_SIGNER_PRIVATE_KEY = (process.env.MOCK_SIGNER_PRIVATE_KEY || null) as `0x${string}` | null;
+
+/**
+ * HD address index (m/44'/60'/0'/0/<index>) of the settler key used at startup
+ * @notice After a key rotation the server finds the rotated key on its own (see
+ *         SETTLER_KEY_SCAN_LIMIT); this only sets where it starts
+ */
+export const SETTLER_KEY_INDEX = Number(process.env.SETTLER_KEY_INDEX || 0);
+
+/**
+ * Number of HD indexes searched for the on-chain settler at startup and after SettlerUpdated
+ */
+export const SETTLER_KEY_SCAN_LIMIT = Number(process.env.SETTLER_KEY_SCAN_LIMIT || 16);
+
+/**
+ * Externally generated private key to rotate the settler to (optional)
+ * @notice Keep secret; used by POST /admin/settler/rotate with { source: 'privateKey' }
+ */
+export const SETTLER_NEXT_PRIVATE_KEY = (process.env.SETTLER_NEXT_PRIVATE_KEY || null) as `0x${string}` | null;
+
+/**
+ * How long (ms) a key switch waits for the old key's in-flight transactions
+ * @notice Transactions still pending after this keep being watched with the old key
+ */
+export const SETTLER_DRAIN_TIMEOUT_MS = Number(process.env.SETTLER_DRAIN_TIMEOUT_MS || 300000);
+
+/**
+ * Attestation provider for GET /attestation
+ * - 'auto': Confidential Space if its launcher socket exists, otherwise disabled
+ * - 'confidential-space': Google Confidential Space (used by EigenCloud TEEs)
+ * - 'mock': unsigned document for local testing; verifiers reject it unless told otherwise
+ */
+export const ATTESTATION_PROVIDER = process.env.ATTESTATION_PROVIDER || 'auto';
+
+/**
+ * Audience claim requested for attestation tokens
+ */
+export const ATTESTATION_AUDIENCE = process.env.ATTESTATION_AUDIENCE || 'auction-tee-settler';
+
+/**
+ * Confidential Space launcher socket
+ */
+export const ATTESTATION_SOCKET_PATH = process.env.ATTESTATION_SOCKET_PATH || '/run/container_launcher/teeserver.sock';
+
+/**
+ * Image digest reported by the mock provider
+ */
+export const MOCK_ATTESTATION_MEASUREMENT =
+  process.env.MOCK_ATTESTATION_MEASUREMENT || `sha256:${'0'.repeat(64)}`;
+
+/**
+ * How long (ms) a settler transaction may stay unmined before it is replaced with higher fees
+ */
+export const TX_REPLACEMENT_TIMEOUT_MS = Number(process.env.TX_REPLACEMENT_TIMEOUT_MS || 30000);
+
+/**
+ * Percentage added to both EIP-1559 fees on each replacement
+ * @notice Nodes reject replacements that bump fees by less than 10%
+ */
+export const TX_FEE_BUMP_PERCENT = BigInt(process.env.TX_FEE_BUMP_PERCENT || 20);
+
+/**
+ * Percentage added to each gas estimate before sending
+ * @notice Estimates run against the latest block, before earlier queued transactions
+ * (e.g. settleSealedBids ahead of resolveRound) have changed the state they depend on
+ */
+export const TX_GAS_BUFFER_PERCENT = BigInt(process.env.TX_GAS_BUFFER_PERCENT || 25);
+
+/**
+ * Maximum number of fee-bumped replacements per transaction
+ */
+export const TX_MAX_REPLACEMENTS = Number(process.env.TX_MAX_REPLACEMENTS || 5);
+
+/**
+ * Upper bound for maxFeePerGas in gwei (unset for no cap)
+ */
+export const TX_MAX_FEE_PER_GAS_GWEI = process.env.TX_MAX_FEE_PER_GAS_GWEI || null;
+
+/**
+ * Interval (ms) between receipt checks for pending settler transactions
+ */
+export const TX_POLL_INTERVAL_MS = Number(process.env.TX_POLL_INTERVAL_MS || 2000);
+
+/**
+ * Number of settler transactions kept for GET /tx/:hash
+ */
+export const TX_HISTORY_SIZE = Number(process.env.TX_HISTORY_SIZE || 500);
+
+/**
+ * Automatic round resolution scheduler
+ * @notice Set ROUND_SCHEDULER_ENABLED=false to rely solely on POST /resolveRound
+ */
+export const ROUND_SCHEDULER_ENABLED = process.env.ROUND_SCHEDULER_ENABLED !== 'false';
+
+/**
+ * Maximum random delay (ms) added after a round expires before resolving
+ */
+export const ROUND_SCHEDULER_JITTER_MS = Number(process.env.ROUND_SCHEDULER_JITTER_MS || 2000);
+
+/**
+ * Initial retry delay (ms) after a failed resolution, doubled on each consecutive failure
+ */
+export const ROUND_SCHEDULER_BACKOFF_MS = Number(process.env.ROUND_SCHEDULER_BACKOFF_MS || 2000);
+
+/**
+ * Upper bound (ms) for the retry delay
+ */
+export const ROUND_SCHEDULER_MAX_BACKOFF_MS = Number(process.env.ROUND_SCHEDULER_MAX_BACKOFF_MS || 60000);
+
+/**
+ * Event store backend ('sqlite' or 'memory')
+ */
+export const EVENT_STORE = process.env.EVENT_STORE || 'sqlite';
+
+/**
+ * SQLite database file for the event store
+ */
+export const EVENT_STORE_PATH = process.env.EVENT_STORE_PATH || './data/events.db';
+
+/**
+ * How long (ms) a GET /auction/state snapshot is reused before re-reading the chain
+ */
+export const AUCTION_STATE_CACHE_MS = Number(process.env.AUCTION_STATE_CACHE_MS || 2000);
+
+/**
+ * Leader consistency monitor (compares LeaderFeeHook's leader with the Auction's)
+ * @notice Set LEADER_MONITOR_ENABLED=false to disable; alerts are served from GET /monitor/leader
+ */
+export const LEADER_MONITOR_ENABLED = process.env.LEADER_MONITOR_ENABLED !== 'false';
+
+/**
+ * Interval (ms) between hook/auction state comparisons
+ */
+export const LEADER_MONITOR_INTERVAL_MS = Number(process.env.LEADER_MONITOR_INTERVAL_MS || 15000);
+
+/**
+ * How long (ms) a divergence may last before it is reported
+ * @notice Covers the gap between the two event watchers and between a round ending
+ *         and the settler resolving it
+ */
+export const LEADER_MONITOR_GRACE_MS = Number(process.env.LEADER_MONITOR_GRACE_MS || 30000);
+
+/**
+ * URL that receives each leader alert as a JSON POST (optional)
+ */
+export const LEADER_MONITOR_WEBHOOK_URL = process.env.LEADER_MONITOR_WEBHOOK_URL || '';
+
+/**
+ * Accept sealed bids (POST /bids/sealed), settled by the TEE when a round closes
+ */
+export const SEALED_BIDS_ENABLED = process.env.SEALED_BIDS_ENABLED !== 'false';
+
+/**
+ * Block the Auction contract was deployed at
+ * @notice Historical events are backfilled from here on first start. Leave unset to
+ *         only track events from the current block onwards.
+ */
+export const AUCTION_DEPLOYMENT_BLOCK = process.env.AUCTION_DEPLOYMENT_BLOCK
+  ? BigInt(process.env.AUCTION_DEPLOYMENT_BLOCK)
+  : null;
+
+/**
+ * Maximum block range per getLogs request during backfill
+ * @notice Most public RPCs cap getLogs ranges; lower this if backfill requests fail
+ */
+export const EVENT_BACKFILL_CHUNK_SIZE = BigInt(process.env.EVENT_BACKFILL_CHUNK_SIZE || 2000);
+
+/**
+ * Number of blocks an event must be buried under before it is counted as confirmed
+ * @notice Events newer than this are reported as "pending" and dropped if reorged out
+ */
+export const EVENT_CONFIRMATIONS = BigInt(process.env.EVENT_CONFIRMATIONS || 5);
+
+/**
+ * How many blocks below the confirmed head keep their hash for reorg detection
+ * @notice Also how far back persisted blocks are re-checked at startup
+ */
+export const EVENT_REORG_LOOKBACK = BigInt(process.env.EVENT_REORG_LOOKBACK || 64);
+
+/**
+ * Tokens to report unclaimed LeaderFeeHook fees for (comma separated)
+ * @notice Defaults to the pool currencies listed for the chain in the registry
+ */
+export const HOOK_FEE_TOKENS = process.env.HOOK_FEE_TOKENS
+  ? process.env.HOOK_FEE_TOKENS.split(',')
+      .map((token) => token.trim() as `0x${string}`)
+      .filter(Boolean)
+  : CHAIN_CONFIG.hookFeeTokens;
+
+/**
+ * Number of live feed messages kept for Last-Event-ID replay
+ */
+export const FEED_REPLAY_SIZE = Number(process.env.FEED_REPLAY_SIZE || 1000);
+
+/**
+ * How long (seconds) a signed admin session is accepted
+ * @notice Owner-only routes need a wallet signature of the GET /admin/session message
+ *         on top of the Privy token; the owner signs again after this long
+ */
+export const ADMIN_SESSION_TTL_SECONDS = Number(process.env.ADMIN_SESSION_TTL_SECONDS || 900);
+
+/**
+ * How long (ms) recording an owner transaction waits for its receipt
+ */
+export const ADMIN_RECEIPT_TIMEOUT_MS = Number(process.env.ADMIN_RECEIPT_TIMEOUT_MS || 60000);
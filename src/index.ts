@@ -11,10 +11,18 @@ dotenv.config();
 
 import { initializePrivyClient } from './middleware/auth';
 import { initializeTeeAccount } from './services/TeeService';
-import { initializeBlockchainClient } from './services/BlockchainService';
+import { initializeBlockchainClient, verifyChainId } from './services/BlockchainService';
 import { startEventListening } from './services/EventTrackingService';
-
-import { SERVER_PORT, AUCTION_CONTRACT_ADDRESS, RPC_URL } from './config/constants';
+import { initializeEventStore } from './services/EventStore';
+import { initializeAttestationProvider } from './services/AttestationService';
+import { initializeSealedBidStore } from './services/SealedBidService';
+import { initializeAdminAuditStore } from './services/AdminService';
+import { startRoundScheduler, startRoundTicker } from './services/RoundResolverService';
+import { startLeaderMonitor } from './services/LeaderMonitorService';
+import { startSettlerRotationWatcher } from './services/SettlerRotationService';
+import { getActiveRpcEndpoint } from './services/RpcTransportService';
+
+import { SERVER_PORT, AUCTION_CONTRACT_ADDRESS, RPC_URLS, CHAIN_CONFIG, CHAIN_ID } from './config/constants';
 import { getTeePublicKey } from './services/TeeService';
 
 import routes from './routes';
@@ -30,15 +38,52 @@ app.get('/', (req, res) => {
     success: true,
     message: 'Welcome to Auction TEE Server',
     version: '1.0.0',
+    rpc: {
+      activeEndpoint: getActiveRpcEndpoint(),
+    },
     endpoints: {
-      settler: 'GET /settler - Get TEE public address',
+      settler: 'GET /settler - Get TEE public address and settler key rotation state',
+      attestation: 'GET /attestation?challenge= - Get TEE attestation for the settler address',
       auctionAddress: 'GET /auctionAddress - Get Auction contract address',
+      auctionState: 'GET /auction/state - Get round, leader and next-round bidding state',
+      chain: 'GET /chain - Get configured chain and RPC chain check',
+      health: 'GET /health - Get RPC endpoint health and latency metrics',
       hello: 'GET /hello - Test Privy authentication',
       deposits: 'GET /deposits - Get total deposits',
       withdrawals: 'GET /withdrawals - Get total withdrawals',
       bids: 'GET /bids - Get total bids',
+      sealedBids: 'GET /bids/sealed - Get the sealed-bid encryption key and open round',
+      submitSealedBid: 'POST /bids/sealed - Submit an encrypted sealed bid (requires Bearer token)',
+      settledSealedBids: 'GET /bids/sealed/:round - Get revealed sealed bids of a settled round',
+      bidIntents: 'GET /bids/intents - Get open EIP-712 bid intents and the signing domain',
+      submitBidIntent: 'POST /bids/intents - Submit a signed bid intent (requires Bearer token)',
+      cancelBidIntent: 'DELETE /bids/intents/:nonce - Cancel an open bid intent (requires Bearer token)',
       rounds: 'GET /rounds - Get rounds resolved count',
-      resolveRound: 'POST /resolveRound - Resolve current auction round',
+      roundHistory: 'GET /rounds/history - Get paginated round history',
+      leaderboard: 'GET /leaderboard - Get winner leaderboard',
+      hookFees: 'GET /hook/fees - Get LeaderFeeHook fees per round, leader and token',
+      hookLeader: 'GET /hook/leaders/:address - Get a leader\'s fee history and earnings versus rent paid',
+      bidRecommendation: 'GET /recommendation/bid?fee= - Get expected round revenue and a recommended maximum bid',
+      resolveRound: 'POST /resolveRound - Resolve current auction round (returns a tracking id)',
+      transaction: 'GET /tx/:hash - Get settler transaction status by tracking id or hash',
+      scheduler: 'GET /scheduler - Get round resolution scheduler status',
+      leaderMonitor: 'GET /monitor/leader - Get hook/auction leader consistency and alerts',
+      eventStream: 'GET /events/stream - Live feed of auction activity (Server-Sent Events)',
+      me: 'GET /me - Get your account summary (requires Bearer token)',
+      myCollateral: 'GET /me/collateral - Get your collateral (requires Bearer token)',
+      myBids: 'GET /me/bids - Get your bid history (requires Bearer token)',
+      myIntents: 'GET /me/intents - Get your recent bid intents (requires Bearer token)',
+      myRoundsWon: 'GET /me/rounds-won - Get rounds you won (requires Bearer token)',
+      myFees: 'GET /me/fees - Get your unclaimed hook fees (requires Bearer token)',
+      adminSession: 'GET /admin/session - Get the message to sign for an admin session (requires Bearer token)',
+      adminStatus: 'GET /admin/status - Get the Auction owner, settler, hook and rent pool (requires owner session)',
+      adminSettler: 'POST /admin/settler - Prepare updateSettler() for the owner to sign (requires owner session)',
+      adminRotateSettler: 'POST /admin/settler/rotate - Prove a new TEE settler key and prepare updateSettler() for it (requires owner session)',
+      adminCancelRotation: 'DELETE /admin/settler/rotate - Cancel a settler key rotation not yet sent (requires owner session)',
+      adminHook: 'POST /admin/hook - Prepare setHook() for the owner to sign (requires owner session)',
+      adminWithdrawRent: 'POST /admin/rent/withdraw - Prepare withdrawRent() for the owner to sign (requires owner session)',
+      adminTransaction: 'POST /admin/actions/:id/transaction - Record the transaction of a prepared action (requires owner session)',
+      adminAudit: 'GET /admin/audit - Get the admin audit log (requires owner session)',
     },
   });
 });
@@ -59,16 +104,40 @@ app.use('*', (req, res) => {
   });
 });
 
-function initializeServices(): void {
+async function initializeServices(): Promise<void> {
   initializePrivyClient();
 
   try {
-    initializeTeeAccount();
+    await initializeTeeAccount();
   } catch (error) {
     console.error('Failed to initialize TEE account:', error);
   }
 
+  try {
+    initializeAttestationProvider();
+  } catch (error) {
+    console.error('Failed to initialize attestation provider:', error);
+  }
+
   initializeBlockchainClient();
+
+  try {
+    initializeEventStore();
+  } catch (error) {
+    console.error('Failed to initialize event store:', error);
+  }
+
+  try {
+    initializeSealedBidStore();
+  } catch (error) {
+    console.error('Failed to initialize sealed bid store:', error);
+  }
+
+  try {
+    initializeAdminAuditStore();
+  } catch (error) {
+    console.error('Failed to initialize admin audit store:', error);
+  }
 }
 
 async function startServer(): Promise<void> {
@@ -76,14 +145,41 @@ async function startServer(): Promise<void> {
     console.log(`🚀 Auction TEE Server running on port ${SERVER_PORT}`);
     console.log(`🌐 API: http://localhost:${SERVER_PORT}/`);
     console.log(`🔑 TEE Public Key: ${getTeePublicKey() || 'NOT SET'}`);
-    console.log(`📡 RPC URL: ${RPC_URL || 'NOT SET'}`);
+    console.log(`⛓️  Chain: ${CHAIN_CONFIG.chain.name} (${CHAIN_ID})`);
+    console.log(`📡 RPC URL: ${RPC_URLS[0] || 'NOT SET'}${RPC_URLS.length > 1 ? ` (+${RPC_URLS.length - 1} failover)` : ''}`);
     console.log(`📋 Auction Contract: ${AUCTION_CONTRACT_ADDRESS || 'NOT SET'}`);
 
+    // Don't index events or send transactions against the wrong chain
+    try {
+      if (!(await verifyChainId())) {
+        console.error('⚠️  Event listening and round resolution disabled until CHAIN_ID and RPC_URL agree');
+        return;
+      }
+    } catch (error) {
+      console.error('⚠️  Could not verify RPC chain id:', error);
+    }
+
+    // Before anything sends: the settler may have been rotated while the server was down
+    try {
+      await startSettlerRotationWatcher();
+    } catch (error) {
+      console.error('⚠️  Settler rotation watcher failed to start, but server continues:', error);
+    }
+
     try {
       await startEventListening();
     } catch (error) {
       console.error('⚠️  Event listening failed, but server continues:', error);
     }
+
+    startRoundScheduler();
+    startRoundTicker();
+
+    try {
+      await startLeaderMonitor();
+    } catch (error) {
+      console.error('⚠️  Leader monitor failed to start, but server continues:', error);
+    }
   });
 }
 
@@ -99,7 +195,7 @@ process.on('SIGTERM', () => {
 
 async function main() {
   try {
-    initializeServices();
+    await initializeServices();
     await startServer();
   } catch (error) {
     console.error('❌ Failed to start server:', error);
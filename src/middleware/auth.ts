@@ -22,6 +22,7 @@
 import { PrivyClient } from '@privy-io/server-auth';
 import { Response, NextFunction } from 'express';
 import { AuthenticatedRequest } from '../types';
+import { AdminAuthError, verifyAdminSession } from '../services/AdminService';
 
 // Initialize Privy client - will be set after dotenv loads
 // Why: Module-level variable so it's initialized once and reused across requests
@@ -142,10 +143,6 @@ export const authenticateUser = async (
       address: address.toLowerCase(), // Normalize to lowercase for consistency
       email: email,
     };
-
-    // Continue to the next middleware or route handler
-    // Why: Authentication succeeded, so we pass control to the route handler.
-    next();
   } catch (error) {
     // Handle authentication errors
     // Why: Any error during authentication (invalid token, network error, etc.)
@@ -155,5 +152,56 @@ export const authenticateUser = async (
       error: 'Authentication failed',
     });
   }
+
+  // Continue to the next middleware or route handler
+  // Why: Authentication succeeded, so we pass control to the route handler. Called
+  // outside the try so errors thrown by later handlers aren't reported as auth failures.
+  next();
 };
 
+
+/**
+ * Express middleware that only lets the Auction owner through
+ *
+ * Why this middleware exists:
+ * - A Privy token proves who the user is, but not that they still control the wallet;
+ *   owner routes also need a signature of the admin session message (GET /admin/session)
+ * - The owner is read from the contract, so a transferOwnership() takes effect at once
+ *
+ * Must run after authenticateUser. Clients send the signature and the timestamp it
+ * covers in the X-Admin-Signature and X-Admin-Issued-At headers.
+ *
+ * Usage:
+ *   router.post('/admin/settler', authenticateUser, authenticateOwner, handler);
+ */
+export const authenticateOwner = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Not authenticated',
+    });
+  }
+
+  try {
+    await verifyAdminSession(req.user.address, req.headers['x-admin-issued-at'], req.headers['x-admin-signature']);
+  } catch (error) {
+    if (error instanceof AdminAuthError) {
+      return res.status(error.status).json({
+        error: error.message,
+      });
+    }
+
+    // RPC or configuration problems: the check couldn't run, which isn't the user's fault
+    console.error('Admin session check failed:', error);
+    return res.status(503).json({
+      error: 'Could not verify admin session',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  // Outside the try: a downstream error is not an admin session failure
+  next();
+};
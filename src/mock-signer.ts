@@ -0,0 +1,146 @@
+/**
+ * @file mock-signer.ts
+ * @description Local stand-in for the remote settler signer
+ *
+ * Serves the JSON-RPC methods SIGNER_BACKEND=remote calls (eth_accounts, eth_sign,
+ * eth_signTransaction and eth_signTypedData, as in Web3Signer's eth1 API) with a
+ * key from the environment, so the remote backend can run in dev and CI.
+ *
+ * Usage:
+ *   npm run signer:mock
+ *   SIGNER_BACKEND=remote REMOTE_SIGNER_URL=http://localhost:8600 npm run dev
+ *
+ * Not for production: the key sits in this process and every request is signed.
+ */
+
+import http from 'http';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { hexToBigInt, hexToNumber } from 'viem';
+import type { Hex, TransactionSerializable } from 'viem';
+import { mnemonicToAccount, privateKeyToAccount } from 'viem/accounts';
+import { MNEMONIC, MOCK_SIGNER_PORT, MOCK_SIGNER_PRIVATE_KEY, REMOTE_SIGNER_TOKEN } from './config/constants';
+
+interface RpcRequest {
+  id: number | string | null;
+  method: string;
+  params?: unknown[];
+}
+
+/**
+ * Transaction from eth_signTransaction, back to viem's types
+ */
+function parseRpcTransaction(request: Record<string, Hex | undefined>): TransactionSerializable {
+  if (request.chainId === undefined) {
+    throw new Error('chainId is required');
+  }
+
+  const quantity = (value: Hex | undefined) => (value === undefined ? undefined : hexToBigInt(value));
+  const base = {
+    chainId: hexToNumber(request.chainId),
+    nonce: request.nonce === undefined ? undefined : hexToNumber(request.nonce),
+    to: request.to,
+    data: request.data,
+    value: quantity(request.value),
+    gas: quantity(request.gas),
+  };
+
+  if (request.maxFeePerGas !== undefined) {
+    return {
+      ...base,
+      type: 'eip1559',
+      maxFeePerGas: quantity(request.maxFeePerGas),
+      maxPriorityFeePerGas: quantity(request.maxPriorityFeePerGas),
+    };
+  }
+  return { ...base, type: 'legacy', gasPrice: quantity(request.gasPrice) };
+}
+
+function main() {
+  const account = MOCK_SIGNER_PRIVATE_KEY
+    ? privateKeyToAccount(MOCK_SIGNER_PRIVATE_KEY)
+    : MNEMONIC
+      ? mnemonicToAccount(MNEMONIC)
+      : null;
+  if (!account) {
+    console.error('❌ Set MOCK_SIGNER_PRIVATE_KEY or MNEMONIC for the mock signer');
+    process.exit(1);
+  }
+
+  const handle = async ({ method, params = [] }: RpcRequest): Promise<unknown> => {
+    const from = typeof params[0] === 'string' ? params[0].toLowerCase() : null;
+    const requireAccount = (address: string | null) => {
+      if (address !== account.address.toLowerCase()) {
+        throw new Error(`Unknown account ${address}`);
+      }
+    };
+
+    switch (method) {
+      case 'eth_accounts':
+        return [account.address];
+
+      case 'eth_sign':
+        requireAccount(from);
+        return account.signMessage({ message: { raw: params[1] as Hex } });
+
+      case 'eth_signTransaction': {
+        const request = params[0] as Record<string, Hex | undefined>;
+        requireAccount(request.from?.toLowerCase() ?? null);
+        return account.signTransaction(parseRpcTransaction(request));
+      }
+
+      case 'eth_signTypedData':
+        requireAccount(from);
+        return account.signTypedData(JSON.parse(params[1] as string));
+
+      default:
+        throw Object.assign(new Error(`Method ${method} not supported`), { code: -32601 });
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      const reply = (status: number, payload: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+      };
+
+      if (req.method !== 'POST') {
+        return reply(405, { error: 'POST JSON-RPC requests only' });
+      }
+      if (REMOTE_SIGNER_TOKEN && req.headers.authorization !== `Bearer ${REMOTE_SIGNER_TOKEN}`) {
+        return reply(401, { error: 'Invalid bearer token' });
+      }
+
+      let request: RpcRequest;
+      try {
+        request = JSON.parse(body) as RpcRequest;
+      } catch {
+        return reply(400, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      }
+
+      try {
+        const result = await handle(request);
+        console.log(`✍️  ${request.method}`);
+        reply(200, { jsonrpc: '2.0', id: request.id, result });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const code = (error as { code?: number }).code ?? -32000;
+        console.warn(`⚠️  ${request.method} rejected: ${message}`);
+        reply(200, { jsonrpc: '2.0', id: request.id, error: { code, message } });
+      }
+    });
+  });
+
+  server.listen(MOCK_SIGNER_PORT, () => {
+    console.warn('⚠️  MOCK remote signer - signs every request, do not use in production');
+    console.log(`🔏 Mock signer for ${account.address} on http://localhost:${MOCK_SIGNER_PORT}`);
+  });
+}
+
+main();
@@ -4,31 +4,83 @@
  */
 
 import { Router, Response } from 'express';
-import { getTeePublicKey } from '../services/TeeService';
+import { getTeeKeySource, getTeePublicKey } from '../services/TeeService';
 import { getTotalDeposits, getTotalWithdrawals, getTotalBids, getRoundsResolved } from '../services/EventTrackingService';
-import { resolveRound, canResolveRound } from '../services/RoundResolverService';
-import { AUCTION_CONTRACT_ADDRESS } from '../config/constants';
+import { resolveRound, canResolveRound, getSchedulerStatus } from '../services/RoundResolverService';
+import { getUserCollateral, getUserBids, getUserRoundsWon, getUserUnclaimedFees } from '../services/AccountService';
+import { getRoundHistory, getLeaderboard, LEADERBOARD_SORT_KEYS, LeaderboardSortKey } from '../services/RoundHistoryService';
+import { addFeedClient } from '../services/LiveFeedService';
+import { getChainStatus } from '../services/BlockchainService';
+import { getRpcHealth } from '../services/RpcTransportService';
+import { getTransaction } from '../services/TransactionManagerService';
+import { ContractCallError } from '../services/ContractWriteService';
+import { getAuctionState, serializeAuctionState } from '../services/AuctionStateService';
+import { getSettlerAttestation } from '../services/AttestationService';
+import { getSealedBidInfo, getSettledSealedBids, submitSealedBid } from '../services/SealedBidService';
+import { cancelBidIntent, getBidIntents, submitBidIntent } from '../services/BidIntentService';
+import { getLeaderMonitorStatus } from '../services/LeaderMonitorService';
+import { getHookFees, getHookLeaderStats } from '../services/HookAnalyticsService';
+import { getBidRecommendation, HOOK_DEFAULT_FEE, HOOK_MAX_FEE, HOOK_MIN_FEE } from '../services/RecommendationService';
+import {
+  getAdminAuditLog,
+  getAdminSessionMessage,
+  getAdminStatus,
+  prepareAdminAction,
+  recordAdminTransaction,
+} from '../services/AdminService';
+import {
+  cancelSettlerRotation,
+  getSettlerRotation,
+  requestSettlerRotation,
+  SettlerRotationError,
+} from '../services/SettlerRotationService';
+import { authenticateOwner, authenticateUser } from '../middleware/auth';
+import { AdminAction, AuthenticatedRequest } from '../types';
+import { ADMIN_SESSION_TTL_SECONDS, AUCTION_CONTRACT_ADDRESS } from '../config/constants';
 
 const router = Router();
 
 /**
  * GET /settler
- * Returns the TEE's public Ethereum address
+ * Returns the TEE's public Ethereum address, where its key comes from and the
+ * latest settler key rotation
  */
 router.get('/settler', (req, res: Response) => {
   const teePublicKey = getTeePublicKey();
 
   if (!teePublicKey) {
     return res.status(503).json({
-      error: 'TEE account not initialized. MNEMONIC environment variable not set.',
+      error: 'TEE account not initialized. Check SIGNER_BACKEND and its settings.',
     });
   }
 
   res.json({
     publicKey: teePublicKey,
+    keySource: getTeeKeySource(),
+    rotation: getSettlerRotation(),
   });
 });
 
+/**
+ * GET /attestation
+ * Returns a TEE attestation document binding the settler address and its key
+ * source to the enclave measurement. Pass ?challenge= with a fresh random value to
+ * prove the document was produced for this request. Unavailable (503) while a
+ * remote signer holds the key.
+ */
+router.get('/attestation', async (req, res: Response) => {
+  const challenge = typeof req.query.challenge === 'string' ? req.query.challenge : undefined;
+
+  try {
+    res.json(await getSettlerAttestation(challenge));
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Invalid challenge')) {
+      return res.status(400).json({ error: error.message });
+    }
+    sendServiceError(res, error, 'Failed to get attestation');
+  }
+});
+
 /**
  * GET /auctionAddress
  * Returns the Auction contract address configured for this TEE server
@@ -39,6 +91,24 @@ router.get('/auctionAddress', (req, res: Response) => {
   });
 });
 
+/**
+ * GET /chain
+ * Returns the chain this TEE server is configured for and the chain id its RPC reports
+ */
+router.get('/chain', (req, res: Response) => {
+  res.json(getChainStatus());
+});
+
+/**
+ * GET /health
+ * Returns RPC endpoint health, failover state and latency metrics
+ * Responds with 503 when no endpoint is currently usable
+ */
+router.get('/health', (req, res: Response) => {
+  const health = getRpcHealth();
+  res.status(health.status === 'down' ? 503 : 200).json(health);
+});
+
 /**
  * GET /hello
  * Simple health check endpoint
@@ -51,7 +121,7 @@ router.get('/hello', (req, res: Response) => {
 
 /**
  * GET /deposits
- * Returns total ETH deposited as collateral since server started
+ * Returns total ETH deposited as collateral
  */
 router.get('/deposits', (req, res: Response) => {
   res.json(getTotalDeposits());
@@ -59,28 +129,348 @@ router.get('/deposits', (req, res: Response) => {
 
 /**
  * GET /withdrawals
- * Returns total ETH withdrawn from collateral since server started
+ * Returns total ETH withdrawn from collateral
  */
 router.get('/withdrawals', (req, res: Response) => {
   res.json(getTotalWithdrawals());
 });
 
+/**
+ * GET /auction/state
+ * Returns round duration, current round and leader, next-round highest bid and
+ * round expiry, read in one multicall and judged by the latest block's timestamp
+ */
+router.get('/auction/state', async (req, res: Response) => {
+  try {
+    res.json(serializeAuctionState(await getAuctionState()));
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load auction state');
+  }
+});
+
 /**
  * GET /bids
- * Returns total bid volume since server started
+ * Returns total bid volume
  */
 router.get('/bids', (req, res: Response) => {
   res.json(getTotalBids());
 });
 
+/**
+ * GET /bids/sealed
+ * Returns the key sealed bids are encrypted to, the round they are accepted for
+ * and how many have been placed (amounts stay hidden)
+ */
+router.get('/bids/sealed', async (req, res: Response) => {
+  try {
+    res.json(await getSealedBidInfo());
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load sealed bid info');
+  }
+});
+
+/**
+ * POST /bids/sealed
+ * Submits an encrypted bid for the next round (requires Bearer token)
+ *
+ * Body: { envelope: { version, ephemeralPublicKey, iv, ciphertext } }
+ * A later bid from the same user for the same round replaces the earlier one.
+ */
+router.post('/bids/sealed', authenticateUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await submitSealedBid(req.user!.address, req.body?.envelope);
+    res.status(201).json({ success: true, ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (errorMessage.startsWith('Invalid sealed bid')) {
+      return res.status(400).json({ error: errorMessage });
+    }
+
+    if (errorMessage.includes('is closed') || errorMessage.includes('disabled')) {
+      return res.status(409).json({ error: errorMessage });
+    }
+
+    return sendServiceError(res, error, 'Failed to submit sealed bid');
+  }
+});
+
+/**
+ * GET /bids/sealed/:round
+ * Returns the revealed sealed bids of a settled round
+ */
+router.get('/bids/sealed/:round', async (req, res: Response) => {
+  if (!/^\d+$/.test(req.params.round)) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+
+  try {
+    res.json({
+      round: req.params.round,
+      bids: await getSettledSealedBids(BigInt(req.params.round)),
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load sealed bids');
+  }
+});
+
+/**
+ * GET /bids/intents
+ * Returns the open bid intents for the next round (highest first) and the
+ * EIP-712 domain to sign new ones with
+ */
+router.get('/bids/intents', async (req, res: Response) => {
+  try {
+    res.json(await getBidIntents());
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load bid intents');
+  }
+});
+
+/**
+ * POST /bids/intents
+ * Submits a signed EIP-712 bid intent for the next round (requires Bearer token)
+ *
+ * Body: { intent: { bidder, amount, forRound, nonce, deadline }, signature }
+ * The settler relays the winning intents on-chain when the round closes.
+ */
+router.post('/bids/intents', authenticateUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(201).json({ success: true, intent: await submitBidIntent(req.user!.address, req.body) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (errorMessage.startsWith('Invalid bid intent')) {
+      return res.status(400).json({ error: errorMessage });
+    }
+
+    return sendServiceError(res, error, 'Failed to submit bid intent');
+  }
+});
+
+/**
+ * DELETE /bids/intents/:nonce
+ * Cancels one of the user's open bid intents (requires Bearer token)
+ * The signature stays valid until its deadline; Auction.cancelBidIntent(nonce)
+ * revokes it on-chain.
+ */
+router.delete('/bids/intents/:nonce', authenticateUser, (req: AuthenticatedRequest, res: Response) => {
+  if (!/^\d+$/.test(req.params.nonce)) {
+    return res.status(400).json({ error: 'Invalid nonce' });
+  }
+
+  try {
+    res.json({ success: true, intent: cancelBidIntent(req.user!.address, BigInt(req.params.nonce)) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (errorMessage.includes('not found')) {
+      return res.status(404).json({ error: errorMessage });
+    }
+
+    return res.status(409).json({ error: errorMessage });
+  }
+});
+
 /**
  * GET /rounds
- * Returns number of rounds resolved since server started
+ * Returns number of rounds resolved
  */
 router.get('/rounds', (req, res: Response) => {
   res.json(getRoundsResolved());
 });
 
+/**
+ * Parse a ?limit= query parameter
+ *
+ * @returns The limit, or null if invalid
+ */
+function parseLimit(value: unknown, defaultLimit: number, maxLimit: number): number | null {
+  if (value === undefined) {
+    return defaultLimit;
+  }
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 1 && limit <= maxLimit ? limit : null;
+}
+
+/**
+ * Parse a date query parameter given as unix seconds or an ISO 8601 date
+ *
+ * @returns Unix seconds, undefined if absent, or null if invalid
+ */
+function parseTimestamp(value: unknown): number | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value === '') {
+    return null;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : Math.floor(ms / 1000);
+}
+
+/**
+ * GET /rounds/history
+ * Returns resolved rounds, newest first, with cursor-based pagination
+ *
+ * Query parameters:
+ * - limit: page size (1-100, default 20)
+ * - cursor: nextCursor from the previous page
+ * - winner: only rounds won by this address
+ * - from / to: inclusive date range (unix seconds or ISO 8601)
+ */
+router.get('/rounds/history', async (req, res: Response) => {
+  const limit = parseLimit(req.query.limit, 20, 100);
+  const fromTimestamp = parseTimestamp(req.query.from);
+  const toTimestamp = parseTimestamp(req.query.to);
+  const { cursor, winner } = req.query;
+
+  if (limit === null || fromTimestamp === null || toTimestamp === null) {
+    return res.status(400).json({ error: 'Invalid limit, from or to parameter' });
+  }
+  if (winner !== undefined && (typeof winner !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(winner))) {
+    return res.status(400).json({ error: 'Invalid winner address' });
+  }
+  if (cursor !== undefined && typeof cursor !== 'string') {
+    return res.status(400).json({ error: 'Invalid cursor' });
+  }
+
+  try {
+    res.json(await getRoundHistory({ limit, cursor, winner, fromTimestamp, toTimestamp }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (errorMessage === 'Invalid cursor') {
+      return res.status(400).json({ error: errorMessage });
+    }
+    return sendServiceError(res, error, 'Failed to load round history');
+  }
+});
+
+/**
+ * GET /leaderboard
+ * Ranks winners by rounds won, total rent paid or average second-price discount
+ *
+ * Query parameters:
+ * - sort: roundsWon (default), totalPaid or averageDiscount
+ * - limit: number of entries (1-100, default 25)
+ * - from / to: inclusive date range (unix seconds or ISO 8601)
+ */
+router.get('/leaderboard', async (req, res: Response) => {
+  const limit = parseLimit(req.query.limit, 25, 100);
+  const fromTimestamp = parseTimestamp(req.query.from);
+  const toTimestamp = parseTimestamp(req.query.to);
+  const sortBy = (req.query.sort ?? 'roundsWon') as LeaderboardSortKey;
+
+  if (limit === null || fromTimestamp === null || toTimestamp === null) {
+    return res.status(400).json({ error: 'Invalid limit, from or to parameter' });
+  }
+  if (!LEADERBOARD_SORT_KEYS.includes(sortBy)) {
+    return res.status(400).json({ error: `Invalid sort. Expected one of: ${LEADERBOARD_SORT_KEYS.join(', ')}` });
+  }
+
+  try {
+    res.json({
+      sortBy,
+      leaderboard: await getLeaderboard({ sortBy, limit, fromTimestamp, toTimestamp }),
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load leaderboard');
+  }
+});
+
+/**
+ * Parse an optional round number query parameter
+ *
+ * @returns The round, undefined if absent, or null if invalid
+ */
+function parseRound(value: unknown): bigint | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  return typeof value === 'string' && /^\d+$/.test(value) ? BigInt(value) : null;
+}
+
+/**
+ * GET /hook/fees
+ * Returns LeaderFeeHook fees per round, leader and token (newest round first),
+ * plus accumulated and withdrawn totals per leader and token
+ *
+ * Query parameters:
+ * - limit: number of round entries (1-500, default 100)
+ * - leader: only fees of this leader
+ * - token: only fees in this token (0x0 for native ETH)
+ * - fromRound / toRound: inclusive round range
+ */
+router.get('/hook/fees', async (req, res: Response) => {
+  const limit = parseLimit(req.query.limit, 100, 500);
+  const fromRound = parseRound(req.query.fromRound);
+  const toRound = parseRound(req.query.toRound);
+  const { leader, token } = req.query;
+
+  if (limit === null || fromRound === null || toRound === null) {
+    return res.status(400).json({ error: 'Invalid limit, fromRound or toRound parameter' });
+  }
+  if (leader !== undefined && (typeof leader !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(leader))) {
+    return res.status(400).json({ error: 'Invalid leader address' });
+  }
+  if (token !== undefined && (typeof token !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(token))) {
+    return res.status(400).json({ error: 'Invalid token address' });
+  }
+
+  try {
+    res.json(await getHookFees({ limit, leader, token, fromRound, toRound }));
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load hook fees');
+  }
+});
+
+/**
+ * GET /hook/leaders/:address
+ * Returns a leader's fee-setting history, rounds won and hook earnings against rent paid
+ */
+router.get('/hook/leaders/:address', async (req, res: Response) => {
+  const { address } = req.params;
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return res.status(400).json({ error: 'Invalid leader address' });
+  }
+
+  try {
+    res.json(await getHookLeaderStats(address));
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load leader stats');
+  }
+});
+
+/**
+ * GET /recommendation/bid
+ * Estimates a round's fee revenue at a given fee and recommends a maximum bid,
+ * with percentile bands from past rounds
+ *
+ * Query parameters:
+ * - fee: fee the leader would set, in hundredths of a bip (1-50000, default 3000 = 0.3%)
+ * - rounds: number of recent rounds to learn from (1-1000, default 100)
+ */
+router.get('/recommendation/bid', async (req, res: Response) => {
+  const rounds = parseLimit(req.query.rounds, 100, 1000);
+  const fee = req.query.fee === undefined ? HOOK_DEFAULT_FEE : Number(req.query.fee);
+
+  if (rounds === null) {
+    return res.status(400).json({ error: 'Invalid rounds parameter' });
+  }
+  if (!Number.isInteger(fee) || fee < HOOK_MIN_FEE || fee > HOOK_MAX_FEE) {
+    return res.status(400).json({ error: `Invalid fee. Expected an integer from ${HOOK_MIN_FEE} to ${HOOK_MAX_FEE}` });
+  }
+
+  try {
+    res.json(await getBidRecommendation({ fee, rounds }));
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to compute bid recommendation');
+  }
+});
+
 /**
  * GET /canResolve
  * Check if the current round can be resolved
@@ -102,44 +492,437 @@ router.get('/canResolve', async (req, res: Response) => {
  * - Crowns the highest bidder as the new leader
  * - Winner pays second-highest bid
  * - Starts the next round
+ *
+ * Responds with 202 and a tracking id as soon as the transaction is queued. If the
+ * simulation reverts, responds with the decoded error:
+ *   { error, code, reason } - e.g. 409 ROUND_STILL_ACTIVE, 409 WINNER_INSUFFICIENT_COLLATERAL,
+ *   503 NOT_SETTLER / SETTLER_INSUFFICIENT_FUNDS, 502 RPC_ERROR, 500 REVERTED
  */
 router.post('/resolveRound', async (req, res: Response) => {
   try {
-    // Check if round can be resolved
+    // Check if round can be resolved; answered like the simulation's revert
     const canResolve = await canResolveRound();
     if (!canResolve) {
-      return res.status(400).json({
-        error: 'Round cannot be resolved yet',
-        message: 'Current round is still active (60 seconds not elapsed)',
-      });
+      throw new ContractCallError('ROUND_STILL_ACTIVE', 'Round cannot be resolved yet', 'Current round is still active');
     }
 
-    // Execute the resolve
-    const result = await resolveRound();
+    // Queue the transaction; the caller follows it with GET /tx/:id
+    const transaction = await resolveRound();
 
-    res.json({
+    res.status(202).json({
       success: true,
-      message: 'Round resolved',
-      transactionHash: result.transactionHash,
-      receipt: result.receipt,
+      message: 'Round resolution submitted',
+      id: transaction.id,
+      status: transaction.status,
+      statusUrl: `/tx/${transaction.id}`,
     });
   } catch (error) {
     console.error('Resolve round error:', error);
 
+    if (error instanceof ContractCallError) {
+      return res.status(error.status).json({
+        error: error.message,
+        code: error.code,
+        reason: error.reason,
+      });
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
+    if (errorMessage.includes('already in progress')) {
+      return res.status(409).json({
+        error: 'Round resolution already in progress',
+        code: 'RESOLUTION_IN_PROGRESS',
+        details: errorMessage,
+      });
+    }
+
     if (errorMessage.includes('not initialized') || errorMessage.includes('required')) {
       return res.status(503).json({
         error: 'Service not ready',
+        code: 'SERVICE_NOT_READY',
         details: errorMessage,
       });
     }
 
     return res.status(500).json({
       error: 'Resolve round failed',
+      code: 'INTERNAL_ERROR',
+      details: errorMessage,
+    });
+  }
+});
+
+/**
+ * GET /events/stream
+ * Server-Sent Events feed of auction events, stats snapshots and round-timer ticks
+ *
+ * Reconnecting clients send Last-Event-ID (or ?lastEventId= when reconnecting
+ * manually) to replay the messages they missed.
+ */
+router.get('/events/stream', (req, res: Response) => {
+  const lastEventId = req.header('Last-Event-ID') ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+  addFeedClient(res, lastEventId);
+});
+
+/**
+ * GET /tx/:hash
+ * Returns a settler transaction by tracking id or by the hash of any attempt,
+ * including every fee-bumped replacement
+ */
+router.get('/tx/:hash', (req, res: Response) => {
+  const transaction = getTransaction(req.params.hash);
+
+  if (!transaction) {
+    return res.status(404).json({
+      error: 'Transaction not found',
+    });
+  }
+
+  res.json(transaction);
+});
+
+/**
+ * GET /scheduler
+ * Returns the status of the automatic round resolution scheduler
+ */
+router.get('/scheduler', (req, res: Response) => {
+  res.json(getSchedulerStatus());
+});
+
+/**
+ * GET /monitor/leader
+ * Returns whether LeaderFeeHook agrees with the Auction about the leader, and recent alerts
+ *
+ * Query parameters:
+ * - limit: number of alerts (1-100, default 50)
+ */
+router.get('/monitor/leader', (req, res: Response) => {
+  const limit = parseLimit(req.query.limit, 50, 100);
+  if (limit === null) {
+    return res.status(400).json({ error: 'Invalid limit parameter' });
+  }
+
+  res.json(getLeaderMonitorStatus(limit));
+});
+
+/**
+ * Send an error response for a failed data request
+ * Why: Missing configuration (RPC, contract, event store) is a 503, anything else a 500.
+ */
+function sendServiceError(res: Response, error: unknown, message: string) {
+  console.error(`${message}:`, error);
+
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+  if (errorMessage.includes('not initialized') || errorMessage.includes('required')) {
+    return res.status(503).json({
+      error: 'Service not ready',
       details: errorMessage,
     });
   }
+
+  return res.status(500).json({
+    error: message,
+    details: errorMessage,
+  });
+}
+
+/**
+ * GET /me
+ * Returns the authenticated user's profile and account summary (requires Bearer token)
+ */
+router.get('/me', authenticateUser, async (req: AuthenticatedRequest, res: Response) => {
+  const user = req.user!;
+  const address = user.address as `0x${string}`;
+
+  try {
+    const [collateral, bids, roundsWon] = await Promise.all([
+      getUserCollateral(address),
+      getUserBids(address),
+      getUserRoundsWon(address),
+    ]);
+
+    res.json({
+      id: user.id,
+      address: user.address,
+      email: user.email ?? null,
+      collateral,
+      bidsPlaced: bids.length,
+      roundsWon: roundsWon.length,
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load account');
+  }
+});
+
+/**
+ * GET /me/collateral
+ * Returns the authenticated user's on-chain collateral (requires Bearer token)
+ */
+router.get('/me/collateral', authenticateUser, async (req: AuthenticatedRequest, res: Response) => {
+  const address = req.user!.address as `0x${string}`;
+
+  try {
+    res.json({
+      address,
+      ...(await getUserCollateral(address)),
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load collateral');
+  }
+});
+
+/**
+ * GET /me/bids
+ * Returns every bid the authenticated user has placed (requires Bearer token)
+ */
+router.get('/me/bids', authenticateUser, async (req: AuthenticatedRequest, res: Response) => {
+  const address = req.user!.address as `0x${string}`;
+
+  try {
+    res.json({
+      address,
+      bids: await getUserBids(address),
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load bids');
+  }
+});
+
+/**
+ * GET /me/intents
+ * Returns the authenticated user's recent bid intents, including closed ones (requires Bearer token)
+ */
+router.get('/me/intents', authenticateUser, async (req: AuthenticatedRequest, res: Response) => {
+  const address = req.user!.address as `0x${string}`;
+
+  try {
+    const { forRound, intents } = await getBidIntents(address);
+    res.json({ address, forRound, intents });
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load bid intents');
+  }
+});
+
+/**
+ * GET /me/rounds-won
+ * Returns the rounds the authenticated user has won and the price paid (requires Bearer token)
+ */
+router.get('/me/rounds-won', authenticateUser, async (req: AuthenticatedRequest, res: Response) => {
+  const address = req.user!.address as `0x${string}`;
+
+  try {
+    const rounds = await getUserRoundsWon(address);
+    const totalPaid = rounds.reduce((sum, round) => sum + BigInt(round.pricePaid), 0n);
+
+    res.json({
+      address,
+      rounds,
+      totalPaid: totalPaid.toString(),
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load rounds won');
+  }
+});
+
+/**
+ * GET /me/fees
+ * Returns the authenticated user's unclaimed LeaderFeeHook fees (requires Bearer token)
+ */
+router.get('/me/fees', authenticateUser, async (req: AuthenticatedRequest, res: Response) => {
+  const address = req.user!.address as `0x${string}`;
+
+  try {
+    res.json({
+      address,
+      ...(await getUserUnclaimedFees(address)),
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load fees');
+  }
+});
+
+/**
+ * GET /admin/session
+ * Returns the message to sign for an admin session (requires Bearer token)
+ *
+ * Sign `message` with the owner wallet (personal_sign), then send the signature and
+ * `issuedAt` on /admin/* requests as X-Admin-Signature and X-Admin-Issued-At.
+ */
+router.get('/admin/session', authenticateUser, (req: AuthenticatedRequest, res: Response) => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+
+  res.json({
+    message: getAdminSessionMessage(req.user!.address, issuedAt),
+    issuedAt: issuedAt.toString(),
+    expiresAt: (issuedAt + ADMIN_SESSION_TTL_SECONDS).toString(),
+  });
+});
+
+/**
+ * GET /admin/status
+ * Returns the Auction's owner, settler, hook and rent pool (requires owner session)
+ */
+router.get('/admin/status', authenticateUser, authenticateOwner, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ ...(await getAdminStatus()), rotation: getSettlerRotation() });
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load admin status');
+  }
+});
+
+/**
+ * Prepare an owner action: simulate it as the owner and return the unsigned transaction
+ */
+async function handleAdminAction(req: AuthenticatedRequest, res: Response, action: AdminAction) {
+  try {
+    res.json(await prepareAdminAction(req.user!.address, action, req.body));
+  } catch (error) {
+    if (error instanceof ContractCallError) {
+      return res.status(error.status).json({
+        error: error.message,
+        code: error.code,
+        reason: error.reason,
+      });
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (errorMessage.startsWith('Invalid admin request')) {
+      return res.status(400).json({ error: errorMessage });
+    }
+
+    return sendServiceError(res, error, `Failed to prepare ${action}`);
+  }
+}
+
+/**
+ * POST /admin/settler
+ * Prepares Auction.updateSettler() for the owner to sign (requires owner session)
+ *
+ * Body: { settler }
+ */
+router.post('/admin/settler', authenticateUser, authenticateOwner, (req: AuthenticatedRequest, res: Response) =>
+  handleAdminAction(req, res, 'updateSettler')
+);
+
+/**
+ * POST /admin/settler/rotate
+ * Moves the TEE to a new settler key: proves control of it and prepares
+ * Auction.updateSettler() for the owner to sign (requires owner session). Signing
+ * switches to the new key once SettlerUpdated is seen and the old key's
+ * transactions are drained.
+ *
+ * Body: {} | { index } (HD index of MNEMONIC) | { source: 'privateKey' } (SETTLER_NEXT_PRIVATE_KEY)
+ */
+router.post('/admin/settler/rotate', authenticateUser, authenticateOwner, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(201).json(await requestSettlerRotation(req.user!.address, req.body));
+  } catch (error) {
+    if (error instanceof SettlerRotationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof ContractCallError) {
+      return res.status(error.status).json({
+        error: error.message,
+        code: error.code,
+        reason: error.reason,
+      });
+    }
+    return sendServiceError(res, error, 'Failed to start settler rotation');
+  }
+});
+
+/**
+ * DELETE /admin/settler/rotate
+ * Cancels a rotation whose updateSettler() hasn't been mined (requires owner session)
+ */
+router.delete('/admin/settler/rotate', authenticateUser, authenticateOwner, (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ rotation: cancelSettlerRotation() });
+  } catch (error) {
+    if (error instanceof SettlerRotationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    return sendServiceError(res, error, 'Failed to cancel settler rotation');
+  }
+});
+
+/**
+ * POST /admin/hook
+ * Prepares Auction.setHook() for the owner to sign (requires owner session)
+ *
+ * Body: { hook } (the zero address detaches the hook)
+ */
+router.post('/admin/hook', authenticateUser, authenticateOwner, (req: AuthenticatedRequest, res: Response) =>
+  handleAdminAction(req, res, 'setHook')
+);
+
+/**
+ * POST /admin/rent/withdraw
+ * Prepares Auction.withdrawRent() for the owner to sign (requires owner session)
+ *
+ * Body: { amount? } in wei as a decimal string; defaults to the whole rent pool
+ */
+router.post('/admin/rent/withdraw', authenticateUser, authenticateOwner, (req: AuthenticatedRequest, res: Response) =>
+  handleAdminAction(req, res, 'withdrawRent')
+);
+
+/**
+ * POST /admin/actions/:id/transaction
+ * Records the mined transaction of a prepared action in the audit log, with its receipt
+ * status (requires owner session). Each prepared action is recorded once (409 after).
+ *
+ * Body: { hash }
+ */
+router.post('/admin/actions/:id/transaction', authenticateUser, authenticateOwner, async (req: AuthenticatedRequest, res: Response) => {
+  if (!/^\d+$/.test(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid action id' });
+  }
+
+  try {
+    res.status(201).json({ success: true, entry: await recordAdminTransaction(req.user!.address, Number(req.params.id), req.body?.hash) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (errorMessage.startsWith('Invalid admin request')) {
+      return res.status(400).json({ error: errorMessage });
+    }
+
+    if (errorMessage.includes('not found')) {
+      return res.status(404).json({ error: errorMessage });
+    }
+
+    if (errorMessage.includes('already recorded')) {
+      return res.status(409).json({ error: errorMessage });
+    }
+
+    return sendServiceError(res, error, 'Failed to record admin transaction');
+  }
+});
+
+/**
+ * GET /admin/audit
+ * Returns the admin audit log, newest first (requires owner session)
+ *
+ * Query: limit (default 50, max 200), before (entry id, for the next page)
+ */
+router.get('/admin/audit', authenticateUser, authenticateOwner, async (req: AuthenticatedRequest, res: Response) => {
+  const limit = parseLimit(req.query.limit, 50, 200);
+  if (limit === null) {
+    return res.status(400).json({ error: 'Invalid limit parameter' });
+  }
+
+  const before = req.query.before;
+  if (before !== undefined && (typeof before !== 'string' || !/^\d+$/.test(before))) {
+    return res.status(400).json({ error: 'Invalid before parameter' });
+  }
+
+  try {
+    res.json({ entries: await getAdminAuditLog(limit, before === undefined ? undefined : Number(before)) });
+  } catch (error) {
+    return sendServiceError(res, error, 'Failed to load admin audit log');
+  }
 });
 
 export default router;
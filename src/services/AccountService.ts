@@ -0,0 +1,157 @@
+/**
+ * @file services/AccountService.ts
+ * @description Per-user account data for authenticated routes
+ *
+ * This service answers "what does the Auction know about me?" for the address
+ * attached to an authenticated request: on-chain collateral, bid history, rounds
+ * won and unclaimed LeaderFeeHook fees.
+ *
+ * Why this exists:
+ * - Keeps the /me route handlers thin
+ * - Combines on-chain reads with the persisted event history in one place
+ */
+
+import { formatEther, zeroAddress } from 'viem';
+import { AUCTION_ABI, LEADER_FEE_HOOK_ABI } from '../../contracts/src';
+import { AUCTION_CONTRACT_ADDRESS, HOOK_FEE_TOKENS } from '../config/constants';
+import { getPublicClient } from './BlockchainService';
+import { getEventStore } from './EventStore';
+
+/**
+ * Get the public client and Auction address, or throw if not configured
+ */
+function requireAuctionClient() {
+  const publicClient = getPublicClient();
+  if (!publicClient) {
+    throw new Error('Blockchain client not initialized. RPC_URL required.');
+  }
+
+  if (!AUCTION_CONTRACT_ADDRESS) {
+    throw new Error('Auction contract address not set. AUCTION_CONTRACT_ADDRESS required.');
+  }
+
+  return { publicClient, auctionAddress: AUCTION_CONTRACT_ADDRESS };
+}
+
+/**
+ * Get a user's collateral, split into locked and withdrawable
+ * Why: Collateral backing the highest next-round bid can't be withdrawn, which is
+ * the same rule WithdrawForm applies on the frontend.
+ *
+ * @param address - User address (lowercase)
+ */
+export async function getUserCollateral(address: `0x${string}`) {
+  const { publicClient, auctionAddress } = requireAuctionClient();
+
+  const [collateral, highestBidder, highestBid] = await Promise.all([
+    publicClient.readContract({
+      address: auctionAddress,
+      abi: AUCTION_ABI,
+      functionName: 'userCollateral',
+      args: [address],
+    }),
+    publicClient.readContract({
+      address: auctionAddress,
+      abi: AUCTION_ABI,
+      functionName: 'nextRoundHighestBidder',
+    }),
+    publicClient.readContract({
+      address: auctionAddress,
+      abi: AUCTION_ABI,
+      functionName: 'nextRoundHighestBid',
+    }),
+  ]);
+
+  const locked = highestBidder.toLowerCase() === address.toLowerCase() ? highestBid : 0n;
+  const withdrawable = collateral > locked ? collateral - locked : 0n;
+
+  return {
+    collateral: collateral.toString(),
+    collateralEth: formatEther(collateral),
+    locked: locked.toString(),
+    lockedEth: formatEther(locked),
+    withdrawable: withdrawable.toString(),
+    withdrawableEth: formatEther(withdrawable),
+  };
+}
+
+/**
+ * Get every bid a user has placed, oldest first
+ *
+ * @param address - User address (lowercase)
+ */
+export async function getUserBids(address: `0x${string}`) {
+  const store = getEventStore();
+  if (!store) {
+    throw new Error('Event store not initialized');
+  }
+
+  const events = await store.getEvents({ eventName: 'BidPlaced', args: { bidder: address.toLowerCase() } });
+
+  return events.map((event) => ({
+    amount: event.args.amount,
+    amountEth: formatEther(BigInt(event.args.amount)),
+    forRound: event.args.forRound,
+    blockNumber: event.blockNumber.toString(),
+    transactionHash: event.transactionHash,
+  }));
+}
+
+/**
+ * Get every round a user has won with the price paid, oldest first
+ *
+ * @param address - User address (lowercase)
+ */
+export async function getUserRoundsWon(address: `0x${string}`) {
+  const store = getEventStore();
+  if (!store) {
+    throw new Error('Event store not initialized');
+  }
+
+  const events = await store.getEvents({ eventName: 'RoundResolved', args: { winner: address.toLowerCase() } });
+
+  return events.map((event) => ({
+    round: event.args.round,
+    pricePaid: event.args.pricePaid,
+    pricePaidEth: formatEther(BigInt(event.args.pricePaid)),
+    winningBid: event.args.winningBid,
+    winningBidEth: formatEther(BigInt(event.args.winningBid)),
+    blockNumber: event.blockNumber.toString(),
+    transactionHash: event.transactionHash,
+  }));
+}
+
+/**
+ * Get a user's unclaimed LeaderFeeHook fees per token
+ * Why: The hook address is read from the Auction contract so it always matches
+ * the hook that receives leader updates.
+ *
+ * @param address - User address (lowercase)
+ */
+export async function getUserUnclaimedFees(address: `0x${string}`) {
+  const { publicClient, auctionAddress } = requireAuctionClient();
+
+  const hookAddress = await publicClient.readContract({
+    address: auctionAddress,
+    abi: AUCTION_ABI,
+    functionName: 'hook',
+  });
+
+  if (hookAddress === zeroAddress) {
+    return { hook: null, fees: [] };
+  }
+
+  const fees = await Promise.all(
+    HOOK_FEE_TOKENS.map(async (token) => {
+      const amount = await publicClient.readContract({
+        address: hookAddress,
+        abi: LEADER_FEE_HOOK_ABI,
+        functionName: 'unclaimedFees',
+        args: [address, token],
+      });
+      return { token, amount: amount.toString() };
+    })
+  );
+
+  return { hook: hookAddress, fees };
+}
@@ -0,0 +1,516 @@
+/**
+ * @file services/AdminService.ts
+ * @description Owner-only Auction operations and their audit log
+ *
+ * The Auction owner used to run updateSettler, setHook and rent withdrawals from
+ * shell scripts with a raw private key. The admin API instead simulates each call
+ * as the owner and returns the unsigned transaction, which the owner signs in their
+ * own wallet. The server never holds the owner key.
+ *
+ * Access needs a Privy session plus a wallet signature of the admin session
+ * message, and the signer must be Auction.owner() on-chain. Every prepared,
+ * rejected and submitted action is recorded in the audit log. Sessions signed by
+ * a wallet that isn't the owner are only logged, so they can't flood the audit log.
+ *
+ * Why this exists:
+ * - Owner actions are checked against the live contract before the owner signs
+ * - One place shows the settler, hook and rent pool the owner is about to change
+ * - There is a record of who prepared and sent each owner transaction
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { getAddress, isAddress, isHash, isAddressEqual, zeroAddress } from 'viem';
+import { AUCTION_ABI } from '../../contracts/src';
+import {
+  ADMIN_RECEIPT_TIMEOUT_MS,
+  ADMIN_SESSION_TTL_SECONDS,
+  AUCTION_CONTRACT_ADDRESS,
+  CHAIN_ID,
+  EVENT_STORE,
+  EVENT_STORE_PATH,
+} from '../config/constants';
+import { AdminAction, AdminAuditEntry, AdminAuditStore } from '../types';
+import { getPublicClient } from './BlockchainService';
+import { ContractCallError, prepareAuctionCall } from './ContractWriteService';
+import { getTeePublicKey } from './TeeService';
+
+/**
+ * Allowed clock skew (seconds) for a session signed slightly "in the future"
+ */
+const SESSION_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Largest page of audit entries served at once
+ */
+const MAX_AUDIT_PAGE = 200;
+
+/**
+ * A failed admin session check
+ */
+export class AdminAuthError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'AdminAuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * Active audit store
+ */
+let auditStore: AdminAuditStore | null = null;
+
+/**
+ * Prepared actions whose transaction is being recorded
+ * Why: Recording waits for the receipt, so a second report of the same action
+ * could otherwise pass the duplicate check before the first is stored.
+ */
+const recordingIds = new Set<number>();
+
+/**
+ * Initialize the admin audit store
+ * Why: Uses the same backend and database file as the event store, so the log
+ * survives restarts wherever the auction history does.
+ */
+export function initializeAdminAuditStore(): void {
+  if (auditStore) {
+    return;
+  }
+
+  if (EVENT_STORE === 'memory') {
+    auditStore = createMemoryAdminAuditStore();
+  } else if (EVENT_STORE === 'sqlite') {
+    auditStore = createSqliteAdminAuditStore(EVENT_STORE_PATH);
+  } else {
+    throw new Error(`Unknown EVENT_STORE backend: ${EVENT_STORE}`);
+  }
+
+  console.log(`✅ Admin audit store initialized (${EVENT_STORE})`);
+}
+
+/**
+ * Create an in-memory admin audit store
+ */
+export function createMemoryAdminAuditStore(): AdminAuditStore {
+  const entries: AdminAuditEntry[] = [];
+
+  return {
+    async append(entry) {
+      const stored = { ...entry, id: entries.length + 1 };
+      entries.push(stored);
+      return stored;
+    },
+
+    async getEntry(id) {
+      return entries[id - 1] ?? null;
+    },
+
+    async getSubmission(preparedId) {
+      return entries.find((entry) => entry.event === 'submitted' && entry.preparedId === preparedId) ?? null;
+    },
+
+    async getEntries({ limit, before }) {
+      return entries
+        .filter((entry) => before === undefined || entry.id < before)
+        .slice(-limit)
+        .reverse();
+    },
+
+    async close() {
+      entries.length = 0;
+    },
+  };
+}
+
+/**
+ * Row shape of the admin_audit table
+ */
+interface AdminAuditRow {
+  id: number;
+  event: AdminAuditEntry['event'];
+  action: AdminAction | null;
+  actor: string;
+  params: string;
+  data: `0x${string}` | null;
+  prepared_id: number | null;
+  transaction_hash: `0x${string}` | null;
+  transaction_status: AdminAuditEntry['transactionStatus'];
+  error: string | null;
+  created_at: number;
+}
+
+function rowToEntry(row: AdminAuditRow): AdminAuditEntry {
+  return {
+    id: row.id,
+    event: row.event,
+    action: row.action,
+    actor: row.actor,
+    params: JSON.parse(row.params),
+    data: row.data,
+    preparedId: row.prepared_id,
+    transactionHash: row.transaction_hash,
+    transactionStatus: row.transaction_status,
+    error: row.error,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Create a SQLite-backed admin audit store
+ *
+ * @param dbPath - Path to the database file (created if missing)
+ */
+export function createSqliteAdminAuditStore(dbPath: string): AdminAuditStore {
+  fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS admin_audit (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event TEXT NOT NULL,
+      action TEXT,
+      actor TEXT NOT NULL,
+      params TEXT NOT NULL,
+      data TEXT,
+      prepared_id INTEGER,
+      transaction_hash TEXT,
+      error TEXT,
+      created_at INTEGER NOT NULL
+    );
+  `);
+
+  // Databases created before receipts were checked lack this column
+  const columns = db.prepare('PRAGMA table_info(admin_audit)').all() as { name: string }[];
+  if (!columns.some((column) => column.name === 'transaction_status')) {
+    db.exec('ALTER TABLE admin_audit ADD COLUMN transaction_status TEXT');
+  }
+  db.exec('CREATE INDEX IF NOT EXISTS admin_audit_prepared_id ON admin_audit (prepared_id)');
+
+  const insertEntry = db.prepare(`
+    INSERT INTO admin_audit (event, action, actor, params, data, prepared_id, transaction_hash, transaction_status, error, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const selectEntry = db.prepare('SELECT * FROM admin_audit WHERE id = ?');
+  const selectSubmission = db.prepare("SELECT * FROM admin_audit WHERE prepared_id = ? AND event = 'submitted' ORDER BY id LIMIT 1");
+  const selectEntries = db.prepare('SELECT * FROM admin_audit WHERE id < ? ORDER BY id DESC LIMIT ?');
+
+  return {
+    async append(entry) {
+      const result = insertEntry.run(
+        entry.event,
+        entry.action,
+        entry.actor,
+        JSON.stringify(entry.params),
+        entry.data,
+        entry.preparedId,
+        entry.transactionHash,
+        entry.transactionStatus,
+        entry.error,
+        entry.createdAt
+      );
+      return { ...entry, id: Number(result.lastInsertRowid) };
+    },
+
+    async getEntry(id) {
+      const row = selectEntry.get(id) as AdminAuditRow | undefined;
+      return row ? rowToEntry(row) : null;
+    },
+
+    async getSubmission(preparedId) {
+      const row = selectSubmission.get(preparedId) as AdminAuditRow | undefined;
+      return row ? rowToEntry(row) : null;
+    },
+
+    async getEntries({ limit, before }) {
+      const rows = selectEntries.all(before ?? Number.MAX_SAFE_INTEGER, limit) as AdminAuditRow[];
+      return rows.map(rowToEntry);
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+}
+
+function requireAuditStore(): AdminAuditStore {
+  if (!auditStore) {
+    throw new Error('Admin audit store not initialized');
+  }
+  return auditStore;
+}
+
+function requirePublicClient() {
+  const publicClient = getPublicClient();
+  if (!publicClient) {
+    throw new Error('Blockchain client not initialized. RPC_URL required.');
+  }
+  if (!AUCTION_CONTRACT_ADDRESS) {
+    throw new Error('Auction contract address not set. AUCTION_CONTRACT_ADDRESS required.');
+  }
+  return publicClient;
+}
+
+async function record(entry: Omit<AdminAuditEntry, 'id' | 'createdAt'>): Promise<AdminAuditEntry> {
+  const stored = await requireAuditStore().append({ ...entry, createdAt: Date.now() });
+  console.log(`🛡️  Admin ${stored.event}: ${stored.action ?? 'session'} by ${stored.actor}${stored.error ? ` (${stored.error})` : ''}`);
+  return stored;
+}
+
+// ============================================
+// Session
+// ============================================
+
+/**
+ * The message an admin signs to open a session
+ * Why: Binds the signature to the user, the contract and the chain, so it can't be
+ * replayed against another deployment; issuedAt bounds how long it is accepted.
+ */
+export function getAdminSessionMessage(address: string, issuedAt: number): string {
+  return [
+    'Auction admin session',
+    '',
+    `Address: ${getAddress(address)}`,
+    `Auction: ${AUCTION_CONTRACT_ADDRESS ?? 'not configured'}`,
+    `Chain ID: ${CHAIN_ID}`,
+    `Issued At: ${new Date(issuedAt * 1000).toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Check an admin session signature and that the signer owns the Auction
+ *
+ * @throws AdminAuthError (401 bad or expired signature, 403 not the owner);
+ *         Error if the RPC or contract address is missing
+ */
+export async function verifyAdminSession(address: string, issuedAt: unknown, signature: unknown): Promise<void> {
+  const issuedAtSeconds = typeof issuedAt === 'string' && /^\d+$/.test(issuedAt) ? Number(issuedAt) : NaN;
+  if (!Number.isSafeInteger(issuedAtSeconds) || typeof signature !== 'string' || !/^0x[0-9a-fA-F]+$/.test(signature)) {
+    throw new AdminAuthError(401, 'Missing or invalid admin session signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (issuedAtSeconds > now + SESSION_CLOCK_SKEW_SECONDS || now - issuedAtSeconds > ADMIN_SESSION_TTL_SECONDS) {
+    throw new AdminAuthError(401, 'Admin session expired');
+  }
+
+  const publicClient = requirePublicClient();
+
+  // Goes through the RPC so smart-contract wallets (ERC-1271) verify as well
+  const valid = await publicClient.verifyMessage({
+    address: getAddress(address),
+    message: getAdminSessionMessage(address, issuedAtSeconds),
+    signature: signature as `0x${string}`,
+  });
+  if (!valid) {
+    throw new AdminAuthError(401, 'Invalid admin session signature');
+  }
+
+  const owner = await publicClient.readContract({
+    address: AUCTION_CONTRACT_ADDRESS!,
+    abi: AUCTION_ABI,
+    functionName: 'owner',
+  });
+  if (!isAddressEqual(owner, getAddress(address))) {
+    // Logged rather than audited: anyone with a wallet can sign a session
+    console.warn(`🛡️  Admin session denied: ${address} is not the Auction owner`);
+    throw new AdminAuthError(403, 'Only the Auction owner can use the admin API');
+  }
+}
+
+// ============================================
+// Status
+// ============================================
+
+/**
+ * Current owner-controlled state of the Auction
+ */
+export async function getAdminStatus() {
+  const publicClient = requirePublicClient();
+  const read = { address: AUCTION_CONTRACT_ADDRESS!, abi: AUCTION_ABI } as const;
+
+  const [owner, settler, hook, rentPool, balance] = await Promise.all([
+    publicClient.readContract({ ...read, functionName: 'owner' }),
+    publicClient.readContract({ ...read, functionName: 'settler' }),
+    publicClient.readContract({ ...read, functionName: 'hook' }),
+    publicClient.readContract({ ...read, functionName: 'rentPool' }),
+    publicClient.getBalance({ address: AUCTION_CONTRACT_ADDRESS! }),
+  ]);
+
+  const teeSettler = getTeePublicKey();
+
+  return {
+    auction: AUCTION_CONTRACT_ADDRESS!,
+    owner,
+    settler,
+    teeSettler,
+    // The TEE can only resolve rounds while it is the settler
+    settlerIsTee: teeSettler !== null && isAddressEqual(settler, teeSettler as `0x${string}`),
+    hook: isAddressEqual(hook, zeroAddress) ? null : hook,
+    rentPool: rentPool.toString(),
+    contractBalance: balance.toString(),
+  };
+}
+
+// ============================================
+// Actions
+// ============================================
+
+/**
+ * Parse the parameters of an admin action received as JSON
+ *
+ * @throws Error starting with "Invalid admin request" if a field is missing or malformed
+ */
+async function parseAction(
+  action: AdminAction,
+  body: unknown
+): Promise<{ params: Record<string, string>; args: readonly [`0x${string}`] | readonly [bigint] }> {
+  const fields = (body ?? {}) as Record<string, unknown>;
+  const parseAddress = (value: unknown, name: string) => {
+    if (typeof value !== 'string' || !isAddress(value)) {
+      throw new Error(`Invalid admin request: ${name} must be an address`);
+    }
+    return getAddress(value);
+  };
+
+  switch (action) {
+    case 'updateSettler': {
+      const settler = parseAddress(fields.settler, 'settler');
+      return { params: { settler }, args: [settler] };
+    }
+    case 'setHook': {
+      // The zero address detaches the hook
+      const hook = parseAddress(fields.hook, 'hook');
+      return { params: { hook }, args: [hook] };
+    }
+    case 'withdrawRent': {
+      if (fields.amount !== undefined && (typeof fields.amount !== 'string' || !/^\d+$/.test(fields.amount))) {
+        throw new Error('Invalid admin request: amount must be a wei amount as a decimal string');
+      }
+      // Defaults to the whole rent pool
+      const amount = fields.amount !== undefined
+        ? BigInt(fields.amount as string)
+        : await requirePublicClient().readContract({
+            address: AUCTION_CONTRACT_ADDRESS!,
+            abi: AUCTION_ABI,
+            functionName: 'rentPool',
+          });
+      return { params: { amount: amount.toString() }, args: [amount] };
+    }
+  }
+}
+
+/**
+ * Simulate an owner action and build the transaction for the owner to sign
+ *
+ * @param owner - Address of the verified owner (the transaction sender)
+ * @returns The unsigned transaction and the audit entry id to report it under
+ * @throws ContractCallError if the simulation reverts; Error starting with
+ *         "Invalid admin request" for malformed parameters
+ */
+export async function prepareAdminAction(owner: string, action: AdminAction, body: unknown) {
+  const base = { action, actor: owner, preparedId: null, transactionHash: null, transactionStatus: null };
+
+  let parsed: Awaited<ReturnType<typeof parseAction>>;
+  try {
+    parsed = await parseAction(action, body);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await record({ ...base, event: 'rejected', params: {}, data: null, error: message });
+    throw error;
+  }
+
+  let transaction: { to: `0x${string}`; data: `0x${string}` };
+  try {
+    // Each branch narrows args to the function's own argument types
+    transaction = action === 'withdrawRent'
+      ? await prepareAuctionCall(getAddress(owner), action, parsed.args as readonly [bigint])
+      : await prepareAuctionCall(getAddress(owner), action, parsed.args as readonly [`0x${string}`]);
+  } catch (error) {
+    const message = error instanceof ContractCallError ? `${error.code}: ${error.message}` : String(error);
+    await record({ ...base, event: 'rejected', params: parsed.params, data: null, error: message });
+    throw error;
+  }
+
+  const entry = await record({ ...base, event: 'prepared', params: parsed.params, data: transaction.data, error: null });
+
+  return {
+    id: entry.id,
+    action,
+    params: parsed.params,
+    transaction: { ...transaction, from: getAddress(owner), value: '0', chainId: CHAIN_ID },
+  };
+}
+
+/**
+ * Record the mined transaction of a prepared action
+ * Why: The owner sends the transaction from their wallet, so the server only learns
+ * about it when told; the transaction is checked against what was prepared, and
+ * only recorded with its receipt status once it is mined.
+ *
+ * @throws Error starting with "Invalid admin request" for a bad hash or a transaction
+ *         that doesn't match; Error containing "not found" for unknown ids or hashes;
+ *         Error containing "already recorded" for an action reported before;
+ *         Error if the receipt doesn't arrive within ADMIN_RECEIPT_TIMEOUT_MS
+ */
+export async function recordAdminTransaction(owner: string, preparedId: number, hash: unknown) {
+  if (typeof hash !== 'string' || !isHash(hash)) {
+    throw new Error('Invalid admin request: hash must be a transaction hash');
+  }
+
+  const store = requireAuditStore();
+  const prepared = await store.getEntry(preparedId);
+  if (!prepared || prepared.event !== 'prepared') {
+    throw new Error(`Prepared admin action ${preparedId} not found`);
+  }
+  if (recordingIds.has(preparedId) || (await store.getSubmission(preparedId))) {
+    throw new Error(`Prepared admin action ${preparedId} already recorded a transaction`);
+  }
+
+  recordingIds.add(preparedId);
+  try {
+    const publicClient = requirePublicClient();
+
+    let transaction;
+    try {
+      transaction = await publicClient.getTransaction({ hash });
+    } catch {
+      throw new Error(`Transaction ${hash} not found`);
+    }
+
+    const matches = transaction.input === prepared.data
+      && transaction.to !== null
+      && isAddressEqual(transaction.to, AUCTION_CONTRACT_ADDRESS!)
+      && isAddressEqual(transaction.from, getAddress(owner));
+    if (!matches) {
+      throw new Error('Invalid admin request: transaction does not match the prepared action');
+    }
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash, timeout: ADMIN_RECEIPT_TIMEOUT_MS });
+
+    return await record({
+      event: 'submitted',
+      action: prepared.action,
+      actor: owner,
+      params: prepared.params,
+      data: null,
+      preparedId,
+      transactionHash: hash,
+      transactionStatus: receipt.status,
+      error: receipt.status === 'reverted' ? 'Transaction reverted' : null,
+    });
+  } finally {
+    recordingIds.delete(preparedId);
+  }
+}
+
+/**
+ * Page through the audit log, newest first
+ */
+export async function getAdminAuditLog(limit: number, before?: number) {
+  return await requireAuditStore().getEntries({ limit: Math.min(Math.max(limit, 1), MAX_AUDIT_PAGE), before });
+}
@@ -0,0 +1,198 @@
+/**
+ * @file services/AttestationService.ts
+ * @description Remote attestation binding the settler address to the TEE
+ *
+ * GET /settler alone proves nothing: any server started with any mnemonic reports
+ * an address the same way. This service returns an attestation document signed by
+ * the TEE platform whose nonce commits to the settler address, where its key came
+ * from and a caller-chosen challenge, plus a settler signature over the same
+ * statement. A verifier that checks the document's signature, its measurement (the
+ * container image digest) and the nonce knows the settler key is held by that exact
+ * image inside a TEE. Keys held by a remote signer are never attested.
+ *
+ * Why this exists:
+ * - Users deposit collateral trusting the settler to resolve rounds honestly
+ * - The frontend can verify the settler before showing it as trusted
+ * - A mock provider lets the flow be exercised without TEE hardware
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import {
+  ATTESTATION_AUDIENCE,
+  ATTESTATION_PROVIDER,
+  ATTESTATION_SOCKET_PATH,
+  MOCK_ATTESTATION_MEASUREMENT,
+} from '../config/constants';
+import { AttestationProvider, SettlerKeySource } from '../types';
+import { getTeeSigner } from './TeeService';
+
+/**
+ * Active provider, or null when attestation is unavailable
+ */
+let attestationProvider: AttestationProvider | null = null;
+
+/**
+ * Statement committed to by both the attestation nonce and the settler signature
+ * Why: Verifiers rebuild this string from the settler address, the key source and
+ * their own challenge, so they never have to trust the server's copy of it.
+ *
+ * @param keySource - 'hd:<index>' (derived from MNEMONIC in the enclave), 'privateKey' or 'keystore'
+ */
+export function buildAttestationStatement(settler: string, keySource: string, challenge: string): string {
+  return `Auction TEE settler ${settler.toLowerCase()} key ${keySource} challenge ${challenge}`;
+}
+
+/**
+ * Key source as written in the attestation statement
+ */
+function formatKeySource(source: SettlerKeySource): string {
+  return source.type === 'hd' ? `hd:${source.index}` : source.type;
+}
+
+/**
+ * Create the Google Confidential Space provider
+ * Why: EigenCloud runs containers in Confidential Space. Its launcher issues OIDC
+ * tokens signed by Google that carry the image digest and hardware model, and
+ * embed up to a few caller-supplied nonces.
+ */
+export function createConfidentialSpaceProvider(socketPath: string, audience: string): AttestationProvider {
+  return {
+    name: 'confidential-space',
+
+    getAttestation(reportData) {
+      const body = JSON.stringify({ audience, token_type: 'OIDC', nonces: [reportData] });
+
+      return new Promise((resolve, reject) => {
+        const request = http.request(
+          {
+            socketPath,
+            path: '/v1/token',
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+            timeout: 10000,
+          },
+          (response) => {
+            let token = '';
+            response.setEncoding('utf8');
+            response.on('data', (chunk) => (token += chunk));
+            response.on('end', () => {
+              if (response.statusCode !== 200) {
+                reject(new Error(`Attestation request failed with status ${response.statusCode}: ${token}`));
+                return;
+              }
+              resolve(token.trim());
+            });
+          }
+        );
+
+        request.on('timeout', () => request.destroy(new Error('Attestation request timed out')));
+        request.on('error', reject);
+        request.end(body);
+      });
+    },
+  };
+}
+
+/**
+ * Create the mock provider
+ * Why: Produces a token with the same claims as Confidential Space but no signature
+ * (alg "none"), so verifiers can exercise every other check locally and must
+ * explicitly opt in to accepting it.
+ */
+export function createMockAttestationProvider(measurement: string, audience: string): AttestationProvider {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  return {
+    name: 'mock',
+
+    async getAttestation(reportData) {
+      const now = Math.floor(Date.now() / 1000);
+      const header = { alg: 'none', typ: 'JWT' };
+      const claims = {
+        iss: 'https://mock-attestation.local',
+        aud: audience,
+        iat: now,
+        exp: now + 3600,
+        eat_nonce: [reportData],
+        hwmodel: 'MOCK',
+        swname: 'MOCK',
+        dbgstat: 'enabled',
+        submods: { container: { image_digest: measurement } },
+      };
+      return `${encode(header)}.${encode(claims)}.`;
+    },
+  };
+}
+
+/**
+ * Select the attestation provider configured by ATTESTATION_PROVIDER
+ */
+export function initializeAttestationProvider(): void {
+  const useConfidentialSpace =
+    ATTESTATION_PROVIDER === 'confidential-space' ||
+    (ATTESTATION_PROVIDER === 'auto' && fs.existsSync(ATTESTATION_SOCKET_PATH));
+
+  if (useConfidentialSpace) {
+    attestationProvider = createConfidentialSpaceProvider(ATTESTATION_SOCKET_PATH, ATTESTATION_AUDIENCE);
+    console.log('✅ Attestation provider: Confidential Space');
+  } else if (ATTESTATION_PROVIDER === 'mock') {
+    attestationProvider = createMockAttestationProvider(MOCK_ATTESTATION_MEASUREMENT, ATTESTATION_AUDIENCE);
+    console.warn('⚠️  Attestation provider: MOCK - documents are unsigned and must not be trusted');
+  } else if (ATTESTATION_PROVIDER === 'auto') {
+    console.warn('⚠️  No TEE attestation available - GET /attestation will not work');
+  } else {
+    throw new Error(`Unknown ATTESTATION_PROVIDER: ${ATTESTATION_PROVIDER}`);
+  }
+}
+
+/**
+ * Get an attestation for the settler address
+ *
+ * @param challenge - Caller-chosen freshness value (8-64 characters of [A-Za-z0-9_-]);
+ *                    a random one is generated if omitted
+ * @throws Error if the challenge is malformed, or the TEE account or provider is missing
+ */
+export async function getSettlerAttestation(challenge?: string) {
+  if (challenge !== undefined && !/^[A-Za-z0-9_-]{8,64}$/.test(challenge)) {
+    throw new Error('Invalid challenge: expected 8-64 characters of [A-Za-z0-9_-]');
+  }
+
+  const teeSigner = getTeeSigner();
+  if (!teeSigner) {
+    throw new Error('TEE account not initialized. Check SIGNER_BACKEND and its settings.');
+  }
+  // The enclave can't vouch for a key it doesn't hold
+  if (teeSigner.source.type === 'remote') {
+    throw new Error('The settler key is held by a remote signer outside the TEE; a key held in the enclave is required for attestation');
+  }
+
+  if (!attestationProvider) {
+    throw new Error('Attestation provider not initialized. TEE hardware or ATTESTATION_PROVIDER=mock required.');
+  }
+
+  const teeAccount = teeSigner.account;
+  const keySource = formatKeySource(teeSigner.source);
+  const nonce = challenge ?? randomBytes(16).toString('hex');
+  const statement = buildAttestationStatement(teeAccount.address, keySource, nonce);
+  const reportData = createHash('sha256').update(statement).digest('hex');
+
+  const [document, settlerSignature] = await Promise.all([
+    attestationProvider.getAttestation(reportData),
+    teeAccount.signMessage({ message: statement }),
+  ]);
+
+  return {
+    provider: attestationProvider.name,
+    format: 'jwt',
+    settler: teeAccount.address,
+    keySource,
+    challenge: nonce,
+    statement,
+    reportData,
+    document,
+    settlerSignature,
+    issuedAt: new Date().toISOString(),
+  };
+}
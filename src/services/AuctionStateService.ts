@@ -0,0 +1,147 @@
+/**
+ * @file services/AuctionStateService.ts
+ * @description Snapshot of the Auction contract's round state at one block
+ *
+ * The round duration, current round, leader and next-round bidding state are read
+ * together in a single multicall pinned to the latest block, and round expiry is
+ * judged against that block's timestamp rather than the server clock.
+ *
+ * Why this exists:
+ * - ROUND_DURATION was hard-coded in several places instead of read from the contract
+ * - resolveRound() reverts based on block.timestamp; a server clock running ahead
+ *   made canResolveRound() say yes too early
+ * - The frontend issued the same reads from several components; GET /auction/state
+ *   serves them all from one cached snapshot
+ */
+
+import { formatEther } from 'viem';
+import { AUCTION_ABI } from '../../contracts/src';
+import { AUCTION_CONTRACT_ADDRESS, AUCTION_STATE_CACHE_MS, CHAIN_CONFIG } from '../config/constants';
+import { getPublicClient } from './BlockchainService';
+
+/**
+ * Auction state at a given block
+ */
+export interface AuctionState {
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+  roundDuration: bigint;
+  currentRound: bigint;
+  currentRoundStart: bigint;
+  roundEnd: bigint;
+  currentLeader: `0x${string}`;
+  nextRoundHighestBid: bigint;
+  nextRoundHighestBidder: `0x${string}`;
+  /** Seconds until the round can be resolved, by block time */
+  secondsRemaining: number;
+  /** True once the latest block is past the round end */
+  canResolve: boolean;
+}
+
+/**
+ * Last snapshot and the in-flight read
+ * Why: Route handlers, the scheduler and the round ticker may all ask at once;
+ * they share one read instead of each issuing their own.
+ */
+let cachedState: AuctionState | null = null;
+let cachedAt = 0;
+let pendingRead: Promise<AuctionState> | null = null;
+
+const STATE_FUNCTIONS = [
+  'ROUND_DURATION',
+  'currentRound',
+  'currentRoundStart',
+  'currentLeader',
+  'nextRoundHighestBid',
+  'nextRoundHighestBidder',
+] as const;
+
+/**
+ * Read a fresh snapshot from the chain
+ *
+ * @throws Error if the blockchain client or contract address is missing
+ */
+async function readAuctionState(): Promise<AuctionState> {
+  const publicClient = getPublicClient();
+  if (!publicClient) {
+    throw new Error('Blockchain client not initialized. RPC_URL required.');
+  }
+
+  if (!AUCTION_CONTRACT_ADDRESS) {
+    throw new Error('Auction contract address not set. AUCTION_CONTRACT_ADDRESS required.');
+  }
+
+  const address = AUCTION_CONTRACT_ADDRESS;
+  const block = await publicClient.getBlock({ blockTag: 'latest' });
+  const contracts = STATE_FUNCTIONS.map((functionName) => ({ address, abi: AUCTION_ABI, functionName }));
+
+  // Chains without Multicall3 (a fresh Anvil node) fall back to parallel reads at the same block
+  const results = CHAIN_CONFIG.chain.contracts?.multicall3
+    ? await publicClient.multicall({ contracts, allowFailure: false, blockNumber: block.number })
+    : await Promise.all(contracts.map((contract) => publicClient.readContract({ ...contract, blockNumber: block.number })));
+
+  const [roundDuration, currentRound, currentRoundStart, currentLeader, nextRoundHighestBid, nextRoundHighestBidder] =
+    results as [bigint, bigint, bigint, `0x${string}`, bigint, `0x${string}`];
+
+  const roundEnd = currentRoundStart + roundDuration;
+
+  return {
+    blockNumber: block.number,
+    blockTimestamp: block.timestamp,
+    roundDuration,
+    currentRound,
+    currentRoundStart,
+    roundEnd,
+    currentLeader,
+    nextRoundHighestBid,
+    nextRoundHighestBidder,
+    secondsRemaining: roundEnd > block.timestamp ? Number(roundEnd - block.timestamp) : 0,
+    canResolve: block.timestamp >= roundEnd,
+  };
+}
+
+/**
+ * Get the current auction state
+ *
+ * @param maxAgeMs - Accept a cached snapshot up to this old (0 forces a fresh read)
+ * @throws Error if the blockchain client or contract address is missing
+ */
+export async function getAuctionState(maxAgeMs = AUCTION_STATE_CACHE_MS): Promise<AuctionState> {
+  if (cachedState && Date.now() - cachedAt <= maxAgeMs) {
+    return cachedState;
+  }
+
+  if (!pendingRead) {
+    pendingRead = readAuctionState()
+      .then((state) => {
+        cachedState = state;
+        cachedAt = Date.now();
+        return state;
+      })
+      .finally(() => {
+        pendingRead = null;
+      });
+  }
+
+  return pendingRead;
+}
+
+/**
+ * JSON-safe view of the state for GET /auction/state
+ */
+export function serializeAuctionState(state: AuctionState) {
+  return {
+    blockNumber: state.blockNumber.toString(),
+    blockTimestamp: Number(state.blockTimestamp),
+    roundDuration: Number(state.roundDuration),
+    currentRound: state.currentRound.toString(),
+    currentRoundStart: Number(state.currentRoundStart),
+    roundEnd: Number(state.roundEnd),
+    secondsRemaining: state.secondsRemaining,
+    canResolve: state.canResolve,
+    currentLeader: state.currentLeader,
+    nextRoundHighestBid: state.nextRoundHighestBid.toString(),
+    nextRoundHighestBidEth: formatEther(state.nextRoundHighestBid),
+    nextRoundHighestBidder: state.nextRoundHighestBidder,
+  };
+}
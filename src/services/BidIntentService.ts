@@ -0,0 +1,375 @@
+/**
+ * @file services/BidIntentService.ts
+ * @description Order book of EIP-712 bid intents relayed by the settler
+ *
+ * Every public bid costs the user a transaction. Instead, users can sign a bid
+ * intent with their wallet and post it here. The server verifies the signature
+ * and the bidder's collateral, keeps the intent in an order book, and when the
+ * round closes the settler relays only the intents that matter on-chain through
+ * Auction.bidWithIntent(), which checks the signature again.
+ *
+ * Why this exists:
+ * - Bidding becomes free for users; only the settler pays gas, once per round
+ * - Intents are cancellable until the round closes: here to drop them from the
+ *   order book, and with Auction.cancelBidIntent(nonce) to revoke the signature
+ * - The contract enforces signature, round, nonce and deadline, so the settler
+ *   can't forge or replay bids
+ *
+ * Intents are kept in memory: they are cheap to re-sign and only live for one round.
+ */
+
+import { getAddress, isAddress, isHex, recoverTypedDataAddress } from 'viem';
+import { AUCTION_ABI } from '../../contracts/src';
+import { AUCTION_CONTRACT_ADDRESS, CHAIN_ID } from '../config/constants';
+import { SignedBidIntent, StoredBidIntent } from '../types';
+import { getPublicClient } from './BlockchainService';
+import { ManagedTransaction } from './TransactionManagerService';
+import { decodeContractError, writeAuction } from './ContractWriteService';
+
+/**
+ * EIP-712 types of Auction.BidIntent
+ */
+export const BID_INTENT_TYPES = {
+  BidIntent: [
+    { name: 'bidder', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'forRound', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+/**
+ * Seconds an intent must remain valid after the round closes
+ * Why: Relay transactions can wait a few blocks (and fee bumps) before they are
+ * mined; an intent that expires in the meantime would revert.
+ */
+const DEADLINE_MARGIN_SECONDS = 120n;
+
+/**
+ * Rounds of closed intents kept so users can see what happened to theirs
+ */
+const INTENT_HISTORY_ROUNDS = 10n;
+
+/**
+ * Order book, keyed by bidder and nonce
+ */
+const intents = new Map<string, StoredBidIntent>();
+
+const intentKey = (bidder: string, nonce: bigint) => `${bidder.toLowerCase()}:${nonce}`;
+
+/**
+ * EIP-712 domain of the Auction contract
+ *
+ * @throws Error if the contract address is not set
+ */
+export function getBidIntentDomain() {
+  if (!AUCTION_CONTRACT_ADDRESS) {
+    throw new Error('Auction contract address not set. AUCTION_CONTRACT_ADDRESS required.');
+  }
+
+  return {
+    name: 'Auction',
+    version: '1',
+    chainId: CHAIN_ID,
+    verifyingContract: AUCTION_CONTRACT_ADDRESS,
+  } as const;
+}
+
+function requirePublicClient() {
+  const publicClient = getPublicClient();
+  if (!publicClient || !AUCTION_CONTRACT_ADDRESS) {
+    throw new Error('Blockchain client not initialized. RPC_URL required.');
+  }
+  return publicClient;
+}
+
+async function readCurrentRound(): Promise<bigint> {
+  return await requirePublicClient().readContract({
+    address: AUCTION_CONTRACT_ADDRESS!,
+    abi: AUCTION_ABI,
+    functionName: 'currentRound',
+  }) as bigint;
+}
+
+async function readCollateral(user: `0x${string}`): Promise<bigint> {
+  return await requirePublicClient().readContract({
+    address: AUCTION_CONTRACT_ADDRESS!,
+    abi: AUCTION_ABI,
+    functionName: 'userCollateral',
+    args: [user],
+  }) as bigint;
+}
+
+async function isNonceUsed(bidder: `0x${string}`, nonce: bigint): Promise<boolean> {
+  return await requirePublicClient().readContract({
+    address: AUCTION_CONTRACT_ADDRESS!,
+    abi: AUCTION_ABI,
+    functionName: 'usedIntentNonces',
+    args: [bidder, nonce],
+  }) as boolean;
+}
+
+/**
+ * Parse a signed intent received as JSON (numbers as decimal strings)
+ *
+ * @throws Error if a field is missing or malformed
+ */
+function parseSignedIntent(body: unknown): SignedBidIntent {
+  const { intent, signature } = (body ?? {}) as { intent?: Record<string, unknown>; signature?: unknown };
+  const isUint = (value: unknown) => (typeof value === 'string' || typeof value === 'number') && /^\d+$/.test(String(value));
+
+  if (
+    !intent ||
+    typeof intent.bidder !== 'string' ||
+    !isAddress(intent.bidder) ||
+    !isUint(intent.amount) ||
+    !isUint(intent.forRound) ||
+    !isUint(intent.nonce) ||
+    !isUint(intent.deadline) ||
+    typeof signature !== 'string' ||
+    !isHex(signature)
+  ) {
+    throw new Error('Invalid bid intent: expected { intent: { bidder, amount, forRound, nonce, deadline }, signature }');
+  }
+
+  return {
+    intent: {
+      bidder: getAddress(intent.bidder),
+      amount: BigInt(String(intent.amount)),
+      forRound: BigInt(String(intent.forRound)),
+      nonce: BigInt(String(intent.nonce)),
+      deadline: BigInt(String(intent.deadline)),
+    },
+    signature,
+  };
+}
+
+/**
+ * JSON-safe view of a stored intent
+ */
+function serializeIntent(stored: StoredBidIntent) {
+  return {
+    bidder: stored.intent.bidder,
+    amount: stored.intent.amount.toString(),
+    forRound: stored.intent.forRound.toString(),
+    nonce: stored.intent.nonce.toString(),
+    deadline: Number(stored.intent.deadline),
+    status: stored.status,
+    submittedAt: new Date(stored.submittedAt).toISOString(),
+    transactionId: stored.transactionId,
+  };
+}
+
+/**
+ * Recover the signer of an intent
+ */
+async function recoverIntentSigner(signed: SignedBidIntent): Promise<`0x${string}` | null> {
+  try {
+    return await recoverTypedDataAddress({
+      domain: getBidIntentDomain(),
+      types: BID_INTENT_TYPES,
+      primaryType: 'BidIntent',
+      message: signed.intent,
+      signature: signed.signature,
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Add a signed intent to the order book
+ * Why: Everything the contract will check is checked here too, so bad intents are
+ * rejected while the user can still fix them instead of failing at relay time.
+ * A bidder has at most one open intent per round; a new one replaces the old.
+ *
+ * @param user - Authenticated wallet address
+ * @throws Error if the intent is malformed, badly signed, expired or unaffordable
+ */
+export async function submitBidIntent(user: string, body: unknown) {
+  const signed = parseSignedIntent(body);
+  const { intent } = signed;
+
+  if (intent.bidder.toLowerCase() !== user.toLowerCase()) {
+    throw new Error('Invalid bid intent: bidder does not match the authenticated user');
+  }
+  if (intent.amount === 0n) {
+    throw new Error('Invalid bid intent: amount must be greater than 0');
+  }
+
+  const signer = await recoverIntentSigner(signed);
+  if (!signer || signer.toLowerCase() !== intent.bidder.toLowerCase()) {
+    throw new Error('Invalid bid intent: signature does not match the bidder');
+  }
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (intent.deadline <= now) {
+    throw new Error('Invalid bid intent: deadline has passed');
+  }
+
+  const forRound = (await readCurrentRound()) + 1n;
+  if (intent.forRound !== forRound) {
+    throw new Error(`Invalid bid intent: bidding is open for round ${forRound}, not ${intent.forRound}`);
+  }
+
+  const key = intentKey(intent.bidder, intent.nonce);
+  if (intents.has(key) || (await isNonceUsed(intent.bidder, intent.nonce))) {
+    throw new Error('Invalid bid intent: nonce already used');
+  }
+
+  const collateral = await readCollateral(intent.bidder);
+  if (collateral < intent.amount) {
+    throw new Error('Invalid bid intent: insufficient collateral for bid');
+  }
+
+  for (const stored of intents.values()) {
+    if (stored.status === 'open' && stored.intent.bidder === intent.bidder && stored.intent.forRound === forRound) {
+      stored.status = 'replaced';
+    }
+  }
+
+  const stored: StoredBidIntent = { ...signed, status: 'open', submittedAt: Date.now(), transactionId: null };
+  intents.set(key, stored);
+  console.log(`✍️  Bid intent received for round ${forRound}: ${intent.amount} wei`);
+
+  return serializeIntent(stored);
+}
+
+/**
+ * Cancel an open intent
+ * Why: Only takes the intent out of this server's order book. The signature stays
+ * valid until its deadline, so the user revokes it with Auction.cancelBidIntent(nonce);
+ * relaying skips intents whose nonce was used that way.
+ *
+ * @param user - Authenticated wallet address
+ * @throws Error if the intent doesn't exist, isn't the user's, or is no longer open
+ */
+export function cancelBidIntent(user: string, nonce: bigint) {
+  const stored = intents.get(intentKey(user, nonce));
+  if (!stored) {
+    throw new Error('Bid intent not found');
+  }
+  if (stored.status !== 'open') {
+    throw new Error(`Bid intent is already ${stored.status}`);
+  }
+
+  stored.status = 'cancelled';
+  return serializeIntent(stored);
+}
+
+/**
+ * Get the order book for the round currently open for bidding
+ * Why: Intents are public bids (the signature is withheld), so they are shown
+ * highest first like an order book.
+ *
+ * @param bidder - Optional filter; includes closed intents so users can follow theirs
+ */
+export async function getBidIntents(bidder?: string) {
+  const forRound = (await readCurrentRound()) + 1n;
+
+  const matches = [...intents.values()].filter((stored) =>
+    bidder
+      ? stored.intent.bidder.toLowerCase() === bidder.toLowerCase()
+      : stored.intent.forRound === forRound && stored.status === 'open'
+  );
+  matches.sort((a, b) => (a.intent.amount === b.intent.amount ? 0 : a.intent.amount > b.intent.amount ? -1 : 1));
+
+  return {
+    forRound: forRound.toString(),
+    domain: getBidIntentDomain(),
+    intents: matches.map(serializeIntent),
+  };
+}
+
+/**
+ * Relay the intents that decide the next round
+ * Why: Called by the round resolver before resolveRound(). Only the top two intents
+ * can affect the outcome: the runner-up is relayed first so it sets the price the
+ * winner pays, then the winner. Intents that can't beat the on-chain highest bid
+ * are skipped. On a tie for the top intent the earliest is relayed first, and the
+ * tied runner-up after it sets the winner's price to the tied amount.
+ *
+ * @returns The queued relay transactions, in nonce order
+ */
+export async function relayWinningIntents(): Promise<ManagedTransaction[]> {
+  if (!AUCTION_CONTRACT_ADDRESS) {
+    return [];
+  }
+
+  const forRound = (await readCurrentRound()) + 1n;
+  const now = BigInt(Math.floor(Date.now() / 1000));
+
+  for (const [key, stored] of intents) {
+    if (stored.intent.forRound + INTENT_HISTORY_ROUNDS < forRound) {
+      intents.delete(key);
+    }
+  }
+
+  const open = [...intents.values()].filter(
+    (stored) => stored.status === 'open' && stored.intent.forRound === forRound
+  );
+  if (open.length === 0) {
+    return [];
+  }
+
+  // Drop intents that would revert: expired, revoked, or no longer covered by collateral
+  const valid: StoredBidIntent[] = [];
+  for (const stored of open) {
+    if (stored.intent.deadline < now + DEADLINE_MARGIN_SECONDS) {
+      stored.status = 'expired';
+    } else if (await isNonceUsed(stored.intent.bidder, stored.intent.nonce)) {
+      // Revoked on-chain with cancelBidIntent()
+      stored.status = 'cancelled';
+    } else if ((await readCollateral(stored.intent.bidder)) < stored.intent.amount) {
+      stored.status = 'invalid';
+    } else {
+      valid.push(stored);
+    }
+  }
+
+  // Highest amount first; ties go to the earliest intent
+  valid.sort((a, b) =>
+    a.intent.amount === b.intent.amount
+      ? a.submittedAt - b.submittedAt
+      : a.intent.amount > b.intent.amount ? -1 : 1
+  );
+
+  const [winner, runnerUp] = valid;
+  const highestBid = await requirePublicClient().readContract({
+    address: AUCTION_CONTRACT_ADDRESS,
+    abi: AUCTION_ABI,
+    functionName: 'nextRoundHighestBid',
+  }) as bigint;
+  // bidWithIntent() keeps the leader on a tie, so the tied runner-up goes second
+  const isTie = runnerUp !== undefined && runnerUp.intent.amount === winner.intent.amount;
+  const toRelay = (isTie ? [winner, runnerUp] : [runnerUp, winner]).filter(
+    (stored): stored is StoredBidIntent => stored !== undefined && stored.intent.amount > highestBid
+  );
+
+  const transactions: ManagedTransaction[] = [];
+  for (const stored of toRelay) {
+    try {
+      const transaction = await writeAuction('bidWithIntent', 'bidWithIntent', [stored.intent, stored.signature]);
+      stored.status = 'relayed';
+      stored.transactionId = transaction.id;
+      transactions.push(transaction);
+    } catch (error) {
+      // The contract rejected this intent (e.g. collateral withdrawn); relay the others
+      stored.status = 'invalid';
+      console.error(`❌ Bid intent from ${stored.intent.bidder} not relayed: ${decodeContractError(error).code}`);
+    }
+  }
+
+  for (const stored of valid) {
+    if (stored.status === 'open') {
+      stored.status = 'outbid';
+    }
+  }
+
+  if (transactions.length > 0) {
+    console.log(`✍️  Relaying ${transactions.length} bid intent(s) for round ${forRound}`);
+  }
+
+  return transactions;
+}
@@ -12,10 +12,14 @@
  * - Centralizes error handling for blockchain operations
  */
 
-import { createPublicClient, createWalletClient, http, PublicClient, WalletClient } from 'viem';
-import { baseSepolia } from 'viem/chains';
-import { RPC_URL } from '../config/constants';
-import { getTeeAccount } from './TeeService';
+import { createPublicClient, createWalletClient, PublicClient, Transport, WalletClient } from 'viem';
+import { CHAIN_CONFIG, CHAIN_ID, RPC_URLS } from '../config/constants';
+import { createRpcTransport, getActiveRpcEndpoint } from './RpcTransportService';
+
+/**
+ * Failover transport shared by both clients
+ */
+let transport: Transport | null = null;
 
 /**
  * Public client for reading blockchain data
@@ -25,30 +29,78 @@ import { getTeeAccount } from './TeeService';
 let publicClient: PublicClient | null = null;
 
 /**
- * Wallet client for signing transactions
+ * Wallet client for sending transactions
  * Why: Viem's walletClient is used for write operations (sending transactions).
- * It requires a private key to sign transactions. We create this lazily because
- * it depends on the TEE account being initialized.
+ * It has no account of its own: callers pass the TEE signer's account with each
+ * call, so this service doesn't depend on which backend holds the key, and a key
+ * switch needs no new client.
  */
 let walletClient: WalletClient | null = null;
 
+/**
+ * Chain id reported by the RPC endpoint, once verified
+ */
+let rpcChainId: number | null = null;
+
 /**
  * Initialize the blockchain public client
  * Why: We need a connection to the blockchain to read events and contract state.
  * This initializes the connection once at startup and reuses it throughout the app.
  */
 export function initializeBlockchainClient(): void {
-  if (!RPC_URL) {
+  if (RPC_URLS.length === 0) {
     console.warn('⚠️  RPC_URL not found - event tracking routes will not work');
     return;
   }
 
+  transport = createRpcTransport(CHAIN_CONFIG.chain);
   publicClient = createPublicClient({
-    chain: baseSepolia,
-    transport: http(RPC_URL),
+    chain: CHAIN_CONFIG.chain,
+    transport,
   }) as PublicClient;
 
-  console.log(`✅ Blockchain client initialized with RPC: ${RPC_URL}`);
+  console.log(
+    `✅ Blockchain client initialized for ${CHAIN_CONFIG.chain.name} (${CHAIN_ID}) with ${RPC_URLS.length} RPC endpoint(s), active: ${getActiveRpcEndpoint()}`
+  );
+}
+
+/**
+ * Check that the RPC endpoint serves the configured chain
+ * Why: A mainnet or local RPC paired with a testnet CHAIN_ID would index the wrong
+ * contract's events and fail every transaction with a confusing error. Detecting
+ * this at startup lets the server skip event listening and round resolution.
+ *
+ * @returns True if the RPC chain id matches CHAIN_ID
+ * @throws Error if the blockchain client is not initialized or the RPC is unreachable
+ */
+export async function verifyChainId(): Promise<boolean> {
+  if (!publicClient) {
+    throw new Error('Blockchain client not initialized. RPC_URL required.');
+  }
+
+  rpcChainId = await publicClient.getChainId();
+
+  if (rpcChainId !== CHAIN_ID) {
+    console.error(`❌ Chain mismatch: CHAIN_ID is ${CHAIN_ID} (${CHAIN_CONFIG.chain.name}) but the RPC serves chain ${rpcChainId}`);
+    return false;
+  }
+
+  console.log(`✅ RPC chain id verified: ${rpcChainId}`);
+  return true;
+}
+
+/**
+ * Get the configured chain and what the RPC reported
+ * Why: Lets the frontend compare its own chain and the wallet's against the server's.
+ */
+export function getChainStatus() {
+  return {
+    chainId: CHAIN_ID,
+    name: CHAIN_CONFIG.chain.name,
+    rpcChainId,
+    mismatch: rpcChainId !== null && rpcChainId !== CHAIN_ID,
+    blockExplorer: CHAIN_CONFIG.chain.blockExplorers?.default.url ?? null,
+  };
 }
 
 /**
@@ -63,27 +115,24 @@ export function getPublicClient(): PublicClient | null {
 }
 
 /**
- * Get or create the wallet client for signing transactions
- * Why: We create the wallet client lazily because it requires the TEE account
- * to be initialized first. This ensures we don't try to create it before the
- * account is ready.
+ * Get or create the wallet client for sending transactions
+ * Why: We create the wallet client lazily because it needs the RPC transport from
+ * initializeBlockchainClient(). Pass the signing account to each call.
  * 
- * @returns The wallet client instance, or null if prerequisites not met
+ * @returns The wallet client instance, or null if RPC_URL is not configured
  */
 export function getWalletClient(): WalletClient | null {
   if (walletClient) {
     return walletClient;
   }
 
-  const teeAccount = getTeeAccount();
-  if (!teeAccount || !RPC_URL) {
+  if (!transport) {
     return null;
   }
 
   walletClient = createWalletClient({
-    account: teeAccount,
-    chain: baseSepolia,
-    transport: http(RPC_URL),
+    chain: CHAIN_CONFIG.chain,
+    transport,
   }) as WalletClient;
 
   return walletClient;
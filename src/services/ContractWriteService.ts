@@ -0,0 +1,236 @@
+/**
+ * @file services/ContractWriteService.ts
+ * @description Simulated settler writes and typed contract errors
+ *
+ * Every settler write to the Auction contract goes through writeAuction(), which
+ * runs simulateContract with the settler account before handing the transaction
+ * to the transaction manager. A write that would revert is rejected right away
+ * with a ContractCallError carrying a typed code decoded from the revert string
+ * or custom error, instead of failing later inside the send queue.
+ *
+ * Why this exists:
+ * - Routes used to return "Resolve round failed" with viem's raw text, losing the
+ *   contract's own reason (e.g. "Current round is still active")
+ * - Callers can map codes to HTTP statuses and the frontend to messages
+ * - A reverting transaction never consumes a nonce or gas
+ */
+
+import {
+  Account,
+  BaseError,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  ContractFunctionRevertedError,
+  encodeFunctionData,
+  InsufficientFundsError,
+} from 'viem';
+import { AUCTION_ABI } from '../../contracts/src';
+import { AUCTION_CONTRACT_ADDRESS } from '../config/constants';
+import { getPublicClient } from './BlockchainService';
+import { getTeeAccount } from './TeeService';
+import { ManagedTransaction, submitTransaction } from './TransactionManagerService';
+
+/**
+ * Typed reasons a settler write can fail
+ */
+export type ContractErrorCode =
+  | 'ROUND_STILL_ACTIVE'
+  | 'WINNER_INSUFFICIENT_COLLATERAL'
+  | 'INSUFFICIENT_COLLATERAL'
+  | 'BID_TOO_LOW'
+  | 'INVALID_BID'
+  | 'INTENT_EXPIRED'
+  | 'INTENT_WRONG_ROUND'
+  | 'INTENT_NONCE_USED'
+  | 'INVALID_SIGNATURE'
+  | 'NOT_SETTLER'
+  | 'NOT_OWNER'
+  | 'INVALID_ARGUMENT'
+  | 'INSUFFICIENT_RENT_POOL'
+  | 'SETTLER_INSUFFICIENT_FUNDS'
+  | 'REVERTED'
+  | 'RPC_ERROR';
+
+/**
+ * Auction revert strings and the codes they map to
+ */
+const REVERT_REASONS: Record<string, ContractErrorCode> = {
+  'Current round is still active': 'ROUND_STILL_ACTIVE',
+  'Winner has insufficient collateral for price': 'WINNER_INSUFFICIENT_COLLATERAL',
+  'Insufficient collateral for bid': 'INSUFFICIENT_COLLATERAL',
+  'Bid must be higher than current highest bid': 'BID_TOO_LOW',
+  'Bid amount must be greater than zero': 'INVALID_BID',
+  'Winner cannot be zero address': 'INVALID_BID',
+  'Second bid exceeds winning bid': 'INVALID_BID',
+  'Bid intent expired': 'INTENT_EXPIRED',
+  'Bid intent is for another round': 'INTENT_WRONG_ROUND',
+  'Bid intent nonce already used': 'INTENT_NONCE_USED',
+  'Invalid bid intent signature': 'INVALID_SIGNATURE',
+  'Only settler can call this function': 'NOT_SETTLER',
+  'Settler cannot be zero address': 'INVALID_ARGUMENT',
+  'Amount must be greater than zero': 'INVALID_ARGUMENT',
+  'Insufficient rent pool': 'INSUFFICIENT_RENT_POOL',
+};
+
+/**
+ * Custom errors (OpenZeppelin) and the codes they map to
+ */
+const CUSTOM_ERRORS: Record<string, ContractErrorCode> = {
+  OwnableUnauthorizedAccount: 'NOT_OWNER',
+  ECDSAInvalidSignature: 'INVALID_SIGNATURE',
+  ECDSAInvalidSignatureLength: 'INVALID_SIGNATURE',
+  ECDSAInvalidSignatureS: 'INVALID_SIGNATURE',
+};
+
+/**
+ * HTTP status for each code
+ * Why: 4xx when the auction state or the input is the problem, 503 when the
+ * settler itself can't act (wrong key, no gas), 5xx for anything unexpected.
+ */
+const HTTP_STATUS: Record<ContractErrorCode, number> = {
+  ROUND_STILL_ACTIVE: 409,
+  WINNER_INSUFFICIENT_COLLATERAL: 409,
+  INSUFFICIENT_COLLATERAL: 422,
+  BID_TOO_LOW: 409,
+  INVALID_BID: 400,
+  INTENT_EXPIRED: 422,
+  INTENT_WRONG_ROUND: 409,
+  INTENT_NONCE_USED: 409,
+  INVALID_SIGNATURE: 400,
+  NOT_SETTLER: 503,
+  NOT_OWNER: 403,
+  INVALID_ARGUMENT: 400,
+  INSUFFICIENT_RENT_POOL: 409,
+  SETTLER_INSUFFICIENT_FUNDS: 503,
+  REVERTED: 500,
+  RPC_ERROR: 502,
+};
+
+/**
+ * A settler write that failed simulation (or the call itself)
+ */
+export class ContractCallError extends Error {
+  readonly code: ContractErrorCode;
+  /** Revert string or custom error name, when the contract gave one */
+  readonly reason: string | null;
+  readonly status: number;
+
+  constructor(code: ContractErrorCode, message: string, reason: string | null = null) {
+    super(message);
+    this.name = 'ContractCallError';
+    this.code = code;
+    this.reason = reason;
+    this.status = HTTP_STATUS[code];
+  }
+}
+
+/**
+ * Decode a viem error into a ContractCallError
+ */
+export function decodeContractError(error: unknown): ContractCallError {
+  if (error instanceof ContractCallError) {
+    return error;
+  }
+
+  if (error instanceof BaseError) {
+    const revert = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+    if (revert instanceof ContractFunctionRevertedError) {
+      const errorName = revert.data?.errorName;
+      if (errorName && CUSTOM_ERRORS[errorName]) {
+        return new ContractCallError(CUSTOM_ERRORS[errorName], `Contract reverted with ${errorName}`, errorName);
+      }
+
+      const reason = revert.reason ?? errorName ?? null;
+      const code = (reason && REVERT_REASONS[reason]) || 'REVERTED';
+      return new ContractCallError(code, reason ?? revert.shortMessage, reason);
+    }
+
+    if (error.walk((cause) => cause instanceof InsufficientFundsError)) {
+      return new ContractCallError('SETTLER_INSUFFICIENT_FUNDS', 'Settler account has insufficient funds for gas');
+    }
+
+    return new ContractCallError('RPC_ERROR', error.shortMessage);
+  }
+
+  return new ContractCallError('RPC_ERROR', error instanceof Error ? error.message : String(error));
+}
+
+type AuctionWriteFunction = ContractFunctionName<typeof AUCTION_ABI, 'nonpayable'>;
+
+/**
+ * Simulate an Auction call from an account and encode it
+ *
+ * @throws ContractCallError if the simulation reverts or the RPC call fails;
+ *         Error if the RPC or contract address is missing
+ */
+async function simulateAuctionCall(
+  account: Account | `0x${string}`,
+  functionName: AuctionWriteFunction,
+  args: readonly unknown[]
+): Promise<{ to: `0x${string}`; data: `0x${string}` }> {
+  const publicClient = getPublicClient();
+  if (!publicClient) {
+    throw new Error('Blockchain client not initialized. RPC_URL required.');
+  }
+
+  if (!AUCTION_CONTRACT_ADDRESS) {
+    throw new Error('Auction contract address not set. AUCTION_CONTRACT_ADDRESS required.');
+  }
+
+  const call = { address: AUCTION_CONTRACT_ADDRESS, abi: AUCTION_ABI, functionName, args } as {
+    address: `0x${string}`;
+    abi: typeof AUCTION_ABI;
+    functionName: AuctionWriteFunction;
+    args: readonly unknown[];
+  };
+
+  try {
+    await publicClient.simulateContract({ ...call, account } as Parameters<typeof publicClient.simulateContract>[0]);
+  } catch (error) {
+    throw decodeContractError(error);
+  }
+
+  return {
+    to: AUCTION_CONTRACT_ADDRESS,
+    data: encodeFunctionData(call as Parameters<typeof encodeFunctionData>[0]),
+  };
+}
+
+/**
+ * Simulate a settler write to the Auction contract, then queue it
+ *
+ * @param label - Short description shown in GET /tx/:hash
+ * @returns The queued transaction
+ * @throws ContractCallError if the simulation reverts or the RPC call fails;
+ *         Error if the TEE account, RPC or contract address is missing
+ */
+export async function writeAuction<F extends AuctionWriteFunction>(
+  label: string,
+  functionName: F,
+  args: ContractFunctionArgs<typeof AUCTION_ABI, 'nonpayable', F>
+): Promise<ManagedTransaction> {
+  const account = getTeeAccount();
+  if (!account) {
+    throw new Error('TEE account not initialized. Check SIGNER_BACKEND and its settings.');
+  }
+
+  const { to, data } = await simulateAuctionCall(account, functionName, args as readonly unknown[]);
+  return submitTransaction({ label, to, data });
+}
+
+/**
+ * Simulate an Auction call as another account and return it unsigned
+ * Why: Owner actions are signed in the owner's own wallet; the server only checks
+ * that they would succeed and builds the calldata.
+ *
+ * @param from - Account the transaction will be sent from
+ * @throws ContractCallError if the simulation reverts or the RPC call fails;
+ *         Error if the RPC or contract address is missing
+ */
+export async function prepareAuctionCall<F extends AuctionWriteFunction>(
+  from: `0x${string}`,
+  functionName: F,
+  args: ContractFunctionArgs<typeof AUCTION_ABI, 'nonpayable', F>
+): Promise<{ to: `0x${string}`; data: `0x${string}` }> {
+  return simulateAuctionCall(from, functionName, args as readonly unknown[]);
+}
@@ -0,0 +1,369 @@
+/**
+ * @file services/EventStore.ts
+ * @description Persistence layer for decoded Auction contract events
+ *
+ * This service stores every decoded Auction (and LeaderFeeHook) log so that counters and history
+ * survive restarts, and remembers the last processed block so the event tracker
+ * can resume where it left off.
+ *
+ * Why this exists:
+ * - In-memory counters reset to zero on every deploy
+ * - Keeps storage details out of the event tracking logic
+ * - Makes the backend pluggable (SQLite by default, in-memory for dev/tests)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { EVENT_STORE, EVENT_STORE_PATH } from '../config/constants';
+import { EventQuery, EventStore, EventTotals, StoredAuctionEvent, TrackedEventName } from '../types';
+
+/**
+ * Active event store instance
+ * Why: Module-level singleton, initialized once at startup like the other services.
+ */
+let eventStore: EventStore | null = null;
+
+/**
+ * Initialize the event store backend selected by EVENT_STORE
+ * Why: Must be called at startup before event listening begins, so historical
+ * totals can be loaded before new events are applied on top of them.
+ */
+export function initializeEventStore(): void {
+  if (eventStore) {
+    return;
+  }
+
+  if (EVENT_STORE === 'memory') {
+    eventStore = createMemoryEventStore();
+    console.log('✅ Event store initialized (in-memory)');
+    return;
+  }
+
+  if (EVENT_STORE !== 'sqlite') {
+    throw new Error(`Unknown EVENT_STORE backend: ${EVENT_STORE}`);
+  }
+
+  eventStore = createSqliteEventStore(EVENT_STORE_PATH);
+  console.log(`✅ Event store initialized (sqlite: ${EVENT_STORE_PATH})`);
+}
+
+/**
+ * Get the event store
+ *
+ * @returns The event store instance, or null if not initialized
+ */
+export function getEventStore(): EventStore | null {
+  return eventStore;
+}
+
+/**
+ * Add an event's amounts to a set of totals (or subtract them when rolling back)
+ * Why: Shared by both backends and the reorg handling so totals are computed identically.
+ *
+ * @param direction - 1 to apply the event, -1 to revert it
+ */
+export function applyEventToTotals(totals: EventTotals, event: StoredAuctionEvent, direction: 1 | -1 = 1): void {
+  const sign = BigInt(direction);
+
+  switch (event.eventName) {
+    case 'CollateralDeposited':
+      totals.totalDeposits += sign * BigInt(event.args.amount);
+      break;
+    case 'CollateralWithdrawn':
+      totals.totalWithdrawals += sign * BigInt(event.args.amount);
+      break;
+    case 'BidPlaced':
+      totals.totalBids += sign * BigInt(event.args.amount);
+      break;
+    case 'RoundResolved':
+      totals.roundsResolved += direction;
+      break;
+    default:
+      break;
+  }
+}
+
+/**
+ * Create empty totals
+ */
+export function emptyTotals(): EventTotals {
+  return { totalDeposits: 0n, totalWithdrawals: 0n, totalBids: 0n, roundsResolved: 0 };
+}
+
+/**
+ * Unique key for a log
+ */
+function eventKey(event: Pick<StoredAuctionEvent, 'blockNumber' | 'logIndex'>): string {
+  return `${event.blockNumber}:${event.logIndex}`;
+}
+
+/**
+ * Compare two events by chain position
+ */
+function compareEvents(a: StoredAuctionEvent, b: StoredAuctionEvent): number {
+  if (a.blockNumber !== b.blockNumber) {
+    return a.blockNumber < b.blockNumber ? -1 : 1;
+  }
+  return a.logIndex - b.logIndex;
+}
+
+/**
+ * Check an event against a query's filters (everything except order and limit)
+ */
+function matchesQuery(event: StoredAuctionEvent, query: EventQuery): boolean {
+  if (query.eventName && event.eventName !== query.eventName) return false;
+  if (query.fromBlock !== undefined && event.blockNumber < query.fromBlock) return false;
+  if (query.toBlock !== undefined && event.blockNumber > query.toBlock) return false;
+  if (query.fromTimestamp !== undefined && (event.timestamp === null || event.timestamp < query.fromTimestamp)) return false;
+  if (query.toTimestamp !== undefined && (event.timestamp === null || event.timestamp > query.toTimestamp)) return false;
+
+  for (const [key, value] of Object.entries(query.args ?? {})) {
+    if (event.args[key] !== value) return false;
+  }
+
+  if (query.after) {
+    const position = compareEvents(event, { ...event, ...query.after });
+    if (query.order === 'desc' ? position >= 0 : position <= 0) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Create an in-memory event store
+ * Why: Useful for local development and tests where persistence isn't wanted.
+ */
+export function createMemoryEventStore(): EventStore {
+  const events = new Map<string, StoredAuctionEvent>();
+  let lastProcessedBlock: bigint | null = null;
+
+  const sorted = () => [...events.values()].sort(compareEvents);
+
+  return {
+    async saveEvents(newEvents) {
+      const inserted: StoredAuctionEvent[] = [];
+      for (const event of newEvents) {
+        const key = eventKey(event);
+        if (!events.has(key)) {
+          events.set(key, event);
+          inserted.push(event);
+        }
+      }
+      return inserted;
+    },
+
+    async deleteEventsFrom(blockNumber) {
+      const removed = sorted().filter((event) => event.blockNumber >= blockNumber);
+      for (const event of removed) {
+        events.delete(eventKey(event));
+      }
+      return removed;
+    },
+
+    async getEvents(query = {}) {
+      const matches = sorted().filter((event) => matchesQuery(event, query));
+      if (query.order === 'desc') {
+        matches.reverse();
+      }
+      return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+    },
+
+    async getTotals() {
+      const totals = emptyTotals();
+      for (const event of events.values()) {
+        applyEventToTotals(totals, event);
+      }
+      return totals;
+    },
+
+    async getLastProcessedBlock() {
+      return lastProcessedBlock;
+    },
+
+    async setLastProcessedBlock(blockNumber) {
+      lastProcessedBlock = blockNumber;
+    },
+
+    async close() {
+      events.clear();
+    },
+  };
+}
+
+/**
+ * Row shape of the auction_events table
+ */
+interface EventRow {
+  block_number: string;
+  log_index: number;
+  block_hash: `0x${string}`;
+  transaction_hash: `0x${string}`;
+  event_name: TrackedEventName;
+  block_timestamp: number | null;
+  args: string;
+}
+
+function rowToEvent(row: EventRow): StoredAuctionEvent {
+  return {
+    eventName: row.event_name,
+    blockNumber: BigInt(row.block_number),
+    logIndex: row.log_index,
+    blockHash: row.block_hash,
+    transactionHash: row.transaction_hash,
+    timestamp: row.block_timestamp,
+    args: JSON.parse(row.args),
+  };
+}
+
+/**
+ * Create a SQLite-backed event store
+ * Why: SQLite needs no separate server, which suits a single TEE container, and a
+ * file on a mounted volume survives redeploys.
+ *
+ * Block numbers are stored as zero-padded text so they sort correctly and never
+ * lose precision.
+ *
+ * @param dbPath - Path to the database file (created if missing)
+ */
+export function createSqliteEventStore(dbPath: string): EventStore {
+  fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS auction_events (
+      block_number TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      transaction_hash TEXT NOT NULL,
+      event_name TEXT NOT NULL,
+      args TEXT NOT NULL,
+      PRIMARY KEY (block_number, log_index)
+    );
+    CREATE INDEX IF NOT EXISTS auction_events_name ON auction_events (event_name);
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+  `);
+
+  // Databases created before timestamps were recorded lack this column
+  const columns = db.prepare('PRAGMA table_info(auction_events)').all() as { name: string }[];
+  if (!columns.some((column) => column.name === 'block_timestamp')) {
+    db.exec('ALTER TABLE auction_events ADD COLUMN block_timestamp INTEGER');
+  }
+  db.exec('CREATE INDEX IF NOT EXISTS auction_events_timestamp ON auction_events (block_timestamp)');
+
+  const padBlock = (blockNumber: bigint) => blockNumber.toString().padStart(20, '0');
+
+  const insertEvent = db.prepare(`
+    INSERT OR IGNORE INTO auction_events (block_number, log_index, block_hash, transaction_hash, event_name, block_timestamp, args)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const selectMeta = db.prepare('SELECT value FROM meta WHERE key = ?');
+  const upsertMeta = db.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value');
+
+  const insertMany = db.transaction((events: StoredAuctionEvent[]) => {
+    const inserted: StoredAuctionEvent[] = [];
+    for (const event of events) {
+      const result = insertEvent.run(
+        padBlock(event.blockNumber),
+        event.logIndex,
+        event.blockHash,
+        event.transactionHash,
+        event.eventName,
+        event.timestamp,
+        JSON.stringify(event.args)
+      );
+      if (result.changes > 0) {
+        inserted.push(event);
+      }
+    }
+    return inserted;
+  });
+
+  const deleteFrom = db.transaction((blockNumber: bigint) => {
+    const rows = db
+      .prepare('SELECT * FROM auction_events WHERE block_number >= ? ORDER BY block_number, log_index')
+      .all(padBlock(blockNumber)) as EventRow[];
+    db.prepare('DELETE FROM auction_events WHERE block_number >= ?').run(padBlock(blockNumber));
+    return rows.map(rowToEvent);
+  });
+
+  return {
+    async saveEvents(events) {
+      return insertMany(events);
+    },
+
+    async deleteEventsFrom(blockNumber) {
+      return deleteFrom(blockNumber);
+    },
+
+    async getEvents(query = {}) {
+      const clauses: string[] = [];
+      const params: (string | number)[] = [];
+      const direction = query.order === 'desc' ? 'DESC' : 'ASC';
+
+      if (query.eventName) {
+        clauses.push('event_name = ?');
+        params.push(query.eventName);
+      }
+      if (query.fromBlock !== undefined) {
+        clauses.push('block_number >= ?');
+        params.push(padBlock(query.fromBlock));
+      }
+      if (query.toBlock !== undefined) {
+        clauses.push('block_number <= ?');
+        params.push(padBlock(query.toBlock));
+      }
+      if (query.fromTimestamp !== undefined) {
+        clauses.push('block_timestamp >= ?');
+        params.push(query.fromTimestamp);
+      }
+      if (query.toTimestamp !== undefined) {
+        clauses.push('block_timestamp <= ?');
+        params.push(query.toTimestamp);
+      }
+      for (const [key, value] of Object.entries(query.args ?? {})) {
+        clauses.push('json_extract(args, ?) = ?');
+        params.push(`$.${key}`, value);
+      }
+      if (query.after) {
+        const op = direction === 'DESC' ? '<' : '>';
+        clauses.push(`(block_number ${op} ? OR (block_number = ? AND log_index ${op} ?))`);
+        params.push(padBlock(query.after.blockNumber), padBlock(query.after.blockNumber), query.after.logIndex);
+      }
+
+      const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+      const limit = query.limit !== undefined ? `LIMIT ${Math.floor(query.limit)}` : '';
+      const rows = db
+        .prepare(`SELECT * FROM auction_events ${where} ORDER BY block_number ${direction}, log_index ${direction} ${limit}`)
+        .all(...params) as EventRow[];
+
+      return rows.map(rowToEvent);
+    },
+
+    async getTotals() {
+      const totals = emptyTotals();
+      const rows = db.prepare('SELECT * FROM auction_events').all() as EventRow[];
+      for (const row of rows) {
+        applyEventToTotals(totals, rowToEvent(row));
+      }
+      return totals;
+    },
+
+    async getLastProcessedBlock() {
+      const row = selectMeta.get('lastProcessedBlock') as { value: string } | undefined;
+      return row ? BigInt(row.value) : null;
+    },
+
+    async setLastProcessedBlock(blockNumber) {
+      upsertMeta.run('lastProcessedBlock', blockNumber.toString());
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+}
@@ -2,29 +2,68 @@
  * @file services/EventTrackingService.ts
  * @description Event tracking service for Auction contract events
  * 
- * This service listens to blockchain events emitted by the Auction contract and
- * maintains in-memory counters of deposits, bids, and round resolutions.
+ * This service listens to blockchain events emitted by the Auction contract,
+ * persists them through the event store once they have enough confirmations,
+ * and maintains counters of deposits, bids, and round resolutions. Events that
+ * are not yet confirmed are reported separately as "pending".
+ *
+ * Logs of every LeaderFeeHook the Auction has pointed at (found through
+ * HookUpdated and Auction.hook()) are indexed the same way, for fee analytics.
  */
 
-import { parseAbi, PublicClient } from 'viem';
-import { AUCTION_CONTRACT_ADDRESS } from '../config/constants';
+import { PublicClient, zeroAddress } from 'viem';
+import { AUCTION_ABI, LEADER_FEE_HOOK_ABI } from '../../contracts/src';
+import {
+  AUCTION_CONTRACT_ADDRESS,
+  AUCTION_DEPLOYMENT_BLOCK,
+  EVENT_BACKFILL_CHUNK_SIZE,
+  EVENT_CONFIRMATIONS,
+  EVENT_REORG_LOOKBACK,
+} from '../config/constants';
+import { EventStore, EventTotals, StoredAuctionEvent, TrackedEventName } from '../types';
 import { getPublicClient } from './BlockchainService';
+import { applyEventToTotals, createMemoryEventStore, emptyTotals, getEventStore } from './EventStore';
+import { publishFeedEvent } from './LiveFeedService';
 
 /**
- * Auction contract ABI (events and functions we use)
+ * Combined ABI used to decode logs of the Auction and its hooks in one request
  */
-const AUCTION_ABI = parseAbi([
-  'event CollateralDeposited(address indexed user, uint256 amount, uint256 totalCollateral)',
-  'event CollateralWithdrawn(address indexed user, uint256 amount, uint256 totalCollateral)',
-  'event BidPlaced(address indexed bidder, uint256 amount, uint256 forRound)',
-  'event RoundResolved(uint256 indexed round, address indexed winner, uint256 pricePaid, uint256 winningBid)',
-  'event LeadershipExpired(address indexed previousLeader, uint256 round)',
-  'function resolveRound() external',
-  'function currentRoundStart() external view returns (uint256)',
-]);
+const TRACKED_ABI = [...AUCTION_ABI, ...LEADER_FEE_HOOK_ABI];
+
+/**
+ * Events persisted by the event store
+ */
+const TRACKED_EVENTS: TrackedEventName[] = [
+  'CollateralDeposited',
+  'CollateralWithdrawn',
+  'BidPlaced',
+  'RoundResolved',
+  'SealedBidsSettled',
+  'LeadershipExpired',
+  'RentCollected',
+  'HookUpdated',
+  'LeaderUpdated',
+  'FeeUpdated',
+  'FeeAccumulated',
+  'FeesWithdrawn',
+];
+
+/**
+ * Every hook the Auction has pointed at
+ * Why: Fees keep accruing (and being withdrawn) on an old hook after setHook(),
+ * so its logs stay indexed alongside the current one.
+ */
+const hookAddresses = new Set<`0x${string}`>();
+
+/**
+ * Stops the pending-log watcher (restarted when a new hook is found)
+ */
+let unwatchLogs: (() => void) | null = null;
 
 /**
  * In-memory event counters
+ * Why: Seeded from the event store at startup so totals survive restarts, then kept
+ * up to date as new events arrive so stats routes don't hit the database.
  */
 let totalDeposits = 0n;
 let totalWithdrawals = 0n;
@@ -36,8 +75,524 @@ let roundsResolved = 0;
  */
 let eventWatchStarted = false;
 
+/**
+ * Store used for persistence (falls back to in-memory if none was initialized)
+ */
+let store: EventStore | null = null;
+
+/**
+ * Decoded log fields we rely on
+ * Why: viem's log type is a large generic union; this is the subset that both
+ * getContractEvents and watchContractEvent return for our ABI.
+ */
+interface DecodedAuctionLog {
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint | null;
+  logIndex: number | null;
+  blockHash: `0x${string}` | null;
+  transactionHash: `0x${string}` | null;
+}
+
+/**
+ * Convert a decoded log into a storable event
+ *
+ * @returns The event, or null for pending logs and events we don't track
+ */
+function toStoredEvent(log: DecodedAuctionLog): StoredAuctionEvent | null {
+  if (!TRACKED_EVENTS.includes(log.eventName as TrackedEventName)) {
+    return null;
+  }
+
+  if (log.blockNumber === null || log.logIndex === null || !log.blockHash || !log.transactionHash) {
+    return null;
+  }
+
+  const args: Record<string, string> = {};
+  for (const [key, value] of Object.entries(log.args)) {
+    args[key] = typeof value === 'string' ? value.toLowerCase() : String(value);
+  }
+
+  return {
+    eventName: log.eventName as TrackedEventName,
+    blockNumber: log.blockNumber,
+    logIndex: log.logIndex,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    timestamp: null,
+    args,
+  };
+}
+
+/**
+ * Push an event to the live feed
+ *
+ * @param status - pending (seen, not yet confirmed), confirmed, or removed (reorged out)
+ */
+function publishEvent(event: StoredAuctionEvent, status: 'pending' | 'confirmed' | 'removed'): void {
+  publishFeedEvent('auction-event', {
+    status,
+    eventName: event.eventName,
+    blockNumber: event.blockNumber.toString(),
+    logIndex: event.logIndex,
+    blockHash: event.blockHash,
+    transactionHash: event.transactionHash,
+    timestamp: event.timestamp,
+    args: event.args,
+  });
+}
+
+/**
+ * Push the current totals to the live feed
+ */
+function publishStats(): void {
+  publishFeedEvent('stats', {
+    deposits: getTotalDeposits(),
+    withdrawals: getTotalWithdrawals(),
+    bids: getTotalBids(),
+    rounds: getRoundsResolved(),
+  });
+}
+
+/**
+ * Apply a newly stored event to the in-memory counters
+ */
+function applyEvent(event: StoredAuctionEvent): void {
+  const totals = { totalDeposits, totalWithdrawals, totalBids, roundsResolved };
+  applyEventToTotals(totals, event);
+  ({ totalDeposits, totalWithdrawals, totalBids, roundsResolved } = totals);
+
+  switch (event.eventName) {
+    case 'CollateralDeposited':
+      console.log(`📥 Deposit event: ${event.args.amount} wei from ${event.args.user}`);
+      break;
+    case 'CollateralWithdrawn':
+      console.log(`📤 Withdrawal event: ${event.args.amount} wei from ${event.args.user}`);
+      break;
+    case 'BidPlaced':
+      console.log(`🎯 Bid event: ${event.args.amount} wei from ${event.args.bidder} for round ${event.args.forRound}`);
+      break;
+    case 'RoundResolved':
+      console.log(`🏆 Round ${event.args.round} resolved: winner=${event.args.winner}, paid=${event.args.pricePaid}`);
+      break;
+    case 'SealedBidsSettled':
+      console.log(`🔓 Sealed bids settled for round ${event.args.forRound}: ${event.args.winningBid} wei from ${event.args.winner}`);
+      break;
+    case 'LeadershipExpired':
+      console.log(`⌛ Leadership expired: ${event.args.previousLeader} (round ${event.args.round})`);
+      break;
+    case 'RentCollected':
+      console.log(`🏠 Rent collected: ${event.args.amount} wei from ${event.args.from}`);
+      break;
+    case 'HookUpdated':
+      console.log(`🪝 Hook updated: ${event.args.oldHook} -> ${event.args.newHook}`);
+      break;
+    case 'FeeUpdated':
+      console.log(`⚙️  Fee updated: ${event.args.leader} set ${event.args.fee}`);
+      break;
+    case 'FeeAccumulated':
+      console.log(`💰 Hook fee: ${event.args.amount} of ${event.args.token} for ${event.args.leader}`);
+      break;
+    case 'FeesWithdrawn':
+      console.log(`💸 Hook fees withdrawn: ${event.args.amount} of ${event.args.token} by ${event.args.leader}`);
+      break;
+  }
+}
+
+/**
+ * Unconfirmed log buffer, keyed by block hash
+ * Why: Logs newer than EVENT_CONFIRMATIONS blocks can still be reorged out. They are
+ * kept here (and reported as "pending") instead of being counted. When the same
+ * block number shows up under a different hash, the old entry is discarded.
+ */
+const unconfirmedBlocks = new Map<`0x${string}`, { blockNumber: bigint; events: StoredAuctionEvent[] }>();
+
+/**
+ * Highest block whose events have been persisted
+ */
+let confirmedHead: bigint | null = null;
+
+/**
+ * Flag to prevent overlapping confirmation passes
+ */
+let syncInProgress = false;
+
+/**
+ * Lowest persisted block the live watcher reported as removed, if any
+ * Why: Rolling back from the watcher callback would race a running confirmation
+ * pass (which may be persisting those very blocks), so the rollback is left for
+ * the next pass to perform under the syncInProgress guard.
+ */
+let pendingRollbackBlock: bigint | null = null;
+
+/**
+ * Hashes of the blocks seen by the block watcher, by number
+ * Why: Each new block's parentHash is compared with the hash recorded for its
+ * parent, so a reorg only costs getBlock calls when one actually happened. Kept
+ * for EVENT_REORG_LOOKBACK blocks below the confirmed head; older reorgs go unseen.
+ */
+const recentBlockHashes = new Map<bigint, `0x${string}`>();
+
+/**
+ * Tail of the block checks
+ * Why: A walk back after a reorg awaits the node; the next block must not be
+ * compared against hashes that are about to be replaced.
+ */
+let blockCheckQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Persist decoded logs and update counters for the ones not seen before
+ * Why: Backfill passes can overlap; the store ignores duplicates so each log is
+ * only counted once.
+ */
+async function processLogs(publicClient: PublicClient, logs: DecodedAuctionLog[]): Promise<void> {
+  if (!store) {
+    return;
+  }
+
+  const events = logs
+    .map(toStoredEvent)
+    .filter((event): event is StoredAuctionEvent => event !== null);
+
+  if (events.length === 0) {
+    return;
+  }
+
+  // Logs don't carry a timestamp; fetch each distinct block once
+  const timestamps = new Map<`0x${string}`, number>();
+  for (const event of events) {
+    if (!timestamps.has(event.blockHash)) {
+      const block = await publicClient.getBlock({ blockHash: event.blockHash });
+      timestamps.set(event.blockHash, Number(block.timestamp));
+    }
+    event.timestamp = timestamps.get(event.blockHash)!;
+  }
+
+  const inserted = await store.saveEvents(events);
+  for (const event of inserted) {
+    applyEvent(event);
+    publishEvent(event, 'confirmed');
+  }
+
+  if (inserted.length > 0) {
+    publishStats();
+  }
+}
+
+/**
+ * Backfill historical events in chunks of EVENT_BACKFILL_CHUNK_SIZE blocks
+ * Why: Public RPCs limit the block range of eth_getLogs, so a full history scan
+ * has to be split up. Progress is saved after every chunk so an interrupted
+ * backfill resumes instead of starting over.
+ */
+async function backfillEvents(publicClient: PublicClient, fromBlock: bigint, toBlock: bigint): Promise<void> {
+  if (!store || !AUCTION_CONTRACT_ADDRESS || fromBlock > toBlock) {
+    return;
+  }
+
+  const isCatchUp = toBlock - fromBlock < EVENT_BACKFILL_CHUNK_SIZE;
+  if (!isCatchUp) {
+    console.log(`⏪ Backfilling Auction events from block ${fromBlock} to ${toBlock}`);
+  }
+
+  for (let start = fromBlock; start <= toBlock; start += EVENT_BACKFILL_CHUNK_SIZE) {
+    const end = start + EVENT_BACKFILL_CHUNK_SIZE - 1n < toBlock ? start + EVENT_BACKFILL_CHUNK_SIZE - 1n : toBlock;
+
+    const logs = (await publicClient.getContractEvents({
+      address: [AUCTION_CONTRACT_ADDRESS, ...hookAddresses],
+      abi: TRACKED_ABI,
+      fromBlock: start,
+      toBlock: end,
+    })) as unknown as DecodedAuctionLog[];
+
+    // A hook set within this chunk may already have logs in it
+    const newHooks = findNewHooks(logs);
+    if (newHooks.length > 0) {
+      const hookLogs = await publicClient.getContractEvents({
+        address: newHooks,
+        abi: TRACKED_ABI,
+        fromBlock: start,
+        toBlock: end,
+      });
+      logs.push(...(hookLogs as unknown as DecodedAuctionLog[]));
+      newHooks.forEach((hook) => hookAddresses.add(hook));
+      watchLogs(publicClient, end + 1n);
+    }
+
+    await processLogs(publicClient, logs);
+    await store.setLastProcessedBlock(end);
+    confirmedHead = end;
+  }
+
+  if (!isCatchUp) {
+    console.log('✅ Backfill complete');
+  }
+}
+
+/**
+ * Hooks set by HookUpdated logs that aren't indexed yet
+ */
+function findNewHooks(logs: DecodedAuctionLog[]): `0x${string}`[] {
+  const found = new Set<`0x${string}`>();
+  for (const log of logs) {
+    if (log.eventName !== 'HookUpdated') {
+      continue;
+    }
+
+    const newHook = String(log.args.newHook).toLowerCase() as `0x${string}`;
+    if (newHook !== zeroAddress && !hookAddresses.has(newHook)) {
+      found.add(newHook);
+    }
+  }
+  return [...found];
+}
+
+/**
+ * (Re)start the watcher that buffers new logs of the Auction and its hooks
+ */
+function watchLogs(publicClient: PublicClient, fromBlock: bigint): void {
+  if (!AUCTION_CONTRACT_ADDRESS || !eventWatchStarted) {
+    return;
+  }
+
+  unwatchLogs?.();
+  unwatchLogs = publicClient.watchContractEvent({
+    address: [AUCTION_CONTRACT_ADDRESS, ...hookAddresses],
+    abi: TRACKED_ABI,
+    fromBlock,
+    onLogs: (logs) => bufferLogs(logs as unknown as DecodedAuctionLog[]),
+    onError: (error) => {
+      console.error('❌ Auction event watcher error:', error);
+    },
+  });
+}
+
+/**
+ * Roll back persisted events from a block onwards
+ * Why: A reorg deeper than EVENT_CONFIRMATIONS invalidates events we already
+ * counted. Removing them and rewinding the last processed block lets the next
+ * confirmation pass re-fetch the canonical logs for those blocks.
+ */
+async function rollbackFrom(blockNumber: bigint): Promise<void> {
+  if (!store) {
+    return;
+  }
+
+  const removed = await store.deleteEventsFrom(blockNumber);
+  const totals = { totalDeposits, totalWithdrawals, totalBids, roundsResolved };
+  for (const event of removed) {
+    applyEventToTotals(totals, event, -1);
+  }
+  ({ totalDeposits, totalWithdrawals, totalBids, roundsResolved } = totals);
+
+  confirmedHead = blockNumber - 1n;
+  await store.setLastProcessedBlock(confirmedHead);
+
+  for (const event of removed) {
+    publishEvent(event, 'removed');
+  }
+  publishStats();
+
+  console.warn(`♻️  Reorg detected at block ${blockNumber}: rolled back ${removed.length} persisted events`);
+}
+
+/**
+ * Check persisted blocks against the canonical chain
+ * Why: Only run at startup, when the block hashes seen before the restart are gone.
+ *
+ * @returns The first block whose stored hash no longer matches, or null
+ */
+async function findReorgedStoredBlock(publicClient: PublicClient, head: bigint): Promise<bigint | null> {
+  if (!store) {
+    return null;
+  }
+
+  const fromBlock = head > EVENT_REORG_LOOKBACK ? head - EVENT_REORG_LOOKBACK : 0n;
+  const recentEvents = await store.getEvents({ fromBlock, toBlock: head });
+
+  const storedHashes = new Map<bigint, `0x${string}`>();
+  for (const event of recentEvents) {
+    storedHashes.set(event.blockNumber, event.blockHash);
+  }
+
+  for (const [blockNumber, blockHash] of storedHashes) {
+    const block = await publicClient.getBlock({ blockNumber });
+    if (block.hash !== blockHash) {
+      return blockNumber;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Walk back from a block whose recorded hash is no longer canonical
+ *
+ * @param blockNumber - Block whose recorded hash differs from `canonicalHash`
+ * @returns The first reorged block (the oldest recorded one if the reorg is deeper)
+ */
+async function findReorgedBlock(
+  publicClient: PublicClient,
+  blockNumber: bigint,
+  canonicalHash: `0x${string}`
+): Promise<bigint> {
+  let number = blockNumber;
+  let hash = canonicalHash;
+
+  while (recentBlockHashes.has(number) && recentBlockHashes.get(number) !== hash) {
+    recentBlockHashes.set(number, hash);
+    hash = (await publicClient.getBlock({ blockHash: hash })).parentHash;
+    number -= 1n;
+  }
+
+  return number + 1n;
+}
+
+/**
+ * Record a new block and queue a rollback if it doesn't extend the blocks seen before
+ */
+async function checkBlock(
+  publicClient: PublicClient,
+  block: { number: bigint | null; hash: `0x${string}` | null; parentHash: `0x${string}` }
+): Promise<void> {
+  if (block.number === null || block.hash === null) {
+    return;
+  }
+
+  const parentNumber = block.number - 1n;
+  const parentHash = recentBlockHashes.get(parentNumber);
+  if (parentHash !== undefined && parentHash !== block.parentHash) {
+    const reorgedBlock = await findReorgedBlock(publicClient, parentNumber, block.parentHash);
+    console.warn(`♻️  Block ${block.number} doesn't extend the chain seen so far; reorged from block ${reorgedBlock}`);
+
+    // Left for the next confirmation pass, like removals reported by the log watcher
+    if (confirmedHead !== null && reorgedBlock <= confirmedHead) {
+      if (pendingRollbackBlock === null || reorgedBlock < pendingRollbackBlock) {
+        pendingRollbackBlock = reorgedBlock;
+      }
+    }
+  }
+
+  // Blocks above this one were on the abandoned branch
+  const oldest = block.number - EVENT_CONFIRMATIONS - EVENT_REORG_LOOKBACK;
+  for (const number of recentBlockHashes.keys()) {
+    if (number > block.number || number < oldest) {
+      recentBlockHashes.delete(number);
+    }
+  }
+  recentBlockHashes.set(block.number, block.hash);
+}
+
+/**
+ * Buffer logs delivered by the live watcher until they are confirmed
+ */
+function bufferLogs(logs: (DecodedAuctionLog & { removed?: boolean })[]): void {
+  let changed = false;
+
+  for (const log of logs) {
+    const event = toStoredEvent(log);
+    if (!event) {
+      continue;
+    }
+
+    // Log removed by the node: drop it, or roll back if it was already persisted
+    if (log.removed) {
+      const entry = unconfirmedBlocks.get(event.blockHash);
+      if (entry) {
+        entry.events = entry.events.filter((e) => e.logIndex !== event.logIndex);
+        publishEvent(event, 'removed');
+        changed = true;
+      }
+      if (confirmedHead !== null && event.blockNumber <= confirmedHead) {
+        if (pendingRollbackBlock === null || event.blockNumber < pendingRollbackBlock) {
+          pendingRollbackBlock = event.blockNumber;
+        }
+      }
+      continue;
+    }
+
+    // Already confirmed through getLogs
+    if (confirmedHead !== null && event.blockNumber <= confirmedHead) {
+      continue;
+    }
+
+    // Same height, different hash: the previously seen block was reorged out
+    for (const [blockHash, entry] of unconfirmedBlocks) {
+      if (entry.blockNumber === event.blockNumber && blockHash !== event.blockHash) {
+        unconfirmedBlocks.delete(blockHash);
+        entry.events.forEach((e) => publishEvent(e, 'removed'));
+        console.warn(`♻️  Block ${event.blockNumber} replaced (${blockHash} -> ${event.blockHash}), dropping pending events`);
+      }
+    }
+
+    const entry = unconfirmedBlocks.get(event.blockHash) ?? { blockNumber: event.blockNumber, events: [] };
+    if (!entry.events.some((e) => e.logIndex === event.logIndex)) {
+      entry.events.push(event);
+      publishEvent(event, 'pending');
+      changed = true;
+    }
+    unconfirmedBlocks.set(event.blockHash, entry);
+  }
+
+  if (changed) {
+    publishStats();
+  }
+}
+
+/**
+ * Confirmation pass, run on every new block
+ * Why: Confirmed events are always re-read with getLogs at EVENT_CONFIRMATIONS
+ * depth rather than promoted from the buffer, so a log that was reorged out while
+ * pending can never be counted.
+ */
+async function syncConfirmed(publicClient: PublicClient, latestBlock: bigint): Promise<void> {
+  if (syncInProgress || !store || confirmedHead === null) {
+    return;
+  }
+
+  syncInProgress = true;
+  try {
+    const targetHead = latestBlock > EVENT_CONFIRMATIONS ? latestBlock - EVENT_CONFIRMATIONS : 0n;
+
+    // Reorgs reported by the log watcher or found by checkBlock() since the last pass
+    const rollbackBlock = pendingRollbackBlock;
+    if (rollbackBlock !== null && rollbackBlock <= confirmedHead) {
+      await rollbackFrom(rollbackBlock);
+    }
+    // Kept on failure so the next pass retries; reorgs reported meanwhile stay queued
+    if (pendingRollbackBlock !== null && rollbackBlock !== null && pendingRollbackBlock >= rollbackBlock) {
+      pendingRollbackBlock = null;
+    }
+
+    if (targetHead > confirmedHead) {
+      await backfillEvents(publicClient, confirmedHead + 1n, targetHead);
+    }
+
+    // Anything at or below the confirmed head is now covered by the store
+    let pruned = false;
+    for (const [blockHash, entry] of unconfirmedBlocks) {
+      if (entry.blockNumber <= confirmedHead) {
+        unconfirmedBlocks.delete(blockHash);
+        pruned = pruned || entry.events.length > 0;
+      }
+    }
+    if (pruned) {
+      publishStats();
+    }
+  } catch (error) {
+    console.error('❌ Failed to confirm Auction events:', error);
+  } finally {
+    syncInProgress = false;
+  }
+}
+
 /**
  * Start listening to Auction contract events
+ *
+ * On startup this loads persisted totals and backfills anything missed since the
+ * last processed block (or since AUCTION_DEPLOYMENT_BLOCK on first run) up to
+ * the confirmed head. New logs are then buffered as pending, and each new block
+ * confirms the blocks that have reached EVENT_CONFIRMATIONS depth.
  */
 export async function startEventListening(): Promise<void> {
   const publicClient = getPublicClient();
@@ -55,63 +610,71 @@ export async function startEventListening(): Promise<void> {
   try {
     console.log(`🔍 Starting event listening for Auction contract: ${AUCTION_CONTRACT_ADDRESS}`);
 
-    // Watch for CollateralDeposited events
-    publicClient.watchContractEvent({
-      address: AUCTION_CONTRACT_ADDRESS,
-      abi: AUCTION_ABI,
-      eventName: 'CollateralDeposited',
-      onLogs: (logs) => {
-        for (const log of logs) {
-          const amount = log.args.amount as bigint;
-          totalDeposits += amount;
-          console.log(`📥 Deposit event: ${amount} wei from ${log.args.user}`);
-        }
-      },
-    });
+    store = getEventStore();
+    if (!store) {
+      console.warn('⚠️  Event store not initialized - events will only be kept in memory');
+      store = createMemoryEventStore();
+    }
 
-    // Watch for CollateralWithdrawn events
-    publicClient.watchContractEvent({
-      address: AUCTION_CONTRACT_ADDRESS,
-      abi: AUCTION_ABI,
-      eventName: 'CollateralWithdrawn',
-      onLogs: (logs) => {
-        for (const log of logs) {
-          const amount = log.args.amount as bigint;
-          totalWithdrawals += amount;
-          console.log(`📤 Withdrawal event: ${amount} wei from ${log.args.user}`);
-        }
-      },
-    });
+    // Load persisted totals
+    ({ totalDeposits, totalWithdrawals, totalBids, roundsResolved } = await store.getTotals());
 
-    // Watch for BidPlaced events
-    publicClient.watchContractEvent({
+    // Index every hook seen so far, plus the current one (it may predate AUCTION_DEPLOYMENT_BLOCK)
+    for (const event of await store.getEvents({ eventName: 'HookUpdated' })) {
+      if (event.args.newHook !== zeroAddress) {
+        hookAddresses.add(event.args.newHook as `0x${string}`);
+      }
+    }
+    const currentHook = await publicClient.readContract({
       address: AUCTION_CONTRACT_ADDRESS,
       abi: AUCTION_ABI,
-      eventName: 'BidPlaced',
-      onLogs: (logs) => {
-        for (const log of logs) {
-          const amount = log.args.amount as bigint;
-          totalBids += amount;
-          console.log(`🎯 Bid event: ${amount} wei from ${log.args.bidder} for round ${log.args.forRound}`);
-        }
-      },
+      functionName: 'hook',
     });
+    if (currentHook !== zeroAddress) {
+      hookAddresses.add(currentHook.toLowerCase() as `0x${string}`);
+    }
 
-    // Watch for RoundResolved events
-    publicClient.watchContractEvent({
-      address: AUCTION_CONTRACT_ADDRESS,
-      abi: AUCTION_ABI,
-      eventName: 'RoundResolved',
-      onLogs: (logs) => {
-        for (const log of logs) {
-          roundsResolved += 1;
-          console.log(`🏆 Round ${log.args.round} resolved: winner=${log.args.winner}, paid=${log.args.pricePaid}`);
-        }
+    // Resume from the last processed block, or backfill from deployment
+    const latestBlock = await publicClient.getBlockNumber();
+    const targetHead = latestBlock > EVENT_CONFIRMATIONS ? latestBlock - EVENT_CONFIRMATIONS : 0n;
+    confirmedHead = await store.getLastProcessedBlock();
+
+    // Blocks persisted before a restart may have been reorged out while we were down
+    const reorgedBlock = confirmedHead !== null ? await findReorgedStoredBlock(publicClient, confirmedHead) : null;
+    if (reorgedBlock !== null) {
+      await rollbackFrom(reorgedBlock);
+    }
+
+    const backfillFrom = confirmedHead !== null ? confirmedHead + 1n : AUCTION_DEPLOYMENT_BLOCK;
+    if (backfillFrom !== null) {
+      await backfillEvents(publicClient, backfillFrom, targetHead);
+    }
+    if (confirmedHead === null || confirmedHead < targetHead) {
+      confirmedHead = targetHead;
+      await store.setLastProcessedBlock(targetHead);
+    }
+
+    // Buffer new logs as pending until they are confirmed
+    eventWatchStarted = true;
+    watchLogs(publicClient, confirmedHead + 1n);
+
+    // Check each block extends the last, then confirm buffered blocks as the chain advances
+    publicClient.watchBlocks({
+      emitMissed: true,
+      onBlock: (block) => {
+        blockCheckQueue = blockCheckQueue
+          .then(() => checkBlock(publicClient, block))
+          .catch((error) => console.error('❌ Failed to check block for reorgs:', error))
+          .then(() => syncConfirmed(publicClient, block.number));
+      },
+      onError: (error) => {
+        console.error('❌ Block watcher error:', error);
       },
     });
 
-    eventWatchStarted = true;
-    console.log('✅ Auction event listening started');
+    console.log(
+      `✅ Auction event listening started (${EVENT_CONFIRMATIONS} confirmations, ${hookAddresses.size} hook${hookAddresses.size === 1 ? '' : 's'})`
+    );
   } catch (error) {
     console.error('❌ Failed to start event listening:', error);
     throw error;
@@ -119,32 +682,54 @@ export async function startEventListening(): Promise<void> {
 }
 
 /**
- * Get total deposits since server started
+ * Totals of events still waiting for confirmations
+ */
+function getPendingTotals(): EventTotals {
+  const totals = emptyTotals();
+  for (const entry of unconfirmedBlocks.values()) {
+    for (const event of entry.events) {
+      applyEventToTotals(totals, event);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Get total deposits
  */
 export function getTotalDeposits() {
+  const pending = getPendingTotals();
   return {
     totalDeposits: totalDeposits.toString(),
     totalDepositsEth: (Number(totalDeposits) / 1e18).toFixed(18),
+    pendingDeposits: pending.totalDeposits.toString(),
+    pendingDepositsEth: (Number(pending.totalDeposits) / 1e18).toFixed(18),
   };
 }
 
 /**
- * Get total withdrawals since server started
+ * Get total withdrawals
  */
 export function getTotalWithdrawals() {
+  const pending = getPendingTotals();
   return {
     totalWithdrawals: totalWithdrawals.toString(),
     totalWithdrawalsEth: (Number(totalWithdrawals) / 1e18).toFixed(18),
+    pendingWithdrawals: pending.totalWithdrawals.toString(),
+    pendingWithdrawalsEth: (Number(pending.totalWithdrawals) / 1e18).toFixed(18),
   };
 }
 
 /**
- * Get total bids since server started
+ * Get total bids
  */
 export function getTotalBids() {
+  const pending = getPendingTotals();
   return {
     totalBids: totalBids.toString(),
     totalBidsEth: (Number(totalBids) / 1e18).toFixed(18),
+    pendingBids: pending.totalBids.toString(),
+    pendingBidsEth: (Number(pending.totalBids) / 1e18).toFixed(18),
   };
 }
 
@@ -152,10 +737,8 @@ export function getTotalBids() {
  * Get rounds resolved count
  */
 export function getRoundsResolved() {
-  return { roundsResolved };
+  return {
+    roundsResolved,
+    pendingRoundsResolved: getPendingTotals().roundsResolved,
+  };
 }
-
-/**
- * Export ABI for use in other services
- */
-export { AUCTION_ABI };
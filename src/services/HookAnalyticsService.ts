@@ -0,0 +1,241 @@
+/**
+ * @file services/HookAnalyticsService.ts
+ * @description Fee analytics over persisted LeaderFeeHook events
+ *
+ * Hook fees are attributed to rounds by log position: a FeeAccumulated log belongs
+ * to the round started by the last RoundResolved before it, since that round's
+ * winner is the leader the hook was collecting for.
+ *
+ * Why this exists:
+ * - unclaimedFees() only shows what a leader can withdraw now, not what each
+ *   round earned or whether it was worth the rent paid for it
+ * - Keeps aggregation logic out of the route handlers
+ */
+
+import { formatEther, zeroAddress } from 'viem';
+import { StoredAuctionEvent } from '../types';
+import { getEventStore } from './EventStore';
+
+/**
+ * Options for GET /hook/fees
+ */
+export interface HookFeesQuery {
+  limit: number;
+  leader?: string;
+  token?: string;
+  fromRound?: bigint;
+  toRound?: bigint;
+}
+
+/**
+ * Get the event store, or throw if it isn't initialized
+ */
+function requireStore() {
+  const store = getEventStore();
+  if (!store) {
+    throw new Error('Event store not initialized');
+  }
+  return store;
+}
+
+/**
+ * Whether a log comes before another in chain order
+ */
+export function isBefore(a: StoredAuctionEvent, b: StoredAuctionEvent): boolean {
+  return a.blockNumber < b.blockNumber || (a.blockNumber === b.blockNumber && a.logIndex < b.logIndex);
+}
+
+/**
+ * Pair each event with the round that was running when it was emitted
+ * Why: Both lists come from the store in log order, so one merge pass is enough.
+ *
+ * @param rounds - RoundResolved events in log order
+ * @param events - Events to attribute, in log order
+ * @returns The round number per event, or null before the first indexed round
+ */
+export function attributeToRounds(rounds: StoredAuctionEvent[], events: StoredAuctionEvent[]): (string | null)[] {
+  let index = -1;
+  return events.map((event) => {
+    while (index + 1 < rounds.length && isBefore(rounds[index + 1], event)) {
+      index += 1;
+    }
+    return index >= 0 ? rounds[index].args.round : null;
+  });
+}
+
+/**
+ * Return on rent, from native ETH fees only
+ * Why: Rent is paid in ETH and the server has no price for other tokens, so fees
+ * in those are reported but left out of the ratio.
+ */
+function rentReturn(ethFees: bigint, rentPaid: bigint): number | null {
+  if (rentPaid === 0n) {
+    return null;
+  }
+  return Number(((ethFees - rentPaid) * 1_000_000n) / rentPaid) / 1_000_000;
+}
+
+function inRoundRange(round: bigint, query: HookFeesQuery): boolean {
+  return (query.fromRound === undefined || round >= query.fromRound) && (query.toRound === undefined || round <= query.toRound);
+}
+
+/**
+ * Get fees accumulated per round, leader and token, newest round first
+ *
+ * @throws Error if the event store is not initialized
+ */
+export async function getHookFees(query: HookFeesQuery) {
+  const store = requireStore();
+
+  const leaderFilter = query.leader ? { leader: query.leader.toLowerCase() } : undefined;
+  const [rounds, accumulated, withdrawn] = await Promise.all([
+    store.getEvents({ eventName: 'RoundResolved' }),
+    store.getEvents({ eventName: 'FeeAccumulated', args: leaderFilter }),
+    store.getEvents({ eventName: 'FeesWithdrawn', args: leaderFilter }),
+  ]);
+
+  const token = query.token?.toLowerCase();
+  const perRound = new Map<string, { round: string | null; leader: string; token: string; amount: bigint; swaps: number }>();
+  const totals = new Map<string, { leader: string; token: string; accumulated: bigint; withdrawn: bigint }>();
+
+  const totalFor = (leader: string, feeToken: string) => {
+    const key = `${leader}:${feeToken}`;
+    const entry = totals.get(key) ?? { leader, token: feeToken, accumulated: 0n, withdrawn: 0n };
+    totals.set(key, entry);
+    return entry;
+  };
+
+  attributeToRounds(rounds, accumulated).forEach((round, i) => {
+    const { leader, amount, token: feeToken } = accumulated[i].args;
+    if (token && feeToken !== token) {
+      return;
+    }
+    if (round !== null && !inRoundRange(BigInt(round), query)) {
+      return;
+    }
+
+    const key = `${round}:${leader}:${feeToken}`;
+    const entry = perRound.get(key) ?? { round, leader, token: feeToken, amount: 0n, swaps: 0 };
+    entry.amount += BigInt(amount);
+    entry.swaps += 1;
+    perRound.set(key, entry);
+
+    totalFor(leader, feeToken).accumulated += BigInt(amount);
+  });
+
+  for (const event of withdrawn) {
+    if (!token || event.args.token === token) {
+      totalFor(event.args.leader, event.args.token).withdrawn += BigInt(event.args.amount);
+    }
+  }
+
+  const fees = [...perRound.values()].sort((a, b) => {
+    const roundA = a.round === null ? -1n : BigInt(a.round);
+    const roundB = b.round === null ? -1n : BigInt(b.round);
+    return roundA === roundB ? a.leader.localeCompare(b.leader) || a.token.localeCompare(b.token) : roundA > roundB ? -1 : 1;
+  });
+
+  return {
+    fees: fees.slice(0, query.limit).map((entry) => ({ ...entry, amount: entry.amount.toString() })),
+    totals: [...totals.values()].map((entry) => ({
+      leader: entry.leader,
+      token: entry.token,
+      accumulated: entry.accumulated.toString(),
+      withdrawn: entry.withdrawn.toString(),
+      // Only counts fees accrued since indexing began
+      unclaimed: (entry.accumulated > entry.withdrawn ? entry.accumulated - entry.withdrawn : 0n).toString(),
+    })),
+  };
+}
+
+/**
+ * Get a leader's fee settings, rounds won and earnings against the rent paid
+ *
+ * @param address - Leader address
+ * @throws Error if the event store is not initialized
+ */
+export async function getHookLeaderStats(address: string) {
+  const store = requireStore();
+  const leader = address.toLowerCase();
+
+  const [rounds, feeUpdates, accumulated, withdrawn] = await Promise.all([
+    store.getEvents({ eventName: 'RoundResolved' }),
+    store.getEvents({ eventName: 'FeeUpdated', args: { leader }, order: 'desc' }),
+    store.getEvents({ eventName: 'FeeAccumulated', args: { leader } }),
+    store.getEvents({ eventName: 'FeesWithdrawn', args: { leader } }),
+  ]);
+
+  // Fees per round and token
+  const roundFees = new Map<string, Map<string, bigint>>();
+  const earnings = new Map<string, { accumulated: bigint; withdrawn: bigint }>();
+
+  attributeToRounds(rounds, accumulated).forEach((round, i) => {
+    const { amount, token } = accumulated[i].args;
+    const key = round ?? 'unknown';
+    const byToken = roundFees.get(key) ?? new Map<string, bigint>();
+    byToken.set(token, (byToken.get(token) ?? 0n) + BigInt(amount));
+    roundFees.set(key, byToken);
+
+    const entry = earnings.get(token) ?? { accumulated: 0n, withdrawn: 0n };
+    entry.accumulated += BigInt(amount);
+    earnings.set(token, entry);
+  });
+
+  for (const event of withdrawn) {
+    const entry = earnings.get(event.args.token) ?? { accumulated: 0n, withdrawn: 0n };
+    entry.withdrawn += BigInt(event.args.amount);
+    earnings.set(event.args.token, entry);
+  }
+
+  let rentPaid = 0n;
+  let ethFeesInWonRounds = 0n;
+  const roundsWon = rounds
+    .filter((event) => event.args.winner === leader)
+    .reverse()
+    .map((event) => {
+      const pricePaid = BigInt(event.args.pricePaid);
+      const fees = roundFees.get(event.args.round) ?? new Map<string, bigint>();
+      const ethFees = fees.get(zeroAddress) ?? 0n;
+
+      rentPaid += pricePaid;
+      ethFeesInWonRounds += ethFees;
+
+      return {
+        round: event.args.round,
+        pricePaid: pricePaid.toString(),
+        pricePaidEth: formatEther(pricePaid),
+        fees: [...fees.entries()].map(([token, amount]) => ({ token, amount: amount.toString() })),
+        ethFees: ethFees.toString(),
+        roi: rentReturn(ethFees, pricePaid),
+        timestamp: event.timestamp !== null ? new Date(event.timestamp * 1000).toISOString() : null,
+        transactionHash: event.transactionHash,
+      };
+    });
+
+  return {
+    address: leader,
+    currentFee: feeUpdates.length > 0 ? Number(feeUpdates[0].args.fee) : null,
+    feeHistory: feeUpdates.map((event) => ({
+      fee: Number(event.args.fee),
+      feePercent: Number(event.args.fee) / 10000,
+      blockNumber: event.blockNumber.toString(),
+      timestamp: event.timestamp !== null ? new Date(event.timestamp * 1000).toISOString() : null,
+      transactionHash: event.transactionHash,
+    })),
+    roundsWon,
+    earnings: [...earnings.entries()].map(([token, entry]) => ({
+      token,
+      accumulated: entry.accumulated.toString(),
+      withdrawn: entry.withdrawn.toString(),
+    })),
+    summary: {
+      roundsWon: roundsWon.length,
+      rentPaid: rentPaid.toString(),
+      rentPaidEth: formatEther(rentPaid),
+      ethFees: ethFeesInWonRounds.toString(),
+      ethFeesEth: formatEther(ethFeesInWonRounds),
+      netEth: formatEther(ethFeesInWonRounds - rentPaid),
+      roi: rentReturn(ethFeesInWonRounds, rentPaid),
+    },
+  };
+}
@@ -0,0 +1,501 @@
+/**
+ * @file services/LeaderMonitorService.ts
+ * @description Checks that LeaderFeeHook agrees with the Auction about the leader
+ *
+ * Auction.resolveRound() pushes every new leader into LeaderFeeHook.updateLeader
+ * in the same transaction. This service watches RoundResolved and HookUpdated on
+ * the Auction and LeaderUpdated on the hook, pairs them by transaction, and also
+ * compares the two contracts' state on an interval. Divergences are kept for
+ * GET /monitor/leader and posted to LEADER_MONITOR_WEBHOOK_URL.
+ *
+ * Why this exists:
+ * - LeaderDisplay used to read the hook while BidForm read the Auction; when they
+ *   disagree, swap fees go to the wrong address (or to nobody) without any error
+ * - setHook() can point the Auction at a hook that was never told the current leader
+ */
+
+import { zeroAddress } from 'viem';
+import { AUCTION_ABI, LEADER_FEE_HOOK_ABI } from '../../contracts/src';
+import {
+  AUCTION_CONTRACT_ADDRESS,
+  LEADER_MONITOR_ENABLED,
+  LEADER_MONITOR_GRACE_MS,
+  LEADER_MONITOR_INTERVAL_MS,
+  LEADER_MONITOR_WEBHOOK_URL,
+} from '../config/constants';
+import { LeaderAlert, LeaderAlertType } from '../types';
+import { getAuctionState } from './AuctionStateService';
+import { getPublicClient } from './BlockchainService';
+
+/**
+ * Number of alerts kept for GET /monitor/leader
+ */
+const ALERT_HISTORY_SIZE = 100;
+
+/**
+ * Timeout (ms) for a webhook delivery
+ */
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+/**
+ * Log fields we rely on from both watchers
+ */
+interface MonitorLog {
+  eventName: string;
+  args: Record<string, unknown>;
+  address: `0x${string}`;
+  blockNumber: bigint | null;
+  transactionHash: `0x${string}` | null;
+  removed?: boolean;
+}
+
+/**
+ * One side of a resolution seen by only one watcher so far
+ * Why: The Auction and hook watchers poll separately, so the RoundResolved and
+ * LeaderUpdated logs of one transaction can arrive in different batches.
+ */
+interface PendingResolution {
+  round: string;
+  winner: `0x${string}`;
+  hook: `0x${string}`;
+  seenAt: number;
+}
+
+interface PendingHookUpdate {
+  leader: `0x${string}`;
+  hook: `0x${string}`;
+  seenAt: number;
+}
+
+/**
+ * Result of the last state comparison
+ */
+interface LeaderCheck {
+  checkedAt: string;
+  blockNumber: string;
+  round: string;
+  hook: `0x${string}` | null;
+  auctionLeader: `0x${string}`;
+  hookCachedLeader: `0x${string}` | null;
+  hookCurrentLeader: `0x${string}` | null;
+  consistent: boolean;
+}
+
+let monitorRunning = false;
+let hookAddress: `0x${string}` | null = null;
+let unwatchHook: (() => void) | null = null;
+let checkTimer: NodeJS.Timeout | null = null;
+let checkInProgress = false;
+let lastCheck: LeaderCheck | null = null;
+let lastCheckError: string | null = null;
+let nextAlertId = 1;
+
+const alerts: LeaderAlert[] = [];
+const pendingResolutions = new Map<`0x${string}`, PendingResolution>();
+const pendingHookUpdates = new Map<`0x${string}`, PendingHookUpdate>();
+
+/**
+ * State divergences currently open, by type
+ * Why: They are re-detected on every check; one alert is raised when a divergence
+ * appears and marked resolved when it clears, instead of one alert per check.
+ */
+const openAlerts = new Map<LeaderAlertType, LeaderAlert>();
+
+function sameAddress(a: string | null, b: string | null): boolean {
+  return (a ?? '').toLowerCase() === (b ?? '').toLowerCase();
+}
+
+/**
+ * POST an alert to the configured webhook
+ * Why: Delivery failures are logged and dropped; the alert is still served from
+ * GET /monitor/leader.
+ */
+async function deliverWebhook(event: 'alert' | 'resolved', alert: LeaderAlert): Promise<void> {
+  if (!LEADER_MONITOR_WEBHOOK_URL) {
+    return;
+  }
+
+  try {
+    const response = await fetch(LEADER_MONITOR_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ event, alert }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.warn(`⚠️  Leader monitor webhook returned ${response.status}`);
+    }
+  } catch (error) {
+    console.warn('⚠️  Leader monitor webhook failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Record an alert and send it to the webhook
+ */
+function raiseAlert(
+  type: LeaderAlertType,
+  severity: LeaderAlert['severity'],
+  message: string,
+  fields: Partial<Pick<LeaderAlert, 'round' | 'hook' | 'transactionHash' | 'details'>> = {}
+): LeaderAlert {
+  const alert: LeaderAlert = {
+    id: nextAlertId++,
+    type,
+    severity,
+    message,
+    round: fields.round ?? null,
+    hook: fields.hook ?? hookAddress,
+    transactionHash: fields.transactionHash ?? null,
+    details: fields.details ?? {},
+    detectedAt: new Date().toISOString(),
+    resolvedAt: null,
+  };
+
+  alerts.push(alert);
+  if (alerts.length > ALERT_HISTORY_SIZE) {
+    alerts.shift();
+  }
+
+  console.warn(`🚨 Leader monitor: ${message}`);
+  void deliverWebhook('alert', alert);
+  return alert;
+}
+
+/**
+ * Open or close a state divergence
+ */
+function setCondition(
+  type: LeaderAlertType,
+  diverged: boolean,
+  message: string,
+  fields: Partial<Pick<LeaderAlert, 'round' | 'hook' | 'details'>>
+): void {
+  const open = openAlerts.get(type);
+
+  if (diverged && !open) {
+    openAlerts.set(type, raiseAlert(type, 'critical', message, fields));
+  } else if (!diverged && open) {
+    open.resolvedAt = new Date().toISOString();
+    openAlerts.delete(type);
+    console.log(`✅ Leader monitor: ${type} cleared`);
+    void deliverWebhook('resolved', open);
+  }
+}
+
+/**
+ * Compare a round's winner with the leader the hook was given
+ */
+function matchResolution(transactionHash: `0x${string}`, resolution: PendingResolution, update: PendingHookUpdate): void {
+  if (!sameAddress(resolution.winner, update.leader)) {
+    raiseAlert(
+      'HOOK_LEADER_MISMATCH',
+      'critical',
+      `Round ${resolution.round} was won by ${resolution.winner} but the hook was given ${update.leader}`,
+      {
+        round: resolution.round,
+        hook: update.hook,
+        transactionHash,
+        details: { winner: resolution.winner, hookLeader: update.leader },
+      }
+    );
+  }
+}
+
+/**
+ * Move the hook watcher to a new hook address
+ */
+function watchHook(address: `0x${string}` | null): void {
+  const publicClient = getPublicClient();
+
+  unwatchHook?.();
+  unwatchHook = null;
+  hookAddress = address;
+
+  if (!publicClient || !address) {
+    return;
+  }
+
+  unwatchHook = publicClient.watchContractEvent({
+    address,
+    abi: LEADER_FEE_HOOK_ABI,
+    eventName: 'LeaderUpdated',
+    onLogs: (logs) => (logs as unknown as MonitorLog[]).forEach(handleHookLog),
+    onError: (error) => {
+      console.error('❌ Leader monitor hook watcher error:', error);
+    },
+  });
+}
+
+/**
+ * Handle RoundResolved and HookUpdated from the Auction
+ */
+function handleAuctionLog(log: MonitorLog): void {
+  if (log.removed || !log.transactionHash) {
+    return;
+  }
+
+  if (log.eventName === 'HookUpdated') {
+    const oldHook = log.args.oldHook as `0x${string}`;
+    const newHook = log.args.newHook as `0x${string}`;
+    const activeHook = newHook === zeroAddress ? null : newHook;
+
+    // Already picked up by a state check
+    if (sameAddress(activeHook, hookAddress)) {
+      return;
+    }
+
+    raiseAlert('HOOK_CHANGED', 'warning', `Auction hook changed from ${oldHook} to ${newHook}`, {
+      hook: newHook,
+      transactionHash: log.transactionHash,
+      details: { oldHook, newHook },
+    });
+    watchHook(activeHook);
+    return;
+  }
+
+  if (log.eventName !== 'RoundResolved' || !hookAddress) {
+    return;
+  }
+
+  const resolution: PendingResolution = {
+    round: String(log.args.round),
+    winner: log.args.winner as `0x${string}`,
+    hook: hookAddress,
+    seenAt: Date.now(),
+  };
+
+  const update = pendingHookUpdates.get(log.transactionHash);
+  if (update) {
+    pendingHookUpdates.delete(log.transactionHash);
+    matchResolution(log.transactionHash, resolution, update);
+  } else {
+    pendingResolutions.set(log.transactionHash, resolution);
+  }
+}
+
+/**
+ * Handle LeaderUpdated from the hook
+ */
+function handleHookLog(log: MonitorLog): void {
+  if (log.removed || !log.transactionHash) {
+    return;
+  }
+
+  const update: PendingHookUpdate = {
+    leader: log.args.leader as `0x${string}`,
+    hook: log.address,
+    seenAt: Date.now(),
+  };
+
+  const resolution = pendingResolutions.get(log.transactionHash);
+  if (resolution) {
+    pendingResolutions.delete(log.transactionHash);
+    matchResolution(log.transactionHash, resolution, update);
+  } else {
+    pendingHookUpdates.set(log.transactionHash, update);
+  }
+}
+
+/**
+ * Report logs that found no partner within the grace period
+ */
+function expirePending(): void {
+  const cutoff = Date.now() - LEADER_MONITOR_GRACE_MS;
+
+  for (const [transactionHash, resolution] of pendingResolutions) {
+    if (resolution.seenAt < cutoff) {
+      pendingResolutions.delete(transactionHash);
+      raiseAlert(
+        'MISSING_HOOK_UPDATE',
+        'critical',
+        `Round ${resolution.round} resolved without a LeaderUpdated from hook ${resolution.hook}`,
+        { round: resolution.round, hook: resolution.hook, transactionHash, details: { winner: resolution.winner } }
+      );
+    }
+  }
+
+  for (const [transactionHash, update] of pendingHookUpdates) {
+    if (update.seenAt < cutoff) {
+      pendingHookUpdates.delete(transactionHash);
+      raiseAlert(
+        'UNEXPECTED_HOOK_UPDATE',
+        'warning',
+        `Hook ${update.hook} set leader ${update.leader} outside a round resolution of this Auction`,
+        { hook: update.hook, transactionHash, details: { leader: update.leader } }
+      );
+    }
+  }
+}
+
+/**
+ * Compare the hook's leader state with the Auction's at one block
+ */
+async function checkState(): Promise<void> {
+  const publicClient = getPublicClient();
+  if (!publicClient || !AUCTION_CONTRACT_ADDRESS || checkInProgress) {
+    return;
+  }
+
+  checkInProgress = true;
+  try {
+    expirePending();
+
+    const state = await getAuctionState(0);
+    const blockNumber = state.blockNumber;
+    const currentHook = await publicClient.readContract({
+      address: AUCTION_CONTRACT_ADDRESS,
+      abi: AUCTION_ABI,
+      functionName: 'hook',
+      blockNumber,
+    });
+
+    // A HookUpdated the watcher missed (e.g. while the RPC was down)
+    const activeHook = currentHook === zeroAddress ? null : currentHook;
+    if (!sameAddress(activeHook, hookAddress)) {
+      raiseAlert('HOOK_CHANGED', 'warning', `Auction hook is now ${currentHook} (was ${hookAddress ?? zeroAddress})`, {
+        hook: activeHook,
+        details: { oldHook: hookAddress ?? zeroAddress, newHook: currentHook },
+      });
+      watchHook(activeHook);
+    }
+
+    const round = state.currentRound.toString();
+
+    if (!activeHook) {
+      setCondition('LEADER_MISMATCH', false, '', {});
+      setCondition('LEADERSHIP_EXPIRED', false, '', {});
+      lastCheck = {
+        checkedAt: new Date().toISOString(),
+        blockNumber: blockNumber.toString(),
+        round,
+        hook: null,
+        auctionLeader: state.currentLeader,
+        hookCachedLeader: null,
+        hookCurrentLeader: null,
+        consistent: true,
+      };
+      lastCheckError = null;
+      return;
+    }
+
+    const hookRead = { address: activeHook, abi: LEADER_FEE_HOOK_ABI, blockNumber } as const;
+    const [cachedLeader, leadershipStart, hookCurrentLeader] = await Promise.all([
+      publicClient.readContract({ ...hookRead, functionName: 'cachedLeader' }),
+      publicClient.readContract({ ...hookRead, functionName: 'leadershipStart' }),
+      publicClient.readContract({ ...hookRead, functionName: 'getCurrentLeader' }),
+    ]);
+
+    // The hook should hold the leader the Auction crowned, since the same block
+    const leaderMismatch =
+      !sameAddress(cachedLeader, state.currentLeader) || (state.currentRound > 0n && leadershipStart !== state.currentRoundStart);
+    setCondition(
+      'LEADER_MISMATCH',
+      leaderMismatch,
+      `Hook leader ${cachedLeader} (since ${leadershipStart}) differs from Auction leader ${state.currentLeader} (round ${round} started ${state.currentRoundStart})`,
+      {
+        round,
+        hook: activeHook,
+        details: {
+          auctionLeader: state.currentLeader,
+          hookLeader: cachedLeader,
+          roundStart: Number(state.currentRoundStart),
+          leadershipStart: Number(leadershipStart),
+        },
+      }
+    );
+
+    // The hook stopped honouring the leader, but no new round followed: either the
+    // hook's own duration is shorter than the round, or the round is overdue
+    const overdueSeconds = Number(state.blockTimestamp - state.roundEnd);
+    const leadershipExpired =
+      state.currentLeader !== zeroAddress &&
+      hookCurrentLeader === zeroAddress &&
+      (!state.canResolve || overdueSeconds * 1000 > LEADER_MONITOR_GRACE_MS);
+    setCondition(
+      'LEADERSHIP_EXPIRED',
+      leadershipExpired,
+      state.canResolve
+        ? `Leadership of ${state.currentLeader} expired ${overdueSeconds}s ago without round ${state.currentRound + 1n} being resolved`
+        : `Hook expired leadership of ${state.currentLeader} with ${state.secondsRemaining}s left in round ${round}`,
+      {
+        round,
+        hook: activeHook,
+        details: { auctionLeader: state.currentLeader, secondsRemaining: state.secondsRemaining, overdueSeconds },
+      }
+    );
+
+    lastCheck = {
+      checkedAt: new Date().toISOString(),
+      blockNumber: blockNumber.toString(),
+      round,
+      hook: activeHook,
+      auctionLeader: state.currentLeader,
+      hookCachedLeader: cachedLeader,
+      hookCurrentLeader,
+      consistent: !leaderMismatch && !leadershipExpired,
+    };
+    lastCheckError = null;
+  } catch (error) {
+    lastCheckError = error instanceof Error ? error.message : String(error);
+    console.error('❌ Leader monitor check failed:', lastCheckError);
+  } finally {
+    checkInProgress = false;
+  }
+}
+
+/**
+ * Start the leader consistency monitor
+ */
+export async function startLeaderMonitor(): Promise<void> {
+  if (!LEADER_MONITOR_ENABLED || monitorRunning) {
+    return;
+  }
+
+  const publicClient = getPublicClient();
+  if (!publicClient || !AUCTION_CONTRACT_ADDRESS) {
+    console.warn('⚠️  Leader monitor not started: blockchain client or contract address missing');
+    return;
+  }
+
+  const currentHook = await publicClient.readContract({
+    address: AUCTION_CONTRACT_ADDRESS,
+    abi: AUCTION_ABI,
+    functionName: 'hook',
+  });
+  watchHook(currentHook === zeroAddress ? null : currentHook);
+
+  publicClient.watchContractEvent({
+    address: AUCTION_CONTRACT_ADDRESS,
+    abi: AUCTION_ABI,
+    onLogs: (logs) => (logs as unknown as MonitorLog[]).forEach(handleAuctionLog),
+    onError: (error) => {
+      console.error('❌ Leader monitor auction watcher error:', error);
+    },
+  });
+
+  monitorRunning = true;
+  checkTimer = setInterval(() => void checkState(), LEADER_MONITOR_INTERVAL_MS);
+  void checkState();
+
+  console.log(`👁️  Leader monitor started (hook ${hookAddress ?? 'not set'}, every ${LEADER_MONITOR_INTERVAL_MS}ms)`);
+}
+
+/**
+ * Monitor status and recent alerts for GET /monitor/leader
+ *
+ * @param limit - Maximum number of alerts to return, newest first
+ */
+export function getLeaderMonitorStatus(limit = 50) {
+  return {
+    enabled: LEADER_MONITOR_ENABLED,
+    running: monitorRunning && checkTimer !== null,
+    hook: hookAddress,
+    status: openAlerts.size > 0 ? 'diverged' : 'consistent',
+    webhook: Boolean(LEADER_MONITOR_WEBHOOK_URL),
+    lastCheck,
+    lastCheckError,
+    openAlerts: [...openAlerts.values()],
+    alerts: alerts.slice(-limit).reverse(),
+  };
+}
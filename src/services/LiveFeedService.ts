@@ -0,0 +1,145 @@
+/**
+ * @file services/LiveFeedService.ts
+ * @description Server-Sent Events feed of auction activity
+ *
+ * This service pushes decoded Auction events, stats snapshots and round-timer
+ * ticks to connected clients over SSE, so the frontend doesn't have to poll.
+ *
+ * Why this exists:
+ * - StatsDashboard and LeaderDisplay used to poll every few seconds
+ * - SSE works through the existing Express server and the Caddy proxy, and
+ *   browsers reconnect automatically with the Last-Event-ID header
+ * - A replay buffer lets reconnecting clients catch up on what they missed
+ */
+
+import { Response } from 'express';
+import { FEED_REPLAY_SIZE } from '../config/constants';
+
+/**
+ * Message types sent on the feed
+ * - auction-event: a decoded Auction log (pending, confirmed or removed by a reorg)
+ * - stats: totals snapshot, same shape as the /deposits, /withdrawals, /bids and /rounds routes
+ * - tick: round timer (not replayed)
+ * - reset: the client's Last-Event-ID is too old to replay; refetch state over REST
+ */
+export type FeedEventType = 'auction-event' | 'stats' | 'tick' | 'reset';
+
+interface FeedMessage {
+  id: number;
+  type: FeedEventType;
+  data: unknown;
+}
+
+/**
+ * Recent messages kept for Last-Event-ID replay
+ */
+const replayBuffer: FeedMessage[] = [];
+
+/**
+ * Id of the last message published
+ * Why: Seeded from the start time so ids from a previous server process are never
+ * mistaken for ids of this one after a restart.
+ */
+let lastEventId = Date.now();
+
+/**
+ * Connected clients
+ */
+const clients = new Set<Response>();
+
+/**
+ * Heartbeat timer
+ * Why: Proxies close idle connections; an SSE comment every 15 seconds keeps them open.
+ */
+let heartbeatTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Write one message in SSE wire format
+ */
+function writeMessage(res: Response, type: FeedEventType, data: unknown, id?: number): void {
+  if (id !== undefined) {
+    res.write(`id: ${id}\n`);
+  }
+  res.write(`event: ${type}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Publish a message to every connected client
+ *
+ * @param type - Message type
+ * @param data - JSON-serializable payload (bigints must already be strings)
+ * @param options.replay - Keep the message for Last-Event-ID replay (default true)
+ */
+export function publishFeedEvent(type: FeedEventType, data: unknown, options: { replay?: boolean } = {}): void {
+  const replay = options.replay ?? true;
+
+  let id: number | undefined;
+  if (replay) {
+    id = ++lastEventId;
+    replayBuffer.push({ id, type, data });
+    if (replayBuffer.length > FEED_REPLAY_SIZE) {
+      replayBuffer.shift();
+    }
+  }
+
+  for (const client of clients) {
+    writeMessage(client, type, data, id);
+  }
+}
+
+/**
+ * Attach a client to the feed
+ * Why: If the client reconnects with a Last-Event-ID we still have, everything
+ * after it is replayed. If that id has already left the buffer, a reset message
+ * tells the client to reload its state instead.
+ *
+ * @param res - Express response to stream into
+ * @param lastSeenId - Value of the Last-Event-ID header (or ?lastEventId=), if any
+ */
+export function addFeedClient(res: Response, lastSeenId?: string): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 3000\n\n');
+
+  const seenId = lastSeenId !== undefined ? Number(lastSeenId) : NaN;
+  if (!Number.isNaN(seenId)) {
+    const oldestId = replayBuffer.length > 0 ? replayBuffer[0].id : lastEventId + 1;
+
+    if (seenId < oldestId - 1 || seenId > lastEventId) {
+      writeMessage(res, 'reset', { reason: 'Last-Event-ID is no longer available' }, lastEventId);
+    } else {
+      for (const message of replayBuffer) {
+        if (message.id > seenId) {
+          writeMessage(res, message.type, message.data, message.id);
+        }
+      }
+    }
+  }
+
+  clients.add(res);
+  res.on('close', () => {
+    clients.delete(res);
+  });
+
+  if (!heartbeatTimer) {
+    heartbeatTimer = setInterval(() => {
+      for (const client of clients) {
+        client.write(': heartbeat\n\n');
+      }
+    }, 15000);
+    heartbeatTimer.unref();
+  }
+}
+
+/**
+ * Number of connected clients
+ * Why: Lets producers skip work (like RPC calls for timer ticks) when nobody listens.
+ */
+export function getFeedClientCount(): number {
+  return clients.size;
+}
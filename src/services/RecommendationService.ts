@@ -0,0 +1,158 @@
+/**
+ * @file services/RecommendationService.ts
+ * @description Estimates what a round of leadership is worth and how much to bid for it
+ *
+ * Each FeeAccumulated log is divided by the fee the leader had set when it was
+ * emitted, giving the swap volume behind it. Summing that per resolved round gives
+ * a history of round volumes; applying the requested fee to each one gives the
+ * revenue a leader would have earned, and its percentiles the estimate and bands.
+ *
+ * Why this exists:
+ * - Bidders had no idea what leadership is worth; overbidding loses money to rent
+ * - Past revenue depends on the fee each leader chose, so volume (not revenue) is
+ *   the comparable quantity across rounds
+ */
+
+import { formatEther, zeroAddress } from 'viem';
+import { StoredAuctionEvent } from '../types';
+import { getEventStore } from './EventStore';
+import { attributeToRounds, isBefore } from './HookAnalyticsService';
+
+/**
+ * LeaderFeeHook fee bounds and default (hundredths of a basis point: 3000 = 0.3%)
+ * @notice Mirror the constants in hooks/src/LeaderFeeHook.sol
+ */
+export const HOOK_DEFAULT_FEE = 3000;
+export const HOOK_MIN_FEE = 1;
+export const HOOK_MAX_FEE = 50000;
+const FEE_DENOMINATOR = 1_000_000n;
+
+/**
+ * Minimum rounds for a "medium" and "high" confidence estimate
+ */
+const MEDIUM_CONFIDENCE_ROUNDS = 10;
+const HIGH_CONFIDENCE_ROUNDS = 30;
+
+/**
+ * Options for GET /recommendation/bid
+ */
+export interface BidRecommendationQuery {
+  /** Fee the leader would set */
+  fee: number;
+  /** Number of most recent completed rounds to learn from */
+  rounds: number;
+}
+
+function weiAmount(value: bigint) {
+  return { wei: value.toString(), eth: formatEther(value) };
+}
+
+/**
+ * Nearest-rank percentile of a sorted list
+ */
+function percentile(sorted: bigint[], p: number): bigint {
+  if (sorted.length === 0) {
+    return 0n;
+  }
+  const rank = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[rank];
+}
+
+function sortBigints(values: bigint[]): bigint[] {
+  return [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * Fee each leader had set when each log was emitted
+ * Why: The hook applies leaderFees[leader] (or DEFAULT_FEE) at the time of each swap.
+ *
+ * @param feeUpdates - FeeUpdated events in log order
+ * @param events - FeeAccumulated events in log order
+ */
+function feesInEffect(feeUpdates: StoredAuctionEvent[], events: StoredAuctionEvent[]): number[] {
+  const current = new Map<string, number>();
+  let index = 0;
+  return events.map((event) => {
+    while (index < feeUpdates.length && isBefore(feeUpdates[index], event)) {
+      current.set(feeUpdates[index].args.leader, Number(feeUpdates[index].args.fee));
+      index += 1;
+    }
+    return current.get(event.args.leader) ?? HOOK_DEFAULT_FEE;
+  });
+}
+
+/**
+ * Estimate a round's fee revenue at a given fee and recommend a maximum bid
+ *
+ * Only native ETH fees are counted: rent is paid in ETH and the server has no
+ * price for other pool tokens. Volume is assumed not to depend on the fee.
+ *
+ * @throws Error if the event store is not initialized
+ */
+export async function getBidRecommendation(query: BidRecommendationQuery) {
+  const store = getEventStore();
+  if (!store) {
+    throw new Error('Event store not initialized');
+  }
+
+  const [rounds, accumulated, feeUpdates] = await Promise.all([
+    store.getEvents({ eventName: 'RoundResolved' }),
+    store.getEvents({ eventName: 'FeeAccumulated', args: { token: zeroAddress } }),
+    store.getEvents({ eventName: 'FeeUpdated' }),
+  ]);
+
+  // Swap volume per round, from the fees it produced and the fee that was set
+  const volumeByRound = new Map<string, bigint>();
+  const fees = feesInEffect(feeUpdates, accumulated);
+  attributeToRounds(rounds, accumulated).forEach((round, i) => {
+    if (round === null) {
+      return;
+    }
+    const volume = (BigInt(accumulated[i].args.amount) * FEE_DENOMINATOR) / BigInt(fees[i]);
+    volumeByRound.set(round, (volumeByRound.get(round) ?? 0n) + volume);
+  });
+
+  // The latest round is still running; rounds without a winner earned nothing for anyone
+  const completed = rounds.slice(0, -1).filter((event) => event.args.winner !== zeroAddress);
+  const sample = completed.slice(-query.rounds);
+
+  const fee = BigInt(query.fee);
+  const revenues = sortBigints(sample.map((event) => ((volumeByRound.get(event.args.round) ?? 0n) * fee) / FEE_DENOMINATOR));
+  const prices = sortBigints(sample.map((event) => BigInt(event.args.pricePaid)));
+  const mean = revenues.length > 0 ? revenues.reduce((sum, value) => sum + value, 0n) / BigInt(revenues.length) : 0n;
+  const median = percentile(revenues, 50);
+
+  const confidence =
+    sample.length === 0
+      ? 'none'
+      : sample.length < MEDIUM_CONFIDENCE_ROUNDS
+        ? 'low'
+        : sample.length < HIGH_CONFIDENCE_ROUNDS
+          ? 'medium'
+          : 'high';
+
+  return {
+    fee: query.fee,
+    feePercent: query.fee / 10000,
+    sampleRounds: sample.length,
+    confidence,
+    expectedRevenue: weiAmount(mean),
+    // Break-even at the typical round: paying more loses money in most rounds
+    recommendedMaxBid: weiAmount(median),
+    bands: {
+      p10: weiAmount(percentile(revenues, 10)),
+      p25: weiAmount(percentile(revenues, 25)),
+      p50: weiAmount(median),
+      p75: weiAmount(percentile(revenues, 75)),
+      p90: weiAmount(percentile(revenues, 90)),
+    },
+    historicalPrice: {
+      median: weiAmount(percentile(prices, 50)),
+      p90: weiAmount(percentile(prices, 90)),
+    },
+    assumptions: [
+      'Only native ETH fees are counted',
+      'Swap volume is assumed to be the same at any fee',
+    ],
+  };
+}
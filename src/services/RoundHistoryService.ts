@@ -0,0 +1,199 @@
+/**
+ * @file services/RoundHistoryService.ts
+ * @description Round history and leaderboard queries over persisted RoundResolved events
+ *
+ * Why this exists:
+ * - The counters only expose how many rounds were resolved, not who won them
+ * - Analysts need to page through long histories with stable cursors
+ * - Keeps pagination and aggregation logic out of the route handlers
+ */
+
+import { formatEther, zeroAddress } from 'viem';
+import { StoredAuctionEvent } from '../types';
+import { getEventStore } from './EventStore';
+
+/**
+ * A resolved round as returned by GET /rounds/history
+ */
+export interface RoundRecord {
+  round: string;
+  winner: string;
+  pricePaid: string;
+  pricePaidEth: string;
+  winningBid: string;
+  winningBidEth: string;
+  timestamp: string | null;
+  blockNumber: string;
+  transactionHash: string;
+}
+
+/**
+ * Options for GET /rounds/history
+ */
+export interface RoundHistoryQuery {
+  limit: number;
+  cursor?: string;
+  winner?: string;
+  fromTimestamp?: number;
+  toTimestamp?: number;
+}
+
+/**
+ * Sort keys supported by GET /leaderboard
+ */
+export const LEADERBOARD_SORT_KEYS = ['roundsWon', 'totalPaid', 'averageDiscount'] as const;
+export type LeaderboardSortKey = (typeof LEADERBOARD_SORT_KEYS)[number];
+
+/**
+ * Options for GET /leaderboard
+ */
+export interface LeaderboardQuery {
+  sortBy: LeaderboardSortKey;
+  limit: number;
+  fromTimestamp?: number;
+  toTimestamp?: number;
+}
+
+/**
+ * Encode a position in the event log as an opaque cursor
+ * Why: Cursors point at a (blockNumber, logIndex) position rather than an offset,
+ * so pages stay stable while new rounds keep being appended.
+ */
+function encodeCursor(event: StoredAuctionEvent): string {
+  return Buffer.from(`${event.blockNumber}:${event.logIndex}`).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ *
+ * @throws Error if the cursor is malformed
+ */
+function decodeCursor(cursor: string): { blockNumber: bigint; logIndex: number } {
+  const match = /^(\d+):(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString());
+  if (!match) {
+    throw new Error('Invalid cursor');
+  }
+  return { blockNumber: BigInt(match[1]), logIndex: Number(match[2]) };
+}
+
+function toRoundRecord(event: StoredAuctionEvent): RoundRecord {
+  return {
+    round: event.args.round,
+    winner: event.args.winner,
+    pricePaid: event.args.pricePaid,
+    pricePaidEth: formatEther(BigInt(event.args.pricePaid)),
+    winningBid: event.args.winningBid,
+    winningBidEth: formatEther(BigInt(event.args.winningBid)),
+    timestamp: event.timestamp !== null ? new Date(event.timestamp * 1000).toISOString() : null,
+    blockNumber: event.blockNumber.toString(),
+    transactionHash: event.transactionHash,
+  };
+}
+
+/**
+ * Get a page of resolved rounds, newest first
+ *
+ * @returns The page and the cursor for the next one (null on the last page)
+ * @throws Error if the event store is not initialized or the cursor is invalid
+ */
+export async function getRoundHistory(query: RoundHistoryQuery): Promise<{
+  rounds: RoundRecord[];
+  nextCursor: string | null;
+}> {
+  const store = getEventStore();
+  if (!store) {
+    throw new Error('Event store not initialized');
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const events = await store.getEvents({
+    eventName: 'RoundResolved',
+    args: query.winner ? { winner: query.winner.toLowerCase() } : undefined,
+    fromTimestamp: query.fromTimestamp,
+    toTimestamp: query.toTimestamp,
+    after: query.cursor ? decodeCursor(query.cursor) : undefined,
+    order: 'desc',
+    limit: query.limit + 1,
+  });
+
+  const page = events.slice(0, query.limit);
+  const hasMore = events.length > query.limit;
+
+  return {
+    rounds: page.map(toRoundRecord),
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+/**
+ * Rank winners by rounds won, total rent paid or average second-price discount
+ * Why: The discount (winningBid - pricePaid) / winningBid shows how much each
+ * winner saved thanks to the second-price rule. Rounds with no bids (zero-address
+ * winner) are ignored.
+ *
+ * @throws Error if the event store is not initialized
+ */
+export async function getLeaderboard(query: LeaderboardQuery) {
+  const store = getEventStore();
+  if (!store) {
+    throw new Error('Event store not initialized');
+  }
+
+  const events = await store.getEvents({
+    eventName: 'RoundResolved',
+    fromTimestamp: query.fromTimestamp,
+    toTimestamp: query.toTimestamp,
+  });
+
+  const entries = new Map<string, { roundsWon: number; totalPaid: bigint; discountSum: number; discountCount: number; lastWonRound: string }>();
+
+  for (const event of events) {
+    const winner = event.args.winner;
+    if (winner === zeroAddress) {
+      continue;
+    }
+
+    const entry = entries.get(winner) ?? { roundsWon: 0, totalPaid: 0n, discountSum: 0, discountCount: 0, lastWonRound: '0' };
+    const pricePaid = BigInt(event.args.pricePaid);
+    const winningBid = BigInt(event.args.winningBid);
+
+    entry.roundsWon += 1;
+    entry.totalPaid += pricePaid;
+    entry.lastWonRound = event.args.round;
+    if (winningBid > 0n) {
+      entry.discountSum += Number(((winningBid - pricePaid) * 1_000_000n) / winningBid) / 1_000_000;
+      entry.discountCount += 1;
+    }
+
+    entries.set(winner, entry);
+  }
+
+  const ranked = [...entries.entries()].map(([address, entry]) => ({
+    address,
+    roundsWon: entry.roundsWon,
+    totalPaid: entry.totalPaid,
+    averageDiscount: entry.discountCount > 0 ? entry.discountSum / entry.discountCount : 0,
+    lastWonRound: entry.lastWonRound,
+  }));
+
+  ranked.sort((a, b) => {
+    switch (query.sortBy) {
+      case 'totalPaid':
+        return a.totalPaid === b.totalPaid ? b.roundsWon - a.roundsWon : a.totalPaid > b.totalPaid ? -1 : 1;
+      case 'averageDiscount':
+        return b.averageDiscount - a.averageDiscount || b.roundsWon - a.roundsWon;
+      default:
+        return b.roundsWon - a.roundsWon || (a.totalPaid > b.totalPaid ? -1 : a.totalPaid < b.totalPaid ? 1 : 0);
+    }
+  });
+
+  return ranked.slice(0, query.limit).map((entry, index) => ({
+    rank: index + 1,
+    address: entry.address,
+    roundsWon: entry.roundsWon,
+    totalPaid: entry.totalPaid.toString(),
+    totalPaidEth: formatEther(entry.totalPaid),
+    averageDiscount: Number(entry.averageDiscount.toFixed(6)),
+    lastWonRound: entry.lastWonRound,
+  }));
+}
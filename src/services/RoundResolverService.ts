@@ -6,11 +6,36 @@
  * The TEE calls resolveRound() when a round expires to trigger the transition.
  */
 
-import { baseSepolia } from 'viem/chains';
-import { AUCTION_CONTRACT_ADDRESS } from '../config/constants';
-import { getPublicClient, getWalletClient } from './BlockchainService';
-import { getTeeAccount } from './TeeService';
-import { AUCTION_ABI } from './EventTrackingService';
+import {
+    AUCTION_CONTRACT_ADDRESS,
+    ROUND_SCHEDULER_ENABLED,
+    ROUND_SCHEDULER_JITTER_MS,
+    ROUND_SCHEDULER_BACKOFF_MS,
+    ROUND_SCHEDULER_MAX_BACKOFF_MS,
+    TX_MAX_REPLACEMENTS,
+    TX_REPLACEMENT_TIMEOUT_MS,
+} from '../config/constants';
+import { getPublicClient } from './BlockchainService';
+import { getTeeSigner } from './TeeService';
+import { AuctionState, getAuctionState } from './AuctionStateService';
+import { getFeedClientCount, publishFeedEvent } from './LiveFeedService';
+import { getTransaction, isFinalStatus, ManagedTransaction, waitForTransaction } from './TransactionManagerService';
+import { writeAuction } from './ContractWriteService';
+import { settlePendingSealedBids } from './SealedBidService';
+import { relayWinningIntents } from './BidIntentService';
+
+/**
+ * Transaction of the latest resolution
+ * Why: The scheduler and POST /resolveRound can both trigger a resolution. Only one
+ * may be pending at a time, otherwise the second transaction reverts with
+ * "Current round is still active" once the first is mined.
+ */
+let activeResolution: ManagedTransaction | null = null;
+
+/**
+ * Set while sealed bids are being settled, before resolveRound() is queued
+ */
+let resolutionStarting = false;
 
 /**
  * Resolve the current auction round
@@ -20,71 +45,69 @@ import { AUCTION_ABI } from './EventTrackingService';
  * - This triggers the round transition: crowning the winner, collecting rent, starting next round
  * - Called automatically when a round expires (after 60 seconds)
  * 
- * @returns Transaction hash and receipt
- * @throws Error if prerequisites not met or transaction fails
- */
-export async function resolveRound(): Promise<{
-    transactionHash: `0x${string}`;
-    receipt: {
-        blockNumber: string;
-        blockHash: `0x${string}`;
-        status: 'success' | 'reverted';
-    };
-}> {
-    // Validate prerequisites
-    const teeAccount = getTeeAccount();
-    if (!teeAccount) {
-        throw new Error('TEE account not initialized. MNEMONIC environment variable not set.');
-    }
-
-    const publicClient = getPublicClient();
-    if (!publicClient) {
-        throw new Error('Blockchain client not initialized. RPC_URL required.');
+ * Signed bid intents are relayed and sealed bids settled first; the transaction
+ * manager sends transactions in order, so they are mined before resolveRound().
+ * Sealed bid settlement is also awaited until mined, so its results are final.
+ * 
+ * The transaction is simulated first, then queued with the transaction manager and
+ * this returns right away; use waitForTransaction() or GET /tx/:hash to follow it.
+ * 
+ * @returns The queued transaction with its tracking id
+ * @throws ContractCallError if the contract would revert (e.g. ROUND_STILL_ACTIVE)
+ * @throws Error if prerequisites not met or a resolution is already pending
+ */
+export async function resolveRound(): Promise<ManagedTransaction> {
+    if (isResolving()) {
+        throw new Error('Round resolution already in progress');
     }
 
     if (!AUCTION_CONTRACT_ADDRESS) {
         throw new Error('Auction contract address not set. AUCTION_CONTRACT_ADDRESS required.');
     }
 
-    // Get wallet client for signing
-    const walletClient = getWalletClient();
-    if (!walletClient) {
-        throw new Error('Wallet client not initialized');
+    resolutionStarting = true;
+    try {
+        // A failed relay or settlement must not stall the auction; the round resolves on public bids
+        try {
+            await relayWinningIntents();
+        } catch (error) {
+            console.error('❌ Bid intent relay failed, resolving without bid intents:', error);
+        }
+
+        try {
+            await settlePendingSealedBids();
+        } catch (error) {
+            console.error('❌ Sealed bid settlement failed, resolving without sealed bids:', error);
+        }
+
+        activeResolution = await writeAuction('resolveRound', 'resolveRound', []);
+    } finally {
+        resolutionStarting = false;
     }
 
-    // Get nonce for the transaction
-    const nonce = await publicClient.getTransactionCount({
-        address: teeAccount.address,
-    });
+    return activeResolution;
+}
 
-    // Build and send transaction
-    const transactionHash = await walletClient.writeContract({
-        address: AUCTION_CONTRACT_ADDRESS,
-        abi: AUCTION_ABI,
-        functionName: 'resolveRound',
-        args: [],
-        account: teeAccount,
-        chain: baseSepolia,
-        nonce,
-    });
+/**
+ * Check whether a round resolution is currently pending
+ */
+export function isResolving(): boolean {
+    if (resolutionStarting) {
+        return true;
+    }
 
-    // Wait for transaction receipt
-    const receipt = await publicClient.waitForTransactionReceipt({
-        hash: transactionHash,
-    });
+    if (!activeResolution) {
+        return false;
+    }
 
-    return {
-        transactionHash,
-        receipt: {
-            blockNumber: receipt.blockNumber.toString(),
-            blockHash: receipt.blockHash,
-            status: receipt.status,
-        },
-    };
+    const current = getTransaction(activeResolution.id);
+    return current !== null && !isFinalStatus(current.status);
 }
 
 /**
  * Check if the current round can be resolved
+ * Why: Judged by the latest block's timestamp, the same clock resolveRound() checks,
+ * using a fresh read so a just-ended round isn't missed because of the cache.
  * 
  * @returns True if round has expired and can be resolved
  */
@@ -95,17 +118,250 @@ export async function canResolveRound(): Promise<boolean> {
     }
 
     try {
-        const currentRoundStart = await publicClient.readContract({
-            address: AUCTION_CONTRACT_ADDRESS,
-            abi: AUCTION_ABI,
-            functionName: 'currentRoundStart' as never,
-        }) as bigint;
-
-        const ROUND_DURATION = 60n; // 60 seconds
-        const now = BigInt(Math.floor(Date.now() / 1000));
-
-        return now >= currentRoundStart + ROUND_DURATION;
+        return (await getAuctionState(0)).canResolve;
     } catch {
         return false;
     }
 }
+
+// ============================================
+// Automatic round resolution scheduler
+// ============================================
+
+/**
+ * Outcome of the last scheduler firing
+ */
+export interface SchedulerResult {
+    status: 'success' | 'failed' | 'skipped';
+    at: string;
+    transactionHash?: `0x${string}`;
+    error?: string;
+}
+
+/**
+ * Scheduler state
+ * Why: Module-level like the rest of the services so GET /scheduler can report on
+ * the single scheduler started from startServer().
+ */
+let schedulerTimer: NodeJS.Timeout | null = null;
+let schedulerRunning = false;
+let nextFireAt: Date | null = null;
+let lastResult: SchedulerResult | null = null;
+let consecutiveFailures = 0;
+let totalFailures = 0;
+
+/**
+ * Start the background round resolution scheduler
+ *
+ * Why: Rounds only advance when the settler calls resolveRound(). Without a
+ * scheduler they stall whenever nobody hits POST /resolveRound. The scheduler
+ * reads the auction state and fires as soon as the round has ended by block time,
+ * plus a small random jitter so several replicas don't fire in lockstep.
+ */
+export function startRoundScheduler(): void {
+    if (!ROUND_SCHEDULER_ENABLED) {
+        console.log('⏸️  Round scheduler disabled (ROUND_SCHEDULER_ENABLED=false)');
+        return;
+    }
+
+    if (schedulerRunning) {
+        return;
+    }
+
+    if (!getTeeSigner() || !getPublicClient() || !AUCTION_CONTRACT_ADDRESS) {
+        console.warn('⚠️  Cannot start round scheduler: TEE account, RPC_URL and AUCTION_CONTRACT_ADDRESS are required');
+        return;
+    }
+
+    schedulerRunning = true;
+    console.log('⏰ Round scheduler started');
+    void scheduleNextRound();
+}
+
+/**
+ * Stop the background round resolution scheduler
+ */
+export function stopRoundScheduler(): void {
+    if (schedulerTimer) {
+        clearTimeout(schedulerTimer);
+        schedulerTimer = null;
+    }
+    schedulerRunning = false;
+    nextFireAt = null;
+}
+
+/**
+ * Get the scheduler status for GET /scheduler
+ */
+export function getSchedulerStatus() {
+    return {
+        enabled: ROUND_SCHEDULER_ENABLED,
+        running: schedulerRunning,
+        resolving: isResolving(),
+        nextFireAt: nextFireAt ? nextFireAt.toISOString() : null,
+        lastResult,
+        consecutiveFailures,
+        totalFailures,
+    };
+}
+
+/**
+ * Arm the timer for the given delay
+ */
+function armTimer(delayMs: number): void {
+    if (!schedulerRunning) {
+        return;
+    }
+
+    if (schedulerTimer) {
+        clearTimeout(schedulerTimer);
+    }
+
+    const delay = Math.max(0, delayMs);
+    nextFireAt = new Date(Date.now() + delay);
+    schedulerTimer = setTimeout(() => {
+        schedulerTimer = null;
+        void fireScheduler();
+    }, delay);
+}
+
+/**
+ * Read the current round and arm the timer for its expiry
+ *
+ * @param minDelayMs - Lower bound for the delay, used when re-checking a round
+ */
+async function scheduleNextRound(minDelayMs = 0): Promise<void> {
+    try {
+        const state = await getAuctionState(0);
+        const jitter = Math.floor(Math.random() * ROUND_SCHEDULER_JITTER_MS);
+
+        armTimer(Math.max(minDelayMs, state.secondsRemaining * 1000 + jitter));
+    } catch (error) {
+        recordFailure(error);
+        armTimer(getBackoffDelay());
+    }
+}
+
+/**
+ * Timer callback: resolve the round, then schedule the next one
+ */
+async function fireScheduler(): Promise<void> {
+    // A manual resolution is already running - check again once it has settled
+    if (isResolving()) {
+        lastResult = { status: 'skipped', at: new Date().toISOString(), error: 'Resolution already in progress' };
+        armTimer(ROUND_SCHEDULER_BACKOFF_MS);
+        return;
+    }
+
+    try {
+        // Blocks may not have caught up with the timer yet; re-read the round and wait if needed
+        if (!(await canResolveRound())) {
+            await scheduleNextRound(1000);
+            return;
+        }
+
+        // Allow time for every fee-bumped replacement before giving up on this attempt
+        const submitted = await resolveRound();
+        const result = await waitForTransaction(submitted.id, TX_REPLACEMENT_TIMEOUT_MS * (TX_MAX_REPLACEMENTS + 2));
+        if (result.status !== 'confirmed') {
+            throw new Error(`resolveRound transaction ${result.status}: ${result.transactionHash ?? result.error}`);
+        }
+
+        consecutiveFailures = 0;
+        lastResult = {
+            status: 'success',
+            at: new Date().toISOString(),
+            transactionHash: result.transactionHash ?? undefined,
+        };
+        console.log(`⏰ Scheduler resolved round: ${result.transactionHash}`);
+
+        await scheduleNextRound();
+    } catch (error) {
+        recordFailure(error);
+        const delay = getBackoffDelay();
+        console.error(`❌ Scheduled round resolution failed (attempt ${consecutiveFailures}), retrying in ${delay}ms:`, error);
+        armTimer(delay);
+    }
+}
+
+/**
+ * Record a failed attempt
+ */
+function recordFailure(error: unknown): void {
+    consecutiveFailures += 1;
+    totalFailures += 1;
+    lastResult = {
+        status: 'failed',
+        at: new Date().toISOString(),
+        error: error instanceof Error ? error.message : String(error),
+    };
+}
+
+/**
+ * Exponential backoff based on the number of consecutive failures
+ */
+function getBackoffDelay(): number {
+    const exponent = Math.max(0, consecutiveFailures - 1);
+    return Math.min(ROUND_SCHEDULER_BACKOFF_MS * 2 ** exponent, ROUND_SCHEDULER_MAX_BACKOFF_MS);
+}
+
+// ============================================
+// Round timer ticks for the live feed
+// ============================================
+
+/**
+ * Cached auction state for ticks
+ * Why: Ticks go out every second; re-reading the state that often would burn RPC
+ * quota. The cache is refreshed every few seconds and whenever the cached round
+ * has ended.
+ */
+let tickState: AuctionState | null = null;
+let tickStateFetchedAt = 0;
+let tickTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start publishing round-timer ticks to the live feed once per second
+ */
+export function startRoundTicker(): void {
+    if (tickTimer || !getPublicClient() || !AUCTION_CONTRACT_ADDRESS) {
+        return;
+    }
+
+    tickTimer = setInterval(() => {
+        void publishTick();
+    }, 1000);
+    tickTimer.unref();
+}
+
+/**
+ * Publish one tick (skipped when no feed clients are connected)
+ */
+async function publishTick(): Promise<void> {
+    if (getFeedClientCount() === 0) {
+        return;
+    }
+
+    const nowSeconds = BigInt(Math.floor(Date.now() / 1000));
+    const roundEnded = tickState !== null && nowSeconds >= tickState.roundEnd;
+
+    if (tickState === null || roundEnded || Date.now() - tickStateFetchedAt > 10000) {
+        try {
+            tickState = await getAuctionState();
+            tickStateFetchedAt = Date.now();
+        } catch {
+            return;
+        }
+    }
+
+    const { currentRoundStart, roundEnd, roundDuration } = tickState;
+    const secondsRemaining = roundEnd > nowSeconds ? Number(roundEnd - nowSeconds) : 0;
+
+    publishFeedEvent('tick', {
+        roundStart: Number(currentRoundStart),
+        roundEnd: Number(roundEnd),
+        roundDuration: Number(roundDuration),
+        secondsRemaining,
+        resolving: isResolving(),
+        nextScheduledResolution: nextFireAt ? nextFireAt.toISOString() : null,
+    }, { replay: false });
+}
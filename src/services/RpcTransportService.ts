@@ -0,0 +1,334 @@
+/**
+ * @file services/RpcTransportService.ts
+ * @description Failover RPC transport with health scoring and latency metrics
+ *
+ * This service spreads the TEE server's JSON-RPC traffic over a list of endpoints.
+ * Requests stick to one active endpoint; when it is rate-limited, returns 5xx,
+ * times out or is unreachable, the request is retried with exponential backoff
+ * against the healthiest remaining endpoint.
+ *
+ * Why this exists:
+ * - A single http(RPC_URL) transport silently stopped event watching and round
+ *   resolution whenever the provider rate-limited or went down
+ * - Public RPCs throttle aggressively; a second endpoint keeps the TEE running
+ * - Per-endpoint metrics make it obvious which provider is misbehaving
+ */
+
+import { Chain, custom, http, keccak256, MethodNotSupportedRpcError, Transport } from 'viem';
+import {
+  RPC_MAX_COOLDOWN_MS,
+  RPC_MAX_RETRIES,
+  RPC_RETRY_BASE_MS,
+  RPC_RETRY_MAX_MS,
+  RPC_TIMEOUT_MS,
+  RPC_URLS,
+} from '../config/constants';
+
+/**
+ * Number of recent latencies kept per endpoint for percentiles
+ */
+const LATENCY_WINDOW = 100;
+
+/**
+ * Weight of the newest request in the success-rate and latency averages
+ */
+const EWMA_ALPHA = 0.2;
+
+/**
+ * Below this success rate the active endpoint is replaced if a better one exists
+ */
+const HEALTH_THRESHOLD = 0.5;
+
+/**
+ * Filter methods are refused when several endpoints are configured
+ * Why: Filters live on the node that created them, so eth_getFilterChanges fails
+ * after a failover. viem's watchers fall back to stateless eth_getLogs polling
+ * when eth_newFilter is unsupported, and any endpoint can answer those.
+ */
+const NODE_LOCAL_METHODS = new Set(['eth_newFilter', 'eth_newBlockFilter', 'eth_newPendingTransactionFilter']);
+
+interface RpcEndpoint {
+  url: string;
+  request: (args: { method: string; params?: unknown }) => Promise<unknown>;
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  /** Exponentially weighted success rate, 0 to 1 */
+  successRate: number;
+  /** Exponentially weighted latency (ms), null until the first response */
+  averageLatencyMs: number | null;
+  latencies: number[];
+  cooldownUntil: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+}
+
+/**
+ * Configured endpoints in order of preference
+ */
+let endpoints: RpcEndpoint[] = [];
+
+/**
+ * Endpoint currently receiving requests
+ */
+let activeEndpoint: RpcEndpoint | null = null;
+
+/**
+ * Hide everything after the host
+ * Why: Provider URLs usually carry an API key in the path or query string.
+ */
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const hasSecret = parsed.pathname.length > 1 || parsed.search.length > 0;
+    return `${parsed.protocol}//${parsed.host}${hasSecret ? '/***' : ''}`;
+  } catch {
+    return '***';
+  }
+}
+
+/**
+ * Health score used to rank endpoints
+ * Why: Combines reliability and speed; an endpoint answering everything in 100ms
+ * scores ~0.9, one failing half its requests or taking 1s scores ~0.5.
+ */
+function getScore(endpoint: RpcEndpoint): number {
+  const latency = endpoint.averageLatencyMs ?? 0;
+  return endpoint.successRate * (1000 / (1000 + latency));
+}
+
+function isCoolingDown(endpoint: RpcEndpoint, now = Date.now()): boolean {
+  return endpoint.cooldownUntil > now;
+}
+
+/**
+ * Pick the endpoint for the next attempt
+ * Why: Stays on the active endpoint while it is healthy to avoid flapping between
+ * providers, otherwise takes the best-scoring endpoint not yet tried for this
+ * request. If everything is cooling down, the one that recovers first is used.
+ */
+function selectEndpoint(tried: Set<RpcEndpoint>): RpcEndpoint {
+  const now = Date.now();
+  const untried = endpoints.filter((endpoint) => !tried.has(endpoint));
+  const pool = untried.length > 0 ? untried : endpoints;
+  const available = pool.filter((endpoint) => !isCoolingDown(endpoint, now));
+
+  let selected: RpcEndpoint;
+  if (activeEndpoint && available.includes(activeEndpoint) && activeEndpoint.successRate >= HEALTH_THRESHOLD) {
+    selected = activeEndpoint;
+  } else if (available.length > 0) {
+    selected = available.reduce((best, endpoint) => (getScore(endpoint) > getScore(best) ? endpoint : best));
+  } else {
+    selected = pool.reduce((soonest, endpoint) => (endpoint.cooldownUntil < soonest.cooldownUntil ? endpoint : soonest));
+  }
+
+  if (selected !== activeEndpoint) {
+    if (activeEndpoint) {
+      console.warn(`🔀 RPC failover: ${redactUrl(activeEndpoint.url)} → ${redactUrl(selected.url)}`);
+    }
+    activeEndpoint = selected;
+  }
+
+  return selected;
+}
+
+/**
+ * Classify an error from an endpoint
+ *
+ * @returns 'rate-limited' or 'unavailable' for errors worth retrying elsewhere,
+ *          null for errors the node returned on purpose (reverts, bad params, ...)
+ */
+function classifyError(error: unknown): 'rate-limited' | 'unavailable' | null {
+  const { name, status, code } = error as { name?: string; status?: number; code?: number };
+
+  if (status === 429 || code === 429 || code === -32005) {
+    return 'rate-limited';
+  }
+  if (name === 'TimeoutError') {
+    return 'unavailable';
+  }
+  if (name === 'HttpRequestError' && (status === undefined || status >= 500)) {
+    return 'unavailable';
+  }
+  return null;
+}
+
+/**
+ * Read a Retry-After header (seconds) from a rate-limit response
+ */
+function getRetryAfterMs(error: unknown): number | null {
+  const headers = (error as { headers?: Headers }).headers;
+  const retryAfter = headers?.get?.('retry-after');
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+function recordLatency(endpoint: RpcEndpoint, latencyMs: number): void {
+  endpoint.averageLatencyMs =
+    endpoint.averageLatencyMs === null ? latencyMs : endpoint.averageLatencyMs * (1 - EWMA_ALPHA) + latencyMs * EWMA_ALPHA;
+  endpoint.latencies.push(latencyMs);
+  if (endpoint.latencies.length > LATENCY_WINDOW) {
+    endpoint.latencies.shift();
+  }
+}
+
+function recordSuccess(endpoint: RpcEndpoint, latencyMs: number): void {
+  endpoint.requests += 1;
+  endpoint.consecutiveFailures = 0;
+  endpoint.successRate = endpoint.successRate * (1 - EWMA_ALPHA) + EWMA_ALPHA;
+  recordLatency(endpoint, latencyMs);
+}
+
+/**
+ * Record a failed request and bench the endpoint for a while
+ * Why: The cooldown doubles with each consecutive failure so a dead provider is
+ * probed less and less often, and honours Retry-After on rate limits.
+ */
+function recordFailure(endpoint: RpcEndpoint, error: unknown, kind: 'rate-limited' | 'unavailable'): void {
+  endpoint.requests += 1;
+  endpoint.failures += 1;
+  endpoint.consecutiveFailures += 1;
+  endpoint.successRate = endpoint.successRate * (1 - EWMA_ALPHA);
+  endpoint.lastError = (error as Error).message?.split('\n')[0] ?? String(error);
+  endpoint.lastErrorAt = Date.now();
+
+  if (kind === 'rate-limited') {
+    endpoint.rateLimited += 1;
+  }
+
+  const backoff = Math.min(RPC_RETRY_BASE_MS * 4 * 2 ** (endpoint.consecutiveFailures - 1), RPC_MAX_COOLDOWN_MS);
+  const cooldown = kind === 'rate-limited' ? Math.max(backoff, getRetryAfterMs(error) ?? 0) : backoff;
+  endpoint.cooldownUntil = Date.now() + Math.min(cooldown, RPC_MAX_COOLDOWN_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Send one JSON-RPC request with failover and retries
+ */
+async function requestWithFailover({ method, params }: { method: string; params?: unknown }): Promise<unknown> {
+  if (endpoints.length > 1 && NODE_LOCAL_METHODS.has(method)) {
+    throw new MethodNotSupportedRpcError(new Error('Filters are disabled when RPC failover is enabled'), { method });
+  }
+
+  const tried = new Set<RpcEndpoint>();
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= RPC_MAX_RETRIES; attempt++) {
+    if (attempt > 0) {
+      await sleep(Math.min(RPC_RETRY_BASE_MS * 2 ** (attempt - 1), RPC_RETRY_MAX_MS));
+    }
+
+    const endpoint = selectEndpoint(tried);
+    tried.add(endpoint);
+
+    const startedAt = Date.now();
+    try {
+      const result = await endpoint.request({ method, params });
+      recordSuccess(endpoint, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      const kind = classifyError(error);
+
+      if (kind === null) {
+        // The node answered; the request itself was rejected
+        recordSuccess(endpoint, Date.now() - startedAt);
+
+        // A retried broadcast may already be in the mempool from the previous attempt
+        if (attempt > 0 && method === 'eth_sendRawTransaction' && /already known/i.test((error as Error).message)) {
+          return keccak256((params as [`0x${string}`])[0]);
+        }
+        throw error;
+      }
+
+      recordFailure(endpoint, error, kind);
+      lastError = error;
+      console.warn(`⚠️  RPC ${method} failed on ${redactUrl(endpoint.url)} (${kind}), attempt ${attempt + 1}/${RPC_MAX_RETRIES + 1}`);
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Create the failover transport shared by the public and wallet clients
+ * Why: Both clients go through the same endpoint list, so a failover triggered by
+ * event polling also protects the next resolveRound() transaction.
+ */
+export function createRpcTransport(chain: Chain): Transport {
+  endpoints = RPC_URLS.map((url) => ({
+    url,
+    request: http(url, { retryCount: 0, timeout: RPC_TIMEOUT_MS })({ chain, retryCount: 0 }).request as RpcEndpoint['request'],
+    requests: 0,
+    failures: 0,
+    rateLimited: 0,
+    consecutiveFailures: 0,
+    successRate: 1,
+    averageLatencyMs: null,
+    latencies: [],
+    cooldownUntil: 0,
+    lastError: null,
+    lastErrorAt: null,
+  }));
+  activeEndpoint = endpoints[0] ?? null;
+
+  // Retries are handled here, so viem's own retry layer is disabled
+  return custom({ request: requestWithFailover }, { key: 'failover', name: 'Failover RPC', retryCount: 0 });
+}
+
+/**
+ * Get the endpoint currently receiving requests (API keys redacted)
+ */
+export function getActiveRpcEndpoint(): string | null {
+  return activeEndpoint ? redactUrl(activeEndpoint.url) : null;
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+/**
+ * Get health and latency metrics for every endpoint
+ *
+ * @returns status 'ok' when the active endpoint is healthy, 'degraded' when some
+ *          endpoints are cooling down or failing, 'down' when all of them are
+ */
+export function getRpcHealth() {
+  const now = Date.now();
+
+  const endpointStats = endpoints.map((endpoint) => ({
+    url: redactUrl(endpoint.url),
+    active: endpoint === activeEndpoint,
+    healthy: !isCoolingDown(endpoint, now) && endpoint.successRate >= HEALTH_THRESHOLD,
+    score: Number(getScore(endpoint).toFixed(3)),
+    successRate: Number(endpoint.successRate.toFixed(3)),
+    requests: endpoint.requests,
+    failures: endpoint.failures,
+    rateLimited: endpoint.rateLimited,
+    consecutiveFailures: endpoint.consecutiveFailures,
+    latencyMs: {
+      average: endpoint.averageLatencyMs !== null ? Math.round(endpoint.averageLatencyMs) : null,
+      p50: percentile(endpoint.latencies, 50),
+      p95: percentile(endpoint.latencies, 95),
+    },
+    cooldownUntil: isCoolingDown(endpoint, now) ? new Date(endpoint.cooldownUntil).toISOString() : null,
+    lastError: endpoint.lastError,
+    lastErrorAt: endpoint.lastErrorAt !== null ? new Date(endpoint.lastErrorAt).toISOString() : null,
+  }));
+
+  const healthyCount = endpointStats.filter((endpoint) => endpoint.healthy).length;
+  const activeHealthy = endpointStats.some((endpoint) => endpoint.active && endpoint.healthy);
+
+  return {
+    status: healthyCount === 0 ? 'down' : activeHealthy && healthyCount === endpoints.length ? 'ok' : 'degraded',
+    activeEndpoint: getActiveRpcEndpoint(),
+    endpoints: endpointStats,
+  };
+}
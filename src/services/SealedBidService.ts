@@ -0,0 +1,471 @@
+/**
+ * @file services/SealedBidService.ts
+ * @description Sealed-bid (commit-reveal) mode coordinated by the TEE
+ *
+ * Public bids show every competitor the current price, which invites sniping in
+ * the last seconds of a round. In sealed mode users encrypt their bid to a key
+ * that only exists inside the TEE. The server stores the ciphertext until the
+ * round closes, then decrypts all bids and settles the second-price outcome
+ * on-chain through Auction.settleSealedBids() before resolving the round.
+ *
+ * Why this exists:
+ * - Nobody, including the operator, sees sealed amounts before settlement
+ * - The winner pays the second-highest price, so bidding one's true value is optimal
+ * - Sealed bids are merged with public bids by the contract, so both modes coexist
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { getAddress, isAddress, isAddressEqual } from 'viem';
+import { AUCTION_ABI } from '../../contracts/src';
+import {
+  AUCTION_CONTRACT_ADDRESS,
+  EVENT_STORE,
+  EVENT_STORE_PATH,
+  SEALED_BIDS_ENABLED,
+  TX_MAX_REPLACEMENTS,
+  TX_REPLACEMENT_TIMEOUT_MS,
+} from '../config/constants';
+import { SealedBidEnvelope, SealedBidStore, StoredSealedBid } from '../types';
+import { getPublicClient } from './BlockchainService';
+import { decryptSealedBid, getSealedBidPublicKey } from './TeeService';
+import { ManagedTransaction, waitForTransaction } from './TransactionManagerService';
+import { writeAuction } from './ContractWriteService';
+
+/**
+ * Decrypted content of a sealed bid
+ */
+interface SealedBidPlaintext {
+  bidder: string;
+  amount: string;
+  forRound: string;
+  salt: string;
+}
+
+/**
+ * Active sealed bid store
+ */
+let sealedBidStore: SealedBidStore | null = null;
+
+/**
+ * Rounds whose sealed bids are being (or have been) settled
+ * Why: Bidding for a round closes the moment settlement starts; a bid accepted
+ * after the bids were read would silently be ignored. A failed settlement reopens it.
+ */
+const closedRounds = new Set<string>();
+
+/**
+ * Initialize the sealed bid store
+ * Why: Uses the same backend and database file as the event store, so sealed bids
+ * survive a restart in the middle of a round.
+ */
+export function initializeSealedBidStore(): void {
+  if (sealedBidStore) {
+    return;
+  }
+
+  if (EVENT_STORE === 'memory') {
+    sealedBidStore = createMemorySealedBidStore();
+  } else if (EVENT_STORE === 'sqlite') {
+    sealedBidStore = createSqliteSealedBidStore(EVENT_STORE_PATH);
+  } else {
+    throw new Error(`Unknown EVENT_STORE backend: ${EVENT_STORE}`);
+  }
+
+  console.log(`✅ Sealed bid store initialized (${EVENT_STORE})`);
+}
+
+const bidKey = (forRound: bigint, bidder: string) => `${forRound}:${bidder}`;
+
+/**
+ * Create an in-memory sealed bid store
+ */
+export function createMemorySealedBidStore(): SealedBidStore {
+  const bids = new Map<string, StoredSealedBid>();
+
+  return {
+    async saveBid(bid) {
+      bids.set(bidKey(bid.forRound, bid.bidder), bid);
+    },
+
+    async getBids(forRound) {
+      return [...bids.values()]
+        .filter((bid) => bid.forRound === forRound)
+        .sort((a, b) => a.submittedAt - b.submittedAt);
+    },
+
+    async markSettled(forRound, results) {
+      for (const result of results) {
+        const bid = bids.get(bidKey(forRound, result.bidder));
+        if (bid) {
+          bids.set(bidKey(forRound, result.bidder), { ...bid, status: result.status, amount: result.amount });
+        }
+      }
+    },
+
+    async close() {
+      bids.clear();
+    },
+  };
+}
+
+/**
+ * Row shape of the sealed_bids table
+ */
+interface SealedBidRow {
+  for_round: string;
+  bidder: string;
+  envelope: string;
+  submitted_at: number;
+  status: StoredSealedBid['status'];
+  amount: string | null;
+}
+
+/**
+ * Create a SQLite-backed sealed bid store
+ *
+ * @param dbPath - Path to the database file (created if missing)
+ */
+export function createSqliteSealedBidStore(dbPath: string): SealedBidStore {
+  fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sealed_bids (
+      for_round TEXT NOT NULL,
+      bidder TEXT NOT NULL,
+      envelope TEXT NOT NULL,
+      submitted_at INTEGER NOT NULL,
+      status TEXT NOT NULL,
+      amount TEXT,
+      PRIMARY KEY (for_round, bidder)
+    );
+  `);
+
+  const upsertBid = db.prepare(`
+    INSERT INTO sealed_bids (for_round, bidder, envelope, submitted_at, status, amount)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(for_round, bidder) DO UPDATE SET
+      envelope = excluded.envelope, submitted_at = excluded.submitted_at, status = excluded.status, amount = excluded.amount
+  `);
+  const selectBids = db.prepare('SELECT * FROM sealed_bids WHERE for_round = ? ORDER BY submitted_at');
+  const updateBid = db.prepare('UPDATE sealed_bids SET status = ?, amount = ? WHERE for_round = ? AND bidder = ?');
+
+  const markMany = db.transaction((forRound: bigint, results: Parameters<SealedBidStore['markSettled']>[1]) => {
+    for (const result of results) {
+      updateBid.run(result.status, result.amount, forRound.toString(), result.bidder);
+    }
+  });
+
+  return {
+    async saveBid(bid) {
+      upsertBid.run(bid.forRound.toString(), bid.bidder, JSON.stringify(bid.envelope), bid.submittedAt, bid.status, bid.amount);
+    },
+
+    async getBids(forRound) {
+      const rows = selectBids.all(forRound.toString()) as SealedBidRow[];
+      return rows.map((row) => ({
+        forRound: BigInt(row.for_round),
+        bidder: row.bidder,
+        envelope: JSON.parse(row.envelope),
+        submittedAt: row.submitted_at,
+        status: row.status,
+        amount: row.amount,
+      }));
+    },
+
+    async markSettled(forRound, results) {
+      markMany(forRound, results);
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+}
+
+/**
+ * Read the current round number from the Auction contract
+ */
+async function readCurrentRound(): Promise<bigint> {
+  const publicClient = getPublicClient();
+  if (!publicClient || !AUCTION_CONTRACT_ADDRESS) {
+    throw new Error('Blockchain client not initialized. RPC_URL required.');
+  }
+
+  return await publicClient.readContract({
+    address: AUCTION_CONTRACT_ADDRESS,
+    abi: AUCTION_ABI,
+    functionName: 'currentRound',
+  }) as bigint;
+}
+
+/**
+ * Read a user's collateral from the Auction contract
+ */
+async function readCollateral(user: `0x${string}`): Promise<bigint> {
+  const publicClient = getPublicClient();
+  if (!publicClient || !AUCTION_CONTRACT_ADDRESS) {
+    throw new Error('Blockchain client not initialized. RPC_URL required.');
+  }
+
+  return await publicClient.readContract({
+    address: AUCTION_CONTRACT_ADDRESS,
+    abi: AUCTION_ABI,
+    functionName: 'userCollateral',
+    args: [user],
+  }) as bigint;
+}
+
+/**
+ * Read the next round's highest bidder as of a block
+ */
+async function readNextRoundLeader(blockNumber: bigint): Promise<`0x${string}`> {
+  const publicClient = getPublicClient();
+  if (!publicClient || !AUCTION_CONTRACT_ADDRESS) {
+    throw new Error('Blockchain client not initialized. RPC_URL required.');
+  }
+
+  return await publicClient.readContract({
+    address: AUCTION_CONTRACT_ADDRESS,
+    abi: AUCTION_ABI,
+    functionName: 'nextRoundHighestBidder',
+    blockNumber,
+  }) as `0x${string}`;
+}
+
+function requireStore(): SealedBidStore {
+  if (!SEALED_BIDS_ENABLED) {
+    throw new Error('Sealed bids are disabled (SEALED_BIDS_ENABLED=false)');
+  }
+  if (!sealedBidStore || !getSealedBidPublicKey()) {
+    throw new Error('Sealed bids not initialized. MNEMONIC or SEALED_BID_KEY required.');
+  }
+  return sealedBidStore;
+}
+
+/**
+ * Check the shape of an envelope received from a client
+ */
+function isEnvelope(value: unknown): value is SealedBidEnvelope {
+  const envelope = value as SealedBidEnvelope;
+  const isHex = (field: unknown) => typeof field === 'string' && /^0x[0-9a-fA-F]+$/.test(field);
+
+  return (
+    typeof envelope === 'object' &&
+    envelope !== null &&
+    envelope.version === 1 &&
+    isHex(envelope.ephemeralPublicKey) &&
+    isHex(envelope.iv) &&
+    envelope.iv.length === 26 &&
+    isHex(envelope.ciphertext)
+  );
+}
+
+/**
+ * Decrypt and parse an envelope
+ *
+ * @throws Error if the envelope can't be decrypted or its content is malformed
+ */
+function openEnvelope(envelope: SealedBidEnvelope): { bidder: `0x${string}`; amount: bigint; forRound: bigint } {
+  let plaintext: SealedBidPlaintext;
+  try {
+    plaintext = JSON.parse(decryptSealedBid(envelope));
+  } catch (error) {
+    throw error instanceof SyntaxError ? new Error('Invalid sealed bid: malformed content') : error;
+  }
+
+  if (
+    !isAddress(plaintext.bidder) ||
+    !/^\d+$/.test(String(plaintext.amount)) ||
+    !/^\d+$/.test(String(plaintext.forRound)) ||
+    typeof plaintext.salt !== 'string'
+  ) {
+    throw new Error('Invalid sealed bid: malformed content');
+  }
+
+  return {
+    bidder: getAddress(plaintext.bidder),
+    amount: BigInt(plaintext.amount),
+    forRound: BigInt(plaintext.forRound),
+  };
+}
+
+/**
+ * Get what clients need to place a sealed bid
+ */
+export async function getSealedBidInfo() {
+  const publicKey = getSealedBidPublicKey();
+  const enabled = SEALED_BIDS_ENABLED && sealedBidStore !== null && publicKey !== null;
+  if (!enabled) {
+    return { enabled, publicKey: null, forRound: null, sealedBidCount: 0, open: false };
+  }
+
+  const forRound = (await readCurrentRound()) + 1n;
+  const bids = await sealedBidStore!.getBids(forRound);
+
+  return {
+    enabled,
+    publicKey,
+    forRound: forRound.toString(),
+    sealedBidCount: bids.length,
+    open: !closedRounds.has(forRound.toString()),
+  };
+}
+
+/**
+ * Accept a sealed bid from an authenticated user
+ * Why: The envelope is decrypted once on arrival so malformed or unaffordable bids
+ * are rejected while the user can still fix them; only the ciphertext is stored.
+ * A new bid from the same user for the same round replaces the previous one.
+ *
+ * @param user - Authenticated wallet address
+ * @throws Error if the bid is invalid, unaffordable or bidding for the round is closed
+ */
+export async function submitSealedBid(user: string, envelope: unknown) {
+  const store = requireStore();
+
+  if (!isEnvelope(envelope)) {
+    throw new Error('Invalid sealed bid: malformed envelope');
+  }
+
+  const bid = openEnvelope(envelope);
+  if (bid.bidder.toLowerCase() !== user.toLowerCase()) {
+    throw new Error('Invalid sealed bid: bidder does not match the authenticated user');
+  }
+  if (bid.amount === 0n) {
+    throw new Error('Invalid sealed bid: amount must be greater than 0');
+  }
+
+  const forRound = (await readCurrentRound()) + 1n;
+  if (bid.forRound !== forRound) {
+    throw new Error(`Invalid sealed bid: bidding is open for round ${forRound}, not ${bid.forRound}`);
+  }
+  if (closedRounds.has(forRound.toString())) {
+    throw new Error(`Sealed bidding for round ${forRound} is closed`);
+  }
+
+  const collateral = await readCollateral(bid.bidder);
+  if (collateral < bid.amount) {
+    throw new Error('Invalid sealed bid: insufficient collateral for bid');
+  }
+
+  const submittedAt = Date.now();
+  await store.saveBid({
+    forRound,
+    bidder: bid.bidder.toLowerCase(),
+    envelope,
+    submittedAt,
+    status: 'sealed',
+    amount: null,
+  });
+
+  console.log(`🔒 Sealed bid received for round ${forRound}`);
+
+  return { forRound: forRound.toString(), status: 'sealed' as const, submittedAt: new Date(submittedAt).toISOString() };
+}
+
+/**
+ * Close bidding for the next round and settle it on-chain
+ * Why: Called by the round resolver right before resolveRound(), so the winner is
+ * crowned by the same resolution. Collateral is re-checked because it may have been
+ * withdrawn since the bid was placed; bids that are no longer covered are dropped.
+ * Results are only recorded once settleSealedBids() is mined, and the winner is the
+ * next round's leader as of that block: a higher public bid beats the sealed one.
+ *
+ * @returns The mined settlement, or null if there was nothing to settle
+ * @throws Error if the settlement reverts or isn't mined in time; the opened bids are
+ *         then marked failed (amounts stay hidden) and bidding for the round reopens
+ */
+export async function settlePendingSealedBids(): Promise<ManagedTransaction | null> {
+  if (!SEALED_BIDS_ENABLED || !sealedBidStore || !getSealedBidPublicKey() || !AUCTION_CONTRACT_ADDRESS) {
+    return null;
+  }
+
+  const forRound = (await readCurrentRound()) + 1n;
+  closedRounds.add(forRound.toString());
+
+  const bids = (await sealedBidStore.getBids(forRound)).filter((bid) => bid.status === 'sealed');
+  if (bids.length === 0) {
+    return null;
+  }
+
+  const valid: { bidder: `0x${string}`; amount: bigint; submittedAt: number }[] = [];
+  const results: Parameters<SealedBidStore['markSettled']>[1] = [];
+
+  for (const stored of bids) {
+    try {
+      const bid = openEnvelope(stored.envelope);
+      if (bid.amount > (await readCollateral(bid.bidder))) {
+        results.push({ bidder: stored.bidder, status: 'invalid', amount: bid.amount.toString() });
+        continue;
+      }
+      valid.push({ bidder: bid.bidder, amount: bid.amount, submittedAt: stored.submittedAt });
+    } catch {
+      results.push({ bidder: stored.bidder, status: 'invalid', amount: null });
+    }
+  }
+
+  // Highest amount wins; ties go to the earliest bid
+  valid.sort((a, b) => (a.amount === b.amount ? a.submittedAt - b.submittedAt : a.amount > b.amount ? -1 : 1));
+
+  if (valid.length === 0) {
+    await sealedBidStore.markSettled(forRound, results);
+    return null;
+  }
+
+  const [winner, runnerUp] = valid;
+  let transaction: ManagedTransaction;
+  try {
+    const submitted = await writeAuction('settleSealedBids', 'settleSealedBids', [
+      winner.bidder,
+      winner.amount,
+      runnerUp?.amount ?? 0n,
+    ]);
+    console.log(`🔓 Settling ${valid.length} sealed bid(s) for round ${forRound}`);
+
+    // Same allowance as the scheduler gives resolveRound(): every fee-bumped replacement
+    transaction = await waitForTransaction(submitted.id, TX_REPLACEMENT_TIMEOUT_MS * (TX_MAX_REPLACEMENTS + 2));
+    if (transaction.status !== 'confirmed' || !transaction.receipt) {
+      throw new Error(`settleSealedBids transaction ${transaction.status}: ${transaction.transactionHash ?? transaction.error}`);
+    }
+  } catch (error) {
+    // The resolver goes on to resolveRound(), after which these bids could never be settled
+    closedRounds.delete(forRound.toString());
+    const failed = valid.map((bid) => ({ bidder: bid.bidder.toLowerCase(), status: 'failed' as const, amount: null }));
+    await sealedBidStore.markSettled(forRound, [...results, ...failed]);
+    console.error(`❌ Sealed bid settlement for round ${forRound} failed; ${failed.length} bid(s) marked failed, bidding reopened`);
+    throw error;
+  }
+
+  const leader = await readNextRoundLeader(BigInt(transaction.receipt.blockNumber));
+  for (const bid of valid) {
+    const won = bid === winner && isAddressEqual(bid.bidder, leader);
+    results.push({ bidder: bid.bidder.toLowerCase(), status: won ? 'won' : 'lost', amount: bid.amount.toString() });
+  }
+
+  await sealedBidStore.markSettled(forRound, results);
+  console.log(`🔓 Sealed bids for round ${forRound} settled, next round leader ${leader}`);
+
+  return transaction;
+}
+
+/**
+ * Get the sealed bids of a settled round with their revealed amounts
+ * Why: Amounts stay hidden until settlement; afterwards anyone can audit the outcome.
+ */
+export async function getSettledSealedBids(forRound: bigint) {
+  const store = requireStore();
+  const bids = await store.getBids(forRound);
+
+  return bids
+    .filter((bid) => bid.status !== 'sealed')
+    .map((bid) => ({
+      bidder: bid.bidder,
+      amount: bid.amount,
+      status: bid.status,
+      submittedAt: new Date(bid.submittedAt).toISOString(),
+    }));
+}
@@ -0,0 +1,371 @@
+/**
+ * @file services/SettlerRotationService.ts
+ * @description Rotates the TEE's settler key without interrupting settlement
+ *
+ * A rotation picks the next key (another HD index of MNEMONIC, or the imported
+ * SETTLER_NEXT_PRIVATE_KEY), proves the server controls it by signing a rotation
+ * statement with both the new and the current key, and prepares
+ * Auction.updateSettler(newKey) for the owner to sign in the admin panel. When
+ * SettlerUpdated names the new key, the transaction queue is drained of the old
+ * key's pending transactions and signing switches over in one step.
+ *
+ * Nothing about a rotation is persisted: at startup the server reads settler()
+ * and, if it isn't the configured key, searches the HD indexes below
+ * SETTLER_KEY_SCAN_LIMIT and SETTLER_NEXT_PRIVATE_KEY for it. The configured
+ * signer is kept after a switch, so rotating back to it works for every backend.
+ *
+ * Why this exists:
+ * - Changing the settler meant editing MNEMONIC and restarting, while the owner
+ *   ran update-settler.sh; rounds resolved in between reverted with "Only settler"
+ * - A restart dropped the old key's in-flight transactions from the manager
+ */
+
+import { getAddress, isAddress, isAddressEqual, verifyMessage } from 'viem';
+import { AUCTION_ABI } from '../../contracts/src';
+import {
+  AUCTION_CONTRACT_ADDRESS,
+  MNEMONIC,
+  SETTLER_DRAIN_TIMEOUT_MS,
+  SETTLER_KEY_SCAN_LIMIT,
+  SETTLER_NEXT_PRIVATE_KEY,
+} from '../config/constants';
+import { SettlerKeySource, SettlerRotation, TeeSigner } from '../types';
+import { prepareAdminAction } from './AdminService';
+import { getPublicClient } from './BlockchainService';
+import { createPrivateKeySigner } from './SignerService';
+import { deriveSettlerSigner, getConfiguredSigner, getTeeAccount, getTeeKeySource, switchTeeAccount } from './TeeService';
+import { drainTransactions } from './TransactionManagerService';
+
+/**
+ * Error with the HTTP status the route should answer with
+ */
+export class SettlerRotationError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SettlerRotationError';
+  }
+}
+
+/**
+ * Latest rotation (null until one is requested)
+ */
+let rotation: SettlerRotation | null = null;
+
+/**
+ * Key of the pending rotation
+ */
+let candidate: TeeSigner | null = null;
+
+/**
+ * Tail of the key switches
+ * Why: SettlerUpdated logs can arrive while the previous switch is still draining.
+ */
+let switchQueue: Promise<void> = Promise.resolve();
+
+let watcherRunning = false;
+
+function describeSource(source: SettlerKeySource): string {
+  switch (source.type) {
+    case 'hd':
+      return `HD index ${source.index}`;
+    case 'privateKey':
+      return 'imported private key';
+    default:
+      return `${source.type} signer`;
+  }
+}
+
+function touch(current: SettlerRotation): void {
+  current.updatedAt = new Date().toISOString();
+}
+
+/**
+ * Statement signed by both keys of a rotation
+ */
+function getRotationMessage(from: `0x${string}`, to: `0x${string}`, issuedAt: string): string {
+  return [
+    'Auction TEE settler key rotation',
+    `Auction: ${AUCTION_CONTRACT_ADDRESS}`,
+    `Current settler key: ${from}`,
+    `New settler key: ${to}`,
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
+
+/**
+ * Key to rotate to, from the request body
+ * - {} or { index }: HD index of MNEMONIC (default: the one after the current key)
+ * - { source: 'privateKey' }: SETTLER_NEXT_PRIVATE_KEY
+ */
+function parseCandidate(body: unknown): TeeSigner {
+  const input = (body ?? {}) as { source?: unknown; index?: unknown };
+
+  if (input.source === 'privateKey') {
+    if (!SETTLER_NEXT_PRIVATE_KEY) {
+      throw new SettlerRotationError(400, 'SETTLER_NEXT_PRIVATE_KEY is not set');
+    }
+    return createPrivateKeySigner(SETTLER_NEXT_PRIVATE_KEY);
+  }
+  if (input.source !== undefined && input.source !== 'hd') {
+    throw new SettlerRotationError(400, "source must be 'hd' or 'privateKey'");
+  }
+  if (!MNEMONIC) {
+    throw new SettlerRotationError(400, "MNEMONIC is not set; rotate with { source: 'privateKey' }");
+  }
+
+  const current = getTeeKeySource();
+  const index = input.index ?? (current?.type === 'hd' ? current.index + 1 : 0);
+  // Restarts only look for the settler below the scan limit
+  if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= SETTLER_KEY_SCAN_LIMIT) {
+    throw new SettlerRotationError(400, `index must be an integer from 0 to ${SETTLER_KEY_SCAN_LIMIT - 1} (SETTLER_KEY_SCAN_LIMIT)`);
+  }
+
+  return deriveSettlerSigner(index);
+}
+
+/**
+ * Find the key behind an address among the keys the server can load
+ */
+function findSettlerKey(address: `0x${string}`): TeeSigner | null {
+  const configured = getConfiguredSigner();
+  if (configured && isAddressEqual(configured.account.address, address)) {
+    return configured;
+  }
+
+  if (candidate && isAddressEqual(candidate.account.address, address)) {
+    return candidate;
+  }
+
+  for (let index = 0; MNEMONIC && index < SETTLER_KEY_SCAN_LIMIT; index++) {
+    const signer = deriveSettlerSigner(index);
+    if (isAddressEqual(signer.account.address, address)) {
+      return signer;
+    }
+  }
+
+  if (SETTLER_NEXT_PRIVATE_KEY) {
+    const signer = createPrivateKeySigner(SETTLER_NEXT_PRIVATE_KEY);
+    if (isAddressEqual(signer.account.address, address)) {
+      return signer;
+    }
+  }
+  return null;
+}
+
+async function readSettler(): Promise<`0x${string}`> {
+  const publicClient = getPublicClient();
+  if (!publicClient || !AUCTION_CONTRACT_ADDRESS) {
+    throw new Error('Blockchain client or contract address missing');
+  }
+  return publicClient.readContract({
+    address: AUCTION_CONTRACT_ADDRESS,
+    abi: AUCTION_ABI,
+    functionName: 'settler',
+  });
+}
+
+// ============================================
+// Rotation
+// ============================================
+
+/**
+ * Start a rotation: prove control of the new key and prepare updateSettler()
+ * Why: Nothing is paused here. The old key keeps settling until SettlerUpdated is
+ * seen, so an owner who is slow to sign doesn't stall the auction.
+ *
+ * @param owner - Auction owner the transaction is prepared for
+ * @param body - Request body, see parseCandidate()
+ * @returns The rotation and the prepared admin action to sign
+ * @throws SettlerRotationError for a bad request or a rotation already in progress;
+ *         ContractCallError if updateSettler() would revert
+ */
+export async function requestSettlerRotation(owner: string, body: unknown) {
+  if (rotation && (rotation.status === 'pending' || rotation.status === 'draining')) {
+    throw new SettlerRotationError(409, `A settler rotation to ${rotation.to} is already ${rotation.status}`);
+  }
+
+  const current = getTeeAccount();
+  if (!current) {
+    throw new SettlerRotationError(503, 'TEE account not initialized. Check SIGNER_BACKEND and its settings.');
+  }
+
+  const next = parseCandidate(body);
+  if (isAddressEqual(next.account.address, current.address)) {
+    throw new SettlerRotationError(400, `${describeSource(next.source)} is already the settler key`);
+  }
+
+  const issuedAt = new Date().toISOString();
+  const message = getRotationMessage(current.address, next.account.address, issuedAt);
+  const newSettlerSignature = await next.account.signMessage({ message });
+  const currentSettlerSignature = await current.signMessage({ message });
+
+  const proven =
+    (await verifyMessage({ address: next.account.address, message, signature: newSettlerSignature }))
+    && (await verifyMessage({ address: current.address, message, signature: currentSettlerSignature }));
+  if (!proven) {
+    throw new SettlerRotationError(500, 'Could not prove control of the new settler key');
+  }
+
+  const prepared = await prepareAdminAction(owner, 'updateSettler', { settler: next.account.address });
+
+  candidate = next;
+  rotation = {
+    status: 'pending',
+    from: current.address,
+    to: next.account.address,
+    source: next.source,
+    proof: { message, newSettlerSignature, currentSettlerSignature },
+    preparedActionId: prepared.id,
+    undrainedTransactions: 0,
+    requestedAt: issuedAt,
+    updatedAt: issuedAt,
+    error: null,
+  };
+
+  console.log(`🔑 Settler rotation prepared: ${current.address} -> ${next.account.address} (${describeSource(next.source)})`);
+
+  return { rotation: { ...rotation }, action: prepared };
+}
+
+/**
+ * Withdraw a rotation the owner hasn't sent yet
+ * Why: If the owner sends the prepared transaction anyway, SettlerUpdated still
+ * switches to the new key (it is found by the key scan).
+ *
+ * @throws SettlerRotationError if there is no pending rotation
+ */
+export function cancelSettlerRotation(): SettlerRotation {
+  if (!rotation || rotation.status !== 'pending') {
+    throw new SettlerRotationError(409, 'No pending settler rotation');
+  }
+
+  rotation.status = 'cancelled';
+  touch(rotation);
+  candidate = null;
+  console.log(`🚫 Settler rotation to ${rotation.to} cancelled`);
+  return { ...rotation };
+}
+
+/**
+ * Drain the old key's transactions and switch to the new key
+ * Why: settler() is read again after the drain, so a second updateSettler() mined
+ * meanwhile doesn't leave the TEE signing with a key the Auction no longer accepts.
+ */
+async function switchToSettler(settler: `0x${string}`): Promise<void> {
+  const current = getTeeAccount();
+  if (current && isAddressEqual(current.address, settler)) {
+    return;
+  }
+
+  const key = findSettlerKey(settler);
+  const active = rotation && isAddressEqual(rotation.to, settler) && rotation.status === 'pending' ? rotation : null;
+
+  if (!key) {
+    if (rotation?.status === 'pending') {
+      rotation.status = 'failed';
+      rotation.error = `Settler was set to ${settler}, not the rotation key`;
+      touch(rotation);
+      candidate = null;
+    }
+    console.warn(`⚠️  Settler is now ${settler}, which is not a key this TEE holds; settler transactions will revert`);
+    return;
+  }
+
+  if (active) {
+    active.status = 'draining';
+    touch(active);
+  }
+
+  const { resume, undrained } = await drainTransactions(SETTLER_DRAIN_TIMEOUT_MS);
+  try {
+    const onChain = await readSettler();
+    if (!isAddressEqual(onChain, settler)) {
+      // A later SettlerUpdated is queued behind this switch and handles the new value
+      if (active) {
+        active.status = 'failed';
+        active.error = `Settler changed again to ${onChain} before the switch`;
+        touch(active);
+        candidate = null;
+      }
+      return;
+    }
+
+    switchTeeAccount(key);
+    if (undrained > 0) {
+      console.warn(`⚠️  ${undrained} transaction(s) from the old settler key still pending after ${SETTLER_DRAIN_TIMEOUT_MS}ms`);
+    }
+
+    if (active) {
+      active.status = 'completed';
+      active.undrainedTransactions = undrained;
+      touch(active);
+      candidate = null;
+    } else if (rotation?.status === 'pending') {
+      rotation.status = 'failed';
+      rotation.error = `Settler was set to ${settler} (${describeSource(key.source)}) instead`;
+      touch(rotation);
+      candidate = null;
+    }
+  } catch (error) {
+    if (active) {
+      active.status = 'failed';
+      active.error = error instanceof Error ? error.message : String(error);
+      touch(active);
+    }
+    console.error('❌ Settler key switch failed:', error);
+  } finally {
+    resume();
+  }
+}
+
+function queueSwitch(settler: `0x${string}`): void {
+  switchQueue = switchQueue
+    .then(() => switchToSettler(settler))
+    .catch((error) => console.error('❌ Settler key switch failed:', error));
+}
+
+/**
+ * Follow the on-chain settler: switch keys now if it already changed, then on SettlerUpdated
+ */
+export async function startSettlerRotationWatcher(): Promise<void> {
+  const publicClient = getPublicClient();
+  if (watcherRunning || !publicClient || !AUCTION_CONTRACT_ADDRESS || !getTeeAccount()) {
+    return;
+  }
+
+  // The key may have been rotated before a restart
+  queueSwitch(await readSettler());
+  await switchQueue;
+
+  publicClient.watchContractEvent({
+    address: AUCTION_CONTRACT_ADDRESS,
+    abi: AUCTION_ABI,
+    eventName: 'SettlerUpdated',
+    onLogs: (logs) => {
+      for (const log of logs) {
+        const newSettler = log.args.newSettler;
+        if (log.removed || !newSettler || !isAddress(newSettler)) {
+          continue;
+        }
+        console.log(`🔑 SettlerUpdated: ${log.args.oldSettler} -> ${newSettler}`);
+        queueSwitch(getAddress(newSettler));
+      }
+    },
+    onError: (error) => {
+      console.error('❌ Settler rotation watcher error:', error);
+    },
+  });
+
+  watcherRunning = true;
+  console.log(`🔑 Settler rotation watcher started (key ${getTeeAccount()!.address}, ${describeSource(getTeeKeySource()!)})`);
+}
+
+/**
+ * Latest rotation for GET /settler and the admin status
+ */
+export function getSettlerRotation(): SettlerRotation | null {
+  return rotation ? { ...rotation } : null;
+}
@@ -0,0 +1,310 @@
+/**
+ * @file services/SignerService.ts
+ * @description Backends that can hold the settler key
+ *
+ * Each backend returns a TeeSigner: the key's source plus a viem account that signs
+ * through the backend. TeeService picks one with SIGNER_BACKEND at startup:
+ * - mnemonic: HD key derived from MNEMONIC (the default, and what EigenCloud injects)
+ * - privateKey: a raw key from the environment
+ * - keystore: a Web3 Secret Storage (v3) JSON file, decrypted once at startup
+ * - remote: a JSON-RPC signer (Web3Signer API) that never hands out the key;
+ *   `npm run signer:mock` runs a local one for development and CI
+ *
+ * Why this exists:
+ * - The settler key was always MNEMONIC from the environment, so CI needed a real
+ *   mnemonic and deployments couldn't keep the key outside the process
+ */
+
+import { createDecipheriv, pbkdf2Sync, scryptSync, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import {
+  bytesToHex,
+  concat,
+  getAddress,
+  getTypesForEIP712Domain,
+  isAddressEqual,
+  keccak256,
+  numberToHex,
+  parseTransaction,
+  recoverMessageAddress,
+  recoverTransactionAddress,
+  recoverTypedDataAddress,
+  serializeTypedData,
+  toHex,
+} from 'viem';
+import type { SignableMessage, TransactionSerializable, TransactionSerialized, TypedDataDomain } from 'viem';
+import { mnemonicToAccount, privateKeyToAccount, toAccount } from 'viem/accounts';
+import { SettlerKeySource, TeeSigner } from '../types';
+
+/**
+ * Transaction fields sent to the remote signer as hex quantities
+ */
+const RPC_QUANTITY_FIELDS = ['chainId', 'nonce', 'gas', 'value', 'gasPrice', 'maxFeePerGas', 'maxPriorityFeePerGas'];
+
+// ============================================
+// Local keys
+// ============================================
+
+/**
+ * Signer for an HD key of a mnemonic (m/44'/60'/0'/0/<index>)
+ */
+export function createMnemonicSigner(mnemonic: string, index: number): TeeSigner {
+  return {
+    source: { type: 'hd', index },
+    account: mnemonicToAccount(mnemonic, { addressIndex: index }),
+  };
+}
+
+/**
+ * Signer for a raw private key
+ *
+ * @param source - Reported source; 'keystore' when the key came out of a keystore file
+ */
+export function createPrivateKeySigner(
+  privateKey: `0x${string}`,
+  source: SettlerKeySource = { type: 'privateKey' }
+): TeeSigner {
+  return { source, account: privateKeyToAccount(privateKey) };
+}
+
+// ============================================
+// Keystore
+// ============================================
+
+interface KeystoreV3 {
+  version: number;
+  address?: string;
+  crypto: {
+    cipher: string;
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: string;
+    kdfparams: {
+      dklen: number;
+      salt: string;
+      // scrypt
+      n?: number;
+      r?: number;
+      p?: number;
+      // pbkdf2
+      c?: number;
+      prf?: string;
+    };
+    mac: string;
+  };
+}
+
+/**
+ * Decrypt a Web3 Secret Storage (v3) keystore, as written by geth, cast and most wallets
+ *
+ * @returns The private key
+ * @throws Error if the file is malformed, uses an unsupported cipher or KDF, or the
+ *         password is wrong
+ */
+export function decryptKeystore(json: string, password: string): `0x${string}` {
+  let keystore: KeystoreV3;
+  try {
+    const parsed = JSON.parse(json) as KeystoreV3 & { Crypto?: KeystoreV3['crypto'] };
+    // geth writes "Crypto", the spec says "crypto"
+    keystore = { ...parsed, crypto: parsed.crypto ?? parsed.Crypto! };
+  } catch {
+    throw new Error('Invalid keystore: not JSON');
+  }
+
+  const { version, crypto } = keystore;
+  if (version !== 3 || !crypto) {
+    throw new Error('Invalid keystore: only version 3 keystores are supported');
+  }
+  if (crypto.cipher !== 'aes-128-ctr') {
+    throw new Error(`Invalid keystore: unsupported cipher ${crypto.cipher}`);
+  }
+
+  const params = crypto.kdfparams;
+  const salt = Buffer.from(params.salt, 'hex');
+  let derivedKey: Buffer;
+  if (crypto.kdf === 'scrypt' && params.n && params.r && params.p) {
+    derivedKey = scryptSync(password.normalize('NFKC'), salt, params.dklen, {
+      N: params.n,
+      r: params.r,
+      p: params.p,
+      // Node's 32 MB default is below what standard keystores (n = 2^18) need
+      maxmem: 256 * params.n * params.r,
+    });
+  } else if (crypto.kdf === 'pbkdf2' && params.c && params.prf === 'hmac-sha256') {
+    derivedKey = pbkdf2Sync(password.normalize('NFKC'), salt, params.c, params.dklen, 'sha256');
+  } else {
+    throw new Error(`Invalid keystore: unsupported kdf ${crypto.kdf}`);
+  }
+
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+  const mac = Buffer.from(keccak256(concat([derivedKey.subarray(16, 32), ciphertext])).slice(2), 'hex');
+  const expectedMac = Buffer.from(crypto.mac, 'hex');
+  if (mac.length !== expectedMac.length || !timingSafeEqual(mac, expectedMac)) {
+    throw new Error('Invalid keystore password');
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'));
+  const privateKey = bytesToHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+
+  if (keystore.address && !isAddressEqual(privateKeyToAccount(privateKey).address, getAddress(`0x${keystore.address.replace(/^0x/, '')}`))) {
+    throw new Error('Invalid keystore: decrypted key does not match its address');
+  }
+  return privateKey;
+}
+
+/**
+ * Signer for a keystore file, unlocked once at startup
+ * Why: The password is only needed here; afterwards the key lives in memory like
+ * the mnemonic backend's, so signing stays synchronous and fast.
+ *
+ * @throws Error if the file can't be read or decrypted
+ */
+export function createKeystoreSigner(keystorePath: string, password: string): TeeSigner {
+  const privateKey = decryptKeystore(fs.readFileSync(keystorePath, 'utf8'), password);
+  return createPrivateKeySigner(privateKey, { type: 'keystore' });
+}
+
+// ============================================
+// Remote signer
+// ============================================
+
+export interface RemoteSignerOptions {
+  /** Bearer token for the signer's Authorization header */
+  token?: string | null;
+  /** Account to sign with (default: the first from eth_accounts) */
+  address?: `0x${string}` | null;
+  timeoutMs: number;
+}
+
+/**
+ * Transaction as sent to eth_signTransaction (hex quantities)
+ */
+export function toRpcTransaction(from: `0x${string}`, transaction: TransactionSerializable): Record<string, string> {
+  const request: Record<string, string> = { from };
+  for (const [key, value] of Object.entries(transaction)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (RPC_QUANTITY_FIELDS.includes(key)) {
+      request[key] = numberToHex(value as bigint | number);
+    } else if (key === 'to' || key === 'data') {
+      request[key] = value as string;
+    }
+  }
+  if (transaction.type === 'eip1559') {
+    request.type = '0x2';
+  }
+  return request;
+}
+
+/**
+ * Name of the first field where a signed transaction differs from the one requested
+ * Why: The recovered address only proves who signed; a compromised or buggy signer
+ * could still return a valid signature over a different recipient, value or nonce.
+ *
+ * @returns The field name, or null when the signed transaction matches the request
+ */
+export function findTransactionMismatch(
+  requested: TransactionSerializable,
+  signed: TransactionSerializable
+): string | null {
+  // viem drops zero values and empty data when parsing, so compare with defaults
+  const quantity = (value: bigint | number | undefined) => BigInt(value ?? 0);
+  const fields: [string, unknown, unknown][] = [
+    ['type', requested.type ?? 'legacy', signed.type ?? 'legacy'],
+    ['chainId', quantity(requested.chainId), quantity(signed.chainId)],
+    ['nonce', quantity(requested.nonce), quantity(signed.nonce)],
+    ['to', requested.to?.toLowerCase() ?? null, signed.to?.toLowerCase() ?? null],
+    ['data', (requested.data ?? '0x').toLowerCase(), (signed.data ?? '0x').toLowerCase()],
+    ['value', quantity(requested.value), quantity(signed.value)],
+    ['gas', quantity(requested.gas), quantity(signed.gas)],
+    ['gasPrice', quantity(requested.gasPrice), quantity(signed.gasPrice)],
+    ['maxFeePerGas', quantity(requested.maxFeePerGas), quantity(signed.maxFeePerGas)],
+    ['maxPriorityFeePerGas', quantity(requested.maxPriorityFeePerGas), quantity(signed.maxPriorityFeePerGas)],
+  ];
+  const mismatch = fields.find(([, expected, actual]) => expected !== actual);
+  return mismatch ? mismatch[0] : null;
+}
+
+/**
+ * Signer backed by a remote JSON-RPC signer
+ * Why: The key never enters this process. Signatures are checked against the
+ * account before use, so a misconfigured signer fails loudly instead of sending
+ * transactions the Auction rejects with "Only settler". Signed transactions are
+ * also parsed and compared with the request, so the signer can't swap their contents.
+ *
+ * @throws Error if the signer can't be reached or doesn't hold the requested account
+ */
+export async function createRemoteSigner(url: string, options: RemoteSignerOptions): Promise<TeeSigner> {
+  let requestId = 0;
+
+  const call = async <T>(method: string, params: unknown[]): Promise<T> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.token) {
+      headers.Authorization = `Bearer ${options.token}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params }),
+      signal: AbortSignal.timeout(options.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Remote signer ${method} returned ${response.status}`);
+    }
+
+    const body = (await response.json()) as { result?: T; error?: { message?: string } };
+    if (body.error || body.result === undefined) {
+      throw new Error(`Remote signer ${method} failed: ${body.error?.message ?? 'no result'}`);
+    }
+    return body.result;
+  };
+
+  const accounts = (await call<string[]>('eth_accounts', [])).map((account) => getAddress(account));
+  const address = options.address ? getAddress(options.address) : accounts[0];
+  if (!address || !accounts.some((account) => isAddressEqual(account, address))) {
+    throw new Error(`Remote signer does not hold ${options.address ?? 'any account'}`);
+  }
+
+  const checkSigner = (recovered: `0x${string}`, what: string) => {
+    if (!isAddressEqual(recovered, address)) {
+      throw new Error(`Remote signer signed the ${what} with ${recovered} instead of ${address}`);
+    }
+  };
+
+  const account = toAccount({
+    address,
+
+    async signMessage({ message }: { message: SignableMessage }) {
+      const data = typeof message === 'string' ? toHex(message) : typeof message.raw === 'string' ? message.raw : bytesToHex(message.raw);
+      const signature = await call<`0x${string}`>('eth_sign', [address, data]);
+      checkSigner(await recoverMessageAddress({ message, signature }), 'message');
+      return signature;
+    },
+
+    async signTransaction(transaction) {
+      const signed = await call<TransactionSerialized>('eth_signTransaction', [toRpcTransaction(address, transaction)]);
+      checkSigner(await recoverTransactionAddress({ serializedTransaction: signed }), 'transaction');
+      const mismatch = findTransactionMismatch(transaction, parseTransaction(signed) as TransactionSerializable);
+      if (mismatch) {
+        throw new Error(`Remote signer changed the transaction's ${mismatch}`);
+      }
+      return signed;
+    },
+
+    async signTypedData(parameters) {
+      // The signer hashes the domain with the types it is sent, so EIP712Domain must be among them
+      const { domain, types } = parameters as { domain?: TypedDataDomain; types: Record<string, unknown> };
+      const typedData = {
+        ...parameters,
+        types: { EIP712Domain: getTypesForEIP712Domain({ domain }), ...types },
+      } as Parameters<typeof serializeTypedData>[0];
+      const signature = await call<`0x${string}`>('eth_signTypedData', [address, serializeTypedData(typedData)]);
+      checkSigner(await recoverTypedDataAddress({ ...typedData, signature }), 'typed data');
+      return signature;
+    },
+  });
+
+  return { source: { type: 'remote' }, account };
+}
@@ -2,8 +2,9 @@
  * @file services/TeeService.ts
  * @description TEE (Trusted Execution Environment) account management service
  * 
- * This service manages the TEE's cryptographic identity derived from a mnemonic phrase.
- * The TEE uses this account to sign transactions on behalf of users (as the settler).
+ * This service manages the TEE's cryptographic identity. The settler key is held by
+ * the signer backend chosen with SIGNER_BACKEND (see SignerService); the TEE uses it
+ * to sign transactions on behalf of users (as the settler).
  * 
  * Why this exists:
  * - Separates TEE account management from route handlers
@@ -12,48 +13,139 @@
  * - Centralizes error handling for account initialization
  */
 
+import { createDecipheriv, createECDH, ECDH, hkdfSync } from 'crypto';
+import fs from 'fs';
+import { hexToBytes } from 'viem';
 import { mnemonicToAccount } from 'viem/accounts';
-import { MNEMONIC } from '../config/constants';
+import type { LocalAccount } from 'viem/accounts';
+import {
+  MNEMONIC,
+  REMOTE_SIGNER_ADDRESS,
+  REMOTE_SIGNER_TIMEOUT_MS,
+  REMOTE_SIGNER_TOKEN,
+  REMOTE_SIGNER_URL,
+  SEALED_BID_KEY,
+  SETTLER_KEY_INDEX,
+  SETTLER_KEYSTORE_PASSWORD,
+  SETTLER_KEYSTORE_PASSWORD_FILE,
+  SETTLER_KEYSTORE_PATH,
+  SETTLER_PRIVATE_KEY,
+  SIGNER_BACKEND,
+} from '../config/constants';
+import { SealedBidEnvelope, SettlerKeySource, TeeSigner } from '../types';
+import { createKeystoreSigner, createMnemonicSigner, createPrivateKeySigner, createRemoteSigner } from './SignerService';
 
 /**
- * TEE account instance
+ * HD path of the key sealed bids are encrypted to
+ * Why: A separate path keeps the settler's signing key out of encryption, while
+ * still deriving the same key on every restart so stored bids stay decryptable.
+ */
+const SEALED_BID_KEY_PATH = "m/44'/60'/1'/0/0";
+
+/**
+ * HKDF info string shared with the frontend encryption helper
+ */
+const SEALED_BID_KDF_INFO = 'auction-sealed-bid-v1';
+
+/**
+ * Active settler signer
  * Why: We store this as a module-level variable so it's initialized once at startup
- * and can be reused throughout the application. The account contains the private key
- * derived from the mnemonic, which is used to sign transactions.
+ * and can be reused throughout the application. Its address is what gets set as
+ * the "settler" on the Auction contract and is publicly visible.
  */
-let teeAccount: ReturnType<typeof mnemonicToAccount> | null = null;
+let teeSigner: TeeSigner | null = null;
 
 /**
- * TEE public key (Ethereum address)
- * Why: The public key is the Ethereum address derived from the mnemonic. This is
- * what gets set as the "settler" on the Escrow contract and is publicly visible.
+ * Signer opened from the SIGNER_BACKEND settings at startup
+ * Why: A rotation replaces teeSigner, and keystore, privateKey and remote keys
+ * can't be derived again, so the owner can still rotate back to this one.
  */
-let teePublicKey: string | null = null;
+let configuredSigner: TeeSigner | null = null;
 
 /**
- * Initialize the TEE account from mnemonic
- * Why: This must be called at application startup to derive the TEE's private key
- * from the mnemonic. Without this, the TEE cannot sign transactions.
- * 
- * @throws Error if mnemonic is invalid or missing
+ * Sealed-bid key pair (P-256)
+ * Why: Never leaves the TEE. Users encrypt bids to its public key so nobody,
+ * including the server operator, can read them before the round closes.
  */
-export function initializeTeeAccount(): void {
-  if (!MNEMONIC) {
-    console.warn('⚠️  MNEMONIC not found - TEE routes will not work');
-    return;
+let sealedBidKey: ECDH | null = null;
+
+/**
+ * Open the signer backend configured by SIGNER_BACKEND
+ *
+ * @returns The signer, or null if the mnemonic backend has no MNEMONIC
+ * @throws Error if the backend is unknown or its settings are missing or wrong
+ */
+async function createConfiguredSigner(): Promise<TeeSigner | null> {
+  switch (SIGNER_BACKEND) {
+    case 'mnemonic':
+      // mnemonicToAccount uses the BIP39/BIP44 standard, so the key matches standard wallet tools
+      return MNEMONIC ? createMnemonicSigner(MNEMONIC, SETTLER_KEY_INDEX) : null;
+
+    case 'privateKey':
+      if (!SETTLER_PRIVATE_KEY) {
+        throw new Error('SIGNER_BACKEND=privateKey requires SETTLER_PRIVATE_KEY');
+      }
+      return createPrivateKeySigner(SETTLER_PRIVATE_KEY);
+
+    case 'keystore': {
+      const password = SETTLER_KEYSTORE_PASSWORD_FILE
+        ? fs.readFileSync(SETTLER_KEYSTORE_PASSWORD_FILE, 'utf8').replace(/\r?\n$/, '')
+        : SETTLER_KEYSTORE_PASSWORD;
+      if (!SETTLER_KEYSTORE_PATH || password === null) {
+        throw new Error('SIGNER_BACKEND=keystore requires SETTLER_KEYSTORE_PATH and SETTLER_KEYSTORE_PASSWORD(_FILE)');
+      }
+      return createKeystoreSigner(SETTLER_KEYSTORE_PATH, password);
+    }
+
+    case 'remote':
+      if (!REMOTE_SIGNER_URL) {
+        throw new Error('SIGNER_BACKEND=remote requires REMOTE_SIGNER_URL');
+      }
+      return createRemoteSigner(REMOTE_SIGNER_URL, {
+        token: REMOTE_SIGNER_TOKEN,
+        address: REMOTE_SIGNER_ADDRESS,
+        timeoutMs: REMOTE_SIGNER_TIMEOUT_MS,
+      });
+
+    default:
+      throw new Error(`Unknown SIGNER_BACKEND: ${SIGNER_BACKEND}`);
   }
+}
 
+/**
+ * Initialize the TEE signer and the sealed-bid key
+ * Why: This must be called at application startup to unlock the settler key.
+ * Without this, the TEE cannot sign transactions.
+ *
+ * @throws Error if the signer backend can't be opened
+ */
+export async function initializeTeeAccount(): Promise<void> {
   try {
-    // Derive account from mnemonic
-    // Why: mnemonicToAccount uses BIP39 standard to derive the private key
-    // This ensures compatibility with standard wallet tools and practices
-    teeAccount = mnemonicToAccount(MNEMONIC);
-    teePublicKey = teeAccount.address;
-    console.log(`✅ TEE account initialized: ${teePublicKey}`);
+    configuredSigner = await createConfiguredSigner();
+    teeSigner = configuredSigner;
   } catch (error) {
-    console.error('❌ Failed to initialize TEE account from mnemonic:', error);
+    console.error(`❌ Failed to initialize TEE signer (${SIGNER_BACKEND}):`, error);
     throw new Error('Failed to initialize TEE account');
   }
+
+  if (teeSigner) {
+    console.log(`✅ TEE account initialized: ${teeSigner.account.address} (${SIGNER_BACKEND})`);
+  } else {
+    console.warn('⚠️  MNEMONIC not found - TEE routes will not work');
+  }
+
+  // Stays on the mnemonic whatever the signer backend, so stored bids remain decryptable
+  if (MNEMONIC) {
+    const seed = mnemonicToAccount(MNEMONIC, { path: SEALED_BID_KEY_PATH }).getHdKey().privateKey;
+    if (!seed) {
+      throw new Error('Failed to derive sealed bid key');
+    }
+    sealedBidKey = deriveSealedBidKey(seed);
+  } else if (SEALED_BID_KEY) {
+    sealedBidKey = deriveSealedBidKey(hexToBytes(SEALED_BID_KEY));
+  } else {
+    console.warn('⚠️  Neither MNEMONIC nor SEALED_BID_KEY set - sealed bids will not work');
+  }
 }
 
 /**
@@ -64,17 +156,109 @@ export function initializeTeeAccount(): void {
  * @returns The TEE's public Ethereum address, or null if not initialized
  */
 export function getTeePublicKey(): string | null {
-  return teePublicKey;
+  return teeSigner?.account.address ?? null;
+}
+
+/**
+ * Get the active settler signer
+ * Why: Services that only need to know whether the TEE can sign, or which backend
+ * holds the key, depend on this interface rather than on a particular backend.
+ *
+ * @returns The signer, or null if not initialized
+ */
+export function getTeeSigner(): TeeSigner | null {
+  return teeSigner;
 }
 
 /**
  * Get the TEE account instance
- * Why: This is used to sign transactions. The account contains the private key
- * needed to sign blockchain transactions.
- * 
+ * Why: This is used to sign transactions. It signs through the active backend,
+ * whether the key is in memory or held by a remote signer.
+ *
  * @returns The TEE account instance, or null if not initialized
  */
-export function getTeeAccount(): ReturnType<typeof mnemonicToAccount> | null {
-  return teeAccount;
+export function getTeeAccount(): LocalAccount | null {
+  return teeSigner?.account ?? null;
 }
 
+/**
+ * Where the active settler key came from
+ */
+export function getTeeKeySource(): SettlerKeySource | null {
+  return teeSigner?.source ?? null;
+}
+
+/**
+ * Get the signer SIGNER_BACKEND opened at startup, whichever key is active now
+ *
+ * @returns The signer, or null if not initialized
+ */
+export function getConfiguredSigner(): TeeSigner | null {
+  return configuredSigner;
+}
+
+/**
+ * Derive a settler key from the mnemonic at an HD address index
+ *
+ * @throws Error if MNEMONIC is not set
+ */
+export function deriveSettlerSigner(index: number): TeeSigner {
+  if (!MNEMONIC) {
+    throw new Error('MNEMONIC not set; HD settler keys are unavailable');
+  }
+  return createMnemonicSigner(MNEMONIC, index);
+}
+
+/**
+ * Make another key the settler signing key
+ * Why: Only the key rotation flow calls this, once the old key's transactions have
+ * drained; every signer reads getTeeAccount() at signing time, so the switch is a
+ * single assignment. The sealed-bid key is derived separately and doesn't change.
+ */
+export function switchTeeAccount(signer: TeeSigner): void {
+  const previous = getTeePublicKey();
+  teeSigner = signer;
+  console.log(`🔁 TEE settler key switched: ${previous} -> ${signer.account.address}`);
+}
+
+/**
+ * Derive the sealed-bid key pair from a 32-byte seed
+ */
+function deriveSealedBidKey(seed: Uint8Array): ECDH {
+  const ecdh = createECDH('prime256v1');
+  ecdh.setPrivateKey(Buffer.from(hkdfSync('sha256', seed, Buffer.alloc(0), 'auction-sealed-bid-key', 32)));
+  return ecdh;
+}
+
+/**
+ * Get the public key sealed bids are encrypted to
+ *
+ * @returns Uncompressed P-256 public key (0x04...), or null if not initialized
+ */
+export function getSealedBidPublicKey(): `0x${string}` | null {
+  return sealedBidKey ? `0x${sealedBidKey.getPublicKey('hex')}` : null;
+}
+
+/**
+ * Decrypt a sealed bid envelope
+ *
+ * @returns The plaintext
+ * @throws Error if the key is not initialized or the envelope can't be decrypted
+ */
+export function decryptSealedBid(envelope: SealedBidEnvelope): string {
+  if (!sealedBidKey) {
+    throw new Error('Sealed bid key not initialized. MNEMONIC or SEALED_BID_KEY required.');
+  }
+
+  try {
+    const shared = sealedBidKey.computeSecret(Buffer.from(envelope.ephemeralPublicKey.slice(2), 'hex'));
+    const key = Buffer.from(hkdfSync('sha256', shared, Buffer.alloc(0), SEALED_BID_KDF_INFO, 32));
+    const data = Buffer.from(envelope.ciphertext.slice(2), 'hex');
+
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv.slice(2), 'hex'));
+    decipher.setAuthTag(data.subarray(data.length - 16));
+    return Buffer.concat([decipher.update(data.subarray(0, data.length - 16)), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('Invalid sealed bid: envelope could not be decrypted');
+  }
+}
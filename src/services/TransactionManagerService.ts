@@ -0,0 +1,558 @@
+/**
+ * @file services/TransactionManagerService.ts
+ * @description Queue, nonce tracking and fee bumping for settler transactions
+ *
+ * Every transaction the TEE sends goes through this service. It hands out nonces
+ * from a local counter, broadcasts transactions one at a time in submission order,
+ * then watches each one until it is mined. A transaction that stays unmined past
+ * TX_REPLACEMENT_TIMEOUT_MS is re-signed with the same nonce and higher EIP-1559
+ * fees. Every broadcast attempt is recorded and exposed through GET /tx/:hash.
+ * A settler key rotation pauses the queue with drainTransactions() until the
+ * old key's transactions are mined.
+ *
+ * Why this exists:
+ * - Reading getTransactionCount before each send let concurrent sends pick the same nonce
+ * - waitForTransactionReceipt had no timeout, so an underpriced transaction hung
+ *   the request that sent it forever
+ * - Callers get a tracking id immediately instead of holding an HTTP request open
+ */
+
+import { randomUUID } from 'crypto';
+import { parseGwei } from 'viem';
+import type { LocalAccount } from 'viem/accounts';
+import {
+  CHAIN_CONFIG,
+  TX_FEE_BUMP_PERCENT,
+  TX_GAS_BUFFER_PERCENT,
+  TX_HISTORY_SIZE,
+  TX_MAX_FEE_PER_GAS_GWEI,
+  TX_MAX_REPLACEMENTS,
+  TX_POLL_INTERVAL_MS,
+  TX_REPLACEMENT_TIMEOUT_MS,
+} from '../config/constants';
+import { getPublicClient, getWalletClient } from './BlockchainService';
+import { getTeeAccount } from './TeeService';
+
+/**
+ * Lifecycle of a managed transaction
+ * - queued: waiting for earlier transactions to be broadcast
+ * - pending: broadcast, not yet mined
+ * - confirmed / reverted: mined with that receipt status
+ * - failed: never broadcast (e.g. gas estimation reverted)
+ * - dropped: the nonce was used by a transaction we didn't send
+ */
+export type TransactionStatus = 'queued' | 'pending' | 'confirmed' | 'reverted' | 'failed' | 'dropped';
+
+/**
+ * One signed broadcast of a transaction (the original or a replacement)
+ */
+export interface TransactionAttempt {
+  hash: `0x${string}` | null;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  sentAt: string;
+  error: string | null;
+}
+
+/**
+ * A settler transaction as returned by GET /tx/:hash
+ */
+export interface ManagedTransaction {
+  id: string;
+  label: string;
+  status: TransactionStatus;
+  /** Settler key that signed it (null until it leaves the queue) */
+  from: `0x${string}` | null;
+  to: `0x${string}`;
+  nonce: number | null;
+  transactionHash: `0x${string}` | null;
+  receipt: {
+    blockNumber: string;
+    blockHash: `0x${string}`;
+    status: 'success' | 'reverted';
+    gasUsed: string;
+    effectiveGasPrice: string;
+  } | null;
+  attempts: TransactionAttempt[];
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Transaction to submit
+ */
+export interface TransactionRequest {
+  /** Short description shown in GET /tx/:hash, e.g. 'resolveRound' */
+  label: string;
+  to: `0x${string}`;
+  data: `0x${string}`;
+  value?: bigint;
+}
+
+/**
+ * Internal record: the public view plus what is needed to re-sign
+ */
+interface TransactionRecord extends ManagedTransaction {
+  request: TransactionRequest;
+  /** Signer of every attempt; a key switch doesn't change it for a sent transaction */
+  account: LocalAccount | null;
+  gas: bigint | null;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  lastSentAt: number;
+  /** Polls that saw the nonce used on-chain without a receipt for any of our hashes */
+  nonceUsedPolls: number;
+}
+
+const FINAL_STATUSES: TransactionStatus[] = ['confirmed', 'reverted', 'failed', 'dropped'];
+
+/**
+ * Recent transactions by id, oldest first
+ */
+const records = new Map<string, TransactionRecord>();
+
+/**
+ * Callers waiting for a transaction to reach a final status
+ */
+const waiters = new Map<string, ((record: ManagedTransaction) => void)[]>();
+
+/**
+ * Next nonce to hand out
+ * Why: Kept locally so queued transactions never race on getTransactionCount.
+ * Reset to null whenever a send fails in a way that may leave it out of sync, so
+ * the next send re-reads the pending count from the chain.
+ */
+let nextNonce: number | null = null;
+
+/**
+ * Tail of the broadcast queue
+ */
+let sendQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Optional cap on maxFeePerGas
+ */
+const MAX_FEE_PER_GAS = TX_MAX_FEE_PER_GAS_GWEI ? parseGwei(TX_MAX_FEE_PER_GAS_GWEI) : null;
+
+function requireClients() {
+  const account = getTeeAccount();
+  if (!account) {
+    throw new Error('TEE account not initialized. Check SIGNER_BACKEND and its settings.');
+  }
+
+  const publicClient = getPublicClient();
+  if (!publicClient) {
+    throw new Error('Blockchain client not initialized. RPC_URL required.');
+  }
+
+  const walletClient = getWalletClient();
+  if (!walletClient) {
+    throw new Error('Wallet client not initialized');
+  }
+
+  return { account, publicClient, walletClient };
+}
+
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? (error as Error & { shortMessage?: string }).shortMessage || error.message : String(error);
+  return message.split('\n')[0];
+}
+
+function touch(record: TransactionRecord): void {
+  record.updatedAt = new Date().toISOString();
+}
+
+/**
+ * Public view of a record (bigints and internal fields stripped)
+ */
+function toView(record: TransactionRecord): ManagedTransaction {
+  return {
+    id: record.id,
+    label: record.label,
+    status: record.status,
+    from: record.account?.address ?? null,
+    to: record.to,
+    nonce: record.nonce,
+    transactionHash: record.transactionHash,
+    receipt: record.receipt,
+    attempts: record.attempts.map((attempt) => ({ ...attempt })),
+    error: record.error,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+/**
+ * Move a record to a final status and wake up waiters
+ */
+function finalize(record: TransactionRecord, status: TransactionStatus, error: string | null = null): void {
+  record.status = status;
+  record.error = error;
+  touch(record);
+
+  const icon = status === 'confirmed' ? '✅' : '❌';
+  console.log(`${icon} Transaction ${record.label} (${record.id}) ${status}${record.transactionHash ? `: ${record.transactionHash}` : ''}${error ? ` - ${error}` : ''}`);
+
+  const view = toView(record);
+  for (const resolve of waiters.get(record.id) ?? []) {
+    resolve(view);
+  }
+  waiters.delete(record.id);
+}
+
+/**
+ * Drop the oldest finished records beyond TX_HISTORY_SIZE
+ */
+function pruneHistory(): void {
+  for (const [id, record] of records) {
+    if (records.size <= TX_HISTORY_SIZE) {
+      break;
+    }
+    if (FINAL_STATUSES.includes(record.status)) {
+      records.delete(id);
+    }
+  }
+}
+
+/**
+ * Sign and broadcast one attempt with the record's current fees
+ *
+ * @returns The transaction hash
+ * @throws The node's error; the attempt is recorded either way
+ */
+async function broadcast(record: TransactionRecord): Promise<`0x${string}`> {
+  const { walletClient } = requireClients();
+  const account = record.account!;
+
+  const attempt: TransactionAttempt = {
+    hash: null,
+    maxFeePerGas: record.maxFeePerGas.toString(),
+    maxPriorityFeePerGas: record.maxPriorityFeePerGas.toString(),
+    sentAt: new Date().toISOString(),
+    error: null,
+  };
+  record.attempts.push(attempt);
+  touch(record);
+
+  try {
+    const hash = await walletClient.sendTransaction({
+      account,
+      chain: CHAIN_CONFIG.chain,
+      to: record.request.to,
+      data: record.request.data,
+      value: record.request.value,
+      nonce: record.nonce!,
+      gas: record.gas!,
+      maxFeePerGas: record.maxFeePerGas,
+      maxPriorityFeePerGas: record.maxPriorityFeePerGas,
+    });
+
+    attempt.hash = hash;
+    record.transactionHash = hash;
+    record.lastSentAt = Date.now();
+    touch(record);
+    return hash;
+  } catch (error) {
+    attempt.error = errorMessage(error);
+    touch(record);
+    throw error;
+  }
+}
+
+/**
+ * Estimate gas and fees, assign a nonce and send the first attempt
+ * Why: Runs inside the send queue so nonces are assigned in submission order.
+ * Gas is estimated before a nonce is taken, so a transaction that would revert
+ * never consumes one. The estimate sees the latest block, not the transactions
+ * still queued ahead of this one, so it gets TX_GAS_BUFFER_PERCENT on top.
+ */
+async function sendFirstAttempt(record: TransactionRecord): Promise<void> {
+  try {
+    const { account, publicClient } = requireClients();
+    record.account = account;
+
+    const estimatedGas = await publicClient.estimateGas({
+      account,
+      to: record.request.to,
+      data: record.request.data,
+      value: record.request.value,
+    });
+    record.gas = (estimatedGas * (100n + TX_GAS_BUFFER_PERCENT)) / 100n;
+
+    const fees = await publicClient.estimateFeesPerGas();
+    record.maxFeePerGas = MAX_FEE_PER_GAS !== null && fees.maxFeePerGas > MAX_FEE_PER_GAS ? MAX_FEE_PER_GAS : fees.maxFeePerGas;
+    record.maxPriorityFeePerGas =
+      fees.maxPriorityFeePerGas > record.maxFeePerGas ? record.maxFeePerGas : fees.maxPriorityFeePerGas;
+
+    if (nextNonce === null) {
+      nextNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' });
+    }
+
+    record.nonce = nextNonce;
+    try {
+      await broadcast(record);
+    } catch (error) {
+      // Someone else used our nonce (another process, or a send we lost track of)
+      if (!/nonce too low/i.test(errorMessage(error))) {
+        throw error;
+      }
+      nextNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' });
+      record.nonce = nextNonce;
+      await broadcast(record);
+    }
+
+    nextNonce = record.nonce + 1;
+    record.status = 'pending';
+    touch(record);
+    console.log(`📤 Transaction ${record.label} (${record.id}) sent with nonce ${record.nonce}: ${record.transactionHash}`);
+
+    setTimeout(() => void monitor(record), TX_POLL_INTERVAL_MS);
+  } catch (error) {
+    nextNonce = null;
+    record.nonce = null;
+    finalize(record, 'failed', errorMessage(error));
+  }
+}
+
+/**
+ * Re-sign a pending transaction with bumped fees
+ * Why: Both fees must rise by at least 10% for nodes to accept a replacement;
+ * the bump also follows the network if its fees rose even more.
+ */
+async function replace(record: TransactionRecord): Promise<void> {
+  const { publicClient } = requireClients();
+  const fees = await publicClient.estimateFeesPerGas();
+
+  const bump = (value: bigint) => (value * (100n + TX_FEE_BUMP_PERCENT)) / 100n;
+  let maxFeePerGas = bump(record.maxFeePerGas) > fees.maxFeePerGas ? bump(record.maxFeePerGas) : fees.maxFeePerGas;
+  let maxPriorityFeePerGas =
+    bump(record.maxPriorityFeePerGas) > fees.maxPriorityFeePerGas ? bump(record.maxPriorityFeePerGas) : fees.maxPriorityFeePerGas;
+
+  if (MAX_FEE_PER_GAS !== null && maxFeePerGas > MAX_FEE_PER_GAS) {
+    maxFeePerGas = MAX_FEE_PER_GAS;
+  }
+  if (maxPriorityFeePerGas > maxFeePerGas) {
+    maxPriorityFeePerGas = maxFeePerGas;
+  }
+
+  // A capped bump below 10% would be rejected anyway
+  if (maxFeePerGas * 10n < record.maxFeePerGas * 11n) {
+    record.lastSentAt = Date.now();
+    record.error = 'Fee cap reached (TX_MAX_FEE_PER_GAS_GWEI); waiting without replacing';
+    touch(record);
+    return;
+  }
+
+  record.maxFeePerGas = maxFeePerGas;
+  record.maxPriorityFeePerGas = maxPriorityFeePerGas;
+
+  try {
+    const hash = await broadcast(record);
+    console.log(`⛽ Transaction ${record.label} (${record.id}) replaced with higher fees: ${hash}`);
+  } catch (error) {
+    // The previous attempt was mined in the meantime; the next poll picks up its receipt
+    if (/nonce too low|already known/i.test(errorMessage(error))) {
+      return;
+    }
+    // Try again at the next deadline
+    record.lastSentAt = Date.now();
+    console.warn(`⚠️  Replacement for ${record.label} (${record.id}) rejected: ${errorMessage(error)}`);
+  }
+}
+
+/**
+ * Poll for a receipt, replacing the transaction when its deadline passes
+ */
+async function monitor(record: TransactionRecord): Promise<void> {
+  try {
+    const { publicClient } = requireClients();
+    const account = record.account!;
+
+    // Any of our attempts may be the one that gets mined
+    for (const attempt of [...record.attempts].reverse()) {
+      if (!attempt.hash) {
+        continue;
+      }
+      try {
+        const receipt = await publicClient.getTransactionReceipt({ hash: attempt.hash });
+        record.transactionHash = attempt.hash;
+        record.receipt = {
+          blockNumber: receipt.blockNumber.toString(),
+          blockHash: receipt.blockHash,
+          status: receipt.status,
+          gasUsed: receipt.gasUsed.toString(),
+          effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+        };
+        finalize(record, receipt.status === 'success' ? 'confirmed' : 'reverted');
+        return;
+      } catch (error) {
+        if ((error as Error).name !== 'TransactionReceiptNotFoundError') {
+          throw error;
+        }
+      }
+    }
+
+    // The nonce was used but none of our hashes were mined: give the receipt a few
+    // polls to show up, then treat the transaction as dropped
+    const minedNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'latest' });
+    if (minedNonce > record.nonce!) {
+      record.nonceUsedPolls += 1;
+      if (record.nonceUsedPolls >= 3) {
+        finalize(record, 'dropped', `Nonce ${record.nonce} was used by another transaction`);
+        return;
+      }
+    } else if (Date.now() - record.lastSentAt >= TX_REPLACEMENT_TIMEOUT_MS && record.attempts.length <= TX_MAX_REPLACEMENTS) {
+      await replace(record);
+    }
+  } catch (error) {
+    console.error(`❌ Failed to check transaction ${record.label} (${record.id}):`, errorMessage(error));
+  }
+
+  setTimeout(() => void monitor(record), TX_POLL_INTERVAL_MS);
+}
+
+/**
+ * Queue a settler transaction
+ * Why: Returns as soon as the transaction is recorded; broadcasting and
+ * confirmation happen in the background. Use the id with getTransaction() or
+ * waitForTransaction(), or GET /tx/:hash over HTTP.
+ *
+ * @returns The queued transaction
+ * @throws Error if the TEE account or blockchain client is not initialized
+ */
+export function submitTransaction(request: TransactionRequest): ManagedTransaction {
+  requireClients();
+
+  const now = new Date().toISOString();
+  const record: TransactionRecord = {
+    id: randomUUID(),
+    label: request.label,
+    status: 'queued',
+    from: null,
+    to: request.to,
+    nonce: null,
+    transactionHash: null,
+    receipt: null,
+    attempts: [],
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    request,
+    account: null,
+    gas: null,
+    maxFeePerGas: 0n,
+    maxPriorityFeePerGas: 0n,
+    lastSentAt: 0,
+    nonceUsedPolls: 0,
+  };
+
+  records.set(record.id, record);
+  pruneHistory();
+
+  sendQueue = sendQueue.then(() => sendFirstAttempt(record));
+
+  return toView(record);
+}
+
+/**
+ * Look up a transaction by tracking id or by the hash of any of its attempts
+ *
+ * @returns The transaction, or null if unknown
+ */
+export function getTransaction(idOrHash: string): ManagedTransaction | null {
+  const byId = records.get(idOrHash);
+  if (byId) {
+    return toView(byId);
+  }
+
+  const hash = idOrHash.toLowerCase();
+  for (const record of records.values()) {
+    if (record.attempts.some((attempt) => attempt.hash?.toLowerCase() === hash)) {
+      return toView(record);
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether a transaction has reached a final status
+ */
+export function isFinalStatus(status: TransactionStatus): boolean {
+  return FINAL_STATUSES.includes(status);
+}
+
+/**
+ * Wait until a transaction is confirmed, reverted, failed or dropped
+ *
+ * @param timeoutMs - Reject if the transaction is still pending after this long
+ * @throws Error if the id is unknown or the timeout elapses
+ */
+export function waitForTransaction(id: string, timeoutMs?: number): Promise<ManagedTransaction> {
+  const record = records.get(id);
+  if (!record) {
+    return Promise.reject(new Error(`Unknown transaction: ${id}`));
+  }
+  if (isFinalStatus(record.status)) {
+    return Promise.resolve(toView(record));
+  }
+
+  return new Promise((resolve, reject) => {
+    const timer =
+      timeoutMs !== undefined
+        ? setTimeout(() => {
+            const pending = waiters.get(id)?.filter((waiter) => waiter !== onFinal) ?? [];
+            waiters.set(id, pending);
+            reject(new Error(`Transaction ${id} still ${record.status} after ${timeoutMs}ms`));
+          }, timeoutMs)
+        : null;
+
+    const onFinal = (view: ManagedTransaction) => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      resolve(view);
+    };
+
+    waiters.set(id, [...(waiters.get(id) ?? []), onFinal]);
+  });
+}
+
+/**
+ * Pause new broadcasts and wait for the pending ones to be mined
+ * Why: The settler key must not change while its transactions are in flight: their
+ * replacements are signed with the key that sent them, and the new key starts
+ * from its own nonce. Transactions submitted meanwhile stay queued until resume()
+ * and are then signed with whatever key is active.
+ *
+ * @param timeoutMs - Stop waiting after this long; undrained transactions keep being
+ *                    monitored (and replaced) with their own key
+ * @returns resume() to reopen the queue, and how many transactions were still pending
+ */
+export async function drainTransactions(timeoutMs: number): Promise<{ resume: () => void; undrained: number }> {
+  let release!: () => void;
+  const gate = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  // Let sends already in the queue go out, then hold everything behind the gate
+  const sent = sendQueue;
+  sendQueue = sendQueue.then(() => gate);
+  await sent;
+
+  const pending = Array.from(records.values()).filter((record) => record.status === 'pending');
+  if (pending.length > 0) {
+    console.log(`⏳ Draining ${pending.length} pending settler transaction(s)...`);
+  }
+  const results = await Promise.allSettled(pending.map((record) => waitForTransaction(record.id, timeoutMs)));
+  const undrained = results.filter((result) => result.status === 'rejected').length;
+
+  return {
+    undrained,
+    resume: () => {
+      // The next send may be from another key
+      nextNonce = null;
+      release();
+    },
+  };
+}
@@ -9,6 +9,7 @@
  */
 
 import { Request } from 'express';
+import type { LocalAccount } from 'viem/accounts';
 
 /**
  * Authenticated request interface
@@ -25,3 +26,368 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
+/**
+ * Auction contract events persisted by the event store
+ */
+export type AuctionEventName =
+  | 'CollateralDeposited'
+  | 'CollateralWithdrawn'
+  | 'BidPlaced'
+  | 'RoundResolved'
+  | 'SealedBidsSettled'
+  | 'LeadershipExpired'
+  | 'RentCollected'
+  | 'HookUpdated';
+
+/**
+ * LeaderFeeHook events persisted by the event store
+ * Why: Stored next to the Auction's events so fee analytics can attribute hook
+ * fees to the round that was being led when they accrued.
+ */
+export type HookEventName = 'LeaderUpdated' | 'FeeUpdated' | 'FeeAccumulated' | 'FeesWithdrawn';
+
+export type TrackedEventName = AuctionEventName | HookEventName;
+
+/**
+ * A decoded Auction (or LeaderFeeHook) log as stored by the event store
+ * Why: Logs are keyed by (blockNumber, logIndex) so the same log can be written
+ * twice (backfill overlap, watcher replay) without double counting. Event args are
+ * kept as strings because uint256 values don't fit in JSON numbers. Log indexes
+ * are unique per block across contracts, so hook logs share the same key space.
+ */
+export interface StoredAuctionEvent {
+  eventName: TrackedEventName;
+  blockNumber: bigint;
+  logIndex: number;
+  blockHash: `0x${string}`;
+  transactionHash: `0x${string}`;
+  /** Block timestamp in seconds (null for events stored before timestamps were recorded) */
+  timestamp: number | null;
+  args: Record<string, string>;
+}
+
+/**
+ * Filter and paging options for querying stored events
+ */
+export interface EventQuery {
+  eventName?: TrackedEventName;
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  /** Inclusive block timestamp bounds (seconds) */
+  fromTimestamp?: number;
+  toTimestamp?: number;
+  /** Exact match on decoded event args (addresses are stored lowercase) */
+  args?: Record<string, string>;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  /** Only return events strictly after this position in the chosen order */
+  after?: { blockNumber: bigint; logIndex: number };
+}
+
+/**
+ * Running totals derived from stored events
+ */
+export interface EventTotals {
+  totalDeposits: bigint;
+  totalWithdrawals: bigint;
+  totalBids: bigint;
+  roundsResolved: number;
+}
+
+/**
+ * Persistence backend for Auction events
+ * Why: The event tracking service only depends on this interface, so the SQLite
+ * default can be swapped for another database (or the in-memory store in dev)
+ * without touching the listener logic.
+ */
+export interface EventStore {
+  /**
+   * Persist events, ignoring ones already stored
+   * @returns The events that were newly inserted
+   */
+  saveEvents(events: StoredAuctionEvent[]): Promise<StoredAuctionEvent[]>;
+
+  /**
+   * Remove every event at or above a block number (used to roll back reorged blocks)
+   * @returns The events that were removed
+   */
+  deleteEventsFrom(blockNumber: bigint): Promise<StoredAuctionEvent[]>;
+
+  /**
+   * Query stored events in (blockNumber, logIndex) order
+   */
+  getEvents(query?: EventQuery): Promise<StoredAuctionEvent[]>;
+
+  /**
+   * Compute running totals from every stored event
+   */
+  getTotals(): Promise<EventTotals>;
+
+  /**
+   * Highest block fully processed, or null if nothing has been processed yet
+   */
+  getLastProcessedBlock(): Promise<bigint | null>;
+  setLastProcessedBlock(blockNumber: bigint): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Source of hardware attestation documents
+ * Why: GET /attestation only depends on this interface, so the Confidential Space
+ * provider used in production can be swapped for the mock one in local testing.
+ */
+export interface AttestationProvider {
+  /** Identifier reported to verifiers, e.g. 'confidential-space' or 'mock' */
+  name: string;
+
+  /**
+   * Get a signed attestation document whose nonce is the given report data
+   *
+   * @param reportData - Hex-encoded SHA-256 binding the settler address and challenge
+   * @returns The document (a JWT for both built-in providers)
+   */
+  getAttestation(reportData: string): Promise<string>;
+}
+
+/**
+ * A bid encrypted to the TEE's sealed-bid key
+ * Why: ECDH on P-256 with an ephemeral key, HKDF-SHA256 and AES-256-GCM, all of
+ * which browsers support natively through WebCrypto. The ciphertext includes the
+ * 16-byte GCM tag at the end, as WebCrypto produces it.
+ */
+export interface SealedBidEnvelope {
+  version: 1;
+  ephemeralPublicKey: `0x${string}`;
+  iv: `0x${string}`;
+  ciphertext: `0x${string}`;
+}
+
+/**
+ * A sealed bid as stored by the sealed bid store
+ * Why: Only the envelope is persisted while bidding is open, so the amounts never
+ * touch disk in plaintext. The amount is filled in once the round is settled.
+ */
+export interface StoredSealedBid {
+  forRound: bigint;
+  bidder: string;
+  envelope: SealedBidEnvelope;
+  submittedAt: number;
+  /** failed: settleSealedBids() reverted or wasn't mined; the bidder can bid again */
+  status: 'sealed' | 'won' | 'lost' | 'invalid' | 'failed';
+  amount: string | null;
+}
+
+/**
+ * Persistence backend for sealed bids
+ */
+export interface SealedBidStore {
+  /**
+   * Insert or replace a bidder's sealed bid for a round
+   */
+  saveBid(bid: StoredSealedBid): Promise<void>;
+
+  /**
+   * Get every bid for a round, oldest first
+   */
+  getBids(forRound: bigint): Promise<StoredSealedBid[]>;
+
+  /**
+   * Record the revealed amount and outcome of each bid once a round is settled
+   */
+  markSettled(forRound: bigint, results: { bidder: string; status: StoredSealedBid['status']; amount: string | null }[]): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * EIP-712 bid intent, mirroring Auction.BidIntent
+ * Why: Users sign intents instead of sending bid transactions; the settler relays
+ * the winning ones through Auction.bidWithIntent(), which checks the signature.
+ */
+export interface BidIntent {
+  bidder: `0x${string}`;
+  amount: bigint;
+  forRound: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface SignedBidIntent {
+  intent: BidIntent;
+  signature: `0x${string}`;
+}
+
+/**
+ * Lifecycle of an intent in the order book
+ * - open: waiting for the round to close
+ * - cancelled / replaced: withdrawn by the bidder, or superseded by their newer intent
+ * - relayed: submitted on-chain by the settler
+ * - outbid / expired / invalid: not relayed when the round closed
+ */
+export type BidIntentStatus = 'open' | 'cancelled' | 'replaced' | 'relayed' | 'outbid' | 'expired' | 'invalid';
+
+export interface StoredBidIntent extends SignedBidIntent {
+  status: BidIntentStatus;
+  submittedAt: number;
+  /** Transaction manager id once relayed */
+  transactionId: string | null;
+}
+
+/**
+ * Ways the LeaderFeeHook can disagree with the Auction
+ * - MISSING_HOOK_UPDATE: a round resolved but the hook emitted no LeaderUpdated
+ * - HOOK_LEADER_MISMATCH: the hook was updated with a different leader than the round winner
+ * - UNEXPECTED_HOOK_UPDATE: the hook changed leader outside a round resolution
+ * - HOOK_CHANGED: the Auction was pointed at another hook (HookUpdated)
+ * - LEADER_MISMATCH: the hook's cached leader or leadership start differs from the Auction's
+ * - LEADERSHIP_EXPIRED: the hook dropped the leader without a new round being resolved
+ */
+export type LeaderAlertType =
+  | 'MISSING_HOOK_UPDATE'
+  | 'HOOK_LEADER_MISMATCH'
+  | 'UNEXPECTED_HOOK_UPDATE'
+  | 'HOOK_CHANGED'
+  | 'LEADER_MISMATCH'
+  | 'LEADERSHIP_EXPIRED';
+
+export interface LeaderAlert {
+  id: number;
+  type: LeaderAlertType;
+  severity: 'warning' | 'critical';
+  message: string;
+  round: string | null;
+  hook: `0x${string}` | null;
+  transactionHash: `0x${string}` | null;
+  details: Record<string, string | number | boolean | null>;
+  detectedAt: string;
+  /** Set once a state divergence (LEADER_MISMATCH, LEADERSHIP_EXPIRED) clears */
+  resolvedAt: string | null;
+}
+
+/**
+ * Owner-only Auction calls the admin API prepares
+ */
+export type AdminAction = 'updateSettler' | 'setHook' | 'withdrawRent';
+
+/**
+ * What happened in an admin request
+ * - prepared: the call simulated successfully and was returned for the owner to sign
+ * - rejected: the call would revert (or had invalid parameters)
+ * - submitted: the owner reported the mined transaction of a prepared call
+ */
+export type AdminAuditEvent = 'prepared' | 'rejected' | 'submitted';
+
+/**
+ * One entry of the admin audit log
+ * Why: Entries are append-only; a submission is a new entry pointing at the prepared
+ * one, so the log shows who asked for what and whether it went on-chain.
+ */
+export interface AdminAuditEntry {
+  id: number;
+  event: AdminAuditEvent;
+  action: AdminAction | null;
+  /** Address of the signed-in user */
+  actor: string;
+  params: Record<string, string>;
+  /** Prepared calldata (prepared entries only) */
+  data: `0x${string}` | null;
+  /** Entry this one follows up on (submitted entries only) */
+  preparedId: number | null;
+  transactionHash: `0x${string}` | null;
+  /** Receipt status of the mined transaction (submitted entries only) */
+  transactionStatus: 'success' | 'reverted' | null;
+  error: string | null;
+  /** Unix milliseconds */
+  createdAt: number;
+}
+
+/**
+ * Persistence backend for the admin audit log
+ */
+export interface AdminAuditStore {
+  /**
+   * Append an entry and return it with its id
+   */
+  append(entry: Omit<AdminAuditEntry, 'id'>): Promise<AdminAuditEntry>;
+
+  getEntry(id: number): Promise<AdminAuditEntry | null>;
+
+  /**
+   * The submitted entry recorded for a prepared one, if any
+   */
+  getSubmission(preparedId: number): Promise<AdminAuditEntry | null>;
+
+  /**
+   * Newest entries first, optionally only those older than an id
+   */
+  getEntries(options: { limit: number; before?: number }): Promise<AdminAuditEntry[]>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Where a settler key comes from
+ * - hd: derived from MNEMONIC at m/44'/60'/0'/0/<index>
+ * - privateKey: SETTLER_PRIVATE_KEY, or SETTLER_NEXT_PRIVATE_KEY after a rotation
+ * - keystore: encrypted JSON keystore at SETTLER_KEYSTORE_PATH
+ * - remote: held by the HTTP signer at REMOTE_SIGNER_URL
+ */
+export type SettlerKeySource =
+  | { type: 'hd'; index: number }
+  | { type: 'privateKey' }
+  | { type: 'keystore' }
+  | { type: 'remote' };
+
+/**
+ * Signer backend selected by SIGNER_BACKEND
+ */
+export type SignerBackend = 'mnemonic' | 'privateKey' | 'keystore' | 'remote';
+
+/**
+ * The settler key, whichever backend holds it
+ * Why: Services sign through this interface only (see getTeeSigner()), so the same
+ * code runs with a mnemonic in dev, a keystore in CI and a remote signer next to
+ * the enclave.
+ */
+export interface TeeSigner {
+  /** Where the key lives; reported by GET /settler */
+  source: SettlerKeySource;
+
+  /**
+   * viem account that signs through the backend; pass it as `account` to viem actions
+   * Why: For the remote backend this is a custom account whose sign calls go over
+   * HTTP, so callers never need to know whether the key is local.
+   */
+  account: LocalAccount;
+}
+
+/**
+ * Progress of a settler key rotation
+ * - pending: the new key is proven and updateSettler() prepared; waiting for the owner
+ * - draining: SettlerUpdated seen; waiting for the old key's transactions to be mined
+ * - completed: the new key signs all settler transactions
+ * - failed: the owner set another settler, or the switch could not be made
+ * - cancelled: withdrawn before SettlerUpdated
+ */
+export type SettlerRotationStatus = 'pending' | 'draining' | 'completed' | 'failed' | 'cancelled';
+
+export interface SettlerRotation {
+  status: SettlerRotationStatus;
+  from: `0x${string}`;
+  to: `0x${string}`;
+  source: SettlerKeySource;
+  /** Statement signed by both keys: the new key proves control, the old one vouches for it */
+  proof: {
+    message: string;
+    newSettlerSignature: `0x${string}`;
+    currentSettlerSignature: `0x${string}`;
+  };
+  /** Admin audit entry of the prepared updateSettler() */
+  preparedActionId: number;
+  /** Old-key transactions still pending when the switch was made (after the drain timeout) */
+  undrainedTransactions: number;
+  requestedAt: string;
+  updatedAt: string;
+  error: string | null;
+}